@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import LoadingScreen from './components/LoadingScreen';
-import ProtectedRoute, { AdminRoute } from './components/ProtectedRoute';
+import ProtectedRoute from './components/ProtectedRoute';
 import { useAuth } from './contexts/AuthContext';
 import { useMonitoring } from './hooks/useMonitoring';
 import { useLocation } from 'react-router-dom';
@@ -10,12 +10,13 @@ import { monitoring } from './services/MonitoringService';
 import MainLayout from './layouts/MainLayout';
 import { ROUTES } from './types/routes';
 import PasswordChangeGuard from './components/PasswordChangeGuard';
+import { Capability } from './utils/permissions';
 
 // Lazy load pages with error boundaries
 const withErrorBoundaryAndSuspense = (
   Component: React.LazyExoticComponent<any>,
   isProtected = false,
-  isAdmin = false,
+  requires: Capability[] = [],
   skipPasswordCheck = false
 ) => {
   const Wrapped = (
@@ -32,12 +33,8 @@ const withErrorBoundaryAndSuspense = (
     </ErrorBoundary>
   );
 
-  if (isAdmin) {
-    return <AdminRoute>{Wrapped}</AdminRoute>;
-  }
-
   if (isProtected) {
-    return <ProtectedRoute>{Wrapped}</ProtectedRoute>;
+    return <ProtectedRoute requires={requires}>{Wrapped}</ProtectedRoute>;
   }
 
   return Wrapped;
@@ -58,6 +55,21 @@ const Privacy = React.lazy(() => import('./pages/Privacy'));
 const NotFound = React.lazy(() => import('./pages/NotFound'));
 const JoinOrganization = React.lazy(() => import('./pages/JoinOrganization'));
 const ChangePassword = React.lazy(() => import('./pages/ChangePassword'));
+const Quizzes = React.lazy(() => import('./pages/Quizzes'));
+const QuizPlayer = React.lazy(() => import('./pages/QuizPlayer'));
+const QuizEditor = React.lazy(() => import('./pages/QuizEditor'));
+const QuestionBank = React.lazy(() => import('./pages/QuestionBank'));
+const StudyMaterials = React.lazy(() => import('./pages/StudyMaterials'));
+const StudyMaterialReader = React.lazy(() => import('./pages/StudyMaterialReader'));
+const StudyMaterialEditor = React.lazy(() => import('./pages/StudyMaterialEditor'));
+const ApprovalQueue = React.lazy(() => import('./pages/ApprovalQueue'));
+const MyProgress = React.lazy(() => import('./pages/MyProgress'));
+const LearningPaths = React.lazy(() => import('./pages/LearningPaths'));
+const LearningPathView = React.lazy(() => import('./pages/LearningPathView'));
+const LearningPathEditor = React.lazy(() => import('./pages/LearningPathEditor'));
+const MyCertificates = React.lazy(() => import('./pages/MyCertificates'));
+const CertificateVerification = React.lazy(() => import('./pages/CertificateVerification'));
+const Analytics = React.lazy(() => import('./pages/Analytics'));
 
 export default function App() {
   const auth = useAuth();
@@ -145,7 +157,7 @@ export default function App() {
           {/* Change password route must be protected but without password check */}
           <Route
             path={ROUTES.CHANGE_PASSWORD}
-            element={withErrorBoundaryAndSuspense(ChangePassword, true, false, true)}
+            element={withErrorBoundaryAndSuspense(ChangePassword, true, [], true)}
           />
 
           {/* Public Routes */}
@@ -163,6 +175,14 @@ export default function App() {
           <Route path={ROUTES.TERMS} element={withErrorBoundaryAndSuspense(Terms)} />
           <Route path={ROUTES.PRIVACY} element={withErrorBoundaryAndSuspense(Privacy)} />
           <Route path="/not-found" element={withErrorBoundaryAndSuspense(NotFound)} />
+          <Route
+            path={ROUTES.CERTIFICATE_LOOKUP}
+            element={withErrorBoundaryAndSuspense(CertificateVerification)}
+          />
+          <Route
+            path={ROUTES.CERTIFICATE_VERIFY}
+            element={withErrorBoundaryAndSuspense(CertificateVerification)}
+          />
           <Route
             path={ROUTES.JOIN_ORGANIZATION}
             element={withErrorBoundaryAndSuspense(JoinOrganization, true)}
@@ -178,6 +198,71 @@ export default function App() {
             path={ROUTES.ORGANIZATION_SETTINGS}
             element={withErrorBoundaryAndSuspense(OrganizationSettings, true)}
           />
+          <Route path={ROUTES.QUIZZES} element={withErrorBoundaryAndSuspense(Quizzes, true)} />
+          <Route
+            path={ROUTES.QUIZ_NEW}
+            element={withErrorBoundaryAndSuspense(QuizEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.QUIZ_PLAYER}
+            element={withErrorBoundaryAndSuspense(QuizPlayer, true)}
+          />
+          <Route
+            path={ROUTES.QUIZ_EDITOR}
+            element={withErrorBoundaryAndSuspense(QuizEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.QUESTION_BANK}
+            element={withErrorBoundaryAndSuspense(QuestionBank, true, ['manage_question_bank'])}
+          />
+          <Route
+            path={ROUTES.STUDY_MATERIALS}
+            element={withErrorBoundaryAndSuspense(StudyMaterials, true)}
+          />
+          <Route
+            path={ROUTES.STUDY_MATERIAL_NEW}
+            element={withErrorBoundaryAndSuspense(StudyMaterialEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.STUDY_MATERIAL}
+            element={withErrorBoundaryAndSuspense(StudyMaterialReader, true)}
+          />
+          <Route
+            path={ROUTES.STUDY_MATERIAL_EDITOR}
+            element={withErrorBoundaryAndSuspense(StudyMaterialEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.APPROVALS}
+            element={withErrorBoundaryAndSuspense(ApprovalQueue, true, ['approve_global_content'])}
+          />
+          <Route
+            path={ROUTES.MY_PROGRESS}
+            element={withErrorBoundaryAndSuspense(MyProgress, true)}
+          />
+          <Route
+            path={ROUTES.LEARNING_PATHS}
+            element={withErrorBoundaryAndSuspense(LearningPaths, true)}
+          />
+          <Route
+            path={ROUTES.LEARNING_PATH_NEW}
+            element={withErrorBoundaryAndSuspense(LearningPathEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.LEARNING_PATH}
+            element={withErrorBoundaryAndSuspense(LearningPathView, true)}
+          />
+          <Route
+            path={ROUTES.LEARNING_PATH_EDITOR}
+            element={withErrorBoundaryAndSuspense(LearningPathEditor, true, ['author_content'])}
+          />
+          <Route
+            path={ROUTES.MY_CERTIFICATES}
+            element={withErrorBoundaryAndSuspense(MyCertificates, true)}
+          />
+          <Route
+            path={ROUTES.ANALYTICS}
+            element={withErrorBoundaryAndSuspense(Analytics, true, ['view_analytics'])}
+          />
 
           {/* Protected Home Route */}
           <Route path={ROUTES.HOME} element={withErrorBoundaryAndSuspense(Home, true)} />
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { useAuditService } from '../contexts/ServiceContext';
+import DataExportDialog from './DataExportDialog';
+import { AuditAction, AuditLogActor, AuditLogRecord } from '../types/database';
+import { AuditLogFilters } from '../services/AuditService';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  auditActorName,
+  describeAuditChange,
+} from '../utils/auditLog';
+import { AUDIT_LOG_COLUMNS } from '../utils/exportColumns';
+import { formatProfileName } from '../utils/profileName';
+import { endOfDay, startOfDay } from '../utils/training';
+
+const PAGE_SIZE = 50;
+
+const actionColor = (action: AuditAction) => {
+  if (action.endsWith('.removed') || action === 'content.deleted') return 'error';
+  if (action.endsWith('.created') || action.endsWith('.joined')) return 'success';
+  return 'default';
+};
+
+/**
+ * The organization's audit log of membership, role, invitation and content
+ * changes, filterable by who made them, what they did and when.
+ */
+export default function AuditLogTab() {
+  const auditService = useAuditService();
+  const [entries, setEntries] = useState<AuditLogRecord[]>([]);
+  const [actors, setActors] = useState<AuditLogActor[]>([]);
+  const [actorId, setActorId] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({
+      actorId: actorId || null,
+      action: action || null,
+      from: fromDate ? startOfDay(fromDate) : null,
+      to: toDate ? endOfDay(toDate) : null,
+    }),
+    [actorId, action, fromDate, toDate]
+  );
+
+  useEffect(() => {
+    const loadActors = async () => {
+      const { data, error } = await auditService.listActors();
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      setActors(data);
+    };
+
+    loadActors();
+  }, [auditService]);
+
+  const loadPage = useCallback(
+    async (pageToLoad: number) => {
+      setLoading(true);
+      const { data, error } = await auditService.listEntries(filters, {
+        page: pageToLoad,
+        limit: PAGE_SIZE,
+      });
+
+      if (error) {
+        setError(error.message);
+      } else {
+        setEntries((prev) => (pageToLoad === 1 ? data : [...prev, ...data]));
+        setPage(pageToLoad);
+        setHasMore(data.length === PAGE_SIZE);
+      }
+      setLoading(false);
+    },
+    [auditService, filters]
+  );
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const fetchExportPage = useCallback(
+    (exportPage: number, limit: number) =>
+      auditService.listEntries(filters, { page: exportPage, limit }),
+    [auditService, filters]
+  );
+
+  const filtered = Boolean(actorId || action || fromDate || toDate);
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Every change to members, region admins, invitations and deleted training is recorded
+        here. Entries cannot be edited or removed.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, my: 2, display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Actor</InputLabel>
+          <Select label="Actor" value={actorId} onChange={(e) => setActorId(e.target.value)}>
+            <MenuItem value="">Anyone</MenuItem>
+            {actors.map((actor) => (
+              <MenuItem key={actor.actor_id} value={actor.actor_id}>
+                {actor.email
+                  ? formatProfileName({ ...actor, email: actor.email })
+                  : 'Former member'}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Action</InputLabel>
+          <Select
+            label="Action"
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+          >
+            <MenuItem value="">All actions</MenuItem>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {AUDIT_ACTION_LABELS[key]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        {filtered && (
+          <Button
+            onClick={() => {
+              setActorId('');
+              setAction('');
+              setFromDate('');
+              setToDate('');
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+        <Button
+          startIcon={<DownloadIcon />}
+          onClick={() => setExportOpen(true)}
+          sx={{ ml: 'auto' }}
+        >
+          Export
+        </Button>
+      </Paper>
+
+      <DataExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        title="Export Audit Log"
+        columns={AUDIT_LOG_COLUMNS}
+        fetchPage={fetchExportPage}
+        fileName="audit-log"
+      >
+        <Typography variant="body2" color="text.secondary">
+          Exports every entry matching the current filters.
+        </Typography>
+      </DataExportDialog>
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Time</TableCell>
+              <TableCell>Actor</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>Target</TableCell>
+              <TableCell>Change</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  {new Date(entry.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell>{auditActorName(entry)}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                    size="small"
+                    color={actionColor(entry.action)}
+                    variant="outlined"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">{entry.target_label ?? '—'}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {AUDIT_TARGET_LABELS[entry.target_type]}
+                  </Typography>
+                </TableCell>
+                <TableCell>{describeAuditChange(entry) || '—'}</TableCell>
+              </TableRow>
+            ))}
+            {!loading && entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    {filtered ? 'No entries match these filters' : 'No actions recorded yet'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        hasMore && (
+          <Box display="flex" justifyContent="center" p={2}>
+            <Button onClick={() => loadPage(page + 1)}>Load more</Button>
+          </Box>
+        )
+      )}
+    </Box>
+  );
+}
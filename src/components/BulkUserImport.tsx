@@ -0,0 +1,338 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Stop as StopIcon,
+  UploadFile as UploadIcon,
+} from '@mui/icons-material';
+import { useServices } from '../hooks/useServices';
+import { useAuth } from '../hooks/useAuth';
+import { ProfileRole, Region } from '../types/database';
+import { ExportColumn, downloadBlob, downloadRows, exportFileName } from '../utils/dataExport';
+import { getAssignableRoles } from '../utils/permissions';
+import { ROLE_LABELS } from '../utils/profileName';
+import { generateTempPassword } from '../utils/tempPassword';
+import { USER_IMPORT_TEMPLATE, UserImportRow, parseUserImport } from '../utils/userImport';
+
+interface Props {
+  organizationId: string;
+  onSuccess?: () => void;
+}
+
+type RowStatus = 'creating' | 'created' | 'failed';
+
+interface RowResult {
+  status: RowStatus;
+  password?: string;
+  error?: string;
+}
+
+type ReportRow = UserImportRow & { result?: RowResult };
+
+const MEMBER_PAGE_SIZE = 1000;
+
+const REPORT_COLUMNS: ExportColumn<ReportRow>[] = [
+  { key: 'line', label: 'Line', value: (row) => row.line },
+  { key: 'email', label: 'Email', value: (row) => row.email },
+  { key: 'first_name', label: 'First name', value: (row) => row.firstName },
+  { key: 'last_name', label: 'Last name', value: (row) => row.lastName },
+  { key: 'role', label: 'Role', value: (row) => (row.role ? ROLE_LABELS[row.role] : null) },
+  { key: 'region', label: 'Region', value: (row) => row.regionName },
+  {
+    key: 'result',
+    label: 'Result',
+    value: (row) =>
+      row.result?.status === 'created'
+        ? 'Created'
+        : row.result?.status === 'failed'
+          ? 'Failed'
+          : 'Skipped',
+  },
+  { key: 'password', label: 'Temporary password', value: (row) => row.result?.password ?? null },
+  {
+    key: 'problems',
+    label: 'Problems',
+    value: (row) => row.result?.error ?? (row.issues.join('; ') || null),
+  },
+];
+
+/**
+ * Creates accounts from a CSV file. Every row is checked and previewed first;
+ * valid rows are then created one at a time with a temporary password, and
+ * the outcome can be downloaded as a report.
+ */
+export default function BulkUserImport({ organizationId, onSuccess }: Props) {
+  const { userService, organizationService, regionService } = useServices();
+  const { profile } = useAuth();
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [existingEmails, setExistingEmails] = useState<Set<string>>(new Set());
+  const [rows, setRows] = useState<UserImportRow[]>([]);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  const allowedRoles = getAssignableRoles(profile);
+
+  useEffect(() => {
+    const loadReferenceData = async () => {
+      try {
+        setLoading(true);
+        const emails = new Set<string>();
+        for (let page = 1; ; page++) {
+          const { data, error } = await organizationService.getOrganizationMembers(
+            organizationId,
+            { page, limit: MEMBER_PAGE_SIZE }
+          );
+          if (error) throw error;
+          data.forEach((member) => emails.add(member.email.toLowerCase()));
+          if (data.length < MEMBER_PAGE_SIZE) break;
+        }
+
+        setExistingEmails(emails);
+        setRegions(await regionService.listRegions(organizationId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load members and regions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReferenceData();
+  }, [organizationId, organizationService, regionService]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setResults({});
+    setFileName(file.name);
+
+    try {
+      setRows(parseUserImport(await file.text(), { regions, existingEmails, allowedRoles }));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const readyRows = rows.filter((row) => row.issues.length === 0 && row.role);
+  const processed = Object.values(results).filter((result) => result.status !== 'creating');
+  const created = processed.filter((result) => result.status === 'created').length;
+  const failed = processed.length - created;
+  const finished = !importing && processed.length > 0;
+
+  const handleImport = async () => {
+    stopRef.current = false;
+    setImporting(true);
+    setError(null);
+
+    for (const row of readyRows) {
+      if (stopRef.current) break;
+      if (results[row.line]?.status === 'created') continue;
+
+      setResults((prev) => ({ ...prev, [row.line]: { status: 'creating' } }));
+      const password = generateTempPassword();
+      const { error } = await userService.createUser({
+        email: row.email,
+        password,
+        role: row.role as ProfileRole,
+        organizationId,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        regionId: row.regionId,
+      });
+
+      setResults((prev) => ({
+        ...prev,
+        [row.line]: error
+          ? { status: 'failed', error: error.message }
+          : { status: 'created', password },
+      }));
+    }
+
+    setImporting(false);
+    onSuccess?.();
+  };
+
+  const handleDownloadReport = async () => {
+    try {
+      await downloadRows({
+        rows: rows.map((row) => ({ ...row, result: results[row.line] })),
+        columns: REPORT_COLUMNS,
+        format: 'csv',
+        fileName: exportFileName('user-import-report'),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the report');
+    }
+  };
+
+  const renderStatus = (row: UserImportRow) => {
+    const result = results[row.line];
+    if (result?.status === 'creating') return <CircularProgress size={16} />;
+    if (result?.status === 'created') return <Chip label="Created" size="small" color="success" />;
+    if (result?.status === 'failed') {
+      return <Chip label={result.error ?? 'Failed'} size="small" color="error" />;
+    }
+    if (row.issues.length === 0) return <Chip label="Ready" size="small" variant="outlined" />;
+
+    return (
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {row.issues.map((issue) => (
+          <Chip key={issue} label={issue} size="small" color="warning" />
+        ))}
+      </Box>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        Upload a CSV with the columns email, first_name, last_name, role and region. Role
+        defaults to user; region must match an existing region name.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={<UploadIcon />}
+          disabled={importing}
+        >
+          {fileName ? 'Choose another file' : 'Choose CSV file'}
+          <input type="file" accept=".csv,text/csv" hidden onChange={handleFile} />
+        </Button>
+        <Button
+          startIcon={<DownloadIcon />}
+          onClick={() =>
+            downloadBlob(
+              new Blob([USER_IMPORT_TEMPLATE], { type: 'text/csv;charset=utf-8' }),
+              'user-import-template.csv'
+            )
+          }
+        >
+          Template
+        </Button>
+      </Box>
+
+      {rows.length > 0 && (
+        <>
+          <Typography variant="subtitle2">
+            {fileName}: {readyRows.length} of {rows.length} users ready to import
+          </Typography>
+
+          <TableContainer sx={{ maxHeight: 400, border: 1, borderColor: 'divider' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Line</TableCell>
+                  <TableCell>Email</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>Region</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>{row.email}</TableCell>
+                    <TableCell>{[row.firstName, row.lastName].filter(Boolean).join(' ')}</TableCell>
+                    <TableCell>{row.role ? ROLE_LABELS[row.role] : '—'}</TableCell>
+                    <TableCell>{row.regionName || '—'}</TableCell>
+                    <TableCell>{renderStatus(row)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {(importing || finished) && (
+            <Box>
+              <LinearProgress
+                variant="determinate"
+                value={readyRows.length ? (processed.length / readyRows.length) * 100 : 0}
+                sx={{ height: 8, borderRadius: 4, mb: 1 }}
+              />
+              <Typography variant="body2" color="text.secondary">
+                {processed.length} of {readyRows.length} processed · {created} created
+                {failed > 0 && ` · ${failed} failed`}
+              </Typography>
+            </Box>
+          )}
+
+          {finished && (
+            <Alert severity="warning">
+              The report lists each new user's temporary password. Share them securely and
+              delete the file afterwards.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {importing ? (
+              <Button
+                variant="outlined"
+                color="warning"
+                startIcon={<StopIcon />}
+                onClick={() => {
+                  stopRef.current = true;
+                }}
+              >
+                Stop after current user
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                onClick={handleImport}
+                disabled={readyRows.length === 0 || created === readyRows.length}
+              >
+                {finished && failed > 0
+                  ? 'Retry failed users'
+                  : `Create ${readyRows.length} user${readyRows.length === 1 ? '' : 's'}`}
+              </Button>
+            )}
+            {finished && (
+              <Button startIcon={<DownloadIcon />} onClick={handleDownloadReport}>
+                Download report
+              </Button>
+            )}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,17 @@
+import React from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { Capability } from '../utils/permissions';
+
+interface CanProps {
+  // Every listed capability is required
+  do: Capability | Capability[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders its children only when the current user has the capabilities
+ */
+export default function Can({ do: required, children, fallback = null }: CanProps) {
+  return <>{usePermission(required) ? children : fallback}</>;
+}
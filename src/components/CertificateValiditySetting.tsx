@@ -0,0 +1,48 @@
+import React from 'react';
+import { Box, FormControlLabel, Switch, TextField } from '@mui/material';
+
+interface CertificateValiditySettingProps {
+  // Months certificates stay valid; null means they never expire
+  value: number | null;
+  onChange: (months: number | null) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_VALID_MONTHS = 12;
+
+/**
+ * Lets recurring compliance training issue certificates that expire and must
+ * be renewed
+ */
+export default function CertificateValiditySetting({
+  value,
+  onChange,
+  disabled,
+}: CertificateValiditySettingProps) {
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={value !== null}
+            onChange={(e) => onChange(e.target.checked ? DEFAULT_VALID_MONTHS : null)}
+            disabled={disabled}
+          />
+        }
+        label="Certificates expire"
+      />
+      {value !== null && (
+        <TextField
+          type="number"
+          label="Valid for (months)"
+          value={value}
+          onChange={(e) => onChange(Math.max(1, Math.round(Number(e.target.value))))}
+          inputProps={{ min: 1 }}
+          sx={{ width: 180 }}
+          disabled={disabled}
+          helperText="Learners renew by passing again"
+        />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { Public as GlobalIcon } from '@mui/icons-material';
+import { useApprovalService } from '../contexts/ServiceContext';
+import { ApprovalContentType, ContentApproval, ContentScope } from '../types/database';
+import { formatProfileName } from '../utils/profileName';
+
+interface ContentApprovalPanelProps {
+  contentType: ApprovalContentType;
+  contentId: string;
+  scope: ContentScope;
+  pendingApproval: boolean;
+  // Only published content can be submitted
+  published: boolean;
+  // Submitting needs the latest changes saved first
+  disabled?: boolean;
+  onSubmitted: (approval: ContentApproval) => void;
+}
+
+/**
+ * Shows where a quiz or study material stands in the global approval
+ * workflow and lets regional content be submitted for promotion.
+ */
+export default function ContentApprovalPanel({
+  contentType,
+  contentId,
+  scope,
+  pendingApproval,
+  published,
+  disabled = false,
+  onSubmitted,
+}: ContentApprovalPanelProps) {
+  const approvalService = useApprovalService();
+  const [latest, setLatest] = useState<ContentApproval | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadApprovals = async () => {
+      const { data } = await approvalService.listContentApprovals(contentType, contentId);
+      setLatest(data[0] || null);
+    };
+
+    loadApprovals();
+  }, [contentType, contentId, pendingApproval, approvalService]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    const { data, error } = await approvalService.submitForApproval(
+      contentType,
+      contentId,
+      note
+    );
+
+    setSubmitting(false);
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to submit for approval');
+      return;
+    }
+
+    setLatest(data);
+    setDialogOpen(false);
+    setNote('');
+    onSubmitted(data);
+  };
+
+  // Global content that never went through the workflow needs no panel
+  if (scope === 'global' && !latest) {
+    return null;
+  }
+
+  const canSubmit = scope === 'regional' && !pendingApproval;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {pendingApproval ? (
+        <Alert severity="info">
+          Submitted for global approval
+          {latest?.status === 'pending' &&
+            ` by ${formatProfileName(latest.submitter)} on ${new Date(
+              latest.created_at
+            ).toLocaleDateString()}`}
+          . Learners won't see it until a reviewer decides.
+        </Alert>
+      ) : latest?.status === 'rejected' ? (
+        <Alert severity="warning">
+          Global approval was declined by {formatProfileName(latest.reviewer)}
+          {latest.reviewed_at && ` on ${new Date(latest.reviewed_at).toLocaleDateString()}`}:{' '}
+          {latest.review_comment}
+        </Alert>
+      ) : latest?.status === 'approved' && scope === 'global' ? (
+        <Alert severity="success">
+          Approved for the whole organization by {formatProfileName(latest.reviewer)}
+          {latest.reviewed_at && ` on ${new Date(latest.reviewed_at).toLocaleDateString()}`}.
+        </Alert>
+      ) : null}
+
+      {canSubmit && (
+        <Box>
+          <Button
+            variant="outlined"
+            startIcon={<GlobalIcon />}
+            onClick={() => setDialogOpen(true)}
+            disabled={disabled || !published}
+          >
+            Submit for Global Approval
+          </Button>
+        </Box>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Submit for global approval</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            Once approved, this content will be available to everyone in the organization
+            instead of only this region.
+          </DialogContentText>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Note for reviewers"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={submitting}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+            {submitting ? <CircularProgress size={24} /> : 'Submit'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
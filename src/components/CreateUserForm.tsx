@@ -20,6 +20,8 @@ import {
   Tooltip,
   Divider,
   Chip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import { useServices } from '../hooks/useServices';
 import { useAuth } from '../hooks/useAuth';
@@ -31,6 +33,10 @@ import {
   Check as CheckIcon,
 } from '@mui/icons-material';
 import RegionSelect from './RegionSelect';
+import BulkUserImport from './BulkUserImport';
+import { getAssignableRoles } from '../utils/permissions';
+import { ROLE_LABELS } from '../utils/profileName';
+import { generateTempPassword } from '../utils/tempPassword';
 
 interface Props {
   organizationId: string;
@@ -85,20 +91,10 @@ function getStrengthLabel(strength: number): string {
   return 'Strong';
 }
 
-function generateTempPassword() {
-  const length = 12;
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-  let password = '';
-  for (let i = 0; i < length; i++) {
-    const randomIndex = Math.floor(Math.random() * charset.length);
-    password += charset[randomIndex];
-  }
-  return password;
-}
-
 export default function CreateUserForm({ organizationId, onSuccess }: Props) {
   const { userService } = useServices();
   const { profile } = useAuth();
+  const [mode, setMode] = useState<'single' | 'import'>('single');
   const [formData, setFormData] = useState<FormData>({
     email: '',
     firstName: '',
@@ -200,6 +196,28 @@ export default function CreateUserForm({ organizationId, onSuccess }: Props) {
     };
   }, []);
 
+  const modeToggle = (
+    <ToggleButtonGroup
+      exclusive
+      size="small"
+      value={mode}
+      onChange={(_, value) => value && setMode(value)}
+      disabled={isLoading}
+    >
+      <ToggleButton value="single">Single user</ToggleButton>
+      <ToggleButton value="import">Import CSV</ToggleButton>
+    </ToggleButtonGroup>
+  );
+
+  if (mode === 'import') {
+    return (
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, width: '100%' }}>
+        <Box>{modeToggle}</Box>
+        <BulkUserImport organizationId={organizationId} onSuccess={onSuccess} />
+      </Box>
+    );
+  }
+
   return (
     <Box
       component="form"
@@ -212,6 +230,8 @@ export default function CreateUserForm({ organizationId, onSuccess }: Props) {
         maxWidth: 400,
       }}
     >
+      <Box>{modeToggle}</Box>
+
       {error && (
         <Alert severity="error" onClose={() => setError(null)}>
           {error}
@@ -383,25 +403,18 @@ export default function CreateUserForm({ organizationId, onSuccess }: Props) {
           label="Role"
           disabled={isLoading}
         >
-          {profile?.role === 'super_admin' && <MenuItem value="super_admin">Super Admin</MenuItem>}
-          <MenuItem value="admin">Admin</MenuItem>
-          <MenuItem value="primary_admin">
-            <Box sx={{ display: 'flex', alignItems: 'center' }}>
-              Primary Admin
-              <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
-                (requires region)
-              </Typography>
-            </Box>
-          </MenuItem>
-          <MenuItem value="secondary_admin">
-            <Box sx={{ display: 'flex', alignItems: 'center' }}>
-              Secondary Admin
-              <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
-                (requires region)
-              </Typography>
-            </Box>
-          </MenuItem>
-          <MenuItem value="user">User</MenuItem>
+          {getAssignableRoles(profile).map((role) => (
+            <MenuItem key={role} value={role}>
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                {ROLE_LABELS[role]}
+                {isRegionalRole(role) && (
+                  <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                    (requires region)
+                  </Typography>
+                )}
+              </Box>
+            </MenuItem>
+          ))}
         </Select>
         <FormHelperText>Select the user's role in the organization</FormHelperText>
       </FormControl>
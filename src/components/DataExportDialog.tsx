@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  ExportColumn,
+  ExportFormat,
+  FetchExportPage,
+  exportFileName,
+  exportInPages,
+} from '../utils/dataExport';
+
+interface DataExportDialogProps<T> {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  columns: ExportColumn<T>[];
+  fetchPage: FetchExportPage<T>;
+  // File name prefix; today's date and the extension are appended
+  fileName: string;
+  // Filters specific to this export, shown above the column choices
+  children?: React.ReactNode;
+}
+
+const defaultColumnKeys = <T,>(columns: ExportColumn<T>[]) =>
+  columns.filter((column) => column.defaultSelected !== false).map((column) => column.key);
+
+/**
+ * Lets an admin choose a format and columns, then downloads the report page by
+ * page so large organizations don't hit request timeouts
+ */
+export default function DataExportDialog<T>({
+  open,
+  onClose,
+  title,
+  columns,
+  fetchPage,
+  fileName,
+  children,
+}: DataExportDialogProps<T>) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => defaultColumnKeys(columns));
+  const [exporting, setExporting] = useState(false);
+  const [rowsWritten, setRowsWritten] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  // Bumped to cancel the export in progress
+  const runRef = useRef(0);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setSuccess(null);
+    }
+  }, [open]);
+
+  const handleClose = () => {
+    runRef.current += 1;
+    setExporting(false);
+    onClose();
+  };
+
+  const toggleColumn = (key: string) => {
+    setSelectedKeys((keys) =>
+      keys.includes(key) ? keys.filter((selected) => selected !== key) : [...keys, key]
+    );
+  };
+
+  const handleExport = async () => {
+    const run = ++runRef.current;
+    setExporting(true);
+    setRowsWritten(0);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const total = await exportInPages({
+        fetchPage,
+        columns: columns.filter((column) => selectedKeys.includes(column.key)),
+        format,
+        fileName: exportFileName(fileName),
+        onProgress: setRowsWritten,
+        isCancelled: () => runRef.current !== run,
+      });
+
+      if (total !== null) {
+        setSuccess(`Exported ${total} row${total === 1 ? '' : 's'}`);
+      }
+    } catch (err) {
+      if (runRef.current === run) {
+        setError(err instanceof Error ? err.message : 'Failed to export');
+      }
+    } finally {
+      if (runRef.current === run) setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {children && <Box sx={{ display: 'grid', gap: 2, mt: 1, mb: 2 }}>{children}</Box>}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Format
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={format}
+          onChange={(_, value: ExportFormat | null) => value && setFormat(value)}
+          disabled={exporting}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="csv">CSV</ToggleButton>
+          <ToggleButton value="xlsx">Excel</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="subtitle2">Columns</Typography>
+          <Box>
+            <Button
+              size="small"
+              onClick={() => setSelectedKeys(columns.map((column) => column.key))}
+              disabled={exporting}
+            >
+              All
+            </Button>
+            <Button size="small" onClick={() => setSelectedKeys([])} disabled={exporting}>
+              None
+            </Button>
+          </Box>
+        </Box>
+        <FormGroup sx={{ display: 'grid', gridTemplateColumns: { sm: '1fr 1fr' } }}>
+          {columns.map((column) => (
+            <FormControlLabel
+              key={column.key}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={selectedKeys.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  disabled={exporting}
+                />
+              }
+              label={column.label}
+            />
+          ))}
+        </FormGroup>
+      </DialogContent>
+      <DialogActions>
+        {exporting && (
+          <Typography variant="body2" color="text.secondary" sx={{ mr: 'auto', ml: 2 }}>
+            {rowsWritten} rows fetched…
+          </Typography>
+        )}
+        <Button onClick={handleClose}>{exporting ? 'Cancel' : 'Close'}</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={exporting || selectedKeys.length === 0}
+        >
+          {exporting ? <CircularProgress size={24} /> : 'Export'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
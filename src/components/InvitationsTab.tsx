@@ -0,0 +1,455 @@
+import React, { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  FormControl,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Cancel as CancelIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+  Send as SendIcon,
+} from '@mui/icons-material';
+import { useOrganizationService } from '../contexts/ServiceContext';
+import { useAuth } from '../hooks/useAuth';
+import JoinLinks from './JoinLinks';
+import RegionSelect from './RegionSelect';
+import { InvitationStatus, InvitationSummary, ProfileRole } from '../types/database';
+import { AUDIT_ACTION_LABELS, auditActorName } from '../utils/auditLog';
+import {
+  INVITATION_STATUS_COLORS,
+  INVITATION_STATUS_LABELS,
+  MAX_BULK_INVITES,
+  parseEmailList,
+} from '../utils/invitations';
+import { getAssignableRoles } from '../utils/permissions';
+import { ROLE_LABELS } from '../utils/profileName';
+import { isRegionalRole } from '../utils/userImport';
+
+interface Props {
+  organizationId: string;
+}
+
+interface InviteFailure {
+  email: string;
+  error: string;
+}
+
+const MEMBER_PAGE_SIZE = 1000;
+
+/**
+ * Sends invitations to a pasted list of addresses and lists every invitation
+ * with its history. Pending and expired invitations can be resent with a new
+ * link; pending ones can be cancelled. Shareable join links are managed below.
+ */
+export default function InvitationsTab({ organizationId }: Props) {
+  const organizationService = useOrganizationService();
+  const { profile } = useAuth();
+  const [invitations, setInvitations] = useState<InvitationSummary[]>([]);
+  const [memberEmails, setMemberEmails] = useState<Set<string>>(new Set());
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | ''>('pending');
+  const [emailText, setEmailText] = useState('');
+  const [role, setRole] = useState<ProfileRole>('user');
+  const [regionId, setRegionId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<InviteFailure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const allowedRoles = getAssignableRoles(profile);
+
+  const loadInvitations = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await organizationService.listInvitations(statusFilter || null);
+    if (error) {
+      setError(error.message);
+    } else {
+      setInvitations(data ?? []);
+    }
+    setLoading(false);
+  }, [organizationService, statusFilter]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  useEffect(() => {
+    const loadMemberEmails = async () => {
+      const emails = new Set<string>();
+      for (let page = 1; ; page++) {
+        const { data, error } = await organizationService.getOrganizationMembers(organizationId, {
+          page,
+          limit: MEMBER_PAGE_SIZE,
+        });
+        if (error) {
+          setError(error.message);
+          return;
+        }
+        data.forEach((member) => emails.add(member.email.toLowerCase()));
+        if (data.length < MEMBER_PAGE_SIZE) break;
+      }
+      setMemberEmails(emails);
+    };
+
+    loadMemberEmails();
+  }, [organizationId, organizationService]);
+
+  const parsed = useMemo(() => parseEmailList(emailText), [emailText]);
+  const alreadyMembers = parsed.emails.filter((email) => memberEmails.has(email));
+  const toInvite = parsed.emails.filter((email) => !memberEmails.has(email));
+  const sending = progress !== null && progress.done < progress.total;
+  const regionMissing = isRegionalRole(role) && !regionId;
+
+  const handleSend = async () => {
+    if (toInvite.length > MAX_BULK_INVITES) {
+      setError(`Send at most ${MAX_BULK_INVITES} invitations at a time`);
+      return;
+    }
+
+    setError(null);
+    setSuccess(null);
+    setFailures([]);
+    setProgress({ done: 0, total: toInvite.length });
+
+    const failed: InviteFailure[] = [];
+    for (let index = 0; index < toInvite.length; index++) {
+      const email = toInvite[index];
+      const { error } = await organizationService.inviteUserToOrganization(
+        email,
+        organizationId,
+        role,
+        regionId ?? undefined
+      );
+      if (error) failed.push({ email, error: error.message });
+      setProgress({ done: index + 1, total: toInvite.length });
+    }
+
+    const sent = toInvite.length - failed.length;
+    setFailures(failed);
+    // Keep the addresses that still need an invitation
+    setEmailText(failed.map((failure) => failure.email).join('\n'));
+    if (sent > 0) setSuccess(`Sent ${sent} invitation${sent === 1 ? '' : 's'}`);
+    await loadInvitations();
+  };
+
+  const handleResend = async (invitation: InvitationSummary) => {
+    setBusyId(invitation.id);
+    setError(null);
+    setSuccess(null);
+
+    const { error } = await organizationService.resendInvitation(invitation.id);
+    setBusyId(null);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setSuccess(`Invitation resent to ${invitation.email}`);
+    await loadInvitations();
+  };
+
+  const handleCancel = async (invitation: InvitationSummary) => {
+    setBusyId(invitation.id);
+    setError(null);
+    setSuccess(null);
+
+    const { error } = await organizationService.cancelInvitation(invitation.id);
+    setBusyId(null);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await loadInvitations();
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 4 }}>
+        <Typography variant="h6" gutterBottom>
+          Invite People
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Email addresses"
+            multiline
+            minRows={3}
+            value={emailText}
+            onChange={(e) => setEmailText(e.target.value)}
+            helperText="Separate addresses with commas, spaces or new lines"
+            disabled={sending}
+            fullWidth
+          />
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Role</InputLabel>
+              <Select
+                label="Role"
+                value={role}
+                onChange={(e) => {
+                  const newRole = e.target.value as ProfileRole;
+                  setRole(newRole);
+                  if (!isRegionalRole(newRole)) setRegionId(null);
+                }}
+                disabled={sending}
+              >
+                {allowedRoles.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {ROLE_LABELS[option]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ minWidth: 240 }}>
+              <RegionSelect
+                organizationId={organizationId}
+                value={regionId}
+                onChange={setRegionId}
+                required={isRegionalRole(role)}
+                error={regionMissing}
+                size="small"
+                disabled={sending}
+              />
+            </Box>
+          </Box>
+
+          {(parsed.invalid.length > 0 || alreadyMembers.length > 0) && (
+            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+              {parsed.invalid.map((entry) => (
+                <Chip key={entry} label={`Not an email: ${entry}`} size="small" color="error" />
+              ))}
+              {alreadyMembers.map((email) => (
+                <Chip key={email} label={`Already a member: ${email}`} size="small" />
+              ))}
+            </Box>
+          )}
+
+          {progress && (
+            <Box>
+              <LinearProgress
+                variant="determinate"
+                value={progress.total ? (progress.done / progress.total) * 100 : 0}
+                sx={{ height: 8, borderRadius: 4, mb: 1 }}
+              />
+              <Typography variant="body2" color="text.secondary">
+                {progress.done} of {progress.total} sent
+              </Typography>
+            </Box>
+          )}
+
+          {failures.length > 0 && (
+            <Alert severity="warning">
+              {failures.length} invitation{failures.length === 1 ? '' : 's'} could not be sent:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {failures.map((failure) => (
+                  <li key={failure.email}>
+                    {failure.email}: {failure.error}
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          <Box>
+            <Button
+              variant="contained"
+              startIcon={sending ? <CircularProgress size={20} /> : <SendIcon />}
+              onClick={handleSend}
+              disabled={sending || toInvite.length === 0 || regionMissing}
+            >
+              {toInvite.length > 1 ? `Send ${toInvite.length} invitations` : 'Send invitation'}
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+        <Typography variant="h6">Invitations</Typography>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as InvitationStatus | '')}
+          >
+            <MenuItem value="">All</MenuItem>
+            {(Object.keys(INVITATION_STATUS_LABELS) as InvitationStatus[]).map((status) => (
+              <MenuItem key={status} value={status}>
+                {INVITATION_STATUS_LABELS[status]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>Email</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {invitations.map((invitation) => {
+              const expanded = expandedId === invitation.id;
+              const canResend =
+                invitation.status === 'pending' || invitation.status === 'expired';
+
+              return (
+                <Fragment key={invitation.id}>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <IconButton
+                        size="small"
+                        onClick={() => setExpandedId(expanded ? null : invitation.id)}
+                      >
+                        {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {ROLE_LABELS[invitation.role] ?? invitation.role}
+                      </Typography>
+                      {invitation.region_name && (
+                        <Typography variant="caption" color="text.secondary">
+                          {invitation.region_name}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={INVITATION_STATUS_LABELS[invitation.status]}
+                        size="small"
+                        color={INVITATION_STATUS_COLORS[invitation.status]}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {invitation.status === 'accepted' && invitation.accepted_at
+                        ? `Accepted ${new Date(invitation.accepted_at).toLocaleDateString()}`
+                        : new Date(invitation.expires_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell align="right">
+                      {busyId === invitation.id ? (
+                        <CircularProgress size={20} />
+                      ) : (
+                        <>
+                          {canResend && (
+                            <Tooltip title="Resend with a new link">
+                              <IconButton size="small" onClick={() => handleResend(invitation)}>
+                                <SendIcon />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          {invitation.status === 'pending' && (
+                            <Tooltip title="Cancel invitation">
+                              <IconButton
+                                onClick={() => handleCancel(invitation)}
+                                color="error"
+                                size="small"
+                              >
+                                <CancelIcon />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={6} sx={{ py: 0, borderBottom: expanded ? undefined : 0 }}>
+                      <Collapse in={expanded} unmountOnExit>
+                        {invitation.history.length === 0 ? (
+                          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                            No history was recorded for this invitation.
+                          </Typography>
+                        ) : (
+                          <Table size="small" sx={{ my: 1 }}>
+                            <TableBody>
+                              {invitation.history.map((step, index) => (
+                                <TableRow key={index}>
+                                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                    {new Date(step.created_at).toLocaleString()}
+                                  </TableCell>
+                                  <TableCell>
+                                    {AUDIT_ACTION_LABELS[step.action] ?? step.action}
+                                  </TableCell>
+                                  <TableCell>{auditActorName(step)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        )}
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </Fragment>
+              );
+            })}
+            {!loading && invitations.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <Typography color="text.secondary">
+                    {statusFilter
+                      ? `No ${INVITATION_STATUS_LABELS[statusFilter].toLowerCase()} invitations`
+                      : 'No invitations have been sent'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>
+        Join Links
+      </Typography>
+      <JoinLinks organizationId={organizationId} />
+    </Box>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { Fragment, useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as CorrectIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import { useQuizService } from '../contexts/ServiceContext';
+import { QuestionItemAnalysis } from '../types/database';
+import {
+  ITEM_FLAG_DESCRIPTIONS,
+  ITEM_FLAG_LABELS,
+  MIN_RESPONSES_FOR_FLAGS,
+  getItemFlags,
+  isCorrectChoice,
+  itemChoiceLabels,
+  itemDifficulty,
+} from '../utils/itemAnalysis';
+import { completionPercent } from '../utils/progress';
+
+interface Props {
+  quizId: string;
+}
+
+function ChoiceBreakdown({ item }: { item: QuestionItemAnalysis }) {
+  if (!item.choice_counts) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Choice breakdowns are available for multiple choice, multi-select and true/false
+        questions.
+      </Typography>
+    );
+  }
+
+  const labels = itemChoiceLabels(item);
+
+  return (
+    <Box sx={{ display: 'grid', gap: 1 }}>
+      {item.choice_counts.map((count, index) => {
+        const correct = isCorrectChoice(item, index);
+        const percent = completionPercent(count, item.responses);
+
+        return (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ width: 20, display: 'flex' }}>
+              {correct && <CorrectIcon fontSize="small" color="success" />}
+            </Box>
+            <Typography variant="body2" noWrap sx={{ width: '40%' }}>
+              {labels[index] || `Choice ${index + 1}`}
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={percent}
+              color={correct ? 'success' : 'primary'}
+              sx={{ flex: 1, height: 8, borderRadius: 4 }}
+            />
+            <Typography variant="body2" sx={{ minWidth: 90, textAlign: 'right' }}>
+              {count} ({percent}%)
+            </Typography>
+          </Box>
+        );
+      })}
+      {item.unanswered > 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Left unanswered {item.unanswered} time{item.unanswered === 1 ? '' : 's'}.
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * How each question performs across completed attempts, so authors can find
+ * questions that are miskeyed, too easy or misleading
+ */
+export default function ItemAnalysisPanel({ quizId }: Props) {
+  const quizService = useQuizService();
+  const [items, setItems] = useState<QuestionItemAnalysis[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalysis = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const { data, error } = await quizService.getItemAnalysis(quizId);
+    if (error) setError(error.message);
+    setItems(data);
+    setLoading(false);
+  }, [quizId, quizService]);
+
+  useEffect(() => {
+    loadAnalysis();
+  }, [loadAnalysis]);
+
+  const answered = items.some((item) => item.responses > 0);
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h6">Question Analysis</Typography>
+        <Button startIcon={<RefreshIcon />} onClick={loadAnalysis} disabled={loading}>
+          Refresh
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Based on completed attempts at the saved quiz. Discrimination compares the top and
+        bottom 27% of attempts by score; values below 0.2 separate learners poorly.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress />
+        </Box>
+      ) : !answered ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          No one has completed this quiz yet.
+        </Alert>
+      ) : (
+        <TableContainer sx={{ mt: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Question</TableCell>
+                <TableCell align="right">Responses</TableCell>
+                <TableCell align="right">Correct</TableCell>
+                <TableCell align="right">Discrimination</TableCell>
+                <TableCell>Flags</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map((item) => {
+                const expanded = expandedId === item.question_id;
+                const flags = getItemFlags(item);
+
+                return (
+                  <Fragment key={item.question_id}>
+                    <TableRow>
+                      <TableCell padding="checkbox">
+                        <IconButton
+                          size="small"
+                          aria-label={expanded ? 'Hide choices' : 'Show choices'}
+                          onClick={() => setExpandedId(expanded ? null : item.question_id)}
+                        >
+                          {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                        </IconButton>
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 280 }}>
+                        <Typography variant="body2" noWrap>
+                          {item.question_text}
+                        </Typography>
+                        {item.from_bank && (
+                          <Typography variant="caption" color="text.secondary">
+                            From question bank
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{item.responses}</TableCell>
+                      <TableCell align="right">
+                        {item.responses > 0 ? `${itemDifficulty(item)}%` : '—'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {item.discrimination === null ? '—' : item.discrimination.toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                          {flags.map((flag) => (
+                            <Tooltip key={flag} title={ITEM_FLAG_DESCRIPTIONS[flag]}>
+                              <Chip
+                                label={ITEM_FLAG_LABELS[flag]}
+                                size="small"
+                                color={flag === 'everybody_correct' ? 'info' : 'warning'}
+                              />
+                            </Tooltip>
+                          ))}
+                          {item.responses > 0 && item.responses < MIN_RESPONSES_FOR_FLAGS && (
+                            <Typography variant="caption" color="text.secondary">
+                              Too few responses
+                            </Typography>
+                          )}
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        sx={{ py: 0, borderBottom: expanded ? undefined : 0 }}
+                      >
+                        <Collapse in={expanded} unmountOnExit>
+                          <Box sx={{ py: 2 }}>
+                            <ChoiceBreakdown item={item} />
+                          </Box>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
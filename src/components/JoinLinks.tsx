@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Block as RevokeIcon,
+  ContentCopy as CopyIcon,
+} from '@mui/icons-material';
+import { useOrganizationService } from '../contexts/ServiceContext';
+import RegionSelect from './RegionSelect';
+import { JoinLinkSummary } from '../types/database';
+import {
+  JOIN_LINK_STATUS_COLORS,
+  JOIN_LINK_STATUS_LABELS,
+  getJoinLinkStatus,
+  joinLinkUrl,
+} from '../utils/invitations';
+import { ROLE_LABELS, formatProfileName } from '../utils/profileName';
+import { endOfDay } from '../utils/training';
+
+interface Props {
+  organizationId: string;
+}
+
+/**
+ * Shareable links for joining the organization without a personal invitation.
+ * People who join become users, optionally in the link's region; admin roles
+ * are only given through invitations. Links can be limited by uses, expiry
+ * date and email domain. Revoked links stay listed with their usage.
+ */
+export default function JoinLinks({ organizationId }: Props) {
+  const organizationService = useOrganizationService();
+  const [links, setLinks] = useState<JoinLinkSummary[]>([]);
+  const [regionId, setRegionId] = useState<string | null>(null);
+  const [maxUses, setMaxUses] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [allowedDomain, setAllowedDomain] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await organizationService.listJoinLinks();
+    if (error) {
+      setError(error.message);
+    } else {
+      setLinks(data ?? []);
+    }
+    setLoading(false);
+  }, [organizationService]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(joinLinkUrl(code));
+    setSuccess('Link copied to clipboard');
+  };
+
+  const handleCreate = async () => {
+    const uses = maxUses ? Number(maxUses) : null;
+    if (uses !== null && (!Number.isInteger(uses) || uses < 1)) {
+      setError('Maximum uses must be a whole number of at least 1');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const { data, error } = await organizationService.createJoinLink({
+      regionId,
+      maxUses: uses,
+      expiresAt: expiryDate ? endOfDay(expiryDate) : null,
+      allowedDomain: allowedDomain.trim() || null,
+    });
+
+    setSaving(false);
+
+    if (error || !data) {
+      setError(error?.message ?? 'Failed to create the join link');
+      return;
+    }
+
+    navigator.clipboard.writeText(joinLinkUrl(data.code));
+    setSuccess('Join link created and copied to clipboard');
+    setMaxUses('');
+    setExpiryDate('');
+    setAllowedDomain('');
+    await loadLinks();
+  };
+
+  const handleRevoke = async (link: JoinLinkSummary) => {
+    setError(null);
+    setSuccess(null);
+
+    const { error } = await organizationService.revokeJoinLink(link.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await loadLinks();
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Anyone signed in with the link can join, as long as they don't belong to another
+          organization yet.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start', mt: 2 }}>
+          <Box sx={{ minWidth: 220 }}>
+            <RegionSelect
+              organizationId={organizationId}
+              value={regionId}
+              onChange={setRegionId}
+              helperText="Optional"
+              size="small"
+            />
+          </Box>
+          <TextField
+            label="Maximum uses"
+            type="number"
+            size="small"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+            inputProps={{ min: 1 }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 140 }}
+          />
+          <TextField
+            label="Expires"
+            type="date"
+            size="small"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="Email domain"
+            size="small"
+            value={allowedDomain}
+            onChange={(e) => setAllowedDomain(e.target.value)}
+            placeholder="Any domain"
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} /> : <AddIcon />}
+            onClick={handleCreate}
+            disabled={saving}
+          >
+            Create link
+          </Button>
+        </Box>
+      </Paper>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Grants</TableCell>
+              <TableCell>Uses</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell>Domain</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {links.map((link) => {
+              const status = getJoinLinkStatus(link);
+
+              return (
+                <TableRow key={link.id}>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {ROLE_LABELS[link.role]}
+                      {link.region_name && ` · ${link.region_name}`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Created by{' '}
+                      {link.creator_email
+                        ? formatProfileName({
+                            first_name: link.creator_first_name,
+                            last_name: link.creator_last_name,
+                            email: link.creator_email,
+                          })
+                        : 'a former member'}{' '}
+                      on {new Date(link.created_at).toLocaleDateString()}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {link.max_uses ? `${link.use_count} of ${link.max_uses}` : link.use_count}
+                  </TableCell>
+                  <TableCell>
+                    {link.expires_at ? new Date(link.expires_at).toLocaleDateString() : 'Never'}
+                  </TableCell>
+                  <TableCell>{link.allowed_domain ? `@${link.allowed_domain}` : 'Any'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={JOIN_LINK_STATUS_LABELS[status]}
+                      size="small"
+                      color={JOIN_LINK_STATUS_COLORS[status]}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {status === 'active' && (
+                      <Tooltip title="Copy link">
+                        <IconButton size="small" onClick={() => handleCopy(link.code)}>
+                          <CopyIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {!link.revoked_at && (
+                      <Tooltip title="Revoke link">
+                        <IconButton onClick={() => handleRevoke(link)} color="error" size="small">
+                          <RevokeIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {!loading && links.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <Typography color="text.secondary">No join links have been created</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {loading && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
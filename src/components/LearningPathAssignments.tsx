@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  Person as PersonIcon,
+  LocationOn as RegionIcon,
+} from '@mui/icons-material';
+import { useLearningPathService, useOrganizationService } from '../contexts/ServiceContext';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { LearningPathAssignment, Profile } from '../types/database';
+import { isRegionAdmin } from '../utils/contentAccess';
+import { formatProfileName } from '../utils/profileName';
+import RegionSelect from './RegionSelect';
+
+type AssigneeType = 'user' | 'region';
+
+interface LearningPathAssignmentsProps {
+  pathId: string;
+  organizationId: string;
+  // Only published paths can be assigned
+  published: boolean;
+}
+
+/**
+ * Lists who a learning path is assigned to and assigns it to more users or
+ * regions. Region admins can only assign within their own region.
+ */
+export default function LearningPathAssignments({
+  pathId,
+  organizationId,
+  published,
+}: LearningPathAssignmentsProps) {
+  const learningPathService = useLearningPathService();
+  const organizationService = useOrganizationService();
+  const viewer = useContentViewer();
+  const [assignments, setAssignments] = useState<LearningPathAssignment[]>([]);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [assigneeType, setAssigneeType] = useState<AssigneeType>('user');
+  const [userId, setUserId] = useState('');
+  const [regionId, setRegionId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const regionLocked = isRegionAdmin(viewer);
+
+  useEffect(() => {
+    const loadAssignments = async () => {
+      const [assignmentsResult, membersResult] = await Promise.all([
+        learningPathService.listAssignments(pathId),
+        organizationService.getOrganizationMembers(organizationId, { limit: 1000 }),
+      ]);
+
+      if (assignmentsResult.error || membersResult.error) {
+        setError((assignmentsResult.error || membersResult.error)?.message ?? null);
+      }
+      setAssignments(assignmentsResult.data);
+      setMembers(
+        membersResult.data.filter(
+          (member) => !regionLocked || member.region_id === viewer?.region_id
+        )
+      );
+    };
+
+    loadAssignments();
+  }, [pathId, organizationId, regionLocked, viewer, learningPathService, organizationService]);
+
+  useEffect(() => {
+    if (regionLocked) setRegionId(viewer?.region_id ?? null);
+  }, [regionLocked, viewer]);
+
+  const handleAssign = async () => {
+    const assignee =
+      assigneeType === 'user' ? (userId ? { userId } : null) : regionId ? { regionId } : null;
+    if (!assignee) {
+      setError(assigneeType === 'user' ? 'Choose a user' : 'Choose a region');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { error } = await learningPathService.assignPath(pathId, assignee);
+    if (error) {
+      setError(error.message);
+    } else {
+      const { data } = await learningPathService.listAssignments(pathId);
+      setAssignments(data);
+      setUserId('');
+    }
+    setSaving(false);
+  };
+
+  const handleRemove = async (assignment: LearningPathAssignment) => {
+    setError(null);
+
+    const { error } = await learningPathService.removeAssignment(assignment.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setAssignments((prev) => prev.filter((item) => item.id !== assignment.id));
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Assignments
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {assignments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          This learning path has not been assigned to anyone yet.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {assignments.map((assignment) => (
+            <Chip
+              key={assignment.id}
+              icon={assignment.region_id ? <RegionIcon /> : <PersonIcon />}
+              label={
+                assignment.region_id
+                  ? `Everyone in ${assignment.region?.name ?? 'a region'}`
+                  : formatProfileName(assignment.user)
+              }
+              onDelete={() => handleRemove(assignment)}
+            />
+          ))}
+        </Box>
+      )}
+
+      {!published ? (
+        <Alert severity="info">Publish the learning path to assign it.</Alert>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={assigneeType}
+            onChange={(_, value: AssigneeType | null) => value && setAssigneeType(value)}
+          >
+            <ToggleButton value="user">User</ToggleButton>
+            <ToggleButton value="region">Region</ToggleButton>
+          </ToggleButtonGroup>
+          <Box sx={{ flex: 1, minWidth: 240 }}>
+            {assigneeType === 'user' ? (
+              <FormControl fullWidth size="small">
+                <InputLabel>User</InputLabel>
+                <Select label="User" value={userId} onChange={(e) => setUserId(e.target.value)}>
+                  {members.map((member) => (
+                    <MenuItem key={member.id} value={member.id}>
+                      {formatProfileName(member)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ) : (
+              <RegionSelect
+                organizationId={organizationId}
+                value={regionId}
+                onChange={setRegionId}
+                disabled={regionLocked}
+                size="small"
+              />
+            )}
+          </Box>
+          <Button variant="contained" onClick={handleAssign} disabled={saving}>
+            {saving ? <CircularProgress size={24} /> : 'Assign'}
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Box } from '@mui/material';
+
+interface MarkdownContentProps {
+  // Sanitized HTML produced by renderMarkdown
+  html: string;
+}
+
+export default function MarkdownContent({ html }: MarkdownContentProps) {
+  return (
+    <Box
+      sx={{
+        typography: 'body1',
+        lineHeight: 1.7,
+        wordBreak: 'break-word',
+        '& h1, & h2, & h3, & h4': { mt: 3, mb: 1, lineHeight: 1.3, scrollMarginTop: 80 },
+        '& h1': { typography: 'h4' },
+        '& h2': { typography: 'h5' },
+        '& h3': { typography: 'h6' },
+        '& p': { my: 1.5 },
+        '& a': { color: 'primary.main' },
+        '& img': { maxWidth: '100%', height: 'auto', borderRadius: 1 },
+        '& blockquote': {
+          borderLeft: 4,
+          borderColor: 'divider',
+          color: 'text.secondary',
+          m: 0,
+          my: 2,
+          pl: 2,
+        },
+        '& code': {
+          fontFamily: 'monospace',
+          fontSize: '0.875em',
+          bgcolor: 'action.hover',
+          px: 0.5,
+          borderRadius: 0.5,
+        },
+        '& pre': {
+          bgcolor: 'action.hover',
+          p: 2,
+          borderRadius: 1,
+          overflowX: 'auto',
+          '& code': { bgcolor: 'transparent', p: 0 },
+        },
+        '& table': {
+          borderCollapse: 'collapse',
+          width: '100%',
+          my: 2,
+          display: 'block',
+          overflowX: 'auto',
+        },
+        '& th, & td': { border: 1, borderColor: 'divider', px: 1.5, py: 1, textAlign: 'left' },
+        '& th': { bgcolor: 'action.hover', fontWeight: 600 },
+      }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
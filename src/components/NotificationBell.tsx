@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Badge,
+  Box,
+  Button,
+  Divider,
+  IconButton,
+  Menu,
+  MenuItem,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Notifications as NotificationsIcon } from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useNotificationService } from '../contexts/ServiceContext';
+import { UserNotification } from '../types/database';
+
+// How often to check for new notifications while the app is open
+const POLL_INTERVAL_MS = 60000;
+
+export default function NotificationBell() {
+  const { user } = useAuthContext();
+  const notificationService = useNotificationService();
+  const navigate = useNavigate();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!user) return;
+    const { data } = await notificationService.getUnreadCount(user.id);
+    if (data !== null) setUnreadCount(data);
+  }, [user, notificationService]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const interval = setInterval(refreshUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshUnreadCount]);
+
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    if (!user) return;
+
+    const { data } = await notificationService.listNotifications(user.id);
+    setNotifications(data);
+  };
+
+  const handleSelect = async (notification: UserNotification) => {
+    setAnchorEl(null);
+
+    if (!notification.read_at) {
+      await notificationService.markAsRead(notification.id);
+      setUnreadCount((count) => Math.max(0, count - 1));
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+
+    const { error } = await notificationService.markAllAsRead(user.id);
+    if (!error) {
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at || now })));
+      setUnreadCount(0);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Tooltip title="Notifications">
+        <IconButton color="inherit" onClick={handleOpen} aria-label="Notifications">
+          <Badge badgeContent={unreadCount} color="error" max={99}>
+            <NotificationsIcon />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: { width: 360, maxHeight: 480 } } }}
+      >
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            px: 2,
+            py: 1,
+          }}
+        >
+          <Typography variant="subtitle1">Notifications</Typography>
+          <Button size="small" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            Mark all as read
+          </Button>
+        </Box>
+        <Divider />
+
+        {notifications.length === 0 ? (
+          <MenuItem disabled>You have no notifications.</MenuItem>
+        ) : (
+          notifications.map((notification) => (
+            <MenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              sx={{
+                alignItems: 'flex-start',
+                whiteSpace: 'normal',
+                bgcolor: notification.read_at ? undefined : 'action.hover',
+              }}
+            >
+              <Box>
+                <Typography
+                  variant="body2"
+                  sx={{ fontWeight: notification.read_at ? 400 : 600 }}
+                >
+                  {notification.title}
+                </Typography>
+                {notification.body && (
+                  <Typography variant="body2" color="text.secondary">
+                    {notification.body}
+                  </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(notification.created_at).toLocaleString()}
+                </Typography>
+              </Box>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  );
+}
@@ -2,17 +2,26 @@ import React, { useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useMonitoring } from '../hooks/useMonitoring';
+import { usePermissionSubject } from '../hooks/usePermission';
 import LoadingScreen from './LoadingScreen';
 import { ErrorBoundary } from './ErrorBoundary';
 import { ROUTES } from '../types/routes';
+import { Capability, hasCapabilities } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireAdmin?: boolean;
+  // Capabilities the user needs, all of them, to open the route
+  requires?: Capability[];
 }
 
-export default function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
+export default function ProtectedRoute({ children, requires = [] }: ProtectedRouteProps) {
   const auth = useAuth();
+  // The same source as usePermission and <Can>, so region admins are judged
+  // by their region_admins entry
+  const permissions = usePermissionSubject();
+  const permitted = hasCapabilities(permissions.subject, requires);
+  const loading = auth.loading || (requires.length > 0 && permissions.loading);
+  const required = requires.join(',');
   const navigate = useNavigate();
   const location = useLocation();
   const { trackNavigation, trackError } = useMonitoring('ProtectedRoute');
@@ -32,12 +41,12 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
         return;
       }
 
-      if (requireAdmin && auth.profile?.role !== 'admin') {
+      if (!permitted) {
         trackError(new Error('Unauthorized access attempt'), {
           context: 'ProtectedRoute',
           path: location.pathname,
           userRole: auth.profile?.role,
-          requireAdmin
+          requires: required
         });
 
         navigate(ROUTES.HOME, { replace: true });
@@ -45,22 +54,23 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
       }
     };
 
-    if (!auth.loading) {
+    if (!loading) {
       checkAccess();
     }
   }, [
     auth.isAuthenticated,
-    auth.loading,
+    loading,
     auth.profile?.role,
     location.pathname,
     navigate,
-    requireAdmin,
+    permitted,
+    required,
     trackNavigation,
     trackError
   ]);
 
   // Show loading screen while checking auth
-  if (auth.loading) {
+  if (loading) {
     return <LoadingScreen message="Checking authentication..." />;
   }
 
@@ -69,8 +79,8 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
     return null;
   }
 
-  // If admin is required but user is not admin
-  if (requireAdmin && auth.profile?.role !== 'admin') {
+  // If the user lacks a required capability, the useEffect will redirect
+  if (!permitted) {
     return null;
   }
 
@@ -106,25 +116,3 @@ export function withProtectedRoute<P extends object>(
     );
   };
 }
-
-/**
- * Helper function for creating admin routes
- */
-export function AdminRoute({ children }: { children: React.ReactNode }) {
-  return <ProtectedRoute requireAdmin>{children}</ProtectedRoute>;
-}
-
-/**
- * HOC for admin-only routes
- */
-export function withAdminRoute<P extends object>(
-  Component: React.ComponentType<P>
-): React.ComponentType<P> {
-  return function AdminComponent(props: P) {
-    return (
-      <AdminRoute>
-        <Component {...props} />
-      </AdminRoute>
-    );
-  };
-}
@@ -0,0 +1,444 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+} from '@mui/icons-material';
+import { QuestionInput, QuestionType } from '../types/database';
+import { QUESTION_TYPE_LABELS, createQuestionInput } from '../utils/questionTypes';
+
+interface QuestionEditorProps {
+  value: QuestionInput;
+  onChange: (question: QuestionInput) => void;
+  disabled?: boolean;
+}
+
+const MIN_CHOICES = 2;
+
+export default function QuestionEditor({ value, onChange, disabled = false }: QuestionEditorProps) {
+  const handleTypeChange = (type: QuestionType) => {
+    const next = createQuestionInput(type, value);
+
+    // Carry the existing choice text over where the new type uses choices
+    if (
+      next.question_type !== 'true_false' &&
+      next.question_type !== 'short_answer' &&
+      value.question_type !== 'true_false' &&
+      value.question_type !== 'short_answer'
+    ) {
+      next.choices = [...value.choices];
+      if (next.question_type === 'ordering') {
+        next.correct_answer = next.choices.map((_, index) => index);
+      } else if (next.question_type === 'matching') {
+        next.correct_answer = next.choices.map(() => '');
+      }
+    }
+
+    onChange(next);
+  };
+
+  const updateChoice = (index: number, text: string) =>
+    onChange({
+      ...value,
+      choices: value.choices.map((choice, i) => (i === index ? text : choice)),
+    });
+
+  const renderChoiceRow = (
+    index: number,
+    control: React.ReactNode,
+    extra?: React.ReactNode,
+    onRemove?: () => void
+  ) => (
+    <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+      {control}
+      <TextField
+        fullWidth
+        size="small"
+        label={`Choice ${index + 1}`}
+        value={value.choices[index]}
+        onChange={(e) => updateChoice(index, e.target.value)}
+        disabled={disabled}
+      />
+      {extra}
+      {onRemove && (
+        <Tooltip title="Remove">
+          <span>
+            <IconButton
+              size="small"
+              onClick={onRemove}
+              disabled={disabled || value.choices.length <= MIN_CHOICES}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      )}
+    </Box>
+  );
+
+  const renderAnswerEditor = () => {
+    switch (value.question_type) {
+      case 'multiple_choice': {
+        const question = value;
+        return (
+          <RadioGroup value={String(question.correct_answer)}>
+            {question.choices.map((_, index) =>
+              renderChoiceRow(
+                index,
+                <Tooltip title="Correct answer">
+                  <Radio
+                    value={String(index)}
+                    checked={question.correct_answer === index}
+                    onChange={() => onChange({ ...question, correct_answer: index })}
+                    disabled={disabled}
+                  />
+                </Tooltip>,
+                undefined,
+                () =>
+                  onChange({
+                    ...question,
+                    choices: question.choices.filter((__, i) => i !== index),
+                    correct_answer:
+                      question.correct_answer === index
+                        ? 0
+                        : question.correct_answer > index
+                          ? question.correct_answer - 1
+                          : question.correct_answer,
+                  })
+              )
+            )}
+            <Box>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => onChange({ ...question, choices: [...question.choices, ''] })}
+                disabled={disabled}
+              >
+                Add Choice
+              </Button>
+            </Box>
+          </RadioGroup>
+        );
+      }
+
+      case 'true_false': {
+        const question = value;
+        return (
+          <RadioGroup
+            row
+            value={String(question.correct_answer)}
+            onChange={(e) => onChange({ ...question, correct_answer: e.target.value === 'true' })}
+          >
+            <FormControlLabel value="true" control={<Radio />} label="True" disabled={disabled} />
+            <FormControlLabel
+              value="false"
+              control={<Radio />}
+              label="False"
+              disabled={disabled}
+            />
+          </RadioGroup>
+        );
+      }
+
+      case 'multi_select': {
+        const question = value;
+        return (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Tick every correct choice. Learners earn partial credit for each one they pick.
+            </Typography>
+            {question.choices.map((_, index) =>
+              renderChoiceRow(
+                index,
+                <Tooltip title="Correct answer">
+                  <Checkbox
+                    checked={question.correct_answer.includes(index)}
+                    onChange={(e) =>
+                      onChange({
+                        ...question,
+                        correct_answer: e.target.checked
+                          ? [...question.correct_answer, index].sort((a, b) => a - b)
+                          : question.correct_answer.filter((item) => item !== index),
+                      })
+                    }
+                    disabled={disabled}
+                  />
+                </Tooltip>,
+                undefined,
+                () =>
+                  onChange({
+                    ...question,
+                    choices: question.choices.filter((__, i) => i !== index),
+                    correct_answer: question.correct_answer
+                      .filter((item) => item !== index)
+                      .map((item) => (item > index ? item - 1 : item)),
+                  })
+              )
+            )}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => onChange({ ...question, choices: [...question.choices, ''] })}
+              disabled={disabled}
+            >
+              Add Choice
+            </Button>
+          </Box>
+        );
+      }
+
+      case 'short_answer': {
+        const question = value;
+        return (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Any of these answers is accepted. Matching ignores case and surrounding spaces.
+            </Typography>
+            {question.correct_answer.map((answer, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={`Accepted answer ${index + 1}`}
+                  value={answer}
+                  onChange={(e) =>
+                    onChange({
+                      ...question,
+                      correct_answer: question.correct_answer.map((item, i) =>
+                        i === index ? e.target.value : item
+                      ),
+                    })
+                  }
+                  disabled={disabled}
+                />
+                <Tooltip title="Remove">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() =>
+                        onChange({
+                          ...question,
+                          correct_answer: question.correct_answer.filter((__, i) => i !== index),
+                        })
+                      }
+                      disabled={disabled || question.correct_answer.length <= 1}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            ))}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              sx={{ mt: 1 }}
+              onClick={() =>
+                onChange({ ...question, correct_answer: [...question.correct_answer, ''] })
+              }
+              disabled={disabled}
+            >
+              Add Accepted Answer
+            </Button>
+          </Box>
+        );
+      }
+
+      case 'ordering': {
+        const question = value;
+        const withChoices = (choices: string[]) =>
+          onChange({ ...question, choices, correct_answer: choices.map((_, index) => index) });
+        const move = (from: number, to: number) => {
+          const next = [...question.choices];
+          [next[from], next[to]] = [next[to], next[from]];
+          withChoices(next);
+        };
+
+        return (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Enter the items in the correct order. Learners see them shuffled.
+            </Typography>
+            {question.choices.map((_, index) =>
+              renderChoiceRow(
+                index,
+                <Typography sx={{ width: 24 }} color="text.secondary">
+                  {index + 1}.
+                </Typography>,
+                <>
+                  <IconButton
+                    size="small"
+                    aria-label="Move up"
+                    onClick={() => move(index, index - 1)}
+                    disabled={disabled || index === 0}
+                  >
+                    <MoveUpIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    aria-label="Move down"
+                    onClick={() => move(index, index + 1)}
+                    disabled={disabled || index === question.choices.length - 1}
+                  >
+                    <MoveDownIcon fontSize="small" />
+                  </IconButton>
+                </>,
+                () => withChoices(question.choices.filter((__, i) => i !== index))
+              )
+            )}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => withChoices([...question.choices, ''])}
+              disabled={disabled}
+            >
+              Add Item
+            </Button>
+          </Box>
+        );
+      }
+
+      case 'matching': {
+        const question = value;
+        return (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Pair each prompt with its match. Learners pick matches from a combined list.
+            </Typography>
+            {question.choices.map((prompt, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={`Prompt ${index + 1}`}
+                  value={prompt}
+                  onChange={(e) => updateChoice(index, e.target.value)}
+                  disabled={disabled}
+                />
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Match"
+                  value={question.correct_answer[index] ?? ''}
+                  onChange={(e) =>
+                    onChange({
+                      ...question,
+                      correct_answer: question.correct_answer.map((item, i) =>
+                        i === index ? e.target.value : item
+                      ),
+                    })
+                  }
+                  disabled={disabled}
+                />
+                <Tooltip title="Remove">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() =>
+                        onChange({
+                          ...question,
+                          choices: question.choices.filter((__, i) => i !== index),
+                          correct_answer: question.correct_answer.filter((__, i) => i !== index),
+                        })
+                      }
+                      disabled={disabled || question.choices.length <= MIN_CHOICES}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            ))}
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              sx={{ mt: 1 }}
+              onClick={() =>
+                onChange({
+                  ...question,
+                  choices: [...question.choices, ''],
+                  correct_answer: [...question.correct_answer, ''],
+                })
+              }
+              disabled={disabled}
+            >
+              Add Pair
+            </Button>
+          </Box>
+        );
+      }
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 220 }} disabled={disabled}>
+          <InputLabel>Question Type</InputLabel>
+          <Select
+            label="Question Type"
+            value={value.question_type}
+            onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+              <MenuItem key={type} value={type}>
+                {QUESTION_TYPE_LABELS[type]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          type="number"
+          label="Points"
+          value={value.points}
+          onChange={(e) => onChange({ ...value, points: Math.max(0, Number(e.target.value)) })}
+          inputProps={{ min: 0 }}
+          sx={{ width: 120 }}
+          disabled={disabled}
+        />
+      </Box>
+
+      <TextField
+        required
+        fullWidth
+        multiline
+        minRows={2}
+        label="Question"
+        value={value.question_text}
+        onChange={(e) => onChange({ ...value, question_text: e.target.value })}
+        disabled={disabled}
+      />
+
+      {renderAnswerEditor()}
+
+      <TextField
+        fullWidth
+        multiline
+        minRows={2}
+        label="Explanation"
+        helperText="Shown to learners after they submit the quiz"
+        value={value.explanation ?? ''}
+        onChange={(e) => onChange({ ...value, explanation: e.target.value || null })}
+        disabled={disabled}
+      />
+    </Box>
+  );
+}
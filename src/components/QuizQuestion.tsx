@@ -0,0 +1,247 @@
+import React from 'react';
+import {
+  Box,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Typography,
+  Chip,
+} from '@mui/material';
+import { ArrowUpward as MoveUpIcon, ArrowDownward as MoveDownIcon } from '@mui/icons-material';
+import { Question, QuestionAnswer } from '../types/database';
+import { QUESTION_TYPE_LABELS, getMatchingOptions, seededShuffle } from '../utils/questionTypes';
+
+interface QuizQuestionProps {
+  question: Question;
+  index: number;
+  total: number;
+  value: QuestionAnswer | undefined;
+  onChange: (answer: QuestionAnswer) => void;
+  // Order to display the choices in for this attempt; defaults to the authored order
+  choiceOrder?: number[] | null;
+  // Matching items served in place of the withheld answer; defaults to those
+  // taken from the correct answer
+  matchingOptions?: string[] | null;
+  disabled?: boolean;
+}
+
+const choiceSx = (selected: boolean) => ({
+  border: 1,
+  borderColor: selected ? 'primary.main' : 'divider',
+  borderRadius: 1,
+  mx: 0,
+  mb: 1,
+  pr: 2,
+});
+
+export default function QuizQuestion({
+  question,
+  index,
+  total,
+  value,
+  onChange,
+  choiceOrder,
+  matchingOptions,
+  disabled = false,
+}: QuizQuestionProps) {
+  const displayOrder = choiceOrder ?? question.choices.map((_, choiceIndex) => choiceIndex);
+
+  const renderInput = () => {
+    switch (question.question_type) {
+      case 'multiple_choice':
+        return (
+          <RadioGroup
+            name={`question-${question.id}`}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(Number(e.target.value))}
+          >
+            {displayOrder.map((choiceIndex) => (
+              <FormControlLabel
+                key={choiceIndex}
+                value={String(choiceIndex)}
+                control={<Radio />}
+                label={question.choices[choiceIndex]}
+                sx={choiceSx(value === choiceIndex)}
+              />
+            ))}
+          </RadioGroup>
+        );
+
+      case 'true_false':
+        return (
+          <RadioGroup
+            name={`question-${question.id}`}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === 'true')}
+          >
+            {[true, false].map((option) => (
+              <FormControlLabel
+                key={String(option)}
+                value={String(option)}
+                control={<Radio />}
+                label={option ? 'True' : 'False'}
+                sx={choiceSx(value === option)}
+              />
+            ))}
+          </RadioGroup>
+        );
+
+      case 'multi_select': {
+        const selected = (value as number[] | undefined) ?? [];
+        return (
+          <FormGroup>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Select all that apply.
+            </Typography>
+            {displayOrder.map((choiceIndex) => {
+              const checked = selected.includes(choiceIndex);
+              return (
+                <FormControlLabel
+                  key={choiceIndex}
+                  control={
+                    <Checkbox
+                      checked={checked}
+                      onChange={() =>
+                        onChange(
+                          checked
+                            ? selected.filter((item) => item !== choiceIndex)
+                            : [...selected, choiceIndex].sort((a, b) => a - b)
+                        )
+                      }
+                    />
+                  }
+                  label={question.choices[choiceIndex]}
+                  sx={choiceSx(checked)}
+                />
+              );
+            })}
+          </FormGroup>
+        );
+      }
+
+      case 'short_answer':
+        return (
+          <TextField
+            fullWidth
+            label="Your answer"
+            value={(value as string | undefined) ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+        );
+
+      case 'ordering': {
+        const order =
+          (value as number[] | undefined) ?? choiceOrder ?? seededShuffle(displayOrder, question.id);
+        const move = (from: number, to: number) => {
+          const next = [...order];
+          [next[from], next[to]] = [next[to], next[from]];
+          onChange(next);
+        };
+
+        return (
+          <Box>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Use the arrows to put the items in the correct order.
+            </Typography>
+            {order.map((choiceIndex, position) => (
+              <Paper
+                key={choiceIndex}
+                variant="outlined"
+                sx={{ display: 'flex', alignItems: 'center', p: 1, mb: 1 }}
+              >
+                <Typography sx={{ width: 32 }} color="text.secondary">
+                  {position + 1}.
+                </Typography>
+                <Typography sx={{ flex: 1 }}>{question.choices[choiceIndex]}</Typography>
+                <IconButton
+                  size="small"
+                  aria-label="Move up"
+                  onClick={() => move(position, position - 1)}
+                  disabled={disabled || position === 0}
+                >
+                  <MoveUpIcon fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  aria-label="Move down"
+                  onClick={() => move(position, position + 1)}
+                  disabled={disabled || position === order.length - 1}
+                >
+                  <MoveDownIcon fontSize="small" />
+                </IconButton>
+              </Paper>
+            ))}
+          </Box>
+        );
+      }
+
+      case 'matching': {
+        const matches = (value as string[] | undefined) ?? question.choices.map(() => '');
+        const options = matchingOptions ?? getMatchingOptions(question);
+
+        return (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {question.choices.map((prompt, promptIndex) => (
+              <Box key={promptIndex} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <Typography sx={{ flex: 1 }}>{prompt}</Typography>
+                <FormControl size="small" sx={{ flex: 1 }} disabled={disabled}>
+                  <InputLabel>Match</InputLabel>
+                  <Select
+                    label="Match"
+                    value={matches[promptIndex] || ''}
+                    onChange={(e) =>
+                      onChange(
+                        matches.map((match, matchIndex) =>
+                          matchIndex === promptIndex ? (e.target.value as string) : match
+                        )
+                      )
+                    }
+                  >
+                    {options.map((option) => (
+                      <MenuItem key={option} value={option}>
+                        {option}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            ))}
+          </Box>
+        );
+      }
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="overline" color="text.secondary">
+          Question {index + 1} of {total} · {QUESTION_TYPE_LABELS[question.question_type]}
+        </Typography>
+        <Chip
+          label={`${question.points} ${question.points === 1 ? 'point' : 'points'}`}
+          size="small"
+          variant="outlined"
+        />
+      </Box>
+
+      <Typography variant="h6" component="h2" gutterBottom>
+        {question.question_text}
+      </Typography>
+
+      <FormControl component="fieldset" fullWidth disabled={disabled}>
+        {renderInput()}
+      </FormControl>
+    </Box>
+  );
+}
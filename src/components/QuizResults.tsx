@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  AlertTitle,
+  Divider,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  LinearProgress,
+} from '@mui/material';
+import {
+  CheckCircle as CorrectIcon,
+  Cancel as IncorrectIcon,
+  HelpOutline as UnansweredIcon,
+} from '@mui/icons-material';
+import { Question, Quiz, QuizAttempt } from '../types/database';
+import { formatAnswer, formatCorrectAnswer, isAnswered } from '../utils/questionTypes';
+
+interface QuizResultsProps {
+  quiz: Quiz;
+  questions: Question[];
+  attempt: QuizAttempt;
+}
+
+export default function QuizResults({ quiz, questions, attempt }: QuizResultsProps) {
+  const isCorrect = (question: Question) => !!attempt.question_results?.[question.id]?.correct;
+  const correctCount = questions.filter(isCorrect).length;
+
+  return (
+    <Box>
+      <Alert severity={attempt.passed ? 'success' : 'error'} sx={{ mb: 3 }}>
+        <AlertTitle>{attempt.passed ? 'You passed!' : 'You did not pass this time'}</AlertTitle>
+        You scored <strong>{attempt.score}%</strong>. The passing score is {quiz.passing_score}%.
+      </Alert>
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {correctCount} of {questions.length} questions correct
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {attempt.score}%
+          </Typography>
+        </Box>
+        <LinearProgress
+          variant="determinate"
+          value={attempt.score}
+          color={attempt.passed ? 'success' : 'error'}
+          sx={{ height: 8, borderRadius: 4 }}
+        />
+      </Paper>
+
+      <Typography variant="h6" gutterBottom>
+        Review
+      </Typography>
+      <List disablePadding>
+        {questions.map((question, index) => {
+          const answer = attempt.answers[question.id];
+          const answered = isAnswered(question, answer);
+          const correct = isCorrect(question);
+          const result = attempt.question_results?.[question.id];
+
+          return (
+            <React.Fragment key={question.id}>
+              {index > 0 && <Divider component="li" />}
+              <ListItem alignItems="flex-start" sx={{ px: 0 }}>
+                <ListItemIcon sx={{ mt: 0.5 }}>
+                  {!answered ? (
+                    <UnansweredIcon color="disabled" />
+                  ) : correct ? (
+                    <CorrectIcon color="success" />
+                  ) : (
+                    <IncorrectIcon color="error" />
+                  )}
+                </ListItemIcon>
+                <ListItemText
+                  primary={`${index + 1}. ${question.question_text}`}
+                  secondaryTypographyProps={{ component: 'div' }}
+                  secondary={
+                    <Box sx={{ mt: 1 }}>
+                      <Typography variant="body2">
+                        <strong>Your answer:</strong> {formatAnswer(question, answer)}
+                      </Typography>
+                      {!correct && (
+                        <Typography variant="body2">
+                          <strong>Correct answer:</strong> {formatCorrectAnswer(question)}
+                        </Typography>
+                      )}
+                      {result && result.points_awarded > 0 && !correct && (
+                        <Typography variant="body2">
+                          <strong>Partial credit:</strong> {result.points_awarded} of{' '}
+                          {result.points_possible} points
+                        </Typography>
+                      )}
+                      {question.explanation && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                          {question.explanation}
+                        </Typography>
+                      )}
+                    </Box>
+                  }
+                />
+              </ListItem>
+            </React.Fragment>
+          );
+        })}
+      </List>
+    </Box>
+  );
+}
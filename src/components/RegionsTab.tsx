@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, Typography, Paper, Alert } from '@mui/material';
 import RegionList from './RegionList';
 import { useAuth } from '../hooks/useAuth';
+import { hasCapabilities } from '../utils/permissions';
 
 export default function RegionsTab() {
   const { profile } = useAuth();
@@ -16,7 +17,7 @@ export default function RegionsTab() {
     );
   }
 
-  const canManageRegions = profile.role === 'super_admin' || profile.role === 'admin';
+  const canManageRegions = hasCapabilities(profile, 'manage_regions');
 
   return (
     <Box>
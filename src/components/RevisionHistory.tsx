@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  FormControl,
+  InputLabel,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import { useStudyMaterialService } from '../contexts/ServiceContext';
+import { StudyMaterial, StudyMaterialRevision } from '../types/database';
+import { DiffLine, sideBySideDiff } from '../utils/textDiff';
+import { formatProfileName } from '../utils/profileName';
+
+interface RevisionHistoryProps {
+  open: boolean;
+  materialId: string;
+  // Shown in the restore confirmation when the editor has unsaved changes
+  hasUnsavedChanges?: boolean;
+  onClose: () => void;
+  onRestored: (material: StudyMaterial, revision: StudyMaterialRevision) => void;
+}
+
+const revisionLabel = (revision: StudyMaterialRevision) =>
+  `Revision ${revision.revision_number} · ${new Date(revision.updated_at).toLocaleString()}`;
+
+// Title changes are shown as part of the diff so they aren't missed
+const revisionText = (revision: StudyMaterialRevision) =>
+  `# ${revision.title}\n\n${revision.content}`;
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  return (
+    <Box
+      sx={(theme) => ({
+        display: 'flex',
+        minWidth: 0,
+        bgcolor:
+          line?.type === 'removed'
+            ? alpha(theme.palette.error.main, 0.12)
+            : line?.type === 'added'
+              ? alpha(theme.palette.success.main, 0.12)
+              : line
+                ? 'transparent'
+                : theme.palette.action.hover,
+      })}
+    >
+      <Box
+        component="span"
+        sx={{
+          width: 48,
+          flexShrink: 0,
+          pr: 1,
+          textAlign: 'right',
+          color: 'text.secondary',
+          userSelect: 'none',
+        }}
+      >
+        {line?.number}
+      </Box>
+      <Box
+        component="span"
+        sx={{ flex: 1, minWidth: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+      >
+        {line?.text}
+      </Box>
+    </Box>
+  );
+}
+
+export default function RevisionHistory({
+  open,
+  materialId,
+  hasUnsavedChanges = false,
+  onClose,
+  onRestored,
+}: RevisionHistoryProps) {
+  const studyMaterialService = useStudyMaterialService();
+  const [revisions, setRevisions] = useState<StudyMaterialRevision[]>([]);
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+  const [pendingRestore, setPendingRestore] = useState<StudyMaterialRevision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      if (!open) return;
+
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await studyMaterialService.listRevisions(materialId);
+      if (error) {
+        setError(error.message);
+      } else {
+        // Start by showing what the latest save changed
+        setRevisions(data);
+        setCompareId(data[0]?.id || '');
+        setBaseId(data[1]?.id || data[0]?.id || '');
+      }
+      setLoading(false);
+    };
+
+    loadRevisions();
+  }, [open, materialId, studyMaterialService]);
+
+  const base = revisions.find((revision) => revision.id === baseId);
+  const compare = revisions.find((revision) => revision.id === compareId);
+
+  const rows = useMemo(
+    () => (base && compare ? sideBySideDiff(revisionText(base), revisionText(compare)) : []),
+    [base, compare]
+  );
+  const added = rows.filter((row) => row.right?.type === 'added').length;
+  const removed = rows.filter((row) => row.left?.type === 'removed').length;
+
+  // Selecting a revision in the list shows the changes it made
+  const selectRevision = (index: number) => {
+    setCompareId(revisions[index].id);
+    setBaseId((revisions[index + 1] || revisions[index]).id);
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+
+    setRestoring(true);
+    setError(null);
+
+    const { data, error } = await studyMaterialService.restoreRevision(pendingRestore.id);
+
+    setRestoring(false);
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to restore revision');
+      setPendingRestore(null);
+      return;
+    }
+
+    onRestored(data, pendingRestore);
+    setPendingRestore(null);
+    onClose();
+  };
+
+  const renderRevisionSelect = (
+    label: string,
+    value: string,
+    onChange: (id: string) => void
+  ) => (
+    <FormControl size="small" sx={{ flex: 1, minWidth: 200 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select label={label} value={value} onChange={(e) => onChange(e.target.value)}>
+        {revisions.map((revision) => (
+          <MenuItem key={revision.id} value={revision.id}>
+            {revisionLabel(revision)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="lg">
+      <DialogTitle>Revision History</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+            <CircularProgress />
+          </Box>
+        ) : revisions.length === 0 ? (
+          <Alert severity="info">No revisions have been recorded yet.</Alert>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+            <List
+              dense
+              disablePadding
+              sx={{
+                width: 240,
+                flexShrink: 0,
+                maxHeight: '60vh',
+                overflowY: 'auto',
+                display: { xs: 'none', md: 'block' },
+              }}
+            >
+              {revisions.map((revision, index) => (
+                <ListItemButton
+                  key={revision.id}
+                  selected={revision.id === compareId}
+                  onClick={() => selectRevision(index)}
+                >
+                  <ListItemText
+                    primary={
+                      <>
+                        Revision {revision.revision_number}
+                        {index === 0 && (
+                          <Chip label="Current" size="small" color="primary" sx={{ ml: 1 }} />
+                        )}
+                      </>
+                    }
+                    secondary={
+                      <>
+                        {new Date(revision.updated_at).toLocaleString()}
+                        <br />
+                        {formatProfileName(revision.author)}
+                        {revision.restored_from && (
+                          <>
+                            <br />
+                            Restored from revision{' '}
+                            {
+                              revisions.find((r) => r.id === revision.restored_from)
+                                ?.revision_number
+                            }
+                          </>
+                        )}
+                      </>
+                    }
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+                {renderRevisionSelect('Compare', baseId, setBaseId)}
+                {renderRevisionSelect('With', compareId, setCompareId)}
+              </Box>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Chip label={`+${added}`} size="small" color="success" variant="outlined" />
+                <Chip label={`-${removed}`} size="small" color="error" variant="outlined" />
+                <Box sx={{ flex: 1 }} />
+                {compare && compare.id !== revisions[0].id && (
+                  <Button
+                    size="small"
+                    startIcon={<RestoreIcon />}
+                    onClick={() => setPendingRestore(compare)}
+                  >
+                    Restore revision {compare.revision_number}
+                  </Button>
+                )}
+              </Box>
+
+              {base && compare && added === 0 && removed === 0 ? (
+                <Typography color="text.secondary">These revisions are identical.</Typography>
+              ) : (
+                <Box
+                  sx={{
+                    border: 1,
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    maxHeight: '60vh',
+                    overflow: 'auto',
+                    fontFamily: 'monospace',
+                    fontSize: '0.8125rem',
+                    lineHeight: 1.6,
+                  }}
+                >
+                  {rows.map((row, index) => (
+                    <Box
+                      key={index}
+                      sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: '1px' }}
+                    >
+                      <DiffCell line={row.left} />
+                      <DiffCell line={row.right} />
+                    </Box>
+                  ))}
+                </Box>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <Dialog open={!!pendingRestore} onClose={() => setPendingRestore(null)}>
+        <DialogTitle>Restore revision {pendingRestore?.revision_number}?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The material's title and content will be replaced with this revision. The restore
+            is saved as a new revision, so the current version stays in the history.
+            {hasUnsavedChanges && ' Unsaved changes in the editor will be discarded.'}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingRestore(null)} disabled={restoring}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleRestore} disabled={restoring}>
+            {restoring ? <CircularProgress size={24} /> : 'Restore'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+}
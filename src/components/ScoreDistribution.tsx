@@ -0,0 +1,60 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { SCORE_BUCKET_LABELS } from '../utils/analytics';
+
+interface ScoreDistributionProps {
+  // Attempt counts for scores 0-9, 10-19, ... 90-100
+  buckets: number[];
+  // Buckets entirely below the passing score are shown as failing
+  passingScore?: number;
+  height?: number;
+}
+
+/**
+ * Bar chart of how many attempts scored in each band of ten percent
+ */
+export default function ScoreDistribution({
+  buckets,
+  passingScore,
+  height = 120,
+}: ScoreDistributionProps) {
+  const max = Math.max(...buckets, 0);
+
+  if (max === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No completed attempts yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.5 }}>
+      {SCORE_BUCKET_LABELS.map((label, index) => {
+        const count = buckets[index] ?? 0;
+        const failing = passingScore !== undefined && index * 10 + 9 < passingScore;
+
+        return (
+          <Box key={label} sx={{ flex: 1, minWidth: 0, textAlign: 'center' }}>
+            <Tooltip title={`${count} attempt${count === 1 ? '' : 's'} scored ${label}%`}>
+              <Box sx={{ height, display: 'flex', alignItems: 'flex-end' }}>
+                <Box
+                  sx={{
+                    width: '100%',
+                    height: `${(count / max) * 100}%`,
+                    minHeight: count > 0 ? 2 : 0,
+                    bgcolor: failing ? 'error.light' : 'primary.main',
+                    borderRadius: '4px 4px 0 0',
+                  }}
+                />
+              </Box>
+            </Tooltip>
+            <Typography variant="caption" color="text.secondary" noWrap display="block">
+              {label}
+            </Typography>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Box,
   Paper,
@@ -26,11 +26,19 @@ import {
   Tooltip,
   FormHelperText,
 } from '@mui/material';
-import { Edit as EditIcon, Delete as DeleteIcon, Add as AddIcon } from '@mui/icons-material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
 import { useServices } from '../hooks/useServices';
 import { useAuth } from '../hooks/useAuth';
 import { Profile, Region, ProfileRole } from '../types/database';
 import CreateUserForm from './CreateUserForm';
+import DataExportDialog from './DataExportDialog';
+import { MEMBER_COLUMNS } from '../utils/exportColumns';
+import { hasCapabilities } from '../utils/permissions';
 
 interface Props {
   organizationId: string;
@@ -52,6 +60,17 @@ export default function TeamManagement({ organizationId }: Props) {
     member?: Member;
   }>({ open: false });
   const [roleUpdateLoading, setRoleUpdateLoading] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const fetchMemberPage = useCallback(
+    (page: number, limit: number) =>
+      organizationService.getOrganizationMembers(organizationId, {
+        page,
+        limit,
+        includeRegions: true,
+      }),
+    [organizationService, organizationId]
+  );
 
   const loadData = async () => {
     try {
@@ -142,7 +161,7 @@ export default function TeamManagement({ organizationId }: Props) {
     }
   };
 
-  const canManageRoles = currentUser?.role === 'super_admin' || currentUser?.role === 'admin';
+  const canManageRoles = hasCapabilities(currentUser, 'manage_members');
 
   if (loading) {
     return (
@@ -171,9 +190,22 @@ export default function TeamManagement({ organizationId }: Props) {
 
   return (
     <Box sx={{ width: '100%' }}>
-      <Typography variant="h6" gutterBottom>
-        Team Members
-      </Typography>
+      <Box
+        sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}
+      >
+        <Typography variant="h6">Team Members</Typography>
+        <Button startIcon={<DownloadIcon />} onClick={() => setExportOpen(true)}>
+          Export
+        </Button>
+      </Box>
+      <DataExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        title="Export Team Members"
+        columns={MEMBER_COLUMNS}
+        fetchPage={fetchMemberPage}
+        fileName="team-members"
+      />
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
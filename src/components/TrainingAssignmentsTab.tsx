@@ -0,0 +1,519 @@
+import React, { Fragment, useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import {
+  useLearningPathService,
+  useOrganizationService,
+  useQuizService,
+  useRegionService,
+  useStudyMaterialService,
+  useTrainingAssignmentService,
+} from '../contexts/ServiceContext';
+import { useContentViewer } from '../hooks/useContentViewer';
+import {
+  Profile,
+  Region,
+  TrainingAssigneeStatus,
+  TrainingAssignment,
+  TrainingAssignmentSummary,
+  TrainingContentType,
+} from '../types/database';
+import { TrainingAssignee } from '../services/TrainingAssignmentService';
+import { canAuthorContent, isRegionAdmin } from '../utils/contentAccess';
+import { formatProfileName } from '../utils/profileName';
+import {
+  TRAINING_CONTENT_LABELS,
+  TRAINING_STATUS_COLORS,
+  TRAINING_STATUS_LABELS,
+  endOfDay,
+  getTrainingStatus,
+} from '../utils/training';
+
+type AssignableRole = NonNullable<TrainingAssignment['role']>;
+type AssigneeType = 'user' | 'region' | 'role';
+
+interface TrainingOption {
+  id: string;
+  title: string;
+}
+
+interface Props {
+  organizationId: string;
+}
+
+const ROLE_LABELS: Record<AssignableRole, string> = {
+  admin: 'Admins',
+  primary_admin: 'Primary Admins',
+  secondary_admin: 'Secondary Admins',
+  user: 'Users',
+};
+
+const describeAssignee = (assignment: TrainingAssignmentSummary) => {
+  if (assignment.role) return `All ${ROLE_LABELS[assignment.role]}`;
+  if (assignment.region_id) return `Everyone in ${assignment.assignee_name ?? 'a region'}`;
+  return assignment.assignee_name ?? 'Unknown';
+};
+
+/**
+ * Assigns quizzes, study materials and learning paths with optional due dates
+ * and reports who has completed them. Region admins can only assign within
+ * their own region.
+ */
+export default function TrainingAssignmentsTab({ organizationId }: Props) {
+  const trainingAssignmentService = useTrainingAssignmentService();
+  const organizationService = useOrganizationService();
+  const regionService = useRegionService();
+  const quizService = useQuizService();
+  const studyMaterialService = useStudyMaterialService();
+  const learningPathService = useLearningPathService();
+  const viewer = useContentViewer();
+  const [assignments, setAssignments] = useState<TrainingAssignmentSummary[]>([]);
+  const [training, setTraining] = useState<Record<TrainingContentType, TrainingOption[]>>({
+    quiz: [],
+    study_material: [],
+    learning_path: [],
+  });
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [contentType, setContentType] = useState<TrainingContentType>('quiz');
+  const [contentId, setContentId] = useState('');
+  const [assigneeType, setAssigneeType] = useState<AssigneeType>('user');
+  const [assigneeId, setAssigneeId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, TrainingAssigneeStatus[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const canAssign = canAuthorContent(viewer);
+  const regionLocked = isRegionAdmin(viewer);
+
+  const loadAssignments = useCallback(async () => {
+    const { data, error } = await trainingAssignmentService.listAssignmentSummaries();
+    if (error) setError(error.message);
+    setAssignments(data);
+    setStatuses({});
+  }, [trainingAssignmentService]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!canAssign) return;
+
+      try {
+        setLoading(true);
+        const contentViewer = viewer ?? undefined;
+        const [quizzesResult, materialsResult, pathsResult, membersResult, regionList] =
+          await Promise.all([
+            quizService.listQuizzes(organizationId, undefined, {
+              limit: 500,
+              status: 'published',
+              viewer: contentViewer,
+            }),
+            studyMaterialService.listMaterialSummaries(organizationId, undefined, {
+              status: 'published',
+              viewer: contentViewer,
+            }),
+            learningPathService.listPaths(organizationId, { status: 'published' }),
+            organizationService.getOrganizationMembers(organizationId, { limit: 1000 }),
+            regionService.listRegions(organizationId),
+          ]);
+
+        const failed = [quizzesResult, materialsResult, pathsResult, membersResult].find(
+          (result) => result.error
+        );
+        if (failed?.error) throw failed.error;
+
+        const byTitle = (a: TrainingOption, b: TrainingOption) => a.title.localeCompare(b.title);
+        setTraining({
+          quiz: [...quizzesResult.data].sort(byTitle),
+          study_material: [...materialsResult.data].sort(byTitle),
+          learning_path: pathsResult.data,
+        });
+        setMembers(
+          membersResult.data.filter(
+            (member) => !regionLocked || member.region_id === viewer?.region_id
+          )
+        );
+        setRegions(
+          regionList.filter((region) => !regionLocked || region.id === viewer?.region_id)
+        );
+        await loadAssignments();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load training assignments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [
+    organizationId,
+    canAssign,
+    regionLocked,
+    viewer,
+    loadAssignments,
+    quizService,
+    studyMaterialService,
+    learningPathService,
+    organizationService,
+    regionService,
+  ]);
+
+  const handleToggle = async (assignmentId: string) => {
+    if (expandedId === assignmentId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(assignmentId);
+    if (statuses[assignmentId]) return;
+
+    const { data, error } = await trainingAssignmentService.getAssignmentStatus(assignmentId);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setStatuses((prev) => ({ ...prev, [assignmentId]: data }));
+  };
+
+  const handleAssign = async () => {
+    if (!contentId) {
+      setError('Choose the training to assign');
+      return;
+    }
+    if (!assigneeId) {
+      setError(`Choose a ${assigneeType}`);
+      return;
+    }
+
+    const assignee: TrainingAssignee =
+      assigneeType === 'user'
+        ? { userId: assigneeId }
+        : assigneeType === 'region'
+          ? { regionId: assigneeId }
+          : { role: assigneeId as AssignableRole };
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const { error } = await trainingAssignmentService.assignTraining(
+      contentType,
+      contentId,
+      assignee,
+      dueDate ? endOfDay(dueDate) : null
+    );
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    setSuccess('Training assigned');
+    setContentId('');
+    setAssigneeId('');
+    setDueDate('');
+    await loadAssignments();
+  };
+
+  const handleRemove = async (assignment: TrainingAssignmentSummary) => {
+    setError(null);
+
+    const { error } = await trainingAssignmentService.removeAssignment(assignment.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setAssignments((prev) => prev.filter((item) => item.id !== assignment.id));
+  };
+
+  if (!canAssign) {
+    return (
+      <Alert severity="info">
+        Only administrators can assign training. Your assigned training is listed under My
+        Progress.
+      </Alert>
+    );
+  }
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Typography variant="h6" gutterBottom>
+        Assign Training
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 4 }}>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: '1fr 2fr' },
+            gap: 2,
+          }}
+        >
+          <FormControl fullWidth size="small">
+            <InputLabel>Type</InputLabel>
+            <Select
+              label="Type"
+              value={contentType}
+              onChange={(e) => {
+                setContentType(e.target.value as TrainingContentType);
+                setContentId('');
+              }}
+            >
+              {Object.entries(TRAINING_CONTENT_LABELS).map(([value, label]) => (
+                <MenuItem key={value} value={value}>
+                  {label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth size="small">
+            <InputLabel>Training</InputLabel>
+            <Select
+              label="Training"
+              value={contentId}
+              onChange={(e) => setContentId(e.target.value)}
+            >
+              {training[contentType].map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.title}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={assigneeType}
+            onChange={(_, value: AssigneeType | null) => {
+              if (!value) return;
+              setAssigneeType(value);
+              setAssigneeId('');
+            }}
+          >
+            <ToggleButton value="user">User</ToggleButton>
+            <ToggleButton value="region">Region</ToggleButton>
+            {!regionLocked && <ToggleButton value="role">Role</ToggleButton>}
+          </ToggleButtonGroup>
+          <FormControl fullWidth size="small">
+            <InputLabel>Assign to</InputLabel>
+            <Select
+              label="Assign to"
+              value={assigneeId}
+              onChange={(e) => setAssigneeId(e.target.value)}
+            >
+              {assigneeType === 'user' &&
+                members.map((member) => (
+                  <MenuItem key={member.id} value={member.id}>
+                    {formatProfileName(member)}
+                  </MenuItem>
+                ))}
+              {assigneeType === 'region' &&
+                regions.map((region) => (
+                  <MenuItem key={region.id} value={region.id}>
+                    {region.name}
+                  </MenuItem>
+                ))}
+              {assigneeType === 'role' &&
+                Object.entries(ROLE_LABELS).map(([role, label]) => (
+                  <MenuItem key={role} value={role}>
+                    All {label}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Due date"
+            type="date"
+            size="small"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            helperText="Optional"
+          />
+          <Box>
+            <Button variant="contained" onClick={handleAssign} disabled={saving}>
+              {saving ? <CircularProgress size={24} /> : 'Assign'}
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      <Typography variant="h6" gutterBottom>
+        Assigned Training
+      </Typography>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>Training</TableCell>
+              <TableCell>Assigned to</TableCell>
+              <TableCell>Due</TableCell>
+              <TableCell>Completed</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {assignments.map((assignment) => {
+              const expanded = expandedId === assignment.id;
+
+              return (
+                <Fragment key={assignment.id}>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <IconButton size="small" onClick={() => handleToggle(assignment.id)}>
+                        {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {assignment.content_title ?? 'Deleted training'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {TRAINING_CONTENT_LABELS[assignment.content_type]}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{describeAssignee(assignment)}</TableCell>
+                    <TableCell>
+                      {assignment.due_at
+                        ? new Date(assignment.due_at).toLocaleDateString()
+                        : 'No due date'}
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {assignment.assignees_completed} of {assignment.assignees_total}
+                        {assignment.assignees_overdue > 0 && (
+                          <Chip
+                            label={`${assignment.assignees_overdue} overdue`}
+                            size="small"
+                            color="error"
+                          />
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Remove assignment">
+                        <IconButton
+                          onClick={() => handleRemove(assignment)}
+                          color="error"
+                          size="small"
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={6} sx={{ py: 0, borderBottom: expanded ? undefined : 0 }}>
+                      <Collapse in={expanded} unmountOnExit>
+                        {!statuses[assignment.id] ? (
+                          <Box display="flex" justifyContent="center" p={2}>
+                            <CircularProgress size={24} />
+                          </Box>
+                        ) : statuses[assignment.id].length === 0 ? (
+                          <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                            Nobody is assigned this training yet.
+                          </Typography>
+                        ) : (
+                          <Table size="small" sx={{ my: 1 }}>
+                            <TableBody>
+                              {statuses[assignment.id].map((assignee) => {
+                                const status = getTrainingStatus(
+                                  assignment.due_at,
+                                  assignee.completed_at
+                                );
+
+                                return (
+                                  <TableRow key={assignee.user_id}>
+                                    <TableCell>{formatProfileName(assignee)}</TableCell>
+                                    <TableCell>
+                                      <Chip
+                                        label={TRAINING_STATUS_LABELS[status]}
+                                        size="small"
+                                        color={TRAINING_STATUS_COLORS[status]}
+                                      />
+                                    </TableCell>
+                                    <TableCell>
+                                      {assignee.completed_at &&
+                                        new Date(assignee.completed_at).toLocaleDateString()}
+                                    </TableCell>
+                                  </TableRow>
+                                );
+                              })}
+                            </TableBody>
+                          </Table>
+                        )}
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </Fragment>
+              );
+            })}
+            {assignments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  <Typography color="text.secondary">No training has been assigned</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
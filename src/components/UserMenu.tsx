@@ -17,11 +17,16 @@ import {
   AdminPanelSettings as AdminIcon,
   Settings as SettingsIcon,
   Business as BusinessIcon,
+  FactCheck as ApprovalsIcon,
+  TrendingUp as ProgressIcon,
+  WorkspacePremium as CertificateIcon,
+  Insights as AnalyticsIcon,
 } from '@mui/icons-material';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useMonitoring } from '../hooks/useMonitoring';
 import { useNavigation } from '../hooks/useNavigation';
 import type { Profile } from '../types/database';
+import { hasCapabilities } from '../utils/permissions';
 
 export default function UserMenu() {
   const auth = useAuthContext();
@@ -32,6 +37,8 @@ export default function UserMenu() {
   const isLoading = auth.loading;
   const profile = auth.profile as Profile | null;
   const email = profile?.email || auth.user?.email;
+  const canManageMembers = !isLoading && hasCapabilities(profile, 'manage_members');
+  const canApprove = !isLoading && hasCapabilities(profile, 'approve_global_content');
 
   const handleMenu = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -139,18 +146,44 @@ export default function UserMenu() {
           </ListItemIcon>
           Profile
         </MenuItem>
+        <MenuItem onClick={() => navigation.goTo('MY_PROGRESS')}>
+          <ListItemIcon>
+            <ProgressIcon fontSize="small" />
+          </ListItemIcon>
+          My Progress
+        </MenuItem>
+        <MenuItem onClick={() => navigation.goTo('MY_CERTIFICATES')}>
+          <ListItemIcon>
+            <CertificateIcon fontSize="small" />
+          </ListItemIcon>
+          My Certificates
+        </MenuItem>
+        {!isLoading && hasCapabilities(profile, 'view_analytics') && (
+          <MenuItem onClick={() => navigation.goTo('ANALYTICS')}>
+            <ListItemIcon>
+              <AnalyticsIcon fontSize="small" />
+            </ListItemIcon>
+            Analytics
+          </MenuItem>
+        )}
 
         {/* Admin section */}
-        {!isLoading && profile?.role === 'admin' && (
-          <>
-            <Divider />
-            <MenuItem onClick={() => navigation.goTo('ORGANIZATION_SETTINGS')}>
-              <ListItemIcon>
-                <BusinessIcon fontSize="small" />
-              </ListItemIcon>
-              Organization Settings
-            </MenuItem>
-          </>
+        {(canManageMembers || canApprove) && <Divider />}
+        {canManageMembers && (
+          <MenuItem onClick={() => navigation.goTo('ORGANIZATION_SETTINGS')}>
+            <ListItemIcon>
+              <BusinessIcon fontSize="small" />
+            </ListItemIcon>
+            Organization Settings
+          </MenuItem>
+        )}
+        {canApprove && (
+          <MenuItem onClick={() => navigation.goTo('APPROVALS')}>
+            <ListItemIcon>
+              <ApprovalsIcon fontSize="small" />
+            </ListItemIcon>
+            Content Approvals
+          </MenuItem>
         )}
 
         <Divider />
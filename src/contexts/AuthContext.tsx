@@ -3,6 +3,7 @@ import { useAuth } from '../hooks/useAuth';
 import { monitoring } from '../services/MonitoringService';
 import { logCacheState } from '../utils/authCache';
 import LoadingScreen from '../components/LoadingScreen';
+import { hasCapabilities } from '../utils/permissions';
 export type { AuthProps } from '../hooks/useAuth';
 
 const AuthContext = React.createContext<ReturnType<typeof useAuth> | null>(null);
@@ -89,9 +90,10 @@ export { useAuth, useRequireAuth } from '../hooks/useAuth';
 // Helper hook for admin-only routes
 export function useRequireAdmin() {
   const auth = useAuthContext();
+  const canManageMembers = hasCapabilities(auth.profile, 'manage_members');
 
   useEffect(() => {
-    if (!auth.loading && auth.isAuthenticated && auth.profile?.role !== 'admin') {
+    if (!auth.loading && auth.isAuthenticated && !canManageMembers) {
       const error = new Error('Unauthorized access attempt to admin route');
       monitoring.captureError(error, {
         userId: auth.profile?.id,
@@ -100,7 +102,7 @@ export function useRequireAdmin() {
       });
       window.location.href = '/';
     }
-  }, [auth.loading, auth.isAuthenticated, auth.profile?.role, auth.profile?.id]);
+  }, [auth.loading, auth.isAuthenticated, canManageMembers, auth.profile?.role, auth.profile?.id]);
 
   return auth;
 }
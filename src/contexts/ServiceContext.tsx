@@ -5,6 +5,14 @@ import {
   studyMaterialService,
   organizationService,
   regionService,
+  approvalService,
+  notificationService,
+  progressService,
+  learningPathService,
+  trainingAssignmentService,
+  certificateService,
+  analyticsService,
+  auditService,
 } from '../services';
 import type {
   UserService,
@@ -12,6 +20,14 @@ import type {
   StudyMaterialService,
   OrganizationService,
   RegionService,
+  ApprovalService,
+  NotificationService,
+  ProgressService,
+  LearningPathService,
+  TrainingAssignmentService,
+  CertificateService,
+  AnalyticsService,
+  AuditService,
 } from '../services';
 
 export interface ServiceContextType {
@@ -20,6 +36,14 @@ export interface ServiceContextType {
   studyMaterialService: StudyMaterialService;
   organizationService: OrganizationService;
   regionService: RegionService;
+  approvalService: ApprovalService;
+  notificationService: NotificationService;
+  progressService: ProgressService;
+  learningPathService: LearningPathService;
+  trainingAssignmentService: TrainingAssignmentService;
+  certificateService: CertificateService;
+  analyticsService: AnalyticsService;
+  auditService: AuditService;
 }
 
 const ServiceContext = createContext<ServiceContextType | null>(null);
@@ -35,6 +59,14 @@ export function ServiceProvider({ children }: ServiceProviderProps) {
     studyMaterialService,
     organizationService,
     regionService,
+    approvalService,
+    notificationService,
+    progressService,
+    learningPathService,
+    trainingAssignmentService,
+    certificateService,
+    analyticsService,
+    auditService,
   };
 
   return <ServiceContext.Provider value={services}>{children}</ServiceContext.Provider>;
@@ -82,6 +114,70 @@ export function useRegionService(): RegionService {
   return context.regionService;
 }
 
+export function useApprovalService(): ApprovalService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useApprovalService must be used within a ServiceProvider');
+  }
+  return context.approvalService;
+}
+
+export function useNotificationService(): NotificationService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useNotificationService must be used within a ServiceProvider');
+  }
+  return context.notificationService;
+}
+
+export function useProgressService(): ProgressService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useProgressService must be used within a ServiceProvider');
+  }
+  return context.progressService;
+}
+
+export function useLearningPathService(): LearningPathService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useLearningPathService must be used within a ServiceProvider');
+  }
+  return context.learningPathService;
+}
+
+export function useTrainingAssignmentService(): TrainingAssignmentService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useTrainingAssignmentService must be used within a ServiceProvider');
+  }
+  return context.trainingAssignmentService;
+}
+
+export function useCertificateService(): CertificateService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useCertificateService must be used within a ServiceProvider');
+  }
+  return context.certificateService;
+}
+
+export function useAnalyticsService(): AnalyticsService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useAnalyticsService must be used within a ServiceProvider');
+  }
+  return context.analyticsService;
+}
+
+export function useAuditService(): AuditService {
+  const context = useContext(ServiceContext);
+  if (!context) {
+    throw new Error('useAuditService must be used within a ServiceProvider');
+  }
+  return context.auditService;
+}
+
 export function useServices(): ServiceContextType {
   const context = useContext(ServiceContext);
   if (!context) {
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { ContentViewer } from '../utils/contentAccess';
+
+/**
+ * The current user's role and region, kept stable across background profile
+ * refreshes so pages don't reload content when nothing relevant changed
+ */
+export const useContentViewer = (): ContentViewer | null => {
+  const { profile } = useAuthContext();
+  const role = profile?.role;
+  const regionId = profile?.region_id ?? null;
+
+  return useMemo(() => (role ? { role, region_id: regionId } : null), [role, regionId]);
+};
@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { generatePath, useNavigate } from 'react-router-dom';
 import { ROUTES, RouteName, NavigateOptions } from '../types/routes';
 import { useMonitoring } from './useMonitoring';
 
@@ -11,12 +11,13 @@ export const useNavigation = () => {
     route: RouteName,
     options: NavigateOptions = {}
   ) => {
-    const path = ROUTES[route];
+    const { params, ...navigateOptions } = options;
+    const path = params ? generatePath<string>(ROUTES[route], params) : ROUTES[route];
     trackNavigation(path, {
       from: window.location.pathname,
       state: options.state
     });
-    navigate(path, options);
+    navigate(path, navigateOptions);
   }, [navigate, trackNavigation]);
 
   const goBack = useCallback(() => {
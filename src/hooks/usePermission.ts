@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { useContentViewer } from './useContentViewer';
+import { useRegionService } from '../contexts/ServiceContext';
+import {
+  Capability,
+  PermissionSubject,
+  RegionAdminRole,
+  hasCapabilities,
+} from '../utils/permissions';
+
+interface LoadedRegionRole {
+  regionId: string;
+  // undefined when it could not be loaded, so it is derived from the profile role
+  role: RegionAdminRole | null | undefined;
+}
+
+/**
+ * The current user as a permission subject, with their region_admins entry
+ * once it has loaded. Route guards wait for loading to finish before deciding.
+ */
+export const usePermissionSubject = (): {
+  subject: PermissionSubject | null;
+  loading: boolean;
+} => {
+  const viewer = useContentViewer();
+  const regionService = useRegionService();
+  const [loaded, setLoaded] = useState<LoadedRegionRole | null>(null);
+  const regionId = viewer?.region_id ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!regionId) return;
+
+    regionService
+      .getCurrentUserRegionRole()
+      .then((role) => {
+        if (!cancelled) setLoaded({ regionId, role });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ regionId, role: undefined });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [regionId, regionService]);
+
+  const current = regionId !== null && loaded?.regionId === regionId ? loaded : null;
+
+  return {
+    subject: viewer && { ...viewer, region_role: current?.role },
+    loading: regionId !== null && !current,
+  };
+};
+
+/**
+ * Whether the current user has all of the given capabilities. Region admin
+ * capabilities follow the user's region_admins entry once it has loaded.
+ */
+export const usePermission = (required: Capability | Capability[]): boolean => {
+  const { subject } = usePermissionSubject();
+  return hasCapabilities(subject, required);
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+
+const secondsUntil = (deadline: string, clockOffset: number) =>
+  Math.max(0, Math.ceil((new Date(deadline).getTime() - (Date.now() + clockOffset)) / 1000));
+
+interface UseQuizTimerOptions {
+  expiresAt: string | null;
+  // Difference between the server clock and the local clock in milliseconds
+  clockOffset?: number;
+  onExpire?: () => void;
+}
+
+/**
+ * Countdown for a timed quiz attempt, driven by the server-issued deadline
+ * so that it stays correct across page refreshes.
+ */
+export function useQuizTimer({ expiresAt, clockOffset = 0, onExpire }: UseQuizTimerOptions) {
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  const [secondsRemaining, setSecondsRemaining] = useState<number | null>(() =>
+    expiresAt ? secondsUntil(expiresAt, clockOffset) : null
+  );
+
+  useEffect(() => {
+    if (!expiresAt) {
+      setSecondsRemaining(null);
+      return;
+    }
+
+    let expired = false;
+
+    const tick = () => {
+      const seconds = secondsUntil(expiresAt, clockOffset);
+      setSecondsRemaining(seconds);
+
+      if (seconds === 0 && !expired) {
+        expired = true;
+        onExpireRef.current?.();
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [expiresAt, clockOffset]);
+
+  return {
+    secondsRemaining,
+    isExpired: secondsRemaining === 0,
+  };
+}
+
+/**
+ * Format a number of seconds as m:ss or h:mm:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+}
@@ -5,6 +5,7 @@ import { useMonitoring } from '../hooks/useMonitoring';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '../hooks/useNavigation';
 import UserMenu from '../components/UserMenu';
+import NotificationBell from '../components/NotificationBell';
 import HomeIcon from '@mui/icons-material/Home';
 
 interface MainLayoutProps {
@@ -101,8 +102,11 @@ export default function MainLayout({ children }: MainLayoutProps) {
               )}
             </Box>
 
-            {/* Right side: User menu */}
-            {(auth.isAuthenticated || auth.loading) && <UserMenu />}
+            {/* Right side: Notifications and user menu */}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              {auth.isAuthenticated && !auth.loading && <NotificationBell />}
+              {(auth.isAuthenticated || auth.loading) && <UserMenu />}
+            </Box>
           </Box>
         </Box>
 
@@ -0,0 +1,570 @@
+import React, { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Collapse,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Download as DownloadIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useAnalyticsService, useRegionService } from '../contexts/ServiceContext';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { useNavigation } from '../hooks/useNavigation';
+import ScoreDistribution from '../components/ScoreDistribution';
+import DataExportDialog from '../components/DataExportDialog';
+import { LearnerAnalytics, QuizAnalytics, Region, RegionAnalytics } from '../types/database';
+import { AnalyticsFilters } from '../services/AnalyticsService';
+import { combineScoreDistributions, overallAverageScore } from '../utils/analytics';
+import { isOrganizationAdmin } from '../utils/contentAccess';
+import { hasCapabilities } from '../utils/permissions';
+import { PROGRESS_COLUMNS, QUIZ_ATTEMPT_COLUMNS } from '../utils/exportColumns';
+import { formatProfileName } from '../utils/profileName';
+import { completionPercent } from '../utils/progress';
+import { endOfDay, startOfDay } from '../utils/training';
+
+// Learners shown before "Show all"
+const LEARNER_PREVIEW_COUNT = 25;
+
+const formatScore = (score: number | null) => (score === null ? '—' : `${Number(score)}%`);
+
+function RateBar({ done, total }: { done: number; total: number }) {
+  const percent = completionPercent(done, total);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 120 }}>
+      <LinearProgress
+        variant="determinate"
+        value={percent}
+        sx={{ flex: 1, height: 8, borderRadius: 4 }}
+      />
+      <Typography variant="body2" sx={{ minWidth: 36, textAlign: 'right' }}>
+        {total > 0 ? `${percent}%` : '—'}
+      </Typography>
+    </Box>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="h5">{value}</Typography>
+    </Paper>
+  );
+}
+
+/**
+ * Quiz results for organization admins across regions and for region admins
+ * within their own region. Everything is aggregated in the database.
+ */
+export default function Analytics() {
+  const { profile } = useAuthContext();
+  const analyticsService = useAnalyticsService();
+  const regionService = useRegionService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [regionId, setRegionId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [quizzes, setQuizzes] = useState<QuizAnalytics[]>([]);
+  const [regionStats, setRegionStats] = useState<RegionAnalytics[]>([]);
+  const [learners, setLearners] = useState<LearnerAnalytics[]>([]);
+  const [learnerQuizId, setLearnerQuizId] = useState('');
+  const [showAllLearners, setShowAllLearners] = useState(false);
+  const [expandedQuizId, setExpandedQuizId] = useState<string | null>(null);
+  const [exportDialog, setExportDialog] = useState<'attempts' | 'progress' | null>(null);
+  const [exportQuizId, setExportQuizId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [learnersLoading, setLearnersLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const organizationId = profile?.organization_id;
+  const canView = hasCapabilities(viewer, 'view_analytics');
+  const organizationWide = isOrganizationAdmin(viewer);
+
+  const filters = useMemo<AnalyticsFilters>(
+    () => ({
+      regionId: regionId || null,
+      from: fromDate ? startOfDay(fromDate) : null,
+      to: toDate ? endOfDay(toDate) : null,
+    }),
+    [regionId, fromDate, toDate]
+  );
+
+  useEffect(() => {
+    const loadRegions = async () => {
+      if (!organizationId || !organizationWide) return;
+
+      try {
+        setRegions(await regionService.listRegions(organizationId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load regions');
+      }
+    };
+
+    loadRegions();
+  }, [organizationId, organizationWide, regionService]);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      if (!canView) return;
+
+      setLoading(true);
+      const [quizResult, regionResult] = await Promise.all([
+        analyticsService.getQuizAnalytics(filters),
+        analyticsService.getRegionAnalytics({ from: filters.from, to: filters.to }),
+      ]);
+
+      const failed = quizResult.error ?? regionResult.error;
+      if (failed) setError(failed.message);
+      setQuizzes(quizResult.data);
+      setRegionStats(regionResult.data);
+      setLoading(false);
+    };
+
+    loadAnalytics();
+  }, [canView, filters, analyticsService]);
+
+  useEffect(() => {
+    const loadLearners = async () => {
+      if (!canView) return;
+
+      setLearnersLoading(true);
+      const { data, error } = await analyticsService.getLearnerAnalytics({
+        ...filters,
+        quizId: learnerQuizId || null,
+      });
+
+      if (error) setError(error.message);
+      setLearners(data);
+      setLearnersLoading(false);
+    };
+
+    loadLearners();
+  }, [canView, filters, learnerQuizId, analyticsService]);
+
+  const fetchAttemptPage = useCallback(
+    (page: number, limit: number) =>
+      analyticsService.listQuizAttempts(
+        { ...filters, quizId: exportQuizId || null },
+        { page, limit }
+      ),
+    [analyticsService, filters, exportQuizId]
+  );
+
+  const fetchProgressPage = useCallback(
+    (page: number, limit: number) =>
+      analyticsService.listLearnerProgress({ regionId: filters.regionId }, { page, limit }),
+    [analyticsService, filters.regionId]
+  );
+
+  const totals = useMemo(() => {
+    const attempts = quizzes.reduce((sum, quiz) => sum + quiz.attempts_total, 0);
+    const passed = quizzes.reduce((sum, quiz) => sum + quiz.attempts_passed, 0);
+    const activeLearners = learnerQuizId
+      ? null
+      : learners.filter((learner) => learner.attempts_total > 0).length;
+
+    return {
+      attempts,
+      passRate: attempts > 0 ? `${completionPercent(passed, attempts)}%` : '—',
+      averageScore: formatScore(overallAverageScore(quizzes)),
+      activeLearners,
+      distribution: combineScoreDistributions(quizzes),
+    };
+  }, [quizzes, learners, learnerQuizId]);
+
+  const visibleLearners = showAllLearners ? learners : learners.slice(0, LEARNER_PREVIEW_COUNT);
+
+  if (viewer && !canView) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert severity="warning">You do not have permission to view analytics.</Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Analytics
+      </Typography>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        {organizationWide
+          ? 'Quiz results across your organization and its regions'
+          : 'Quiz results for your region'}
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, my: 3, display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        {organizationWide && (
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Region</InputLabel>
+            <Select label="Region" value={regionId} onChange={(e) => setRegionId(e.target.value)}>
+              <MenuItem value="">All regions</MenuItem>
+              {regions.map((region) => (
+                <MenuItem key={region.id} value={region.id}>
+                  {region.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        {(regionId || fromDate || toDate) && (
+          <Button
+            onClick={() => {
+              setRegionId('');
+              setFromDate('');
+              setToDate('');
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+        <Box sx={{ display: 'flex', gap: 1, ml: 'auto' }}>
+          <Button startIcon={<DownloadIcon />} onClick={() => setExportDialog('attempts')}>
+            Export attempts
+          </Button>
+          <Button startIcon={<DownloadIcon />} onClick={() => setExportDialog('progress')}>
+            Export progress
+          </Button>
+        </Box>
+      </Paper>
+
+      <DataExportDialog
+        open={exportDialog === 'attempts'}
+        onClose={() => setExportDialog(null)}
+        title="Export Quiz Attempts"
+        columns={QUIZ_ATTEMPT_COLUMNS}
+        fetchPage={fetchAttemptPage}
+        fileName="quiz-attempts"
+      >
+        <FormControl size="small" fullWidth>
+          <InputLabel>Quiz</InputLabel>
+          <Select
+            label="Quiz"
+            value={exportQuizId}
+            onChange={(e) => setExportQuizId(e.target.value)}
+          >
+            <MenuItem value="">All quizzes</MenuItem>
+            {quizzes.map((quiz) => (
+              <MenuItem key={quiz.quiz_id} value={quiz.quiz_id}>
+                {quiz.quiz_title}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Typography variant="body2" color="text.secondary">
+          Completed attempts in the region and date range selected on this page.
+        </Typography>
+      </DataExportDialog>
+      <DataExportDialog
+        open={exportDialog === 'progress'}
+        onClose={() => setExportDialog(null)}
+        title="Export Progress Report"
+        columns={PROGRESS_COLUMNS}
+        fetchPage={fetchProgressPage}
+        fileName="progress-report"
+      >
+        <Typography variant="body2" color="text.secondary">
+          Current progress of every member in the region selected on this page.
+        </Typography>
+      </DataExportDialog>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(4, 1fr)' },
+              gap: 2,
+              mb: 3,
+            }}
+          >
+            <StatCard label="Attempts" value={String(totals.attempts)} />
+            <StatCard label="Average score" value={totals.averageScore} />
+            <StatCard label="Pass rate" value={totals.passRate} />
+            <StatCard
+              label="Active learners"
+              value={
+                totals.activeLearners === null || learnersLoading
+                  ? '—'
+                  : `${totals.activeLearners} of ${learners.length}`
+              }
+            />
+          </Box>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Score Distribution
+            </Typography>
+            <ScoreDistribution buckets={totals.distribution} />
+          </Paper>
+
+          {organizationWide && regionStats.length > 0 && (
+            <>
+              <Typography variant="h6" gutterBottom>
+                Regions
+              </Typography>
+              <TableContainer component={Paper} sx={{ mb: 3 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Region</TableCell>
+                      <TableCell align="right">Members</TableCell>
+                      <TableCell align="right">Active</TableCell>
+                      <TableCell align="right">Attempts</TableCell>
+                      <TableCell align="right">Avg. score</TableCell>
+                      <TableCell>Pass rate</TableCell>
+                      <TableCell>Completion</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {regionStats.map((region) => (
+                      <TableRow
+                        key={region.region_id ?? 'none'}
+                        selected={!!regionId && region.region_id === regionId}
+                      >
+                        <TableCell>{region.region_name ?? 'No region'}</TableCell>
+                        <TableCell align="right">{region.members}</TableCell>
+                        <TableCell align="right">{region.active_learners}</TableCell>
+                        <TableCell align="right">{region.attempts_total}</TableCell>
+                        <TableCell align="right">{formatScore(region.average_score)}</TableCell>
+                        <TableCell>
+                          <RateBar done={region.attempts_passed} total={region.attempts_total} />
+                        </TableCell>
+                        <TableCell>
+                          <RateBar done={region.quizzes_passed} total={region.quizzes_available} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
+          <Typography variant="h6" gutterBottom>
+            Quizzes
+          </Typography>
+          {quizzes.length === 0 ? (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              No published quizzes or attempts match these filters.
+            </Alert>
+          ) : (
+            <TableContainer component={Paper} sx={{ mb: 3 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Quiz</TableCell>
+                    <TableCell align="right">Attempts</TableCell>
+                    <TableCell align="right">Per learner</TableCell>
+                    <TableCell align="right">Avg. score</TableCell>
+                    <TableCell>Pass rate</TableCell>
+                    <TableCell>Completion</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {quizzes.map((quiz) => {
+                    const expanded = expandedQuizId === quiz.quiz_id;
+
+                    return (
+                      <Fragment key={quiz.quiz_id}>
+                        <TableRow>
+                          <TableCell padding="checkbox">
+                            <IconButton
+                              size="small"
+                              onClick={() => setExpandedQuizId(expanded ? null : quiz.quiz_id)}
+                            >
+                              {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                            </IconButton>
+                          </TableCell>
+                          <TableCell>{quiz.quiz_title}</TableCell>
+                          <TableCell align="right">{quiz.attempts_total}</TableCell>
+                          <TableCell align="right">
+                            {quiz.learners_attempted > 0
+                              ? (quiz.attempts_total / quiz.learners_attempted).toFixed(1)
+                              : '—'}
+                          </TableCell>
+                          <TableCell align="right">{formatScore(quiz.average_score)}</TableCell>
+                          <TableCell>
+                            <RateBar done={quiz.attempts_passed} total={quiz.attempts_total} />
+                          </TableCell>
+                          <TableCell>
+                            <RateBar done={quiz.learners_passed} total={quiz.eligible_learners} />
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell
+                            colSpan={7}
+                            sx={{ py: 0, borderBottom: expanded ? undefined : 0 }}
+                          >
+                            <Collapse in={expanded} unmountOnExit>
+                              <Box sx={{ py: 2 }}>
+                                <Typography variant="body2" color="text.secondary" gutterBottom>
+                                  {[
+                                    `${quiz.learners_passed} of ${quiz.eligible_learners} passed`,
+                                    `${quiz.learners_attempted} attempted`,
+                                    `passing score ${quiz.passing_score}%`,
+                                  ].join(' · ')}
+                                </Typography>
+                                <ScoreDistribution
+                                  buckets={quiz.score_distribution}
+                                  passingScore={quiz.passing_score}
+                                  height={80}
+                                />
+                              </Box>
+                            </Collapse>
+                          </TableCell>
+                        </TableRow>
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+          flexWrap: 'wrap',
+          mb: 1,
+        }}
+      >
+        <Typography variant="h6">Learners</Typography>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>Quiz</InputLabel>
+          <Select
+            label="Quiz"
+            value={learnerQuizId}
+            onChange={(e) => setLearnerQuizId(e.target.value)}
+          >
+            <MenuItem value="">All quizzes</MenuItem>
+            {quizzes.map((quiz) => (
+              <MenuItem key={quiz.quiz_id} value={quiz.quiz_id}>
+                {quiz.quiz_title}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      {learnersLoading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      ) : learners.length === 0 ? (
+        <Alert severity="info">No learners match these filters.</Alert>
+      ) : (
+        <>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Learner</TableCell>
+                  {organizationWide && <TableCell>Region</TableCell>}
+                  <TableCell align="right">Attempts</TableCell>
+                  <TableCell align="right">Quizzes passed</TableCell>
+                  <TableCell align="right">Avg. score</TableCell>
+                  <TableCell>Last attempt</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleLearners.map((learner) => (
+                  <TableRow key={learner.user_id}>
+                    <TableCell>{formatProfileName(learner)}</TableCell>
+                    {organizationWide && <TableCell>{learner.region_name ?? '—'}</TableCell>}
+                    <TableCell align="right">{learner.attempts_total}</TableCell>
+                    <TableCell align="right">
+                      {learner.quizzes_passed} of {learner.quizzes_attempted}
+                    </TableCell>
+                    <TableCell align="right">{formatScore(learner.average_score)}</TableCell>
+                    <TableCell>
+                      {learner.last_attempt_at
+                        ? new Date(learner.last_attempt_at).toLocaleDateString()
+                        : 'Never'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          {learners.length > LEARNER_PREVIEW_COUNT && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 1 }}>
+              <Button onClick={() => setShowAllLearners((value) => !value)}>
+                {showAllLearners ? 'Show fewer' : `Show all ${learners.length} learners`}
+              </Button>
+            </Box>
+          )}
+        </>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  Tabs,
+  Tab,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Check as ApproveIcon,
+  Close as RejectIcon,
+  OpenInNew as OpenIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useApprovalService, useRegionService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useMonitoring } from '../hooks/useMonitoring';
+import { ApprovalStatus, ContentApproval } from '../types/database';
+import { formatProfileName } from '../utils/profileName';
+
+type QueueTab = 'pending' | 'reviewed';
+
+interface PendingDecision {
+  approval: ContentApproval;
+  approve: boolean;
+}
+
+const CONTENT_TYPE_LABELS: Record<ContentApproval['content_type'], string> = {
+  quiz: 'Quiz',
+  study_material: 'Study Material',
+};
+
+const STATUS_COLORS: Record<ApprovalStatus, 'default' | 'success' | 'error'> = {
+  pending: 'default',
+  approved: 'success',
+  rejected: 'error',
+};
+
+export default function ApprovalQueue() {
+  const { profile } = useAuthContext();
+  const approvalService = useApprovalService();
+  const regionService = useRegionService();
+  const navigation = useNavigation();
+  const { trackError } = useMonitoring('ApprovalQueue');
+
+  const [tab, setTab] = useState<QueueTab>('pending');
+  const [approvals, setApprovals] = useState<ContentApproval[]>([]);
+  const [canReview, setCanReview] = useState<boolean | null>(null);
+  const [decision, setDecision] = useState<PendingDecision | null>(null);
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkAccess = async () => {
+      try {
+        setCanReview(await regionService.canManageGlobalContent());
+      } catch (err) {
+        setCanReview(false);
+        setError(err instanceof Error ? err.message : 'Failed to check permissions');
+      }
+    };
+
+    checkAccess();
+  }, [regionService]);
+
+  useEffect(() => {
+    const loadApprovals = async () => {
+      if (!profile?.organization_id || !canReview) {
+        setLoading(canReview === null);
+        return;
+      }
+
+      setLoading(true);
+      const { data, error } = await approvalService.listApprovals(
+        profile.organization_id,
+        tab === 'pending' ? { status: 'pending' } : undefined
+      );
+
+      if (error) {
+        setError(error.message);
+      } else {
+        setApprovals(
+          tab === 'pending' ? data : data.filter((approval) => approval.status !== 'pending')
+        );
+      }
+      setLoading(false);
+    };
+
+    loadApprovals();
+  }, [profile?.organization_id, canReview, tab, approvalService]);
+
+  const openDecision = (approval: ContentApproval, approve: boolean) => {
+    setDecision({ approval, approve });
+    setComment('');
+  };
+
+  const handleReview = async () => {
+    if (!decision) return;
+
+    if (!decision.approve && !comment.trim()) {
+      setError('Please explain why the content is being rejected');
+      return;
+    }
+
+    setReviewing(true);
+    setError(null);
+    setSuccess(null);
+
+    const { approval, approve } = decision;
+    const { error } = await approvalService.reviewApproval(approval.id, approve, comment);
+
+    setReviewing(false);
+
+    if (error) {
+      trackError(error, { action: 'review_approval', approvalId: approval.id, approve });
+      setError(error.message);
+      return;
+    }
+
+    setApprovals((prev) => prev.filter((item) => item.id !== approval.id));
+    setDecision(null);
+    setSuccess(
+      approve
+        ? `"${approval.content_title}" is now available to the whole organization`
+        : `"${approval.content_title}" was rejected`
+    );
+  };
+
+  const openContent = (approval: ContentApproval) =>
+    approval.content_type === 'quiz'
+      ? navigation.goTo('QUIZ_EDITOR', { params: { quizId: approval.content_id } })
+      : navigation.goTo('STUDY_MATERIAL', { params: { materialId: approval.content_id } });
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Content Approvals
+      </Typography>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Regional quizzes and study materials submitted for use across the organization
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ my: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {canReview === false ? (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          You do not have permission to approve global content.
+        </Alert>
+      ) : (
+        <>
+          <Tabs value={tab} onChange={(_, value: QueueTab) => setTab(value)} sx={{ my: 2 }}>
+            <Tab value="pending" label="Pending" />
+            <Tab value="reviewed" label="Reviewed" />
+          </Tabs>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+              <CircularProgress />
+            </Box>
+          ) : approvals.length === 0 ? (
+            <Alert severity="info">
+              {tab === 'pending'
+                ? 'Nothing is waiting for approval.'
+                : 'No submissions have been reviewed yet.'}
+            </Alert>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {approvals.map((approval) => (
+                <Paper key={approval.id} sx={{ p: 2 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="h6" sx={{ flex: 1, minWidth: 0 }} noWrap>
+                      {approval.content_title}
+                    </Typography>
+                    <Chip
+                      label={CONTENT_TYPE_LABELS[approval.content_type]}
+                      size="small"
+                      variant="outlined"
+                    />
+                    {approval.region && <Chip label={approval.region.name} size="small" />}
+                    {approval.status !== 'pending' && (
+                      <Chip
+                        label={approval.status === 'approved' ? 'Approved' : 'Rejected'}
+                        size="small"
+                        color={STATUS_COLORS[approval.status]}
+                      />
+                    )}
+                  </Box>
+
+                  <Typography variant="body2" color="text.secondary">
+                    Submitted by {formatProfileName(approval.submitter)} on{' '}
+                    {new Date(approval.created_at).toLocaleString()}
+                  </Typography>
+                  {approval.submission_note && (
+                    <Typography variant="body2" sx={{ mt: 1, whiteSpace: 'pre-wrap' }}>
+                      {approval.submission_note}
+                    </Typography>
+                  )}
+
+                  {approval.status !== 'pending' && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                      {approval.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                      {formatProfileName(approval.reviewer)}
+                      {approval.reviewed_at &&
+                        ` on ${new Date(approval.reviewed_at).toLocaleString()}`}
+                      {approval.review_comment && `: ${approval.review_comment}`}
+                    </Typography>
+                  )}
+
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+                    <Button startIcon={<OpenIcon />} onClick={() => openContent(approval)}>
+                      View
+                    </Button>
+                    {approval.status === 'pending' && (
+                      <>
+                        <Button
+                          color="error"
+                          startIcon={<RejectIcon />}
+                          onClick={() => openDecision(approval, false)}
+                        >
+                          Reject
+                        </Button>
+                        <Button
+                          variant="contained"
+                          startIcon={<ApproveIcon />}
+                          onClick={() => openDecision(approval, true)}
+                        >
+                          Approve
+                        </Button>
+                      </>
+                    )}
+                  </Box>
+                </Paper>
+              ))}
+            </Box>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!decision} onClose={() => setDecision(null)} fullWidth maxWidth="sm">
+        <DialogTitle>
+          {decision?.approve ? 'Approve' : 'Reject'} "{decision?.approval.content_title}"?
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {decision?.approve
+              ? 'The content will become available to everyone in the organization.'
+              : 'The content stays available to its region only. ' +
+                'The submitter will see your comment.'}
+          </DialogContentText>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            required={!decision?.approve}
+            label={decision?.approve ? 'Comment (optional)' : 'Reason for rejection'}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            disabled={reviewing}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDecision(null)} disabled={reviewing}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color={decision?.approve ? 'primary' : 'error'}
+            onClick={handleReview}
+            disabled={reviewing}
+          >
+            {reviewing ? <CircularProgress size={24} /> : decision?.approve ? 'Approve' : 'Reject'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  AlertTitle,
+  CircularProgress,
+  TextField,
+} from '@mui/material';
+import { useCertificateService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { CertificateVerification as VerifiedCertificate } from '../types/database';
+import { getCertificateStatus } from '../utils/certificates';
+
+/**
+ * Public page that confirms a certificate is genuine from its verification
+ * code, e.g. when an employer follows the link printed on the PDF
+ */
+export default function CertificateVerification() {
+  const { code } = useParams<{ code: string }>();
+  const certificateService = useCertificateService();
+  const navigation = useNavigation();
+  const [input, setInput] = useState(code ?? '');
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      if (!code) return;
+
+      setInput(code);
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await certificateService.verifyCertificate(code);
+      if (error) {
+        setError(error.message);
+      }
+      setCertificate(data);
+      setChecked(!error);
+      setLoading(false);
+    };
+
+    verify();
+  }, [code, certificateService]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = input.trim();
+    if (!trimmed) return;
+
+    navigation.goTo('CERTIFICATE_VERIFY', { params: { code: trimmed.toUpperCase() } });
+  };
+
+  const status = certificate ? getCertificateStatus(certificate.expires_at) : null;
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 4 }}>
+      <Paper elevation={2} sx={{ p: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Verify a Certificate
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Enter the verification code printed at the bottom of the certificate.
+        </Typography>
+
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', gap: 2, my: 3 }}>
+          <TextField
+            label="Verification code"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            fullWidth
+            size="small"
+          />
+          <Button type="submit" variant="contained" disabled={loading || !input.trim()}>
+            Verify
+          </Button>
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={2}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : checked && !certificate ? (
+          <Alert severity="error">
+            <AlertTitle>Certificate not found</AlertTitle>
+            No certificate matches this code. Check that it was entered exactly as printed.
+          </Alert>
+        ) : (
+          certificate && (
+            <Alert severity={status === 'expired' ? 'warning' : 'success'}>
+              <AlertTitle>
+                {status === 'expired'
+                  ? 'Genuine certificate, now expired'
+                  : 'Genuine certificate'}
+              </AlertTitle>
+              <strong>{certificate.learner_name}</strong>{' '}
+              {certificate.content_type === 'quiz' ? 'passed' : 'completed the learning path'}{' '}
+              <strong>{certificate.content_title}</strong> at {certificate.organization_name}{' '}
+              on {new Date(certificate.issued_at).toLocaleDateString()}.
+              {certificate.expires_at && (
+                <>
+                  {' '}
+                  {status === 'expired' ? 'It expired on' : 'It is valid until'}{' '}
+                  {new Date(certificate.expires_at).toLocaleDateString()}.
+                </>
+              )}
+            </Alert>
+          )
+        )}
+      </Paper>
+    </Container>
+  );
+}
@@ -1,13 +1,23 @@
 import React, { useEffect } from 'react';
-import { Container, Box, Typography, Alert, Paper } from '@mui/material';
+import { Container, Box, Typography, Alert, Paper, Button, LinearProgress } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import { useProgressService } from '../contexts/ServiceContext';
 import { useLocation } from 'react-router-dom';
+import { useNavigation } from '../hooks/useNavigation';
+import { StudyMaterialProgress } from '../types/database';
+import { ProgressSummary, summarizeProgress } from '../utils/progress';
 import LoadingScreen from '../components/LoadingScreen';
+import Can from '../components/Can';
 
 export default function Home() {
   const auth = useAuth();
   const location = useLocation();
+  const navigation = useNavigation();
+  const progressService = useProgressService();
   const [showWelcome, setShowWelcome] = React.useState(false);
+  const [progress, setProgress] = React.useState<ProgressSummary | null>(null);
+  const [lastRead, setLastRead] = React.useState<StudyMaterialProgress | null>(null);
+  const userId = auth.user?.id;
 
   useEffect(() => {
     // Show welcome message if user just verified their email
@@ -18,6 +28,24 @@ export default function Home() {
     }
   }, [location.state]);
 
+  useEffect(() => {
+    const loadProgress = async () => {
+      if (!userId) return;
+
+      const [categoriesResult, inProgressResult] = await Promise.all([
+        progressService.getCategoryProgress(),
+        progressService.listMaterialProgress(userId, { inProgressOnly: true, limit: 1 })
+      ]);
+
+      if (!categoriesResult.error) {
+        setProgress(summarizeProgress(categoriesResult.data));
+      }
+      setLastRead(inProgressResult.data.find((item) => item.material) || null);
+    };
+
+    loadProgress();
+  }, [userId, progressService]);
+
   if (auth.loading) {
     return <LoadingScreen message="Loading..." />;
   }
@@ -58,11 +86,11 @@ export default function Home() {
             <Typography variant="body1" gutterBottom>
               You're signed in as <strong>{auth.profile?.email}</strong>
             </Typography>
-            {auth.profile?.role === 'admin' && (
+            <Can do="manage_members">
               <Typography variant="body2" color="text.secondary">
                 You have administrative access to manage your organization.
               </Typography>
-            )}
+            </Can>
           </Paper>
         ) : (
           <Typography variant="body1">
@@ -82,18 +110,82 @@ export default function Home() {
                 Study Materials
               </Typography>
               <Typography variant="body2">
-                Access your training materials and start learning.
+                {progress && progress.materialsTotal > 0
+                  ? `${progress.materialsRead} of ${progress.materialsTotal} materials read so far.`
+                  : 'Access your training materials and start learning.'}
               </Typography>
+              {lastRead?.material ? (
+                <Button
+                  size="small"
+                  sx={{ mt: 1 }}
+                  onClick={() =>
+                    navigation.goTo('STUDY_MATERIAL', {
+                      params: { materialId: lastRead.material_id },
+                      state: { resume: true }
+                    })
+                  }
+                >
+                  Continue {lastRead.material.title}
+                </Button>
+              ) : (
+                <Button
+                  size="small"
+                  sx={{ mt: 1 }}
+                  onClick={() => navigation.goTo('STUDY_MATERIALS')}
+                >
+                  Start Reading
+                </Button>
+              )}
             </Paper>
             <Paper sx={{ p: 2 }}>
               <Typography variant="h6" gutterBottom>
                 Practice Tests
               </Typography>
               <Typography variant="body2">
-                Test your knowledge with practice quizzes.
+                {progress && progress.quizzesTotal > 0
+                  ? `${progress.quizzesPassed} of ${progress.quizzesTotal} quizzes passed so far.`
+                  : 'Test your knowledge with practice quizzes.'}
+              </Typography>
+              <Button size="small" sx={{ mt: 1 }} onClick={() => navigation.goTo('QUIZZES')}>
+                Start Practicing
+              </Button>
+            </Paper>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Learning Paths
+              </Typography>
+              <Typography variant="body2">
+                Follow step-by-step courses assigned to you or your region.
+              </Typography>
+              <Button
+                size="small"
+                sx={{ mt: 1 }}
+                onClick={() => navigation.goTo('LEARNING_PATHS')}
+              >
+                View Paths
+              </Button>
+            </Paper>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                My Progress
+              </Typography>
+              <Typography variant="body2">
+                {progress
+                  ? `${progress.percent}% of your training is complete.`
+                  : 'Track the materials you have read and the quizzes you have passed.'}
               </Typography>
+              {progress && (
+                <LinearProgress
+                  variant="determinate"
+                  value={progress.percent}
+                  sx={{ mt: 1, height: 6, borderRadius: 3 }}
+                />
+              )}
+              <Button size="small" sx={{ mt: 1 }} onClick={() => navigation.goTo('MY_PROGRESS')}>
+                View Progress
+              </Button>
             </Paper>
-            {auth.profile?.role === 'admin' && (
+            <Can do="manage_members">
               <Paper sx={{ p: 2 }}>
                 <Typography variant="h6" gutterBottom>
                   Organization Settings
@@ -102,7 +194,7 @@ export default function Home() {
                   Manage your organization's settings and users.
                 </Typography>
               </Paper>
-            )}
+            </Can>
           </Box>
         </Box>
       )}
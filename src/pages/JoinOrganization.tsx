@@ -15,7 +15,7 @@ import { useAuth } from '../hooks/useAuth';
 import { monitoring } from '../services/MonitoringService';
 import { ROUTES } from '../types/routes';
 import { CheckCircleOutline as SuccessIcon } from '@mui/icons-material';
-import type { Invitation } from '../types/database';
+import type { Invitation, JoinLinkCheck } from '../types/database';
 
 export default function JoinOrganization() {
   const [searchParams] = useSearchParams();
@@ -26,15 +26,17 @@ export default function JoinOrganization() {
   const [isProcessing, setIsProcessing] = useState(true);
   const [isSuccess, setIsSuccess] = useState(false);
   const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [joinLink, setJoinLink] = useState<JoinLinkCheck | null>(null);
 
-  // Get token from URL
+  // Get the invitation token or shareable join link code from URL
   const token = searchParams.get('token');
+  const linkCode = searchParams.get('link');
 
   useEffect(() => {
     const verifyAndJoin = async () => {
       try {
         // Verify we have a token
-        if (!token) {
+        if (!token && !linkCode) {
           throw new Error('Invalid invitation link. No token provided.');
         }
 
@@ -46,9 +48,34 @@ export default function JoinOrganization() {
           return;
         }
 
+        if (linkCode) {
+          const { data: linkData, error: linkError } =
+            await organizationService.checkJoinLink(linkCode);
+
+          if (linkError) throw linkError;
+          if (!linkData?.valid) {
+            throw new Error(linkData?.reason ?? 'This join link is no longer valid.');
+          }
+
+          setJoinLink(linkData);
+
+          const { error: redeemError } = await organizationService.redeemJoinLink(linkCode);
+          if (redeemError) throw redeemError;
+
+          setIsSuccess(true);
+          monitoring.startMetric('organization_join_success', {
+            role: linkData.role,
+            viaJoinLink: true,
+          });
+          setTimeout(() => {
+            navigate(ROUTES.HOME);
+          }, 3000);
+          return;
+        }
+
         // First verify the token and get invitation details
         const { data: inviteData, error: verifyError } =
-          await organizationService.checkInvitationToken(token);
+          await organizationService.checkInvitationToken(token as string);
 
         if (verifyError) throw verifyError;
 
@@ -59,7 +86,9 @@ export default function JoinOrganization() {
         setInvitation(inviteData.invitation);
 
         // Accept the invitation
-        const { error: acceptError } = await organizationService.acceptInvitation(token);
+        const { error: acceptError } = await organizationService.acceptInvitation(
+          token as string
+        );
         if (acceptError) throw acceptError;
 
         setIsSuccess(true);
@@ -80,6 +109,7 @@ export default function JoinOrganization() {
         monitoring.captureError(err as Error, {
           context: 'JoinOrganization',
           token,
+          viaJoinLink: !!linkCode,
         });
       } finally {
         setIsProcessing(false);
@@ -87,7 +117,7 @@ export default function JoinOrganization() {
     };
 
     verifyAndJoin();
-  }, [token, isAuthenticated, user, navigate, organizationService]);
+  }, [token, linkCode, isAuthenticated, user, navigate, organizationService]);
 
   if (isProcessing) {
     return (
@@ -136,7 +166,9 @@ export default function JoinOrganization() {
                 Welcome to the Organization!
               </Typography>
               <Typography variant="body1" align="center" color="text.secondary">
-                You have successfully joined {invitation?.role ? `as a ${invitation.role}` : ''}.
+                You have successfully joined
+                {joinLink?.organization_name ? ` ${joinLink.organization_name}` : ''}
+                {invitation?.role ? ` as a ${invitation.role}` : ''}.
               </Typography>
               <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
                 <CircularProgress size={20} />
@@ -0,0 +1,612 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Add as AddIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  useCertificateService,
+  useLearningPathService,
+  useQuizService,
+  useStudyMaterialService,
+} from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import {
+  LearningPath,
+  LearningPathStepType,
+  PublishStatus,
+  Quiz,
+  StudyMaterialSummary,
+} from '../types/database';
+import { canAuthorContent, canEditContent, isRegionAdmin } from '../utils/contentAccess';
+import RegionSelect from '../components/RegionSelect';
+import LearningPathAssignments from '../components/LearningPathAssignments';
+import CertificateValiditySetting from '../components/CertificateValiditySetting';
+
+type PathDetails = Pick<LearningPath, 'title' | 'description' | 'status' | 'scope' | 'region_id'>;
+
+// Steps being edited; prerequisites refer to the `key` of earlier steps
+interface EditorStep {
+  key: string;
+  id?: string;
+  step_type: LearningPathStepType;
+  material_id: string | null;
+  quiz_id: string | null;
+  prerequisites: string[];
+}
+
+const DEFAULT_DETAILS: PathDetails = {
+  title: '',
+  description: '',
+  status: 'draft',
+  scope: 'global',
+  region_id: null,
+};
+
+let nextKey = 0;
+const newKey = () => `new-${nextKey++}`;
+
+// Drop prerequisites that no longer come before the step that needs them
+const pruneStepPrerequisites = (steps: EditorStep[]): EditorStep[] =>
+  steps.map((step, index) => {
+    const earlier = new Set(steps.slice(0, index).map((other) => other.key));
+    return { ...step, prerequisites: step.prerequisites.filter((key) => earlier.has(key)) };
+  });
+
+export default function LearningPathEditor() {
+  const { pathId } = useParams<{ pathId: string }>();
+  const { profile } = useAuthContext();
+  const learningPathService = useLearningPathService();
+  const certificateService = useCertificateService();
+  const quizService = useQuizService();
+  const studyMaterialService = useStudyMaterialService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [details, setDetails] = useState<PathDetails>(DEFAULT_DETAILS);
+  const [steps, setSteps] = useState<EditorStep[]>([]);
+  const [certificateMonths, setCertificateMonths] = useState<number | null>(null);
+  const [materials, setMaterials] = useState<StudyMaterialSummary[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [savedStatus, setSavedStatus] = useState<PublishStatus | null>(null);
+  const [outsideRegion, setOutsideRegion] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  // Bumped after a save so the path is reloaded from the server
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const canManagePaths = canAuthorContent(viewer);
+  // Region admins can only build paths for their own region
+  const regionLocked = isRegionAdmin(viewer);
+
+  useEffect(() => {
+    const loadPath = async () => {
+      if (!profile?.organization_id) return;
+
+      try {
+        setLoading(true);
+        const [materialsResult, quizzesResult, pathResult] = await Promise.all([
+          studyMaterialService.listMaterialSummaries(profile.organization_id, undefined, {
+            viewer: viewer ?? undefined,
+          }),
+          quizService.listQuizzes(profile.organization_id, undefined, {
+            limit: 500,
+            viewer: viewer ?? undefined,
+          }),
+          pathId ? learningPathService.getPath(pathId) : Promise.resolve(null),
+        ]);
+
+        if (materialsResult.error) throw materialsResult.error;
+        if (quizzesResult.error) throw quizzesResult.error;
+        setMaterials(materialsResult.data);
+        setQuizzes([...quizzesResult.data].sort((a, b) => a.title.localeCompare(b.title)));
+
+        if (!pathResult) {
+          setDetails(
+            isRegionAdmin(viewer)
+              ? { ...DEFAULT_DETAILS, scope: 'regional', region_id: viewer?.region_id ?? null }
+              : DEFAULT_DETAILS
+          );
+          return;
+        }
+
+        if (pathResult.error) throw pathResult.error;
+        if (!pathResult.data) throw new Error('Learning path not found');
+
+        const path = pathResult.data;
+        if (!canEditContent(viewer, path)) {
+          setOutsideRegion(true);
+          return;
+        }
+
+        setDetails({
+          title: path.title,
+          description: path.description,
+          status: path.status,
+          scope: path.scope,
+          region_id: path.region_id,
+        });
+        setSavedStatus(path.status);
+        setCertificateMonths(path.certificate_valid_months);
+        setSteps(
+          path.steps.map((step) => ({
+            key: step.id,
+            id: step.id,
+            step_type: step.step_type,
+            material_id: step.material_id,
+            quiz_id: step.quiz_id,
+            prerequisites: step.prerequisite_step_ids,
+          }))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load learning path');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPath();
+  }, [
+    pathId,
+    profile?.organization_id,
+    viewer,
+    reloadCount,
+    learningPathService,
+    quizService,
+    studyMaterialService,
+  ]);
+
+  const updateStep = (key: string, updates: Partial<EditorStep>) => {
+    setSteps((prev) => prev.map((step) => (step.key === key ? { ...step, ...updates } : step)));
+  };
+
+  const addStep = () => {
+    setSteps((prev) => [
+      ...prev,
+      {
+        key: newKey(),
+        step_type: 'study_material',
+        material_id: null,
+        quiz_id: null,
+        prerequisites: [],
+      },
+    ]);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return pruneStepPrerequisites(next);
+    });
+  };
+
+  const removeStep = (key: string) => {
+    setSteps((prev) => pruneStepPrerequisites(prev.filter((step) => step.key !== key)));
+  };
+
+  const validate = (status: PublishStatus): string | null => {
+    if (!details.title.trim()) return 'Title is required';
+    if (details.title.length > 200) return 'Title must be 200 characters or fewer';
+
+    const incomplete = steps.findIndex((step) =>
+      step.step_type === 'quiz' ? !step.quiz_id : !step.material_id
+    );
+    if (incomplete !== -1) return `Choose the content for step ${incomplete + 1}`;
+
+    if (status === 'published' && steps.length === 0) {
+      return 'Add at least one step before publishing';
+    }
+
+    return null;
+  };
+
+  const handleSave = async (status: PublishStatus) => {
+    const problem = validate(status);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const positions = new Map(steps.map((step, index) => [step.key, index]));
+    const { data, error } = await learningPathService.savePath(
+      pathId ?? null,
+      { ...details, title: details.title.trim(), status },
+      steps.map((step) => ({
+        id: step.id,
+        step_type: step.step_type,
+        material_id: step.step_type === 'study_material' ? step.material_id : null,
+        quiz_id: step.step_type === 'quiz' ? step.quiz_id : null,
+        prerequisites: step.prerequisites.map((key) => positions.get(key) as number),
+      }))
+    );
+
+    if (error || !data) {
+      setSaving(false);
+      setError(error?.message || 'Failed to save learning path');
+      return;
+    }
+
+    // Certificate validity is saved separately from the path
+    const validityResult =
+      certificateMonths !== data.certificate_valid_months
+        ? await certificateService.setCertificateValidity(
+            'learning_path',
+            data.id,
+            certificateMonths
+          )
+        : null;
+
+    setSaving(false);
+    if (validityResult?.error) setError(validityResult.error.message);
+
+    // Open a new path even if its certificate settings failed, so a retry updates it
+    if (!pathId) {
+      navigation.goTo('LEARNING_PATH_EDITOR', {
+        params: { pathId: data.id },
+        replace: true,
+      });
+      return;
+    }
+
+    if (!validityResult?.error) {
+      setSuccess(status === 'published' ? 'Learning path published' : 'Draft saved');
+    }
+    setReloadCount((count) => count + 1);
+  };
+
+  const handleDelete = async () => {
+    if (!pathId) return;
+
+    setConfirmDelete(false);
+    setSaving(true);
+
+    const { error } = await learningPathService.deletePath(pathId);
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    navigation.goTo('LEARNING_PATHS', { replace: true });
+  };
+
+  if (loading && profile?.organization_id) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('LEARNING_PATHS')}
+          variant="text"
+          color="primary"
+        >
+          Back to Learning Paths
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        {pathId ? 'Edit Learning Path' : 'New Learning Path'}
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {!canManagePaths ? (
+        <Alert severity="warning">You do not have permission to manage learning paths.</Alert>
+      ) : outsideRegion ? (
+        <Alert severity="warning">You can only edit learning paths for your own region.</Alert>
+      ) : (
+        <>
+          <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+            <Box sx={{ display: 'grid', gap: 2 }}>
+              <TextField
+                label="Title"
+                value={details.title}
+                onChange={(e) => setDetails((prev) => ({ ...prev, title: e.target.value }))}
+                required
+                fullWidth
+                disabled={saving}
+              />
+              <TextField
+                label="Description"
+                value={details.description ?? ''}
+                onChange={(e) =>
+                  setDetails((prev) => ({ ...prev, description: e.target.value }))
+                }
+                multiline
+                minRows={2}
+                fullWidth
+                disabled={saving}
+              />
+              <RegionSelect
+                organizationId={profile?.organization_id || ''}
+                value={details.region_id}
+                onChange={(regionId) =>
+                  setDetails((prev) => ({
+                    ...prev,
+                    region_id: regionId,
+                    scope: regionId ? 'regional' : 'global',
+                  }))
+                }
+                disabled={saving || regionLocked}
+                helperText={
+                  regionLocked
+                    ? 'Your learning path is available to your region'
+                    : 'Leave empty to make the path available to the whole organization'
+                }
+              />
+              <CertificateValiditySetting
+                value={certificateMonths}
+                onChange={setCertificateMonths}
+                disabled={saving}
+              />
+            </Box>
+          </Paper>
+
+          <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                mb: 2,
+              }}
+            >
+              <Typography variant="h6">Steps</Typography>
+              <Button startIcon={<AddIcon />} onClick={addStep} disabled={saving}>
+                Add Step
+              </Button>
+            </Box>
+
+            {steps.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                Add study materials and quizzes in the order learners should complete them.
+              </Typography>
+            ) : (
+              <Box sx={{ display: 'grid', gap: 2 }}>
+                {steps.map((step, index) => {
+                  const earlierSteps = steps.slice(0, index);
+
+                  return (
+                    <Paper key={step.key} variant="outlined" sx={{ p: 2 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                        <Typography variant="subtitle1" sx={{ flex: 1 }}>
+                          Step {index + 1}
+                        </Typography>
+                        <Tooltip title="Move up">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => moveStep(index, -1)}
+                              disabled={saving || index === 0}
+                            >
+                              <MoveUpIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Move down">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => moveStep(index, 1)}
+                              disabled={saving || index === steps.length - 1}
+                            >
+                              <MoveDownIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Remove step">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => removeStep(step.key)}
+                              disabled={saving}
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </Box>
+
+                      <Box
+                        sx={{
+                          display: 'grid',
+                          gridTemplateColumns: { xs: '1fr', sm: '1fr 2fr' },
+                          gap: 2,
+                        }}
+                      >
+                        <FormControl fullWidth>
+                          <InputLabel>Type</InputLabel>
+                          <Select
+                            label="Type"
+                            value={step.step_type}
+                            onChange={(e) =>
+                              updateStep(step.key, {
+                                step_type: e.target.value as LearningPathStepType,
+                              })
+                            }
+                            disabled={saving}
+                          >
+                            <MenuItem value="study_material">Study Material</MenuItem>
+                            <MenuItem value="quiz">Quiz</MenuItem>
+                          </Select>
+                        </FormControl>
+                        {step.step_type === 'quiz' ? (
+                          <FormControl fullWidth>
+                            <InputLabel>Quiz</InputLabel>
+                            <Select
+                              label="Quiz"
+                              value={step.quiz_id ?? ''}
+                              onChange={(e) => updateStep(step.key, { quiz_id: e.target.value })}
+                              disabled={saving}
+                            >
+                              {quizzes.map((quiz) => (
+                                <MenuItem key={quiz.id} value={quiz.id}>
+                                  {quiz.title}
+                                  {quiz.status === 'draft' && ' (draft)'}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                        ) : (
+                          <FormControl fullWidth>
+                            <InputLabel>Study Material</InputLabel>
+                            <Select
+                              label="Study Material"
+                              value={step.material_id ?? ''}
+                              onChange={(e) =>
+                                updateStep(step.key, { material_id: e.target.value })
+                              }
+                              disabled={saving}
+                            >
+                              {materials.map((material) => (
+                                <MenuItem key={material.id} value={material.id}>
+                                  {material.title}
+                                  {material.status === 'draft' && ' (draft)'}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                        )}
+                      </Box>
+
+                      {earlierSteps.length > 0 && (
+                        <FormControl fullWidth sx={{ mt: 2 }}>
+                          <InputLabel>Complete first</InputLabel>
+                          <Select
+                            multiple
+                            label="Complete first"
+                            value={step.prerequisites}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              updateStep(step.key, {
+                                prerequisites: typeof value === 'string' ? value.split(',') : value,
+                              });
+                            }}
+                            renderValue={(selected) => (
+                              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                                {selected.map((key) => (
+                                  <Chip
+                                    key={key}
+                                    size="small"
+                                    label={`Step ${steps.findIndex((s) => s.key === key) + 1}`}
+                                  />
+                                ))}
+                              </Box>
+                            )}
+                            disabled={saving}
+                          >
+                            {earlierSteps.map((other, otherIndex) => (
+                              <MenuItem key={other.key} value={other.key}>
+                                Step {otherIndex + 1}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      )}
+                    </Paper>
+                  );
+                })}
+              </Box>
+            )}
+          </Paper>
+
+          <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
+            <Button variant="outlined" onClick={() => handleSave('draft')} disabled={saving}>
+              Save Draft
+            </Button>
+            <Button variant="contained" onClick={() => handleSave('published')} disabled={saving}>
+              {saving ? <CircularProgress size={24} /> : 'Publish'}
+            </Button>
+            {pathId && (
+              <Button
+                color="error"
+                onClick={() => setConfirmDelete(true)}
+                disabled={saving}
+                sx={{ ml: 'auto' }}
+              >
+                Delete
+              </Button>
+            )}
+          </Box>
+
+          {pathId && profile?.organization_id && (
+            <LearningPathAssignments
+              pathId={pathId}
+              organizationId={profile.organization_id}
+              published={savedStatus === 'published'}
+            />
+          )}
+        </>
+      )}
+
+      <Dialog open={confirmDelete} onClose={() => setConfirmDelete(false)}>
+        <DialogTitle>Delete learning path?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The path and its assignments will be removed. Progress on its study materials and
+            quizzes is kept.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDelete(false)}>Cancel</Button>
+          <Button color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
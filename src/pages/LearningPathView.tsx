@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  LinearProgress,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Edit as EditIcon,
+  CheckCircle as CompletedIcon,
+  Lock as LockedIcon,
+  RadioButtonUnchecked as AvailableIcon,
+  MenuBook as MaterialIcon,
+  Quiz as QuizIcon,
+} from '@mui/icons-material';
+import { useLearningPathService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { LearningPathStep, LearningPathStepProgress } from '../types/database';
+import { LearningPathWithSteps } from '../services/LearningPathService';
+import { canEditContent } from '../utils/contentAccess';
+import { completionPercent } from '../utils/progress';
+
+const stepTitle = (step: LearningPathStep) =>
+  (step.step_type === 'quiz' ? step.quiz?.title : step.material?.title) ?? 'Unavailable';
+
+export default function LearningPathView() {
+  const { pathId } = useParams<{ pathId: string }>();
+  const learningPathService = useLearningPathService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [path, setPath] = useState<LearningPathWithSteps | null>(null);
+  const [progress, setProgress] = useState<Record<string, LearningPathStepProgress>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPath = async () => {
+      if (!pathId) return;
+
+      try {
+        setLoading(true);
+        const [pathResult, progressResult] = await Promise.all([
+          learningPathService.getPath(pathId),
+          learningPathService.getPathProgress(pathId),
+        ]);
+
+        if (pathResult.error) throw pathResult.error;
+        if (!pathResult.data) throw new Error('Learning path not found');
+        if (progressResult.error) throw progressResult.error;
+
+        setPath(pathResult.data);
+        setProgress(
+          Object.fromEntries(progressResult.data.map((step) => [step.step_id, step]))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load learning path');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPath();
+  }, [pathId, learningPathService]);
+
+  const openStep = (step: LearningPathStep) => {
+    if (step.quiz_id) {
+      navigation.goTo('QUIZ_PLAYER', { params: { quizId: step.quiz_id } });
+    } else if (step.material_id) {
+      navigation.goTo('STUDY_MATERIAL', { params: { materialId: step.material_id } });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!path) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert severity="error">{error || 'Learning path not found'}</Alert>
+      </Container>
+    );
+  }
+
+  const completedCount = path.steps.filter((step) => progress[step.id]?.completed).length;
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('LEARNING_PATHS')}
+          variant="text"
+          color="primary"
+        >
+          Back to Learning Paths
+        </Button>
+        {canEditContent(viewer, path) && (
+          <Button
+            startIcon={<EditIcon />}
+            onClick={() =>
+              navigation.goTo('LEARNING_PATH_EDITOR', { params: { pathId: path.id } })
+            }
+            variant="outlined"
+          >
+            Edit
+          </Button>
+        )}
+      </Box>
+
+      <Paper elevation={2} sx={{ p: 3 }}>
+        {path.status === 'draft' && <Chip label="Draft" size="small" variant="outlined" />}
+        <Typography variant="h4" component="h1" sx={{ mt: 1 }}>
+          {path.title}
+        </Typography>
+        {path.description && (
+          <Typography variant="body1" color="text.secondary" sx={{ mt: 1 }}>
+            {path.description}
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 3 }}>
+          <LinearProgress
+            variant="determinate"
+            value={completionPercent(completedCount, path.steps.length)}
+            color={completedCount === path.steps.length ? 'success' : 'primary'}
+            sx={{ flex: 1, height: 8, borderRadius: 4 }}
+          />
+          <Typography variant="body2" color="text.secondary">
+            {completedCount} of {path.steps.length} steps complete
+          </Typography>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'grid', gap: 2, mt: 3 }}>
+        {path.steps.map((step, index) => {
+          const status = progress[step.id];
+          const completed = !!status?.completed;
+          const locked = !status?.unlocked;
+          const available = step.step_type === 'quiz' ? !!step.quiz : !!step.material;
+          const waitingOn = path.steps.filter(
+            (other) =>
+              step.prerequisite_step_ids.includes(other.id) && !progress[other.id]?.completed
+          );
+
+          return (
+            <Paper
+              key={step.id}
+              sx={{
+                p: 2,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 2,
+                opacity: locked && !completed ? 0.7 : 1,
+              }}
+            >
+              {completed ? (
+                <CompletedIcon color="success" />
+              ) : locked ? (
+                <LockedIcon color="disabled" />
+              ) : (
+                <AvailableIcon color="primary" />
+              )}
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="overline" color="text.secondary">
+                    Step {index + 1}
+                  </Typography>
+                  <Chip
+                    icon={step.step_type === 'quiz' ? <QuizIcon /> : <MaterialIcon />}
+                    label={step.step_type === 'quiz' ? 'Quiz' : 'Study Material'}
+                    size="small"
+                    variant="outlined"
+                  />
+                </Box>
+                <Typography variant="h6" noWrap>
+                  {stepTitle(step)}
+                </Typography>
+                {locked && !completed && waitingOn.length > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    Complete first: {waitingOn.map(stepTitle).join(', ')}
+                  </Typography>
+                )}
+                {step.step_type === 'quiz' && step.quiz && !completed && (
+                  <Typography variant="body2" color="text.secondary">
+                    Pass with {step.quiz.passing_score}% to complete this step
+                  </Typography>
+                )}
+              </Box>
+              <Button
+                variant={completed ? 'outlined' : 'contained'}
+                onClick={() => openStep(step)}
+                disabled={!available || (locked && !completed)}
+              >
+                {completed ? 'Review' : step.step_type === 'quiz' ? 'Take Quiz' : 'Read'}
+              </Button>
+            </Paper>
+          );
+        })}
+      </Box>
+    </Container>
+  );
+}
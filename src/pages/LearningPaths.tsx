@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Route as PathIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLearningPathService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { LearningPath } from '../types/database';
+import { canAuthorContent, canEditContent } from '../utils/contentAccess';
+
+export default function LearningPaths() {
+  const { user, profile } = useAuthContext();
+  const learningPathService = useLearningPathService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [assignedIds, setAssignedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canCreatePaths = canAuthorContent(viewer);
+
+  useEffect(() => {
+    const loadPaths = async () => {
+      if (!profile?.organization_id || !user) return;
+
+      try {
+        setLoading(true);
+        const [pathsResult, assignedResult] = await Promise.all([
+          // Drafts are only listed for the people who author them
+          learningPathService.listPaths(
+            profile.organization_id,
+            canCreatePaths ? undefined : { status: 'published' }
+          ),
+          learningPathService.listAssignedPaths(user.id, viewer?.region_id ?? null),
+        ]);
+
+        if (pathsResult.error) throw pathsResult.error;
+        if (assignedResult.error) throw assignedResult.error;
+
+        setPaths(pathsResult.data);
+        setAssignedIds(new Set(assignedResult.data.map((assignment) => assignment.path_id)));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load learning paths');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPaths();
+  }, [profile?.organization_id, user, viewer, canCreatePaths, learningPathService]);
+
+  if (loading && profile?.organization_id) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  const assigned = paths.filter((path) => assignedIds.has(path.id));
+  const others = paths.filter((path) => !assignedIds.has(path.id));
+
+  const renderPath = (path: LearningPath) => (
+    <Paper key={path.id} sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'flex-start',
+          gap: 2,
+        }}
+      >
+        <Box sx={{ minWidth: 0 }}>
+          <Typography variant="h6">{path.title}</Typography>
+          {path.description && (
+            <Typography variant="body2" color="text.secondary">
+              {path.description}
+            </Typography>
+          )}
+          {path.status === 'draft' && (
+            <Chip label="Draft" size="small" color="warning" sx={{ mt: 1 }} />
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+          {canEditContent(viewer, path) && (
+            <Button
+              variant="outlined"
+              startIcon={<EditIcon />}
+              onClick={() =>
+                navigation.goTo('LEARNING_PATH_EDITOR', { params: { pathId: path.id } })
+              }
+            >
+              Edit
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            startIcon={<PathIcon />}
+            onClick={() => navigation.goTo('LEARNING_PATH', { params: { pathId: path.id } })}
+          >
+            View
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Learning Paths
+        </Typography>
+        {canCreatePaths && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => navigation.goTo('LEARNING_PATH_NEW')}
+          >
+            New Path
+          </Button>
+        )}
+      </Box>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Step-by-step courses made of study materials and quizzes
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!profile?.organization_id ? (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          You are not associated with any organization. Please contact your administrator.
+        </Alert>
+      ) : paths.length === 0 ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          No learning paths are available yet.
+        </Alert>
+      ) : (
+        <>
+          {assigned.length > 0 && (
+            <>
+              <Typography variant="h5" sx={{ mt: 3, mb: 2 }}>
+                Assigned to You
+              </Typography>
+              <Box sx={{ display: 'grid', gap: 2 }}>{assigned.map(renderPath)}</Box>
+            </>
+          )}
+          {others.length > 0 && (
+            <>
+              {assigned.length > 0 && (
+                <Typography variant="h5" sx={{ mt: 4, mb: 2 }}>
+                  More Learning Paths
+                </Typography>
+              )}
+              <Box sx={{ display: 'grid', gap: 2, mt: assigned.length > 0 ? 0 : 3 }}>
+                {others.map(renderPath)}
+              </Box>
+            </>
+          )}
+        </>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Download as DownloadIcon,
+  Refresh as RenewIcon,
+  VerifiedUser as VerifyIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useCertificateService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { Certificate } from '../types/database';
+import { downloadCertificatePdf, getCertificateStatus } from '../utils/certificates';
+
+const describeExpiry = (certificate: Certificate) => {
+  if (!certificate.expires_at) return 'Does not expire';
+
+  const date = new Date(certificate.expires_at).toLocaleDateString();
+  switch (getCertificateStatus(certificate.expires_at)) {
+    case 'expired':
+      return `Expired ${date}`;
+    case 'renewal_due':
+      return `Renew by ${date}`;
+    default:
+      return `Valid until ${date}`;
+  }
+};
+
+export default function MyCertificates() {
+  const { user } = useAuthContext();
+  const certificateService = useCertificateService();
+  const navigation = useNavigation();
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCertificates = async () => {
+      if (!user) return;
+
+      try {
+        setLoading(true);
+        const { data, error } = await certificateService.listCertificates(user.id);
+        if (error) throw error;
+
+        // Renewals replace earlier certificates for the same quiz or path
+        const seen = new Set<string>();
+        setCertificates(
+          data.filter((certificate) => {
+            const key = certificate.quiz_id ?? certificate.path_id ?? certificate.id;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your certificates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCertificates();
+  }, [user, certificateService]);
+
+  const handleDownload = async (certificate: Certificate) => {
+    setDownloadingId(certificate.id);
+    try {
+      await downloadCertificatePdf(certificate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the certificate PDF');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleRenew = (certificate: Certificate) => {
+    if (certificate.quiz_id) {
+      navigation.goTo('QUIZ_PLAYER', { params: { quizId: certificate.quiz_id } });
+    } else if (certificate.path_id) {
+      navigation.goTo('LEARNING_PATH', { params: { pathId: certificate.path_id } });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        My Certificates
+      </Typography>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Earned by passing quizzes and completing learning paths
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {certificates.length === 0 ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          You have not earned any certificates yet. Pass a quiz to earn your first one.
+        </Alert>
+      ) : (
+        <Box sx={{ display: 'grid', gap: 2, mt: 3 }}>
+          {certificates.map((certificate) => {
+            const status = getCertificateStatus(certificate.expires_at);
+            const canRenew =
+              status !== 'valid' && !!(certificate.quiz_id || certificate.path_id);
+
+            return (
+              <Paper key={certificate.id} sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'flex-start',
+                    gap: 2,
+                    flexWrap: 'wrap',
+                  }}
+                >
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="h6">{certificate.content_title}</Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {[
+                        certificate.content_type === 'quiz' ? 'Quiz' : 'Learning Path',
+                        `issued ${new Date(certificate.issued_at).toLocaleDateString()}`,
+                        `code ${certificate.verification_code}`,
+                      ].join(' · ')}
+                    </Typography>
+                    <Chip
+                      label={describeExpiry(certificate)}
+                      size="small"
+                      color={
+                        status === 'expired'
+                          ? 'error'
+                          : status === 'renewal_due'
+                            ? 'warning'
+                            : 'success'
+                      }
+                      sx={{ mt: 1 }}
+                    />
+                  </Box>
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    {canRenew && (
+                      <Button startIcon={<RenewIcon />} onClick={() => handleRenew(certificate)}>
+                        Renew
+                      </Button>
+                    )}
+                    <Button
+                      startIcon={<VerifyIcon />}
+                      onClick={() =>
+                        navigation.goTo('CERTIFICATE_VERIFY', {
+                          params: { code: certificate.verification_code },
+                        })
+                      }
+                    >
+                      Verify
+                    </Button>
+                    <Button
+                      variant="contained"
+                      startIcon={<DownloadIcon />}
+                      onClick={() => handleDownload(certificate)}
+                      disabled={downloadingId === certificate.id}
+                    >
+                      Download PDF
+                    </Button>
+                  </Box>
+                </Box>
+              </Paper>
+            );
+          })}
+        </Box>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  MenuBook as ReadIcon,
+  Quiz as QuizIcon,
+  Route as PathIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useProgressService, useTrainingAssignmentService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import {
+  CategoryProgress,
+  MyTrainingAssignment,
+  StudyMaterialProgress,
+} from '../types/database';
+import { completionPercent, summarizeProgress } from '../utils/progress';
+import {
+  TRAINING_CONTENT_LABELS,
+  TRAINING_STATUS_COLORS,
+  TRAINING_STATUS_LABELS,
+  getTrainingStatus,
+} from '../utils/training';
+
+interface ProgressBarProps {
+  label: string;
+  done: number;
+  total: number;
+}
+
+function ProgressBar({ label, done, total }: ProgressBarProps) {
+  return (
+    <Box sx={{ flex: 1, minWidth: 200 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+        <Typography variant="body2">{label}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {done} / {total}
+        </Typography>
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={completionPercent(done, total)}
+        color={total > 0 && done === total ? 'success' : 'primary'}
+        sx={{ height: 8, borderRadius: 4 }}
+      />
+    </Box>
+  );
+}
+
+export default function MyProgress() {
+  const { user } = useAuthContext();
+  const progressService = useProgressService();
+  const trainingAssignmentService = useTrainingAssignmentService();
+  const navigation = useNavigation();
+  const [categories, setCategories] = useState<CategoryProgress[]>([]);
+  const [inProgress, setInProgress] = useState<StudyMaterialProgress[]>([]);
+  const [assigned, setAssigned] = useState<MyTrainingAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProgress = async () => {
+      if (!user) return;
+
+      try {
+        setLoading(true);
+        const [categoriesResult, inProgressResult, assignedResult] = await Promise.all([
+          progressService.getCategoryProgress(),
+          progressService.listMaterialProgress(user.id, { inProgressOnly: true, limit: 5 }),
+          trainingAssignmentService.listMyAssignments(),
+        ]);
+
+        if (categoriesResult.error) throw categoriesResult.error;
+        if (inProgressResult.error) throw inProgressResult.error;
+        if (assignedResult.error) throw assignedResult.error;
+
+        setCategories(categoriesResult.data);
+        setAssigned(assignedResult.data);
+        // Materials that were deleted or are no longer visible drop out of the join
+        setInProgress(inProgressResult.data.filter((progress) => progress.material));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your progress');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProgress();
+  }, [user, progressService, trainingAssignmentService]);
+
+  const summary = summarizeProgress(categories);
+
+  const resume = (materialId: string) =>
+    navigation.goTo('STUDY_MATERIAL', { params: { materialId }, state: { resume: true } });
+
+  const openAssignment = (assignment: MyTrainingAssignment) => {
+    if (assignment.content_type === 'quiz') {
+      navigation.goTo('QUIZ_PLAYER', { params: { quizId: assignment.content_id } });
+    } else if (assignment.content_type === 'learning_path') {
+      navigation.goTo('LEARNING_PATH', { params: { pathId: assignment.content_id } });
+    } else {
+      resume(assignment.content_id);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        My Progress
+      </Typography>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Study materials you have read and quizzes you have passed, by topic
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {assigned.length > 0 && (
+        <Paper sx={{ p: 2, mt: 3 }}>
+          <Typography variant="h6">Assigned to Me</Typography>
+          <List disablePadding>
+            {assigned.map((assignment) => {
+              const status = getTrainingStatus(assignment.due_at, assignment.completed_at);
+
+              return (
+                <ListItem
+                  key={assignment.assignment_id}
+                  disableGutters
+                  secondaryAction={
+                    <Button
+                      startIcon={
+                        assignment.content_type === 'quiz' ? (
+                          <QuizIcon />
+                        ) : assignment.content_type === 'learning_path' ? (
+                          <PathIcon />
+                        ) : (
+                          <ReadIcon />
+                        )
+                      }
+                      onClick={() => openAssignment(assignment)}
+                    >
+                      {status === 'completed' ? 'Review' : 'Start'}
+                    </Button>
+                  }
+                  sx={{ pr: 12 }}
+                >
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {assignment.content_title}
+                        <Chip
+                          label={TRAINING_STATUS_LABELS[status]}
+                          size="small"
+                          color={TRAINING_STATUS_COLORS[status]}
+                        />
+                      </Box>
+                    }
+                    secondary={[
+                      TRAINING_CONTENT_LABELS[assignment.content_type],
+                      assignment.completed_at
+                        ? `completed ${new Date(assignment.completed_at).toLocaleDateString()}`
+                        : assignment.due_at
+                          ? `due ${new Date(assignment.due_at).toLocaleDateString()}`
+                          : 'no due date',
+                    ].join(' · ')}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        </Paper>
+      )}
+
+      <Paper elevation={2} sx={{ p: 3, mt: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, mb: 2 }}>
+          <Typography variant="h3" component="p">
+            {summary.percent}%
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            complete
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+          <ProgressBar
+            label="Materials read"
+            done={summary.materialsRead}
+            total={summary.materialsTotal}
+          />
+          <ProgressBar
+            label="Quizzes passed"
+            done={summary.quizzesPassed}
+            total={summary.quizzesTotal}
+          />
+        </Box>
+      </Paper>
+
+      {inProgress.length > 0 && (
+        <Paper sx={{ p: 2, mt: 3 }}>
+          <Typography variant="h6">Continue where you left off</Typography>
+          <List disablePadding>
+            {inProgress.map((progress) => (
+              <ListItem
+                key={progress.id}
+                disableGutters
+                secondaryAction={
+                  <Button startIcon={<ReadIcon />} onClick={() => resume(progress.material_id)}>
+                    Resume
+                  </Button>
+                }
+              >
+                <ListItemText
+                  primary={progress.material?.title}
+                  secondary={`${progress.last_position}% through · last read ${new Date(
+                    progress.last_read_at
+                  ).toLocaleDateString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Paper>
+      )}
+
+      <Typography variant="h5" sx={{ mt: 4, mb: 2 }}>
+        By Topic
+      </Typography>
+      {categories.length === 0 ? (
+        <Alert severity="info">No study materials or quizzes are available yet.</Alert>
+      ) : (
+        <Box sx={{ display: 'grid', gap: 2 }}>
+          {categories.map((category) => (
+            <Paper key={category.category_id} sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                {category.category_name}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+                {category.materials_total > 0 && (
+                  <ProgressBar
+                    label="Materials read"
+                    done={category.materials_read}
+                    total={category.materials_total}
+                  />
+                )}
+                {category.quizzes_total > 0 && (
+                  <ProgressBar
+                    label="Quizzes passed"
+                    done={category.quizzes_passed}
+                    total={category.quizzes_total}
+                  />
+                )}
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 3 }}>
+        <Button startIcon={<ReadIcon />} onClick={() => navigation.goTo('STUDY_MATERIALS')}>
+          Study Materials
+        </Button>
+        <Button startIcon={<QuizIcon />} onClick={() => navigation.goTo('QUIZZES')}>
+          Practice Tests
+        </Button>
+      </Box>
+    </Container>
+  );
+}
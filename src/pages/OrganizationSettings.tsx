@@ -20,6 +20,10 @@ import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 
 import TeamManagement from '../components/TeamManagement';
 import RegionsTab from '../components/RegionsTab';
+import TrainingAssignmentsTab from '../components/TrainingAssignmentsTab';
+import InvitationsTab from '../components/InvitationsTab';
+import AuditLogTab from '../components/AuditLogTab';
+import { usePermission } from '../hooks/usePermission';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -58,6 +62,7 @@ export default function OrganizationSettings() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tabValue, setTabValue] = useState(0);
+  const canManageMembers = usePermission('manage_members');
 
   useEffect(() => {
     const fetchOrganization = async () => {
@@ -145,7 +150,7 @@ export default function OrganizationSettings() {
             Organization Settings
           </Typography>
           <Typography variant="subtitle1" color="text.secondary" gutterBottom>
-            Manage your organization's profile and team members
+            Manage your organization's profile, team members and training
           </Typography>
         </Box>
 
@@ -160,6 +165,9 @@ export default function OrganizationSettings() {
             <Tab label="Organization Profile" {...a11yProps(0)} />
             <Tab label="Team Management" {...a11yProps(1)} />
             <Tab label="Regions" {...a11yProps(2)} />
+            <Tab label="Training" {...a11yProps(3)} />
+            {canManageMembers && <Tab label="Invitations" {...a11yProps(4)} />}
+            {canManageMembers && <Tab label="Audit" {...a11yProps(5)} />}
           </Tabs>
         </Box>
 
@@ -195,6 +203,21 @@ export default function OrganizationSettings() {
         <TabPanel value={tabValue} index={2}>
           <RegionsTab />
         </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          <TrainingAssignmentsTab organizationId={organization.id} />
+        </TabPanel>
+
+        {canManageMembers && (
+          <>
+            <TabPanel value={tabValue} index={4}>
+              <InvitationsTab organizationId={organization.id} />
+            </TabPanel>
+            <TabPanel value={tabValue} index={5}>
+              <AuditLogTab />
+            </TabPanel>
+          </>
+        )}
       </Paper>
     </Container>
   );
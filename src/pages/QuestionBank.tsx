@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useQuizService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { usePermission } from '../hooks/usePermission';
+import { Question, QuestionInput, QuizCategory } from '../types/database';
+import {
+  QUESTION_TYPE_LABELS,
+  createQuestionInput,
+  validateQuestion,
+} from '../utils/questionTypes';
+import QuestionEditor from '../components/QuestionEditor';
+
+interface EditingQuestion {
+  id?: string;
+  value: QuestionInput;
+}
+
+export default function QuestionBank() {
+  const { profile } = useAuthContext();
+  const quizService = useQuizService();
+  const navigation = useNavigation();
+
+  const [categories, setCategories] = useState<QuizCategory[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [editing, setEditing] = useState<EditingQuestion | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Question | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageBank = usePermission('manage_question_bank');
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      if (!profile?.organization_id) return;
+
+      const { data, error } = await quizService.listCategories(profile.organization_id);
+      if (error) {
+        setError(error.message);
+      } else {
+        setCategories(data);
+        setCategoryId((current) => current || data[0]?.id || '');
+      }
+      setLoading(false);
+    };
+
+    loadCategories();
+  }, [profile?.organization_id, quizService]);
+
+  useEffect(() => {
+    const loadQuestions = async () => {
+      if (!categoryId) return;
+
+      setLoading(true);
+      setEditing(null);
+
+      const { data, error } = await quizService.listBankQuestions(categoryId);
+      if (error) {
+        setError(error.message);
+      } else {
+        setQuestions(data);
+      }
+      setLoading(false);
+    };
+
+    loadQuestions();
+  }, [categoryId, quizService]);
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateQuestion(editing.value);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { data, error } = editing.id
+      ? await quizService.updateBankQuestion(editing.id, editing.value)
+      : await quizService.createBankQuestion(categoryId, editing.value);
+
+    setSaving(false);
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to save question');
+      return;
+    }
+
+    setQuestions((prev) =>
+      editing.id
+        ? prev.map((question) => (question.id === data.id ? data : question))
+        : [...prev, data]
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    const { error } = await quizService.deleteBankQuestion(pendingDelete.id);
+    if (error) {
+      setError(error.message);
+    } else {
+      setQuestions((prev) => prev.filter((question) => question.id !== pendingDelete.id));
+    }
+    setPendingDelete(null);
+  };
+
+  const renderEditor = () =>
+    editing && (
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <QuestionEditor
+          value={editing.value}
+          onChange={(value) => setEditing({ ...editing, value })}
+          disabled={saving}
+        />
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2, mt: 2 }}>
+          <Button onClick={() => setEditing(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={24} /> : 'Save Question'}
+          </Button>
+        </Box>
+      </Paper>
+    );
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('QUIZZES')}
+          variant="text"
+          color="primary"
+        >
+          Back to Quizzes
+        </Button>
+      </Box>
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Question Bank
+      </Typography>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Reusable questions that quizzes can draw from at random
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!canManageBank ? (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          You don't have permission to manage the question bank.
+        </Alert>
+      ) : categories.length === 0 && !loading ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          Create a quiz category before adding questions to the bank.
+        </Alert>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, my: 3 }}>
+            <FormControl size="small" sx={{ minWidth: 240 }}>
+              <InputLabel>Category</InputLabel>
+              <Select
+                label="Category"
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+              >
+                {categories.map((category) => (
+                  <MenuItem key={category.id} value={category.id}>
+                    {category.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ flex: 1 }} />
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setEditing({ value: createQuestionInput('multiple_choice') })}
+              disabled={!categoryId || !!editing}
+            >
+              Add Question
+            </Button>
+          </Box>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+              <CircularProgress />
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              {questions.length === 0 && !editing && (
+                <Alert severity="info">This category's question bank is empty.</Alert>
+              )}
+
+              {questions.map((question, index) =>
+                editing?.id === question.id ? (
+                  <React.Fragment key={question.id}>{renderEditor()}</React.Fragment>
+                ) : (
+                  <Paper
+                    key={question.id}
+                    variant="outlined"
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, pl: 2 }}
+                  >
+                    <Typography sx={{ fontWeight: 500 }}>{index + 1}.</Typography>
+                    <Typography noWrap sx={{ flex: 1 }}>
+                      {question.question_text}
+                    </Typography>
+                    <Chip
+                      label={QUESTION_TYPE_LABELS[question.question_type]}
+                      size="small"
+                      variant="outlined"
+                    />
+                    <Tooltip title="Edit">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            const { id, quiz_id, category_id, created_at, updated_at, ...value } =
+                              question;
+                            setEditing({ id, value });
+                          }}
+                          disabled={!!editing}
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => setPendingDelete(question)}
+                          disabled={!!editing}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Paper>
+                )
+              )}
+
+              {editing && !editing.id && renderEditor()}
+            </Box>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!pendingDelete} onClose={() => setPendingDelete(null)}>
+        <DialogTitle>Delete question?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The question will no longer be drawn for new quiz attempts. Attempts that already
+            used it keep their recorded results.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingDelete(null)}>Cancel</Button>
+          <Button color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
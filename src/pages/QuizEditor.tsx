@@ -0,0 +1,776 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  IconButton,
+  Tooltip,
+  Chip,
+  Collapse,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ContentCopy as DuplicateIcon,
+  DragIndicator as DragIcon,
+  ExpandMore as ExpandIcon,
+  ExpandLess as CollapseIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useCertificateService, useQuizService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { useMonitoring } from '../hooks/useMonitoring';
+import {
+  PublishStatus,
+  QuestionInput,
+  QuestionPool,
+  Quiz,
+  QuizCategory,
+} from '../types/database';
+import {
+  QUESTION_TYPE_LABELS,
+  createQuestionInput,
+  validateQuestion,
+} from '../utils/questionTypes';
+import { canAuthorContent, canEditContent, isRegionAdmin } from '../utils/contentAccess';
+import QuestionEditor from '../components/QuestionEditor';
+import RegionSelect from '../components/RegionSelect';
+import ContentApprovalPanel from '../components/ContentApprovalPanel';
+import CertificateValiditySetting from '../components/CertificateValiditySetting';
+import ItemAnalysisPanel from '../components/ItemAnalysisPanel';
+import { QuizSaveError } from '../services/QuizService';
+import { config } from '../config/config';
+
+// Questions being edited; `key` identifies unsaved questions that have no id yet
+type EditorQuestion = QuestionInput & { id?: string; key: string };
+
+type QuizDetails = Pick<
+  Quiz,
+  | 'title'
+  | 'description'
+  | 'category_id'
+  | 'passing_score'
+  | 'time_limit'
+  | 'status'
+  | 'scope'
+  | 'region_id'
+  | 'question_pools'
+  | 'shuffle_choices'
+>;
+
+let nextKey = 0;
+const newKey = () => `new-${nextKey++}`;
+
+const DEFAULT_DETAILS: QuizDetails = {
+  title: '',
+  description: null,
+  category_id: '',
+  passing_score: Math.round(config.quiz.passThreshold * 100),
+  time_limit: null,
+  status: 'draft',
+  scope: 'global',
+  region_id: null,
+  question_pools: [],
+  shuffle_choices: false,
+};
+
+export default function QuizEditor() {
+  const { quizId } = useParams<{ quizId: string }>();
+  const { profile } = useAuthContext();
+  const quizService = useQuizService();
+  const certificateService = useCertificateService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const { trackError } = useMonitoring('QuizEditor');
+
+  const [details, setDetails] = useState<QuizDetails>(DEFAULT_DETAILS);
+  const [questions, setQuestions] = useState<EditorQuestion[]>([]);
+  // Saved separately from the quiz, so the last saved value is kept to spot changes
+  const [certificateMonths, setCertificateMonths] = useState<number | null>(null);
+  const [savedCertificateMonths, setSavedCertificateMonths] = useState<number | null>(null);
+  const [categories, setCategories] = useState<QuizCategory[]>([]);
+  const [bankCounts, setBankCounts] = useState<Record<string, number>>({});
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<EditorQuestion | null>(null);
+  const [pendingApproval, setPendingApproval] = useState(false);
+  const [outsideRegion, setOutsideRegion] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const canManageQuizzes = canAuthorContent(viewer);
+  // Region admins can only author quizzes for their own region
+  const regionLocked = isRegionAdmin(viewer);
+
+  useEffect(() => {
+    const loadQuiz = async () => {
+      if (!profile?.organization_id) return;
+
+      try {
+        setLoading(true);
+        const [categoriesResult, bankCountsResult, quizResult] = await Promise.all([
+          quizService.listCategories(profile.organization_id),
+          quizService.getBankQuestionCounts(),
+          quizId ? quizService.getQuiz(quizId) : Promise.resolve(null),
+        ]);
+
+        if (categoriesResult.error) throw categoriesResult.error;
+        setCategories(categoriesResult.data);
+        setBankCounts(bankCountsResult.data || {});
+
+        if (quizResult) {
+          if (quizResult.error) throw quizResult.error;
+          if (!quizResult.data) throw new Error('Quiz not found');
+
+          const { questions: savedQuestions, ...quiz } = quizResult.data;
+          if (!canEditContent(viewer, quiz)) {
+            setOutsideRegion(true);
+            return;
+          }
+
+          setDetails({
+            title: quiz.title,
+            description: quiz.description,
+            category_id: quiz.category_id,
+            passing_score: quiz.passing_score,
+            time_limit: quiz.time_limit,
+            status: quiz.status,
+            scope: quiz.scope,
+            region_id: quiz.region_id,
+            question_pools: quiz.question_pools || [],
+            shuffle_choices: quiz.shuffle_choices,
+          });
+          setCertificateMonths(quiz.certificate_valid_months);
+          setSavedCertificateMonths(quiz.certificate_valid_months);
+          setPendingApproval(quiz.pending_approval);
+          setQuestions(
+            [...(savedQuestions || [])]
+              .sort((a, b) => a.order - b.order)
+              .map(({ quiz_id, category_id, created_at, updated_at, ...question }) => ({
+                ...question,
+                key: question.id,
+              }))
+          );
+        } else if (isRegionAdmin(viewer)) {
+          setDetails({
+            ...DEFAULT_DETAILS,
+            scope: 'regional',
+            region_id: viewer?.region_id ?? null,
+          });
+        }
+
+        setDirty(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load quiz');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuiz();
+  }, [quizId, profile?.organization_id, viewer, quizService]);
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!dirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  const updateDetails = (updates: Partial<QuizDetails>) => {
+    setDetails((prev) => ({ ...prev, ...updates }));
+    setDirty(true);
+  };
+
+  const updatePool = (index: number, updates: Partial<QuestionPool>) =>
+    updateDetails({
+      question_pools: details.question_pools.map((pool, i) =>
+        i === index ? { ...pool, ...updates } : pool
+      ),
+    });
+
+  const updateQuestions = (update: (prev: EditorQuestion[]) => EditorQuestion[]) => {
+    setQuestions(update);
+    setDirty(true);
+  };
+
+  const handleAddQuestion = () => {
+    const key = newKey();
+    updateQuestions((prev) => [...prev, { ...createQuestionInput('multiple_choice'), key }]);
+    setExpandedKey(key);
+  };
+
+  const handleDuplicateQuestion = (index: number) => {
+    const key = newKey();
+    updateQuestions((prev) => {
+      const { id, ...copy } = prev[index];
+      return [...prev.slice(0, index + 1), { ...copy, key }, ...prev.slice(index + 1)];
+    });
+    setExpandedKey(key);
+  };
+
+  const handleDeleteQuestion = () => {
+    if (!pendingDelete) return;
+
+    const { key } = pendingDelete;
+    updateQuestions((prev) => prev.filter((question) => question.key !== key));
+    setPendingDelete(null);
+  };
+
+  const handleDragEnter = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+
+    setQuestions((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(index, 0, moved);
+      return next;
+    });
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = async () => {
+    setDragIndex(null);
+
+    // On an otherwise unchanged quiz, save the new order straight away
+    const savedIds = questions.map((question) => question.id);
+    if (!quizId || dirty || savedIds.some((id) => !id)) {
+      setDirty(true);
+      return;
+    }
+
+    const { error } = await quizService.reorderQuestions(quizId, savedIds as string[]);
+    if (error) {
+      setError(error.message);
+      setDirty(true);
+    }
+  };
+
+  const validate = (status: PublishStatus): string | null => {
+    if (!details.title.trim()) return 'Title is required';
+    if (!details.category_id) return 'Category is required';
+    if (details.passing_score < 0 || details.passing_score > 100) {
+      return 'Passing score must be between 0 and 100';
+    }
+    if (details.time_limit !== null && details.time_limit <= 0) {
+      return 'Time limit must be greater than zero';
+    }
+
+    for (const pool of details.question_pools) {
+      if (!pool.category_id) return 'Choose a category for each question pool';
+      if (pool.draw_count < 1) return 'Each question pool must draw at least one question';
+      if (pool.draw_count > (bankCounts[pool.category_id] || 0)) {
+        const name = categories.find((category) => category.id === pool.category_id)?.name;
+        return `The ${name} question bank does not have ${pool.draw_count} questions`;
+      }
+    }
+
+    // Drafts may be saved half-finished; everything must be complete to publish
+    if (status === 'published') {
+      if (questions.length === 0 && details.question_pools.length === 0) {
+        return 'Add at least one question or question pool before publishing';
+      }
+
+      for (let i = 0; i < questions.length; i++) {
+        const problem = validateQuestion(questions[i]);
+        if (problem) return `Question ${i + 1}: ${problem}`;
+      }
+    }
+
+    return null;
+  };
+
+  const saveCertificateValidity = async (id: string) => {
+    if (certificateMonths === savedCertificateMonths) return;
+
+    const { error } = await certificateService.setCertificateValidity(
+      'quiz',
+      id,
+      certificateMonths
+    );
+    if (error) throw error;
+    setSavedCertificateMonths(certificateMonths);
+  };
+
+  const handleSave = async (status: PublishStatus) => {
+    if (!profile?.organization_id) return;
+
+    const validationError = validate(status);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const ordered = questions.map(({ key, ...question }, index) => ({ ...question, order: index }));
+
+    try {
+      if (!quizId) {
+        const { data, error } = await quizService.createQuiz(
+          {
+            ...details,
+            status,
+            organization_id: profile.organization_id,
+            pending_approval: false,
+          },
+          ordered
+        );
+        if (error) throw error;
+        if (!data) throw new Error('Failed to create quiz');
+        try {
+          await saveCertificateValidity(data.id);
+        } catch (err) {
+          // Open the new quiz regardless, so a retry updates it instead of creating another
+          setError(err instanceof Error ? err.message : 'Failed to save certificate settings');
+        }
+
+        setDirty(false);
+        navigation.goTo('QUIZ_EDITOR', { params: { quizId: data.id }, replace: true });
+        return;
+      }
+
+      // Questions missing from the list are deleted as part of the same save
+      const { data, error } = await quizService.saveQuiz(quizId, { ...details, status }, ordered);
+      if (error) throw error;
+      await saveCertificateValidity(quizId);
+
+      // Saved questions come back in editor order, so new ones pick up their ids here
+      setQuestions((prev) =>
+        prev.map((question, index) => ({
+          ...question,
+          id: data?.questions[index]?.id ?? question.id,
+        }))
+      );
+      setDetails((prev) => ({ ...prev, status }));
+      setDirty(false);
+      setSuccess(status === 'published' ? 'Quiz published' : 'Draft saved');
+    } catch (err) {
+      trackError(err as Error, { action: 'save_quiz', quizId, status });
+      setError(err instanceof Error ? err.message : 'Failed to save quiz');
+
+      // Open the question the server rejected so it can be fixed
+      if (err instanceof QuizSaveError && err.questionIndex != null) {
+        setExpandedKey(questions[err.questionIndex]?.key ?? null);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && profile?.organization_id) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  const isPublished = details.status === 'published';
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('QUIZZES')}
+          variant="text"
+          color="primary"
+        >
+          Back to Quizzes
+        </Button>
+      </Box>
+
+      {!canManageQuizzes ? (
+        <Alert severity="warning">Only administrators can create and edit quizzes.</Alert>
+      ) : outsideRegion ? (
+        <Alert severity="warning">You can only edit quizzes for your own region.</Alert>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Typography variant="h4" component="h1">
+              {quizId ? 'Edit Quiz' : 'New Quiz'}
+            </Typography>
+            <Chip
+              label={isPublished ? 'Published' : 'Draft'}
+              color={isPublished ? 'success' : 'default'}
+              size="small"
+            />
+            {dirty && (
+              <Typography variant="body2" color="text.secondary">
+                Unsaved changes
+              </Typography>
+            )}
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {success && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+              {success}
+            </Alert>
+          )}
+
+          {quizId && (
+            <ContentApprovalPanel
+              contentType="quiz"
+              contentId={quizId}
+              scope={details.scope}
+              pendingApproval={pendingApproval}
+              published={isPublished}
+              disabled={dirty || saving}
+              onSubmitted={() => {
+                setPendingApproval(true);
+                setSuccess('Quiz submitted for global approval');
+              }}
+            />
+          )}
+
+          <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <TextField
+                required
+                fullWidth
+                label="Title"
+                value={details.title}
+                onChange={(e) => updateDetails({ title: e.target.value })}
+                disabled={saving}
+              />
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Description"
+                value={details.description ?? ''}
+                onChange={(e) => updateDetails({ description: e.target.value || null })}
+                disabled={saving}
+              />
+              <FormControl required fullWidth disabled={saving}>
+                <InputLabel>Category</InputLabel>
+                <Select
+                  label="Category"
+                  value={details.category_id}
+                  onChange={(e) => updateDetails({ category_id: e.target.value })}
+                >
+                  {categories.map((category) => (
+                    <MenuItem key={category.id} value={category.id}>
+                      {category.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <RegionSelect
+                organizationId={profile?.organization_id || ''}
+                value={details.region_id}
+                onChange={(regionId) =>
+                  updateDetails({ region_id: regionId, scope: regionId ? 'regional' : 'global' })
+                }
+                disabled={saving || pendingApproval || regionLocked}
+                helperText={
+                  pendingApproval
+                    ? 'The region cannot change while the quiz is awaiting global approval'
+                    : regionLocked
+                      ? 'Your quizzes are available to your region until approved globally'
+                      : 'Leave empty to make the quiz available to the whole organization'
+                }
+              />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                <TextField
+                  type="number"
+                  label="Passing Score (%)"
+                  value={details.passing_score}
+                  onChange={(e) => updateDetails({ passing_score: Number(e.target.value) })}
+                  inputProps={{ min: 0, max: 100 }}
+                  sx={{ width: 180 }}
+                  disabled={saving}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={details.time_limit !== null}
+                      onChange={(e) =>
+                        updateDetails({
+                          time_limit: e.target.checked ? config.quiz.timeLimit : null,
+                        })
+                      }
+                      disabled={saving}
+                    />
+                  }
+                  label="Time limit"
+                />
+                {details.time_limit !== null && (
+                  <TextField
+                    type="number"
+                    label="Minutes"
+                    value={Math.round(details.time_limit / 60)}
+                    onChange={(e) => updateDetails({ time_limit: Number(e.target.value) * 60 })}
+                    inputProps={{ min: 1 }}
+                    sx={{ width: 120 }}
+                    disabled={saving}
+                  />
+                )}
+              </Box>
+            </Box>
+          </Paper>
+
+          <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="h6">Question Pools</Typography>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  updateDetails({
+                    question_pools: [...details.question_pools, { category_id: '', draw_count: 1 }],
+                  })
+                }
+                disabled={saving}
+              >
+                Add Pool
+              </Button>
+            </Box>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Each attempt also gets this many random questions from a category's question bank.
+            </Typography>
+            {details.question_pools.map((pool, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
+                <FormControl size="small" sx={{ flex: 1 }} disabled={saving}>
+                  <InputLabel>Question Bank</InputLabel>
+                  <Select
+                    label="Question Bank"
+                    value={pool.category_id}
+                    onChange={(e) => updatePool(index, { category_id: e.target.value })}
+                  >
+                    {categories.map((category) => (
+                      <MenuItem key={category.id} value={category.id}>
+                        {category.name} ({bankCounts[category.id] || 0} questions)
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Questions to draw"
+                  value={pool.draw_count}
+                  onChange={(e) => updatePool(index, { draw_count: Number(e.target.value) })}
+                  inputProps={{ min: 1, max: bankCounts[pool.category_id] || undefined }}
+                  sx={{ width: 160 }}
+                  disabled={saving}
+                />
+                <Tooltip title="Remove pool">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() =>
+                        updateDetails({
+                          question_pools: details.question_pools.filter((_, i) => i !== index),
+                        })
+                      }
+                      disabled={saving}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            ))}
+            <FormControlLabel
+              sx={{ mt: 2 }}
+              control={
+                <Switch
+                  checked={details.shuffle_choices}
+                  onChange={(e) => updateDetails({ shuffle_choices: e.target.checked })}
+                  disabled={saving}
+                />
+              }
+              label="Shuffle answer choices for each attempt"
+            />
+          </Paper>
+
+          <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6">Certificate</Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Learners who pass receive a certificate they can download and share.
+            </Typography>
+            <CertificateValiditySetting
+              value={certificateMonths}
+              onChange={(months) => {
+                setCertificateMonths(months);
+                setDirty(true);
+              }}
+              disabled={saving}
+            />
+          </Paper>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6">Questions ({questions.length})</Typography>
+            <Button startIcon={<AddIcon />} onClick={handleAddQuestion} disabled={saving}>
+              Add Question
+            </Button>
+          </Box>
+
+          {questions.length === 0 ? (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              No questions yet. Add one to get started.
+            </Alert>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+              {questions.map((question, index) => {
+                const expanded = expandedKey === question.key;
+                const problem = validateQuestion(question);
+
+                return (
+                  <Paper
+                    key={question.key}
+                    variant="outlined"
+                    onDragEnter={() => handleDragEnter(index)}
+                    onDragOver={(e) => e.preventDefault()}
+                    sx={{ opacity: dragIndex === index ? 0.5 : 1 }}
+                  >
+                    <Box
+                      draggable={!saving}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragIndex(index);
+                      }}
+                      onDragEnd={handleDragEnd}
+                      sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1 }}
+                    >
+                      <DragIcon color="action" sx={{ cursor: 'grab' }} />
+                      <Typography sx={{ fontWeight: 500, whiteSpace: 'nowrap' }}>
+                        {index + 1}.
+                      </Typography>
+                      <Typography noWrap sx={{ flex: 1 }}>
+                        {question.question_text || 'Untitled question'}
+                      </Typography>
+                      {problem && (
+                        <Tooltip title={problem}>
+                          <Chip label="Incomplete" size="small" color="warning" />
+                        </Tooltip>
+                      )}
+                      <Chip
+                        label={QUESTION_TYPE_LABELS[question.question_type]}
+                        size="small"
+                        variant="outlined"
+                      />
+                      <Tooltip title="Duplicate">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handleDuplicateQuestion(index)}
+                            disabled={saving}
+                          >
+                            <DuplicateIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => setPendingDelete(question)}
+                            disabled={saving}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <IconButton
+                        size="small"
+                        aria-label={expanded ? 'Collapse question' : 'Expand question'}
+                        onClick={() => setExpandedKey(expanded ? null : question.key)}
+                      >
+                        {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                      </IconButton>
+                    </Box>
+                    <Collapse in={expanded} unmountOnExit>
+                      <Box sx={{ p: 2, pt: 1 }}>
+                        <QuestionEditor
+                          value={question}
+                          onChange={(updated) =>
+                            updateQuestions((prev) =>
+                              prev.map((item) =>
+                                item.key === question.key
+                                  ? { ...updated, id: question.id, key: question.key }
+                                  : item
+                              )
+                            )
+                          }
+                          disabled={saving}
+                        />
+                      </Box>
+                    </Collapse>
+                  </Paper>
+                );
+              })}
+            </Box>
+          )}
+
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+            <Button
+              variant="outlined"
+              onClick={() => handleSave('draft')}
+              disabled={saving}
+            >
+              {isPublished ? 'Unpublish' : 'Save Draft'}
+            </Button>
+            <Button variant="contained" onClick={() => handleSave('published')} disabled={saving}>
+              {saving ? <CircularProgress size={24} /> : isPublished ? 'Save Changes' : 'Publish'}
+            </Button>
+          </Box>
+
+          {quizId && <ItemAnalysisPanel quizId={quizId} />}
+        </>
+      )}
+
+      <Dialog open={!!pendingDelete} onClose={() => setPendingDelete(null)}>
+        <DialogTitle>Delete question?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The question will be removed from the quiz when you next save.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingDelete(null)}>Cancel</Button>
+          <Button color="error" onClick={handleDeleteQuestion}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
@@ -0,0 +1,495 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  NavigateBefore as PreviousIcon,
+  NavigateNext as NextIcon,
+  Timer as TimerIcon,
+  PlayArrow as StartIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useQuizService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { useMonitoring } from '../hooks/useMonitoring';
+import { useQuizTimer, formatDuration } from '../hooks/useQuizTimer';
+import { AttemptQuestion, QuestionAnswer, Quiz, QuizAttempt } from '../types/database';
+import { formatAnswer, isAnswered } from '../utils/questionTypes';
+import { canViewContent } from '../utils/contentAccess';
+import QuizQuestion from '../components/QuizQuestion';
+import QuizResults from '../components/QuizResults';
+
+type PlayerPhase = 'intro' | 'answering' | 'review' | 'results';
+
+// In-progress answers are kept locally per attempt so a refresh doesn't lose them
+const answersStorageKey = (attemptId: string) => `quiz_attempt_answers_${attemptId}`;
+
+function loadSavedAnswers(attemptId: string): Record<string, QuestionAnswer> {
+  try {
+    const saved = localStorage.getItem(answersStorageKey(attemptId));
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export default function QuizPlayer() {
+  const { quizId } = useParams<{ quizId: string }>();
+  const { user } = useAuthContext();
+  const quizService = useQuizService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const { trackError } = useMonitoring('QuizPlayer');
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  // Questions served in the current attempt, which may be drawn from question pools
+  const [questions, setQuestions] = useState<AttemptQuestion[]>([]);
+  const [plannedCount, setPlannedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<PlayerPhase>('intro');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, QuestionAnswer>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [activeAttempt, setActiveAttempt] = useState<QuizAttempt | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+
+  const resumeAttempt = useCallback(
+    async (openAttempt: QuizAttempt) => {
+      const { data: servedQuestions, error } = await quizService.getAttemptQuestions(openAttempt);
+      if (error) throw error;
+
+      // Pools can come up empty, e.g. when their questions were all deleted
+      if (!servedQuestions || servedQuestions.length === 0) {
+        throw new Error(
+          'No questions could be drawn for this quiz. Please ask its author to add questions.'
+        );
+      }
+
+      setQuestions(servedQuestions);
+      setActiveAttempt(openAttempt);
+      setAnswers(loadSavedAnswers(openAttempt.id));
+      setCurrentIndex(0);
+      setPhase('answering');
+    },
+    [quizService]
+  );
+
+  useEffect(() => {
+    const loadQuiz = async () => {
+      if (!quizId || !user) return;
+
+      try {
+        setLoading(true);
+        const [quizResult, openAttemptResult] = await Promise.all([
+          quizService.getQuiz(quizId),
+          quizService.getOpenAttempt(quizId),
+        ]);
+        if (quizResult.error) throw quizResult.error;
+        if (!quizResult.data) throw new Error('Quiz not found');
+
+        const { questions, ...quizData } = quizResult.data;
+
+        // Drafts and pending submissions can only be previewed by their editors
+        if (!canViewContent(viewer, quizData)) {
+          throw new Error(
+            quizData.status === 'draft'
+              ? 'This quiz has not been published yet'
+              : 'This quiz is not available to you'
+          );
+        }
+
+        setQuiz(quizData);
+        setPlannedCount(
+          (questions || []).length +
+            (quizData.question_pools || []).reduce((total, pool) => total + pool.draw_count, 0)
+        );
+
+        // Pick up where the user left off if an attempt is still in progress
+        if (openAttemptResult.data?.attempt) {
+          setClockOffset(new Date(openAttemptResult.data.serverTime).getTime() - Date.now());
+          await resumeAttempt(openAttemptResult.data.attempt);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load quiz');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuiz();
+  }, [quizId, user, viewer, quizService, resumeAttempt]);
+
+  useEffect(() => {
+    if (activeAttempt) {
+      localStorage.setItem(answersStorageKey(activeAttempt.id), JSON.stringify(answers));
+    }
+  }, [activeAttempt, answers]);
+
+  const { secondsRemaining } = useQuizTimer({
+    expiresAt:
+      phase === 'answering' || phase === 'review' ? activeAttempt?.expires_at ?? null : null,
+    clockOffset,
+    onExpire: () => handleSubmit(true),
+  });
+
+  const unansweredCount = useMemo(
+    () => questions.filter((question) => !isAnswered(question, answers[question.id])).length,
+    [questions, answers]
+  );
+
+  const handleAnswer = (questionId: string, answer: QuestionAnswer) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: answer }));
+  };
+
+  const handleStart = async () => {
+    if (!quiz) return;
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      const { data, error } = await quizService.startAttempt(quiz.id);
+      if (error) throw error;
+      if (!data) throw new Error('Failed to start quiz');
+
+      setClockOffset(new Date(data.serverTime).getTime() - Date.now());
+      await resumeAttempt(data.attempt);
+    } catch (err) {
+      trackError(err as Error, { action: 'start_quiz', quizId: quiz.id });
+      setError(err instanceof Error ? err.message : 'Failed to start quiz');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleSubmit = async (timeExpired = false) => {
+    if (!quiz || submitting) return;
+
+    setConfirmOpen(false);
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const { data, error } = await quizService.gradeAndSubmit(quiz.id, answers);
+
+      if (error) throw error;
+      if (!data) throw new Error('Failed to grade quiz');
+
+      if (activeAttempt) {
+        localStorage.removeItem(answersStorageKey(activeAttempt.id));
+      }
+      setActiveAttempt(null);
+
+      // Reload the questions now that their answers can be shown in the review
+      const { data: reviewedQuestions, error: reviewError } =
+        await quizService.getAttemptQuestions(data);
+      if (reviewError || !reviewedQuestions) {
+        trackError(reviewError ?? new Error('Missing review questions'), {
+          action: 'load_review',
+          quizId: quiz.id,
+        });
+        setError(
+          `Your quiz was submitted with a score of ${data.score}%, ` +
+            'but the review could not be loaded.'
+        );
+        setPhase('intro');
+        return;
+      }
+
+      setQuestions(reviewedQuestions);
+      setAttempt(data);
+      setPhase('results');
+    } catch (err) {
+      trackError(err as Error, { action: 'submit_quiz', quizId: quiz.id, timeExpired });
+      setError(err instanceof Error ? err.message : 'Failed to submit quiz');
+
+      // The server no longer accepts answers for this attempt
+      if (timeExpired) {
+        setActiveAttempt(null);
+        setPhase('intro');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setAnswers({});
+    setAttempt(null);
+    setCurrentIndex(0);
+    setPhase('intro');
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert severity="error">{error || 'Quiz not found'}</Alert>
+      </Container>
+    );
+  }
+
+  const currentQuestion = questions[currentIndex];
+  const answeredCount = questions.length - unansweredCount;
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('QUIZZES')}
+          variant="text"
+          color="primary"
+        >
+          Back to Quizzes
+        </Button>
+      </Box>
+
+      <Paper elevation={2} sx={{ p: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          {quiz.title}
+        </Typography>
+        {quiz.description && (
+          <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+            {quiz.description}
+          </Typography>
+        )}
+
+        {secondsRemaining !== null && (
+          <Chip
+            icon={<TimerIcon />}
+            label={`Time remaining: ${formatDuration(secondsRemaining)}`}
+            color={secondsRemaining <= 60 ? 'error' : 'default'}
+            sx={{ mt: 1 }}
+          />
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {phase === 'intro' && plannedCount === 0 ? (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            This quiz does not have any questions yet.
+          </Alert>
+        ) : phase === 'intro' ? (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="body1" gutterBottom>
+              This quiz has {plannedCount} {plannedCount === 1 ? 'question' : 'questions'} and
+              requires {quiz.passing_score}% to pass.
+            </Typography>
+            {quiz.time_limit ? (
+              <Alert severity="info" sx={{ my: 2 }}>
+                You will have {formatDuration(quiz.time_limit)} to complete this quiz once you
+                start. The timer keeps running if you leave the page, and your answers are
+                submitted automatically when time runs out.
+              </Alert>
+            ) : (
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                This quiz is not timed.
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 3 }}>
+              <Button
+                variant="contained"
+                onClick={handleStart}
+                disabled={starting}
+                startIcon={starting ? <CircularProgress size={20} /> : <StartIcon />}
+              >
+                Start Quiz
+              </Button>
+            </Box>
+          </Box>
+        ) : phase === 'results' && attempt ? (
+          <Box sx={{ mt: 3 }}>
+            <QuizResults quiz={quiz} questions={questions} attempt={attempt} />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2, mt: 3 }}>
+              <Button onClick={() => navigation.goTo('QUIZZES')}>Done</Button>
+              {attempt.passed && (
+                <Button onClick={() => navigation.goTo('MY_CERTIFICATES')}>
+                  View Certificate
+                </Button>
+              )}
+              <Button variant="contained" onClick={handleRetake}>
+                Retake Quiz
+              </Button>
+            </Box>
+          </Box>
+        ) : phase === 'review' ? (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Review your answers
+            </Typography>
+            {unansweredCount > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                You have {unansweredCount} unanswered{' '}
+                {unansweredCount === 1 ? 'question' : 'questions'}.
+              </Alert>
+            )}
+            <List disablePadding>
+              {questions.map((question, index) => {
+                const answered = isAnswered(question, answers[question.id]);
+                return (
+                  <ListItemButton
+                    key={question.id}
+                    divider
+                    onClick={() => {
+                      setCurrentIndex(index);
+                      setPhase('answering');
+                    }}
+                  >
+                    <ListItemText
+                      primary={`${index + 1}. ${question.question_text}`}
+                      secondary={formatAnswer(question, answers[question.id])}
+                    />
+                    {!answered && (
+                      <Chip label="Unanswered" size="small" color="warning" variant="outlined" />
+                    )}
+                  </ListItemButton>
+                );
+              })}
+            </List>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+              <Button startIcon={<PreviousIcon />} onClick={() => setPhase('answering')}>
+                Back to Questions
+              </Button>
+              <Button
+                variant="contained"
+                onClick={() => setConfirmOpen(true)}
+                disabled={submitting}
+                startIcon={submitting ? <CircularProgress size={20} /> : null}
+              >
+                Submit Quiz
+              </Button>
+            </Box>
+          </Box>
+        ) : (
+          <Box sx={{ mt: 3 }}>
+            <Box sx={{ mb: 3 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {answeredCount} of {questions.length} answered
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Passing score: {quiz.passing_score}%
+                </Typography>
+              </Box>
+              <LinearProgress
+                variant="determinate"
+                value={(answeredCount / questions.length) * 100}
+                sx={{ height: 6, borderRadius: 3 }}
+              />
+            </Box>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 3 }}>
+              {questions.map((question, index) => (
+                <Button
+                  key={question.id}
+                  size="small"
+                  variant={
+                    index === currentIndex
+                      ? 'contained'
+                      : isAnswered(question, answers[question.id])
+                        ? 'outlined'
+                        : 'text'
+                  }
+                  onClick={() => setCurrentIndex(index)}
+                  sx={{ minWidth: 40 }}
+                  aria-label={`Go to question ${index + 1}`}
+                >
+                  {index + 1}
+                </Button>
+              ))}
+            </Box>
+
+            <QuizQuestion
+              question={currentQuestion}
+              index={currentIndex}
+              total={questions.length}
+              value={answers[currentQuestion.id]}
+              onChange={(answer) => handleAnswer(currentQuestion.id, answer)}
+              choiceOrder={currentQuestion.choice_order}
+              matchingOptions={currentQuestion.matching_options}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+              <Button
+                startIcon={<PreviousIcon />}
+                onClick={() => setCurrentIndex((index) => index - 1)}
+                disabled={currentIndex === 0}
+              >
+                Previous
+              </Button>
+              {currentIndex < questions.length - 1 ? (
+                <Button
+                  endIcon={<NextIcon />}
+                  variant="contained"
+                  onClick={() => setCurrentIndex((index) => index + 1)}
+                >
+                  Next
+                </Button>
+              ) : (
+                <Button variant="contained" onClick={() => setPhase('review')}>
+                  Review Answers
+                </Button>
+              )}
+            </Box>
+          </Box>
+        )}
+      </Paper>
+
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Submit Quiz?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {unansweredCount > 0
+              ? `You still have ${unansweredCount} unanswered ${
+                  unansweredCount === 1 ? 'question' : 'questions'
+                }. Unanswered questions are marked incorrect.`
+              : 'You have answered every question. Once submitted, your answers cannot be changed.'}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmOpen(false)}>Keep Working</Button>
+          <Button onClick={() => handleSubmit()} variant="contained">
+            Submit
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  PlayArrow as StartIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  ContentCopy as DuplicateIcon,
+  LibraryBooks as BankIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useQuizService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { usePermission } from '../hooks/usePermission';
+import { Quiz, QuizAttempt, QuizCategory } from '../types/database';
+import { canAuthorContent, canEditContent, isOrganizationAdmin } from '../utils/contentAccess';
+
+export default function Quizzes() {
+  const { profile, user } = useAuthContext();
+  const quizService = useQuizService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [categories, setCategories] = useState<QuizCategory[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+
+  const canCreateQuizzes = canAuthorContent(viewer);
+  // Copying quizzes stays with organization admins
+  const canManageQuizzes = isOrganizationAdmin(viewer);
+  const canManageBank = usePermission('manage_question_bank');
+
+  useEffect(() => {
+    const loadQuizzes = async () => {
+      if (!profile?.organization_id || !user) return;
+
+      try {
+        setLoading(true);
+        const [quizzesResult, categoriesResult, attemptsResult] = await Promise.all([
+          // Drafts and pending submissions are only listed for those who can edit them
+          quizService.listQuizzes(profile.organization_id, undefined, {
+            limit: 100,
+            viewer: viewer ?? undefined,
+          }),
+          quizService.listCategories(profile.organization_id),
+          quizService.getUserAttempts(user.id),
+        ]);
+
+        if (quizzesResult.error) throw quizzesResult.error;
+        if (categoriesResult.error) throw categoriesResult.error;
+
+        setQuizzes(quizzesResult.data);
+        setCategories(categoriesResult.data);
+        setAttempts(attemptsResult.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load quizzes');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuizzes();
+  }, [profile?.organization_id, user, viewer, quizService]);
+
+  const handleDuplicate = async (quiz: Quiz) => {
+    setDuplicatingId(quiz.id);
+    setError(null);
+
+    const { data, error } = await quizService.cloneQuiz(quiz.id);
+    setDuplicatingId(null);
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to duplicate quiz');
+      return;
+    }
+
+    navigation.goTo('QUIZ_EDITOR', { params: { quizId: data.id } });
+  };
+
+  const getBestAttempt = (quizId: string) =>
+    attempts
+      .filter((attempt) => attempt.quiz_id === quizId)
+      .reduce<QuizAttempt | null>(
+        (best, attempt) => (!best || attempt.score > best.score ? attempt : best),
+        null
+      );
+
+  const getCategoryName = (categoryId: string) =>
+    categories.find((category) => category.id === categoryId)?.name;
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Practice Tests
+        </Typography>
+        {canCreateQuizzes && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {canManageBank && (
+              <Button
+                variant="outlined"
+                startIcon={<BankIcon />}
+                onClick={() => navigation.goTo('QUESTION_BANK')}
+              >
+                Question Bank
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => navigation.goTo('QUIZ_NEW')}
+            >
+              New Quiz
+            </Button>
+          </Box>
+        )}
+      </Box>
+      <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+        Test your knowledge with the quizzes available to your organization
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!profile?.organization_id ? (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          You are not associated with any organization. Please contact your administrator.
+        </Alert>
+      ) : quizzes.length === 0 ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          No quizzes are available yet.
+        </Alert>
+      ) : (
+        <Box sx={{ display: 'grid', gap: 2, mt: 3 }}>
+          {quizzes.map((quiz) => {
+            const bestAttempt = getBestAttempt(quiz.id);
+            const categoryName = getCategoryName(quiz.category_id);
+
+            return (
+              <Paper key={quiz.id} sx={{ p: 2 }}>
+                <Box
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'flex-start',
+                    gap: 2,
+                  }}
+                >
+                  <Box>
+                    <Typography variant="h6">{quiz.title}</Typography>
+                    {quiz.description && (
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {quiz.description}
+                      </Typography>
+                    )}
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                      {quiz.status === 'draft' && (
+                        <Chip label="Draft" size="small" color="warning" />
+                      )}
+                      {categoryName && <Chip label={categoryName} size="small" />}
+                      <Chip
+                        label={`Pass: ${quiz.passing_score}%`}
+                        size="small"
+                        variant="outlined"
+                      />
+                      {bestAttempt && (
+                        <Chip
+                          label={`Best: ${bestAttempt.score}%`}
+                          size="small"
+                          color={bestAttempt.passed ? 'success' : 'default'}
+                        />
+                      )}
+                    </Box>
+                  </Box>
+                  <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+                    {canManageQuizzes && (
+                      <Button
+                        variant="text"
+                        startIcon={<DuplicateIcon />}
+                        onClick={() => handleDuplicate(quiz)}
+                        disabled={duplicatingId !== null}
+                      >
+                        Duplicate
+                      </Button>
+                    )}
+                    {canEditContent(viewer, quiz) && (
+                      <Button
+                        variant="outlined"
+                        startIcon={<EditIcon />}
+                        onClick={() =>
+                          navigation.goTo('QUIZ_EDITOR', { params: { quizId: quiz.id } })
+                        }
+                      >
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      variant="contained"
+                      startIcon={<StartIcon />}
+                      onClick={() =>
+                        navigation.goTo('QUIZ_PLAYER', { params: { quizId: quiz.id } })
+                      }
+                    >
+                      {quiz.status === 'draft' ? 'Preview' : bestAttempt ? 'Retake' : 'Start'}
+                    </Button>
+                  </Box>
+                </Box>
+              </Paper>
+            );
+          })}
+        </Box>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,766 @@
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  TextField,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  IconButton,
+  Tooltip,
+  Chip,
+  Divider,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  FormatBold as BoldIcon,
+  FormatItalic as ItalicIcon,
+  Title as HeadingIcon,
+  FormatListBulleted as BulletListIcon,
+  FormatListNumbered as NumberedListIcon,
+  FormatQuote as QuoteIcon,
+  Code as CodeIcon,
+  InsertLink as LinkIcon,
+  TableChart as TableIcon,
+  Image as ImageIcon,
+  AttachFile as AttachmentIcon,
+  History as HistoryIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useStudyMaterialService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { useMonitoring } from '../hooks/useMonitoring';
+import {
+  PublishStatus,
+  QuizCategory,
+  StudyMaterial,
+  StudyMaterialRevision,
+} from '../types/database';
+import { findMarkdownProblems, renderMarkdown } from '../utils/markdown';
+import { canAuthorContent, canEditContent, isRegionAdmin } from '../utils/contentAccess';
+import MarkdownContent from '../components/MarkdownContent';
+import RevisionHistory from '../components/RevisionHistory';
+import RegionSelect from '../components/RegionSelect';
+import ContentApprovalPanel from '../components/ContentApprovalPanel';
+
+type MaterialDetails = Pick<
+  StudyMaterial,
+  'title' | 'category_id' | 'content' | 'status' | 'scope' | 'region_id'
+>;
+
+interface LocalBackup {
+  title: string;
+  category_id: string;
+  content: string;
+  savedAt: string;
+}
+
+const DEFAULT_DETAILS: MaterialDetails = {
+  title: '',
+  category_id: '',
+  content: '',
+  status: 'draft',
+  scope: 'global',
+  region_id: null,
+};
+
+// Drafts that already exist on the server are saved automatically once editing pauses
+const AUTOSAVE_DELAY_MS = 5000;
+
+const TABLE_TEMPLATE = '\n| Column | Column |\n| ------ | ------ |\n| Value  | Value  |\n';
+
+// Unsaved edits are also kept locally so a closed tab or lost connection doesn't lose them
+const backupStorageKey = (materialId?: string) => `study_material_backup_${materialId || 'new'}`;
+
+function loadBackup(materialId?: string): LocalBackup | null {
+  try {
+    const saved = localStorage.getItem(backupStorageKey(materialId));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function StudyMaterialEditor() {
+  const { materialId } = useParams<{ materialId: string }>();
+  const { profile } = useAuthContext();
+  const studyMaterialService = useStudyMaterialService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const { trackError } = useMonitoring('StudyMaterialEditor');
+
+  const [details, setDetails] = useState<MaterialDetails>(DEFAULT_DETAILS);
+  const [categories, setCategories] = useState<QuizCategory[]>([]);
+  const [backup, setBackup] = useState<LocalBackup | null>(null);
+  const [pendingApproval, setPendingApproval] = useState(false);
+  const [outsideRegion, setOutsideRegion] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [autosaving, setAutosaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  // Bumped on every edit so a save only clears `dirty` if nothing changed meanwhile
+  const editVersion = useRef(0);
+  const failedAutosaveVersion = useRef(-1);
+
+  const canManageMaterials = canAuthorContent(viewer);
+  // Region admins can only author material for their own region
+  const regionLocked = isRegionAdmin(viewer);
+
+  useEffect(() => {
+    const loadMaterial = async () => {
+      if (!profile?.organization_id) return;
+
+      try {
+        setLoading(true);
+        const [categoriesResult, materialResult] = await Promise.all([
+          studyMaterialService.listCategories(profile.organization_id),
+          materialId ? studyMaterialService.getMaterial(materialId) : Promise.resolve(null),
+        ]);
+
+        if (categoriesResult.error) throw categoriesResult.error;
+        setCategories(
+          [...categoriesResult.data].sort((a, b) => a.name.localeCompare(b.name))
+        );
+
+        let loaded: MaterialDetails = isRegionAdmin(viewer)
+          ? { ...DEFAULT_DETAILS, scope: 'regional', region_id: viewer?.region_id ?? null }
+          : DEFAULT_DETAILS;
+        let updatedAt = 0;
+        if (materialResult) {
+          if (materialResult.error) throw materialResult.error;
+          if (!materialResult.data) throw new Error('Study material not found');
+
+          const material = materialResult.data;
+          if (!canEditContent(viewer, material)) {
+            setOutsideRegion(true);
+            return;
+          }
+
+          loaded = {
+            title: material.title,
+            category_id: material.category_id,
+            content: material.content,
+            status: material.status,
+            scope: material.scope,
+            region_id: material.region_id,
+          };
+          setPendingApproval(material.pending_approval);
+          updatedAt = new Date(material.updated_at).getTime();
+        }
+
+        // Offer to restore local edits that are newer than what was saved
+        const saved = loadBackup(materialId);
+        const differs =
+          saved &&
+          (saved.title !== loaded.title ||
+            saved.category_id !== loaded.category_id ||
+            saved.content !== loaded.content);
+        setBackup(differs && new Date(saved.savedAt).getTime() > updatedAt ? saved : null);
+
+        setDetails(loaded);
+        setDirty(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load study material');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMaterial();
+  }, [materialId, profile?.organization_id, viewer, studyMaterialService]);
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!dirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  useEffect(() => {
+    if (!dirty) return;
+
+    const timer = setTimeout(() => {
+      const { title, category_id, content } = details;
+      const saved: LocalBackup = {
+        title,
+        category_id,
+        content,
+        savedAt: new Date().toISOString(),
+      };
+      localStorage.setItem(backupStorageKey(materialId), JSON.stringify(saved));
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [details, dirty, materialId]);
+
+  const updateDetails = (updates: Partial<MaterialDetails>) => {
+    setDetails((prev) => ({ ...prev, ...updates }));
+    setDirty(true);
+    editVersion.current += 1;
+  };
+
+  const validate = useCallback(
+    (status: PublishStatus): string | null => {
+      if (!details.title.trim()) return 'Title is required';
+      if (details.title.length > 200) return 'Title must be 200 characters or fewer';
+      if (!details.category_id) return 'Category is required';
+
+      // Drafts may be saved half-finished; published material needs something to read
+      if (status === 'published' && !details.content.trim()) {
+        return 'Add some content before publishing';
+      }
+
+      return findMarkdownProblems(details.content);
+    },
+    [details]
+  );
+
+  const saveMaterial = useCallback(
+    async (status: PublishStatus, autosave = false) => {
+      if (!profile?.organization_id) return;
+      // Don't retry a failed autosave until there is something new to save
+      if (autosave && failedAutosaveVersion.current === editVersion.current) return;
+
+      const validationError = validate(status);
+      if (validationError) {
+        // Autosave waits quietly until the draft is valid again
+        if (!autosave) setError(validationError);
+        return;
+      }
+
+      const version = editVersion.current;
+      const setBusy = autosave ? setAutosaving : setSaving;
+      setBusy(true);
+      if (!autosave) {
+        setError(null);
+        setSuccess(null);
+      }
+
+      const updates = {
+        title: details.title.trim(),
+        category_id: details.category_id,
+        content: details.content,
+        status,
+        scope: details.scope,
+        region_id: details.region_id,
+      };
+
+      try {
+        if (!materialId) {
+          // New material goes to the end of its category
+          const { count } = await studyMaterialService.listMaterialSummaries(
+            profile.organization_id,
+            details.category_id
+          );
+
+          const { data, error } = await studyMaterialService.createMaterial({
+            ...updates,
+            organization_id: profile.organization_id,
+            pending_approval: false,
+            order: (count || 0) + 1,
+          });
+          if (error) throw error;
+          if (!data) throw new Error('Failed to create study material');
+
+          localStorage.removeItem(backupStorageKey());
+          setDirty(false);
+          navigation.goTo('STUDY_MATERIAL_EDITOR', {
+            params: { materialId: data.id },
+            replace: true,
+          });
+          return;
+        }
+
+        const { error } = await studyMaterialService.updateMaterial(materialId, updates);
+        if (error) throw error;
+
+        setDetails((prev) => ({ ...prev, status }));
+        setLastSavedAt(new Date());
+        if (editVersion.current === version) {
+          localStorage.removeItem(backupStorageKey(materialId));
+          setDirty(false);
+        }
+        if (!autosave) {
+          setSuccess(status === 'published' ? 'Study material published' : 'Draft saved');
+        }
+      } catch (err) {
+        trackError(err as Error, { action: 'save_material', materialId, status, autosave });
+        if (autosave) failedAutosaveVersion.current = version;
+        setError(
+          autosave
+            ? 'Autosave failed. Your changes are kept on this device until you save.'
+            : err instanceof Error
+              ? err.message
+              : 'Failed to save study material'
+        );
+      } finally {
+        setBusy(false);
+      }
+    },
+    [
+      details,
+      materialId,
+      navigation,
+      profile?.organization_id,
+      studyMaterialService,
+      trackError,
+      validate,
+    ]
+  );
+
+  useEffect(() => {
+    if (!dirty || !materialId || details.status !== 'draft' || saving || autosaving) return;
+
+    const timer = setTimeout(() => saveMaterial('draft', true), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [dirty, materialId, details.status, saving, autosaving, saveMaterial]);
+
+  // Wrap the selection (or a placeholder) in Markdown syntax and keep it selected
+  const insertMarkdown = (before: string, after = '', placeholder = '') => {
+    const textarea = contentRef.current;
+    const content = details.content;
+    const start = textarea?.selectionStart ?? content.length;
+    const end = textarea?.selectionEnd ?? content.length;
+    const selected = content.slice(start, end) || placeholder;
+
+    updateDetails({
+      content: content.slice(0, start) + before + selected + after + content.slice(end),
+    });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(
+        start + before.length,
+        start + before.length + selected.length
+      );
+    });
+  };
+
+  // Prefix the line the cursor is on, e.g. to make it a heading or list item
+  const prefixLine = (prefix: string) => {
+    const textarea = contentRef.current;
+    const content = details.content;
+    const cursor = textarea?.selectionStart ?? content.length;
+    const lineStart = content.lastIndexOf('\n', cursor - 1) + 1;
+
+    updateDetails({ content: content.slice(0, lineStart) + prefix + content.slice(lineStart) });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(cursor + prefix.length, cursor + prefix.length);
+    });
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!profile?.organization_id) return;
+
+    setUploading(true);
+    setError(null);
+
+    const { data, error } = await studyMaterialService.uploadAsset(file, profile.organization_id);
+
+    setUploading(false);
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to upload file');
+      return;
+    }
+
+    const label = data.isImage ? data.name.replace(/\.[^.]+$/, '') : data.name;
+    insertMarkdown(data.isImage ? `![${label}](${data.url})` : `[${label}](${data.url})`);
+  };
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleUpload(file);
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    const file = event.clipboardData.files[0];
+    if (file) {
+      event.preventDefault();
+      handleUpload(file);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      event.preventDefault();
+      handleUpload(file);
+    }
+  };
+
+  const handleRevisionRestored = (material: StudyMaterial, revision: StudyMaterialRevision) => {
+    editVersion.current += 1;
+    setDetails({
+      title: material.title,
+      category_id: material.category_id,
+      content: material.content,
+      status: material.status,
+      scope: material.scope,
+      region_id: material.region_id,
+    });
+    localStorage.removeItem(backupStorageKey(materialId));
+    setBackup(null);
+    setDirty(false);
+    setLastSavedAt(new Date());
+    setSuccess(`Restored revision ${revision.revision_number}`);
+  };
+
+  const handleRestoreBackup = () => {
+    if (!backup) return;
+    const { savedAt, ...restored } = backup;
+    updateDetails(restored);
+    setBackup(null);
+  };
+
+  const handleDiscardBackup = () => {
+    localStorage.removeItem(backupStorageKey(materialId));
+    setBackup(null);
+  };
+
+  // Rendering lags behind typing on long documents rather than blocking it
+  const previewContent = useDeferredValue(details.content);
+  const preview = useMemo(() => renderMarkdown(previewContent), [previewContent]);
+
+  if (loading && profile?.organization_id) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  const isPublished = details.status === 'published';
+  const busy = saving || uploading;
+
+  const toolbarActions = [
+    { label: 'Bold', icon: <BoldIcon />, action: () => insertMarkdown('**', '**', 'bold text') },
+    {
+      label: 'Italic',
+      icon: <ItalicIcon />,
+      action: () => insertMarkdown('_', '_', 'italic text'),
+    },
+    { label: 'Heading', icon: <HeadingIcon />, action: () => prefixLine('## ') },
+    { label: 'Bulleted list', icon: <BulletListIcon />, action: () => prefixLine('- ') },
+    { label: 'Numbered list', icon: <NumberedListIcon />, action: () => prefixLine('1. ') },
+    { label: 'Quote', icon: <QuoteIcon />, action: () => prefixLine('> ') },
+    { label: 'Code', icon: <CodeIcon />, action: () => insertMarkdown('`', '`', 'code') },
+    {
+      label: 'Link',
+      icon: <LinkIcon />,
+      action: () => insertMarkdown('[', '](https://)', 'link text'),
+    },
+    { label: 'Table', icon: <TableIcon />, action: () => insertMarkdown(TABLE_TEMPLATE) },
+  ];
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('STUDY_MATERIALS')}
+          variant="text"
+          color="primary"
+        >
+          Back to Library
+        </Button>
+      </Box>
+
+      {!canManageMaterials ? (
+        <Alert severity="warning">Only administrators can create and edit study materials.</Alert>
+      ) : outsideRegion ? (
+        <Alert severity="warning">You can only edit study materials for your own region.</Alert>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Typography variant="h4" component="h1">
+              {materialId ? 'Edit Study Material' : 'New Study Material'}
+            </Typography>
+            <Chip
+              label={isPublished ? 'Published' : 'Draft'}
+              color={isPublished ? 'success' : 'default'}
+              size="small"
+            />
+            <Typography variant="body2" color="text.secondary">
+              {autosaving
+                ? 'Saving…'
+                : dirty
+                  ? 'Unsaved changes'
+                  : lastSavedAt
+                    ? `Saved at ${lastSavedAt.toLocaleTimeString()}`
+                    : ''}
+            </Typography>
+            <Box sx={{ flex: 1 }} />
+            {materialId && (
+              <Button
+                startIcon={<HistoryIcon />}
+                onClick={() => setHistoryOpen(true)}
+                disabled={busy}
+              >
+                History
+              </Button>
+            )}
+          </Box>
+
+          {backup && (
+            <Alert
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                <>
+                  <Button color="inherit" size="small" onClick={handleRestoreBackup}>
+                    Restore
+                  </Button>
+                  <Button color="inherit" size="small" onClick={handleDiscardBackup}>
+                    Discard
+                  </Button>
+                </>
+              }
+            >
+              You have unsaved changes from {new Date(backup.savedAt).toLocaleString()}.
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {success && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+              {success}
+            </Alert>
+          )}
+
+          {materialId && (
+            <ContentApprovalPanel
+              contentType="study_material"
+              contentId={materialId}
+              scope={details.scope}
+              pendingApproval={pendingApproval}
+              published={isPublished}
+              disabled={dirty || busy}
+              onSubmitted={() => {
+                setPendingApproval(true);
+                setSuccess('Study material submitted for global approval');
+              }}
+            />
+          )}
+
+          {categories.length === 0 ? (
+            <Alert severity="info">Create a category before adding study materials.</Alert>
+          ) : (
+            <>
+              <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: { xs: '1fr', sm: '2fr 1fr' },
+                    gap: 2,
+                  }}
+                >
+                  <TextField
+                    required
+                    fullWidth
+                    label="Title"
+                    value={details.title}
+                    onChange={(e) => updateDetails({ title: e.target.value })}
+                    disabled={saving}
+                  />
+                  <FormControl required fullWidth disabled={saving}>
+                    <InputLabel>Category</InputLabel>
+                    <Select
+                      label="Category"
+                      value={details.category_id}
+                      onChange={(e) => updateDetails({ category_id: e.target.value })}
+                    >
+                      {categories.map((category) => (
+                        <MenuItem key={category.id} value={category.id}>
+                          {category.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <Box sx={{ gridColumn: '1 / -1' }}>
+                    <RegionSelect
+                      organizationId={profile?.organization_id || ''}
+                      value={details.region_id}
+                      onChange={(regionId) =>
+                        updateDetails({
+                          region_id: regionId,
+                          scope: regionId ? 'regional' : 'global',
+                        })
+                      }
+                      disabled={saving || pendingApproval || regionLocked}
+                      helperText={
+                        pendingApproval
+                          ? 'The region cannot change while awaiting global approval'
+                          : regionLocked
+                            ? 'Your material is available to your region until approved globally'
+                            : 'Leave empty to make the material available to the whole organization'
+                      }
+                    />
+                  </Box>
+                </Box>
+              </Paper>
+
+              <Box
+                sx={{
+                  display: 'grid',
+                  gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+                  gap: 3,
+                  mb: 3,
+                }}
+              >
+                <Paper elevation={2} sx={{ display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+                  <Box
+                    role="toolbar"
+                    aria-label="Formatting"
+                    sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', p: 0.5 }}
+                  >
+                    {toolbarActions.map(({ label, icon, action }) => (
+                      <Tooltip key={label} title={label}>
+                        <span>
+                          <IconButton size="small" onClick={action} disabled={busy}>
+                            {icon}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    ))}
+                    <Divider orientation="vertical" flexItem sx={{ mx: 0.5 }} />
+                    <Tooltip title="Upload image">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => imageInputRef.current?.click()}
+                          disabled={busy}
+                        >
+                          <ImageIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Upload attachment">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => attachmentInputRef.current?.click()}
+                          disabled={busy}
+                        >
+                          <AttachmentIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    {uploading && <CircularProgress size={20} sx={{ ml: 1 }} />}
+                    <input
+                      ref={imageInputRef}
+                      type="file"
+                      accept="image/*"
+                      hidden
+                      onChange={handleFileSelected}
+                    />
+                    <input
+                      ref={attachmentInputRef}
+                      type="file"
+                      hidden
+                      onChange={handleFileSelected}
+                    />
+                  </Box>
+                  <Divider />
+                  <TextField
+                    fullWidth
+                    multiline
+                    minRows={20}
+                    placeholder="Write in Markdown. Paste or drop files to upload them."
+                    value={details.content}
+                    onChange={(e) => updateDetails({ content: e.target.value })}
+                    onPaste={handlePaste}
+                    onDrop={handleDrop}
+                    inputRef={contentRef}
+                    disabled={saving}
+                    variant="standard"
+                    InputProps={{ disableUnderline: true }}
+                    inputProps={{ 'aria-label': 'Content', spellCheck: true }}
+                    sx={{
+                      p: 2,
+                      '& textarea': { fontFamily: 'monospace', fontSize: '0.875rem' },
+                    }}
+                  />
+                </Paper>
+
+                <Paper elevation={2} sx={{ p: { xs: 2, sm: 3 }, minWidth: 0 }}>
+                  <Typography variant="overline" color="text.secondary">
+                    Preview
+                  </Typography>
+                  {details.content.trim() ? (
+                    <MarkdownContent html={preview.html} />
+                  ) : (
+                    <Typography color="text.secondary">Nothing to preview yet.</Typography>
+                  )}
+                </Paper>
+              </Box>
+
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  onClick={() => saveMaterial('draft')}
+                  disabled={busy}
+                >
+                  {isPublished ? 'Unpublish' : 'Save Draft'}
+                </Button>
+                <Button
+                  variant="contained"
+                  onClick={() => saveMaterial('published')}
+                  disabled={busy}
+                >
+                  {saving ? (
+                    <CircularProgress size={24} />
+                  ) : isPublished ? (
+                    'Save Changes'
+                  ) : (
+                    'Publish'
+                  )}
+                </Button>
+              </Box>
+            </>
+          )}
+        </>
+      )}
+
+      {materialId && (
+        <RevisionHistory
+          open={historyOpen}
+          materialId={materialId}
+          hasUnsavedChanges={dirty}
+          onClose={() => setHistoryOpen(false)}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+    </Container>
+  );
+}
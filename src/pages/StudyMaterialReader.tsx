@@ -0,0 +1,345 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  Link,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  NavigateBefore as PreviousIcon,
+  NavigateNext as NextIcon,
+  Edit as EditIcon,
+  CheckCircle as ReadIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useProgressService, useStudyMaterialService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { StudyMaterial, StudyMaterialProgress, StudyMaterialSummary } from '../types/database';
+import { renderMarkdown } from '../utils/markdown';
+import { canEditContent, canViewContent } from '../utils/contentAccess';
+import { getScrollPercent, scrollToPercent } from '../utils/progress';
+import MarkdownContent from '../components/MarkdownContent';
+
+// Wait for scrolling to settle before saving the reading position
+const PROGRESS_SAVE_DELAY_MS = 2000;
+
+// Positions this close to either end are not worth offering to resume
+const RESUME_MARGIN = 5;
+
+export default function StudyMaterialReader() {
+  const { materialId } = useParams<{ materialId: string }>();
+  const location = useLocation();
+  const { user, profile } = useAuthContext();
+  const studyMaterialService = useStudyMaterialService();
+  const progressService = useProgressService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [material, setMaterial] = useState<StudyMaterial | null>(null);
+  const [siblings, setSiblings] = useState<StudyMaterialSummary[]>([]);
+  const [progress, setProgress] = useState<StudyMaterialProgress | null>(null);
+  // Saved position offered to the reader when they come back part way through
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Set when arriving from "resume where you left off"
+  const resumeRequested = useRef<boolean>(!!location.state?.resume);
+
+  useEffect(() => {
+    const loadMaterial = async () => {
+      if (!materialId || !profile?.organization_id) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error } = await studyMaterialService.getMaterial(materialId);
+        if (error) throw error;
+        if (!data) throw new Error('Study material not found');
+        if (!canViewContent(viewer, data)) {
+          throw new Error(
+            data.status === 'draft'
+              ? 'This study material has not been published yet'
+              : 'This study material is not available to you'
+          );
+        }
+
+        const [siblingsResult, progressResult] = await Promise.all([
+          studyMaterialService.listMaterialSummaries(profile.organization_id, data.category_id, {
+            viewer: viewer ?? undefined,
+          }),
+          user
+            ? progressService.getMaterialProgress(user.id, data.id)
+            : Promise.resolve({ data: null, error: null }),
+        ]);
+
+        const saved = progressResult.data;
+        setMaterial(data);
+        setSiblings(siblingsResult.data);
+        setProgress(saved);
+        setResumePosition(
+          saved &&
+            !saved.completed_at &&
+            saved.last_position > RESUME_MARGIN &&
+            saved.last_position < 100 - RESUME_MARGIN
+            ? saved.last_position
+            : null
+        );
+        window.scrollTo(0, 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load study material');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMaterial();
+  }, [materialId, profile?.organization_id, user, viewer, studyMaterialService, progressService]);
+
+  // Only published material counts towards a learner's progress
+  const tracksProgress = !!user && material?.status === 'published';
+
+  const saveProgress = useCallback(
+    async (percent: number, completed = false) => {
+      if (!material) return;
+
+      const { data } = await progressService.recordMaterialProgress(
+        material.id,
+        percent,
+        completed
+      );
+      if (data) setProgress(data);
+    },
+    [material, progressService]
+  );
+
+  // Save the reading position once scrolling settles, and when leaving the page
+  useEffect(() => {
+    if (!tracksProgress) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let latest = -1;
+    let saved = -1;
+
+    const save = () => {
+      if (latest !== saved) {
+        saved = latest;
+        saveProgress(latest);
+      }
+    };
+
+    const handleScroll = () => {
+      const percent = getScrollPercent();
+      // Opening the page scrolls to the top; don't let that overwrite where
+      // the reader left off before they have actually started reading
+      if (saved === -1 && percent <= RESUME_MARGIN) return;
+
+      latest = percent;
+      clearTimeout(timer);
+      timer = setTimeout(save, PROGRESS_SAVE_DELAY_MS);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      clearTimeout(timer);
+      save();
+    };
+  }, [tracksProgress, saveProgress]);
+
+  // Jump back to the saved position when asked to resume
+  useEffect(() => {
+    if (loading || !progress || !resumeRequested.current) return;
+
+    resumeRequested.current = false;
+    if (!progress.completed_at) {
+      setResumePosition(null);
+      requestAnimationFrame(() => scrollToPercent(progress.last_position));
+    }
+  }, [loading, progress]);
+
+  const handleResume = () => {
+    if (resumePosition !== null) scrollToPercent(resumePosition);
+    setResumePosition(null);
+  };
+
+  const rendered = useMemo(() => renderMarkdown(material?.content || ''), [material?.content]);
+
+  const position = siblings.findIndex((sibling) => sibling.id === materialId);
+  const previous = position > 0 ? siblings[position - 1] : null;
+  const next = position >= 0 && position < siblings.length - 1 ? siblings[position + 1] : null;
+
+  const goToMaterial = (id: string) =>
+    navigation.goTo('STUDY_MATERIAL', { params: { materialId: id } });
+
+  const scrollToHeading = (event: React.MouseEvent, id: string) => {
+    event.preventDefault();
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!material) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert severity="error">{error || 'Study material not found'}</Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('STUDY_MATERIALS')}
+          variant="text"
+          color="primary"
+        >
+          Back to Library
+        </Button>
+        {canEditContent(viewer, material) && (
+          <Button
+            startIcon={<EditIcon />}
+            onClick={() =>
+              navigation.goTo('STUDY_MATERIAL_EDITOR', { params: { materialId: material.id } })
+            }
+            variant="outlined"
+          >
+            Edit
+          </Button>
+        )}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start' }}>
+        <Paper elevation={2} sx={{ p: { xs: 2, sm: 4 }, flex: 1, minWidth: 0 }}>
+          {material.category && <Chip label={material.category.name} size="small" />}
+          {material.status === 'draft' && (
+            <Chip label="Draft" size="small" variant="outlined" sx={{ ml: 1 }} />
+          )}
+          <Typography variant="h4" component="h1" sx={{ mt: 1 }}>
+            {material.title}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Last updated {new Date(material.updated_at).toLocaleDateString()}
+          </Typography>
+
+          {resumePosition !== null && (
+            <Alert
+              severity="info"
+              sx={{ my: 2 }}
+              onClose={() => setResumePosition(null)}
+              action={
+                <Button color="inherit" size="small" onClick={handleResume}>
+                  Resume
+                </Button>
+              }
+            >
+              You left off {resumePosition}% of the way through.
+            </Alert>
+          )}
+
+          <MarkdownContent html={rendered.html} />
+
+          {tracksProgress && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+              {progress?.completed_at ? (
+                <Chip
+                  icon={<ReadIcon />}
+                  label={`Read on ${new Date(progress.completed_at).toLocaleDateString()}`}
+                  color="success"
+                  variant="outlined"
+                />
+              ) : (
+                <Button
+                  variant="outlined"
+                  startIcon={<ReadIcon />}
+                  onClick={() => saveProgress(100, true)}
+                >
+                  Mark as Read
+                </Button>
+              )}
+            </Box>
+          )}
+
+          <Box
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: 2,
+              mt: 4,
+              pt: 2,
+              borderTop: 1,
+              borderColor: 'divider',
+            }}
+          >
+            {previous ? (
+              <Button startIcon={<PreviousIcon />} onClick={() => goToMaterial(previous.id)}>
+                {previous.title}
+              </Button>
+            ) : (
+              <span />
+            )}
+            {next && (
+              <Button
+                variant="contained"
+                endIcon={<NextIcon />}
+                onClick={() => goToMaterial(next.id)}
+              >
+                {next.title}
+              </Button>
+            )}
+          </Box>
+        </Paper>
+
+        {rendered.headings.length > 1 && (
+          <Paper
+            component="nav"
+            aria-label="Table of contents"
+            sx={{
+              p: 2,
+              width: 240,
+              flexShrink: 0,
+              position: 'sticky',
+              top: 88,
+              display: { xs: 'none', md: 'block' },
+            }}
+          >
+            <Typography variant="overline" color="text.secondary">
+              Contents
+            </Typography>
+            {rendered.headings.map((heading) => (
+              <Link
+                key={heading.id}
+                href={`#${heading.id}`}
+                onClick={(event) => scrollToHeading(event, heading.id)}
+                underline="hover"
+                color="text.primary"
+                variant="body2"
+                sx={{ display: 'block', py: 0.5, pl: (heading.level - 1) * 1.5 }}
+              >
+                {heading.text}
+              </Link>
+            ))}
+          </Paper>
+        )}
+      </Box>
+    </Container>
+  );
+}
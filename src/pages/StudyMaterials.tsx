@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  MenuBook as ReadIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useStudyMaterialService } from '../contexts/ServiceContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useContentViewer } from '../hooks/useContentViewer';
+import { QuizCategory, StudyMaterialSummary } from '../types/database';
+import { canAuthorContent, canEditContent } from '../utils/contentAccess';
+
+export default function StudyMaterials() {
+  const { profile } = useAuthContext();
+  const studyMaterialService = useStudyMaterialService();
+  const navigation = useNavigation();
+  const viewer = useContentViewer();
+  const [categories, setCategories] = useState<QuizCategory[]>([]);
+  const [materials, setMaterials] = useState<StudyMaterialSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canCreateMaterials = canAuthorContent(viewer);
+
+  useEffect(() => {
+    const loadLibrary = async () => {
+      if (!profile?.organization_id) return;
+
+      try {
+        setLoading(true);
+        const [categoriesResult, materialsResult] = await Promise.all([
+          studyMaterialService.listCategories(profile.organization_id),
+          // Learners see published global and regional material; authors also see drafts
+          studyMaterialService.listMaterialSummaries(profile.organization_id, undefined, {
+            viewer: viewer ?? undefined,
+          }),
+        ]);
+
+        if (categoriesResult.error) throw categoriesResult.error;
+        if (materialsResult.error) throw materialsResult.error;
+
+        setCategories(
+          [...categoriesResult.data].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setMaterials(materialsResult.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load study materials');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLibrary();
+  }, [profile?.organization_id, viewer, studyMaterialService]);
+
+  if (loading && profile?.organization_id) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Only show categories that have something to read
+  const sections = categories
+    .map((category) => ({
+      category,
+      materials: materials.filter((material) => material.category_id === category.id),
+    }))
+    .filter((section) => section.materials.length > 0);
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-start', mb: 2 }}>
+        <Button
+          startIcon={<ArrowBackIcon />}
+          onClick={() => navigation.goTo('HOME')}
+          variant="text"
+          color="primary"
+        >
+          Back to Home
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Study Materials
+          </Typography>
+          <Typography variant="subtitle1" color="text.secondary" gutterBottom>
+            Study guides for your organization, grouped by topic
+          </Typography>
+        </Box>
+        {canCreateMaterials && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => navigation.goTo('STUDY_MATERIAL_NEW')}
+          >
+            New Material
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!profile?.organization_id ? (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          You are not associated with any organization. Please contact your administrator.
+        </Alert>
+      ) : sections.length === 0 ? (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          No study materials are available yet.
+        </Alert>
+      ) : (
+        <Box sx={{ display: 'grid', gap: 2, mt: 3 }}>
+          {sections.map(({ category, materials: categoryMaterials }) => (
+            <Paper key={category.id} sx={{ p: 2 }}>
+              <Typography variant="h6">{category.name}</Typography>
+              {category.description && (
+                <Typography variant="body2" color="text.secondary">
+                  {category.description}
+                </Typography>
+              )}
+              <List disablePadding sx={{ mt: 1 }}>
+                {categoryMaterials.map((material, index) => (
+                  <ListItem
+                    key={material.id}
+                    disablePadding
+                    divider={index < categoryMaterials.length - 1}
+                    secondaryAction={
+                      canEditContent(viewer, material) && (
+                        <Tooltip title="Edit">
+                          <IconButton
+                            edge="end"
+                            onClick={() =>
+                              navigation.goTo('STUDY_MATERIAL_EDITOR', {
+                                params: { materialId: material.id },
+                              })
+                            }
+                          >
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )
+                    }
+                  >
+                    <ListItemButton
+                      onClick={() =>
+                        navigation.goTo('STUDY_MATERIAL', { params: { materialId: material.id } })
+                      }
+                    >
+                      <ReadIcon color="action" sx={{ mr: 2 }} />
+                      <ListItemText
+                        primary={material.title}
+                        secondary={`Updated ${new Date(material.updated_at).toLocaleDateString()}`}
+                      />
+                      {material.status === 'draft' && (
+                        <Chip label="Draft" size="small" variant="outlined" sx={{ ml: 1 }} />
+                      )}
+                    </ListItemButton>
+                  </ListItem>
+                ))}
+              </List>
+            </Paper>
+          ))}
+        </Box>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,199 @@
+import { BaseService, ListResult } from './BaseService';
+import {
+  LearnerAnalytics,
+  LearnerProgressReport,
+  QuizAnalytics,
+  QuizAttemptExportRow,
+  RegionAnalytics
+} from '../types/database';
+
+export interface AnalyticsFilters {
+  // Omit for the whole organization; region admins always get their own region
+  regionId?: string | null;
+  // Completed attempts from this time (inclusive) until `to` (exclusive)
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface PageOptions {
+  // 1-based, like OrganizationService.getOrganizationMembers
+  page?: number;
+  // At most 1000 rows per page
+  limit?: number;
+}
+
+/**
+ * Quiz results aggregated in the database for organization and region admins
+ */
+export class AnalyticsService extends BaseService<'quiz_attempts'> {
+  constructor() {
+    super('quiz_attempts');
+  }
+
+  /**
+   * Completion, pass rates and score distribution for each quiz
+   */
+  async getQuizAnalytics(filters: AnalyticsFilters = {}): Promise<ListResult<QuizAnalytics>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_quiz_analytics', {
+        p_region_id: filters.regionId ?? null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AnalyticsService.getQuizAnalytics',
+          filters
+        })
+      };
+    }
+  }
+
+  /**
+   * Side-by-side results for each region the current user can see
+   */
+  async getRegionAnalytics(
+    filters: Omit<AnalyticsFilters, 'regionId'> = {}
+  ): Promise<ListResult<RegionAnalytics>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_region_analytics', {
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AnalyticsService.getRegionAnalytics',
+          filters
+        })
+      };
+    }
+  }
+
+  /**
+   * Attempts per learner, most active first, optionally for a single quiz
+   */
+  async getLearnerAnalytics(
+    filters: AnalyticsFilters & { quizId?: string | null } = {}
+  ): Promise<ListResult<LearnerAnalytics>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_learner_analytics', {
+        p_region_id: filters.regionId ?? null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null,
+        p_quiz_id: filters.quizId ?? null
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AnalyticsService.getLearnerAnalytics',
+          filters
+        })
+      };
+    }
+  }
+
+  /**
+   * One page of completed quiz attempts, oldest first, for exports
+   */
+  async listQuizAttempts(
+    filters: AnalyticsFilters & { quizId?: string | null } = {},
+    options: PageOptions = {}
+  ): Promise<ListResult<QuizAttemptExportRow>> {
+    try {
+      const limit = options.limit || 500;
+      const { data, error } = await this.supabase.rpc('export_quiz_attempts', {
+        p_quiz_id: filters.quizId ?? null,
+        p_region_id: filters.regionId ?? null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null,
+        p_offset: ((options.page || 1) - 1) * limit,
+        p_limit: limit
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AnalyticsService.listQuizAttempts',
+          filters,
+          options
+        })
+      };
+    }
+  }
+
+  /**
+   * One page of the per-member progress report, ordered by name, for exports
+   */
+  async listLearnerProgress(
+    filters: Pick<AnalyticsFilters, 'regionId'> = {},
+    options: PageOptions = {}
+  ): Promise<ListResult<LearnerProgressReport>> {
+    try {
+      const limit = options.limit || 500;
+      const { data, error } = await this.supabase.rpc('export_learner_progress', {
+        p_region_id: filters.regionId ?? null,
+        p_offset: ((options.page || 1) - 1) * limit,
+        p_limit: limit
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AnalyticsService.listLearnerProgress',
+          filters,
+          options
+        })
+      };
+    }
+  }
+}
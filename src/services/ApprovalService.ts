@@ -0,0 +1,162 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import {
+  ApprovalContentType,
+  ApprovalStatus,
+  ContentApproval
+} from '../types/database';
+import { monitoring } from './MonitoringService';
+
+const APPROVAL_SELECT = `
+  *,
+  submitter:profiles!submitted_by (first_name, last_name, email),
+  reviewer:profiles!reviewed_by (first_name, last_name, email),
+  region:regions (name)
+`;
+
+export class ApprovalService extends BaseService<'content_approvals'> {
+  constructor() {
+    super('content_approvals');
+  }
+
+  /**
+   * Submit regional content for promotion to global scope. The content is
+   * marked pending_approval until a reviewer decides.
+   */
+  async submitForApproval(
+    contentType: ApprovalContentType,
+    contentId: string,
+    note?: string
+  ): Promise<ServiceResult<ContentApproval>> {
+    const endMark = monitoring.startMetric('submit_content_approval');
+    try {
+      const { data, error } = await this.supabase.rpc('submit_content_for_approval', {
+        p_content_type: contentType,
+        p_content_id: contentId,
+        p_note: note ?? null
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'ApprovalService.submitForApproval',
+          contentType,
+          contentId
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * List an organization's approval requests, newest first
+   */
+  async listApprovals(
+    organizationId: string,
+    options?: { status?: ApprovalStatus; limit?: number }
+  ): Promise<ListResult<ContentApproval>> {
+    try {
+      let query = this.supabase
+        .from('content_approvals')
+        .select(APPROVAL_SELECT, { count: 'exact' })
+        .eq('organization_id', organizationId);
+
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .limit(options?.limit || 100);
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'ApprovalService.listApprovals',
+          organizationId,
+          options
+        })
+      };
+    }
+  }
+
+  /**
+   * List the approval history of a single quiz or study material
+   */
+  async listContentApprovals(
+    contentType: ApprovalContentType,
+    contentId: string
+  ): Promise<ListResult<ContentApproval>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('content_approvals')
+        .select(APPROVAL_SELECT, { count: 'exact' })
+        .eq('content_type', contentType)
+        .eq('content_id', contentId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'ApprovalService.listContentApprovals',
+          contentType,
+          contentId
+        })
+      };
+    }
+  }
+
+  /**
+   * Approve or reject a pending request. Approved content becomes global;
+   * rejections must include a comment for the submitter.
+   */
+  async reviewApproval(
+    approvalId: string,
+    approve: boolean,
+    comment?: string
+  ): Promise<ServiceResult<ContentApproval>> {
+    const endMark = monitoring.startMetric('review_content_approval');
+    try {
+      const { data, error } = await this.supabase.rpc('review_content_approval', {
+        p_approval_id: approvalId,
+        p_approve: approve,
+        p_comment: comment ?? null
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'ApprovalService.reviewApproval',
+          approvalId,
+          approve
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { BaseService, ListResult } from './BaseService';
+import { AuditAction, AuditLogActor, AuditLogRecord } from '../types/database';
+import { PageOptions } from './AnalyticsService';
+
+export interface AuditLogFilters {
+  actorId?: string | null;
+  action?: AuditAction | null;
+  // ISO timestamps; from is inclusive, to exclusive
+  from?: string | null;
+  to?: string | null;
+}
+
+/**
+ * Read access to the organization's audit log. Entries are written by
+ * database triggers, never by the client.
+ */
+export class AuditService extends BaseService<'audit_log'> {
+  constructor() {
+    super('audit_log');
+  }
+
+  /**
+   * One page of the log, newest first
+   */
+  async listEntries(
+    filters: AuditLogFilters = {},
+    options: PageOptions = {}
+  ): Promise<ListResult<AuditLogRecord>> {
+    try {
+      const limit = options.limit || 50;
+      const { data, error } = await this.supabase.rpc('get_audit_log', {
+        p_actor_id: filters.actorId ?? null,
+        p_action: filters.action ?? null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null,
+        p_offset: ((options.page || 1) - 1) * limit,
+        p_limit: limit
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AuditService.listEntries',
+          filters,
+          options
+        })
+      };
+    }
+  }
+
+  /**
+   * Everyone who has performed a logged action, including former members
+   */
+  async listActors(): Promise<ListResult<AuditLogActor>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_audit_log_actors');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'AuditService.listActors'
+        })
+      };
+    }
+  }
+}
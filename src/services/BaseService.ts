@@ -23,7 +23,12 @@ export interface ListResult<T> {
 
 export abstract class BaseService<T extends TableName> {
   protected supabase: SupabaseClient<Database> = supabase;
-  protected table = this.supabase.from(this.tableName);
+
+  // A new query builder on every access; builders keep their filters and
+  // headers, so one shared between calls leaks them into later queries
+  protected get table() {
+    return this.supabase.from(this.tableName);
+  }
 
   protected getRequestOptions() {
     return {
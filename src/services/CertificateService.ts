@@ -0,0 +1,98 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import {
+  Certificate,
+  CertificateContentType,
+  CertificateVerification
+} from '../types/database';
+import { monitoring } from './MonitoringService';
+
+export class CertificateService extends BaseService<'certificates'> {
+  constructor() {
+    super('certificates');
+  }
+
+  /**
+   * List a user's certificates, most recently issued first
+   */
+  async listCertificates(userId: string): Promise<ListResult<Certificate>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('certificates')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('issued_at', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'CertificateService.listCertificates',
+          userId
+        })
+      };
+    }
+  }
+
+  /**
+   * Look up a certificate by its verification code. Works without signing in.
+   */
+  async verifyCertificate(code: string): Promise<ServiceResult<CertificateVerification>> {
+    try {
+      const { data, error } = await this.supabase.rpc('verify_certificate', {
+        p_code: code
+      });
+
+      if (error) throw error;
+      return { data: data?.[0] ?? null, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'CertificateService.verifyCertificate',
+          code
+        })
+      };
+    }
+  }
+
+  /**
+   * Set how many months certificates for a quiz or learning path stay valid,
+   * or null for certificates that never expire
+   */
+  async setCertificateValidity(
+    contentType: CertificateContentType,
+    contentId: string,
+    validMonths: number | null
+  ): Promise<ServiceResult<void>> {
+    const endMark = monitoring.startMetric('set_certificate_validity');
+    try {
+      const { error } = await this.supabase.rpc('set_certificate_validity', {
+        p_content_type: contentType,
+        p_content_id: contentId,
+        p_valid_months: validMonths
+      });
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'CertificateService.setCertificateValidity',
+          contentType,
+          contentId
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import {
+  LearningPath,
+  LearningPathAssignment,
+  LearningPathStep,
+  LearningPathStepInput,
+  LearningPathStepProgress,
+  PublishStatus
+} from '../types/database';
+import { monitoring } from './MonitoringService';
+
+type LearningPathFields = Partial<
+  Pick<LearningPath, 'title' | 'description' | 'status' | 'scope' | 'region_id'>
+>;
+
+export type LearningPathWithSteps = LearningPath & { steps: LearningPathStep[] };
+
+const PATH_SELECT = `
+  *,
+  steps:learning_path_steps (
+    *,
+    material:study_materials (id, title),
+    quiz:quizzes (id, title, passing_score)
+  )
+`;
+
+const ASSIGNMENT_SELECT = `
+  *,
+  user:profiles!user_id (first_name, last_name, email),
+  region:regions (name)
+`;
+
+export class LearningPathService extends BaseService<'learning_paths'> {
+  constructor() {
+    super('learning_paths');
+  }
+
+  /**
+   * List the learning paths of an organization the current user can see
+   */
+  async listPaths(
+    organizationId: string,
+    options?: { status?: PublishStatus }
+  ): Promise<ListResult<LearningPath>> {
+    try {
+      let query = this.supabase
+        .from('learning_paths')
+        .select('*', { count: 'exact' })
+        .eq('organization_id', organizationId);
+
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      const { data, error, count } = await query.order('title');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'LearningPathService.listPaths',
+          organizationId
+        })
+      };
+    }
+  }
+
+  /**
+   * Get a learning path with its steps in order
+   */
+  async getPath(id: string): Promise<ServiceResult<LearningPathWithSteps>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('learning_paths')
+        .select(PATH_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        data: {
+          ...data,
+          steps: [...(data.steps || [])].sort(
+            (a: LearningPathStep, b: LearningPathStep) => a.position - b.position
+          )
+        },
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'LearningPathService.getPath',
+          id
+        })
+      };
+    }
+  }
+
+  /**
+   * Create (pathId null) or update a learning path, replacing its steps
+   */
+  async savePath(
+    pathId: string | null,
+    path: LearningPathFields,
+    steps: LearningPathStepInput[]
+  ): Promise<ServiceResult<LearningPath>> {
+    const endMark = monitoring.startMetric('save_learning_path');
+    try {
+      const { data, error } = await this.supabase.rpc('save_learning_path', {
+        p_path_id: pathId,
+        p_path: path,
+        p_steps: steps
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'LearningPathService.savePath',
+          pathId
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Delete a learning path with its steps and assignments
+   */
+  async deletePath(id: string): Promise<ServiceResult<void>> {
+    const endMark = monitoring.startMetric('delete_learning_path');
+    try {
+      const { error } = await this.deleteRow(id);
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'LearningPathService.deletePath',
+          id
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Which steps of a path the current user has completed and can start
+   */
+  async getPathProgress(pathId: string): Promise<ListResult<LearningPathStepProgress>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_learning_path_progress', {
+        p_path_id: pathId
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'LearningPathService.getPathProgress',
+          pathId
+        })
+      };
+    }
+  }
+
+  /**
+   * List who a learning path is assigned to
+   */
+  async listAssignments(pathId: string): Promise<ListResult<LearningPathAssignment>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('learning_path_assignments')
+        .select(ASSIGNMENT_SELECT, { count: 'exact' })
+        .eq('path_id', pathId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'LearningPathService.listAssignments',
+          pathId
+        })
+      };
+    }
+  }
+
+  /**
+   * List the published paths assigned to a user directly or through their region
+   */
+  async listAssignedPaths(
+    userId: string,
+    regionId: string | null
+  ): Promise<ListResult<LearningPathAssignment>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('learning_path_assignments')
+        .select('*, path:learning_paths (*)', { count: 'exact' })
+        .or(regionId ? `user_id.eq.${userId},region_id.eq.${regionId}` : `user_id.eq.${userId}`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Drafts are hidden from learners, which leaves their assignments without a path
+      const assigned = (data || []).filter(
+        (assignment: LearningPathAssignment) => assignment.path?.status === 'published'
+      );
+
+      return {
+        data: assigned,
+        count: count === null ? null : assigned.length,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'LearningPathService.listAssignedPaths',
+          userId,
+          regionId
+        })
+      };
+    }
+  }
+
+  /**
+   * Assign a published path to a user or to everyone in a region
+   */
+  async assignPath(
+    pathId: string,
+    assignee: { userId: string } | { regionId: string }
+  ): Promise<ServiceResult<LearningPathAssignment>> {
+    const endMark = monitoring.startMetric('assign_learning_path');
+    try {
+      const { data, error } = await this.supabase.rpc('assign_learning_path', {
+        p_path_id: pathId,
+        p_user_id: 'userId' in assignee ? assignee.userId : null,
+        p_region_id: 'regionId' in assignee ? assignee.regionId : null
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'LearningPathService.assignPath',
+          pathId,
+          assignee
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Remove an assignment
+   */
+  async removeAssignment(id: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('learning_path_assignments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'LearningPathService.removeAssignment',
+          id
+        })
+      };
+    }
+  }
+}
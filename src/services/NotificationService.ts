@@ -0,0 +1,113 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import { UserNotification } from '../types/database';
+
+export class NotificationService extends BaseService<'notifications'> {
+  constructor() {
+    super('notifications');
+  }
+
+  /**
+   * List a user's most recent notifications
+   */
+  async listNotifications(
+    userId: string,
+    options?: { limit?: number }
+  ): Promise<ListResult<UserNotification>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(options?.limit || 20);
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'NotificationService.listNotifications',
+          userId
+        })
+      };
+    }
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async getUnreadCount(userId: string): Promise<ServiceResult<number>> {
+    try {
+      const { count, error } = await this.supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return { data: count || 0, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'NotificationService.getUnreadCount',
+          userId
+        })
+      };
+    }
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  async markAsRead(id: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'NotificationService.markAsRead',
+          id
+        })
+      };
+    }
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   */
+  async markAllAsRead(userId: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'NotificationService.markAllAsRead',
+          userId
+        })
+      };
+    }
+  }
+}
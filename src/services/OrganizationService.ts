@@ -1,5 +1,16 @@
 import { BaseService, ServiceResult, ListResult } from './BaseService';
-import { Organization, Profile, Invitation, Region, Database } from '../types/database';
+import {
+  Organization,
+  Profile,
+  Invitation,
+  InvitationStatus,
+  InvitationSummary,
+  JoinLink,
+  JoinLinkCheck,
+  JoinLinkSummary,
+  Region,
+  Database,
+} from '../types/database';
 import { monitoring } from './MonitoringService';
 
 // Define query result types
@@ -38,10 +49,20 @@ interface RpcInviteResult {
     email: string;
     organization_id: string;
     role: string;
-    region_id?: string;
+    region_id?: string | null;
   };
 }
 
+// Join links always make people users; see the join_links migration
+export interface JoinLinkOptions {
+  regionId?: string | null;
+  // Null or omitted for unlimited uses
+  maxUses?: number | null;
+  expiresAt?: string | null;
+  // Only emails at this domain may join, e.g. "example.com"
+  allowedDomain?: string | null;
+}
+
 export interface OrganizationServiceInterface {
   getOrganizationMembers(
     organizationId: string,
@@ -66,11 +87,18 @@ export interface OrganizationServiceInterface {
     regionId?: string
   ): Promise<ServiceResult<{ token: string }>>;
   getPendingInvitations(organizationId: string): Promise<ServiceResult<Invitation[]>>;
+  listInvitations(status?: InvitationStatus | null): Promise<ServiceResult<InvitationSummary[]>>;
+  resendInvitation(invitationId: string): Promise<ServiceResult<{ token: string }>>;
   checkInvitationToken(
     token: string
   ): Promise<ServiceResult<{ valid: boolean; invitation: Invitation | null }>>;
   cancelInvitation(invitationId: string): Promise<ServiceResult<void>>;
   acceptInvitation(token: string): Promise<ServiceResult<void>>;
+  createJoinLink(options: JoinLinkOptions): Promise<ServiceResult<JoinLink>>;
+  listJoinLinks(): Promise<ServiceResult<JoinLinkSummary[]>>;
+  revokeJoinLink(linkId: string): Promise<ServiceResult<void>>;
+  checkJoinLink(code: string): Promise<ServiceResult<JoinLinkCheck>>;
+  redeemJoinLink(code: string): Promise<ServiceResult<void>>;
 }
 
 export class OrganizationService
@@ -138,6 +166,9 @@ export class OrganizationService
           { count: 'exact' }
         )
         .eq('organization_id', organizationId)
+        // A stable order so consecutive pages never skip or repeat members
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
         .range(offset, offset + limit - 1);
 
       const { data, error, count } = await query;
@@ -468,22 +499,14 @@ export class OrganizationService
 
       const result = inviteResult as RpcInviteResult;
 
-      const { error: emailError } = await this.supabase.auth.signInWithOtp({
+      await this.sendInvitationEmail({
+        token: result.invitation.token,
         email,
-        options: {
-          data: {
-            invitation_token: result.invitation.token,
-            organization_id: organizationId,
-            role: role,
-            region_id: regionId,
-            type: 'invite',
-          },
-          emailRedirectTo: `${window.location.origin}/join-organization?token=${result.invitation.token}`,
-        },
+        organization_id: organizationId,
+        role,
+        region_id: regionId,
       });
 
-      if (emailError) throw emailError;
-
       monitoring.startMetric('user_invited_to_organization', {
         email,
         organizationId,
@@ -509,6 +532,79 @@ export class OrganizationService
     }
   }
 
+  /**
+   * Email the invitation link; the token in the link is what grants access
+   */
+  private async sendInvitationEmail(invitation: RpcInviteResult['invitation']): Promise<void> {
+    const { error } = await this.supabase.auth.signInWithOtp({
+      email: invitation.email,
+      options: {
+        data: {
+          invitation_token: invitation.token,
+          organization_id: invitation.organization_id,
+          role: invitation.role,
+          region_id: invitation.region_id,
+          type: 'invite',
+        },
+        emailRedirectTo: `${window.location.origin}/join-organization?token=${invitation.token}`,
+      },
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Resend an invitation with a new token. Links in earlier emails stop working
+   * and expired invitations become pending again.
+   */
+  async resendInvitation(invitationId: string): Promise<ServiceResult<{ token: string }>> {
+    try {
+      const { data, error } = await this.supabase.rpc('resend_invitation', {
+        p_invitation_id: invitationId,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error('Failed to resend invitation');
+
+      await this.sendInvitationEmail(data.invitation);
+
+      return { data: { token: data.invitation.token }, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'OrganizationService.resendInvitation',
+          invitationId,
+        }),
+      };
+    }
+  }
+
+  /**
+   * The current organization's invitations with their status history, newest
+   * first. Overdue pending invitations are marked expired before listing.
+   */
+  async listInvitations(
+    status: InvitationStatus | null = null
+  ): Promise<ServiceResult<InvitationSummary[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_invitations', {
+        p_status: status,
+      });
+
+      if (error) throw error;
+      return { data: data || [], error: null };
+    } catch (error) {
+      return {
+        data: [],
+        error: this.handleError(error, {
+          context: 'OrganizationService.listInvitations',
+          status,
+        }),
+      };
+    }
+  }
+
   /**
    * Get pending invitations for an organization
    */
@@ -522,11 +618,14 @@ export class OrganizationService
           email,
           organization_id,
           role,
+          region_id,
           token,
           created_at,
           expires_at,
           accepted_at,
           status,
+          last_sent_at,
+          resend_count,
           region:regions (
             id,
             name
@@ -535,6 +634,7 @@ export class OrganizationService
         )
         .eq('organization_id', organizationId)
         .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -622,4 +722,117 @@ export class OrganizationService
       };
     }
   }
+
+  /**
+   * Create a shareable link for joining the current organization
+   */
+  async createJoinLink(options: JoinLinkOptions): Promise<ServiceResult<JoinLink>> {
+    try {
+      const { data, error } = await this.supabase.rpc('create_join_link', {
+        p_role: 'user',
+        p_region_id: options.regionId ?? null,
+        p_max_uses: options.maxUses ?? null,
+        p_expires_at: options.expiresAt ?? null,
+        p_allowed_domain: options.allowedDomain ?? null,
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'OrganizationService.createJoinLink',
+          options,
+        }),
+      };
+    }
+  }
+
+  /**
+   * The current organization's join links, newest first, including revoked ones
+   */
+  async listJoinLinks(): Promise<ServiceResult<JoinLinkSummary[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_join_links');
+
+      if (error) throw error;
+      return { data: data || [], error: null };
+    } catch (error) {
+      return {
+        data: [],
+        error: this.handleError(error, {
+          context: 'OrganizationService.listJoinLinks',
+        }),
+      };
+    }
+  }
+
+  /**
+   * Stop a join link from being used; people who already joined stay
+   */
+  async revokeJoinLink(linkId: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase.rpc('revoke_join_link', {
+        p_link_id: linkId,
+      });
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'OrganizationService.revokeJoinLink',
+          linkId,
+        }),
+      };
+    }
+  }
+
+  /**
+   * Check whether a join link can be used and what it grants
+   */
+  async checkJoinLink(code: string): Promise<ServiceResult<JoinLinkCheck>> {
+    try {
+      const { data, error } = await this.supabase.rpc('check_join_link', {
+        p_code: code,
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: { valid: false, reason: null },
+        error: this.handleError(error, {
+          context: 'OrganizationService.checkJoinLink',
+        }),
+      };
+    }
+  }
+
+  /**
+   * Join an organization through a shareable link
+   */
+  async redeemJoinLink(code: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase.rpc('redeem_join_link', {
+        p_code: code,
+      });
+
+      if (error) throw error;
+
+      // Refresh authenticated session to reflect new organization membership
+      await this.supabase.auth.refreshSession();
+
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'OrganizationService.redeemJoinLink',
+        }),
+      };
+    }
+  }
 }
@@ -0,0 +1,137 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import { CategoryProgress, StudyMaterialProgress } from '../types/database';
+
+const PROGRESS_SELECT = `
+  *,
+  material:study_materials (id, title, category_id)
+`;
+
+export class ProgressService extends BaseService<'study_material_progress'> {
+  constructor() {
+    super('study_material_progress');
+  }
+
+  /**
+   * Record the current user's reading position in a study material, as a
+   * percentage. Reaching 100% or passing completed marks the material as read.
+   */
+  async recordMaterialProgress(
+    materialId: string,
+    percent: number,
+    completed = false
+  ): Promise<ServiceResult<StudyMaterialProgress>> {
+    try {
+      const { data, error } = await this.supabase.rpc('record_study_progress', {
+        p_material_id: materialId,
+        p_percent: Math.round(percent),
+        p_completed: completed
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'ProgressService.recordMaterialProgress',
+          materialId,
+          percent
+        })
+      };
+    }
+  }
+
+  /**
+   * Get a user's progress through one study material, if they have opened it
+   */
+  async getMaterialProgress(
+    userId: string,
+    materialId: string
+  ): Promise<ServiceResult<StudyMaterialProgress>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('study_material_progress')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('material_id', materialId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'ProgressService.getMaterialProgress',
+          userId,
+          materialId
+        })
+      };
+    }
+  }
+
+  /**
+   * List a user's reading progress, most recently read first
+   */
+  async listMaterialProgress(
+    userId: string,
+    options?: { inProgressOnly?: boolean; limit?: number }
+  ): Promise<ListResult<StudyMaterialProgress>> {
+    try {
+      let query = this.supabase
+        .from('study_material_progress')
+        .select(PROGRESS_SELECT, { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (options?.inProgressOnly) {
+        query = query.is('completed_at', null);
+      }
+
+      const { data, error, count } = await query
+        .order('last_read_at', { ascending: false })
+        .limit(options?.limit || 100);
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'ProgressService.listMaterialProgress',
+          userId
+        })
+      };
+    }
+  }
+
+  /**
+   * The current user's completion of each category's materials and quizzes
+   */
+  async getCategoryProgress(): Promise<ListResult<CategoryProgress>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_category_progress');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'ProgressService.getCategoryProgress'
+        })
+      };
+    }
+  }
+}
@@ -1,6 +1,54 @@
 import { BaseService, ServiceResult, ListResult } from './BaseService';
-import { Quiz, Question, QuizAttempt, QuizCategory } from '../types/database';
+import {
+  Quiz,
+  Question,
+  QuestionInput,
+  QuizAttempt,
+  QuizCategory,
+  PublishStatus,
+  QuestionItemAnalysis,
+  AttemptQuestion,
+  BankQuestionCount
+} from '../types/database';
 import { monitoring } from './MonitoringService';
+import { ContentViewer, contentVisibilityFilter } from '../utils/contentAccess';
+
+type QuizFields = Partial<
+  Omit<Quiz, 'id' | 'organization_id' | 'created_at' | 'updated_at' | 'category'>
+>;
+
+/**
+ * Error raised by the quiz save functions, describing what was rejected so
+ * the editor can point at the offending field or question.
+ */
+export class QuizSaveError extends Error {
+  constructor(
+    message: string,
+    public reason: 'forbidden' | 'not_found' | 'validation' | 'invalid_data' | 'unknown',
+    public field?: string,
+    public questionIndex?: number
+  ) {
+    super(message);
+    this.name = 'QuizSaveError';
+  }
+
+  /**
+   * Build from a database error, whose details hold a JSON description
+   */
+  static fromDatabaseError(error: { message: string; details?: string | null }): QuizSaveError {
+    try {
+      const details = JSON.parse(error.details || '');
+      return new QuizSaveError(
+        error.message,
+        details.reason ?? 'unknown',
+        details.field ?? undefined,
+        details.question_index ?? undefined
+      );
+    } catch {
+      return new QuizSaveError(error.message, 'unknown');
+    }
+  }
+}
 
 export class QuizService extends BaseService<'quizzes'> {
   constructor() {
@@ -35,64 +83,314 @@ export class QuizService extends BaseService<'quizzes'> {
   }
 
   /**
-   * List quizzes for an organization with optional category filter
+   * List quizzes for an organization with optional category and status filters.
+   * Passing a viewer limits the list to the quizzes they are allowed to see.
    */
   async listQuizzes(
     organizationId: string,
     categoryId?: string,
-    options?: { page?: number; limit?: number }
+    options?: { page?: number; limit?: number; status?: PublishStatus; viewer?: ContentViewer }
   ): Promise<ListResult<Quiz>> {
-    return this.listRows({
-      ...options,
-      filters: {
-        organization_id: organizationId,
-        ...(categoryId ? { category_id: categoryId } : {})
+    try {
+      const page = options?.page || 1;
+      const limit = options?.limit || 10;
+      const offset = (page - 1) * limit;
+
+      let query = this.supabase
+        .from('quizzes')
+        .select('*', { count: 'exact' })
+        .eq('organization_id', organizationId)
+        .range(offset, offset + limit - 1);
+
+      if (categoryId) {
+        query = query.eq('category_id', categoryId);
       }
-    });
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      const visibility = options?.viewer ? contentVisibilityFilter(options.viewer) : null;
+      if (visibility) {
+        query = query.or(visibility);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: null,
+        error: this.handleError(error, {
+          context: 'QuizService.listQuizzes',
+          organizationId,
+          categoryId
+        })
+      };
+    }
   }
 
   /**
-   * Create a new quiz
+   * Create a new quiz together with its questions. Nothing is written unless
+   * every question is saved. Certificate validity is set separately through
+   * CertificateService.
    */
   async createQuiz(
-    quiz: Omit<Quiz, 'id' | 'created_at' | 'updated_at'>,
-    questions: Omit<Question, 'id' | 'quiz_id' | 'created_at' | 'updated_at'>[]
+    quiz: Omit<Quiz, 'id' | 'created_at' | 'updated_at' | 'certificate_valid_months'>,
+    questions: QuestionInput[]
   ): Promise<ServiceResult<Quiz & { questions: Question[] }>> {
     const endMark = monitoring.startMetric('create_quiz');
 
     try {
-      const { data: newQuiz, error: quizError } = await this.table
-        .insert(quiz)
-        .select()
-        .single();
+      const { data, error } = await this.supabase.rpc('save_quiz', {
+        p_quiz_id: null,
+        p_quiz: quiz,
+        p_questions: questions
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.createQuiz',
+          quiz,
+          questionsCount: questions.length
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Save a quiz's settings and replace its questions in one transaction.
+   * Questions with an id are updated, new ones inserted and any others removed.
+   */
+  async saveQuiz(
+    id: string,
+    updates: QuizFields,
+    questions: (QuestionInput & { id?: string })[]
+  ): Promise<ServiceResult<Quiz & { questions: Question[] }>> {
+    const endMark = monitoring.startMetric('save_quiz');
 
+    try {
+      const { data, error } = await this.supabase.rpc('save_quiz', {
+        p_quiz_id: id,
+        p_quiz: updates,
+        p_questions: questions
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.saveQuiz',
+          id,
+          questionsCount: questions.length
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Copy a quiz and its questions into a new draft
+   */
+  async cloneQuiz(
+    id: string,
+    title?: string
+  ): Promise<ServiceResult<Quiz & { questions: Question[] }>> {
+    const endMark = monitoring.startMetric('clone_quiz');
+
+    try {
+      const { data, error } = await this.supabase.rpc('clone_quiz', {
+        p_quiz_id: id,
+        p_title: title ?? null
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.cloneQuiz',
+          id
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Update a quiz's settings, leaving its questions alone
+   */
+  async updateQuiz(
+    id: string,
+    updates: QuizFields
+  ): Promise<ServiceResult<Quiz>> {
+    const endMark = monitoring.startMetric('update_quiz');
+
+    try {
+      const { data, error } = await this.supabase.rpc('save_quiz', {
+        p_quiz_id: id,
+        p_quiz: updates,
+        p_questions: null
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+
+      const { questions, ...quiz } = data;
+      return { data: quiz, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.updateQuiz',
+          id,
+          updates
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Insert new questions and update existing ones (those with an id) for a
+   * quiz, leaving its other questions alone. Returns all of the quiz's questions.
+   */
+  async upsertQuestions(
+    quizId: string,
+    questions: (QuestionInput & { id?: string })[]
+  ): Promise<ServiceResult<Question[]>> {
+    const endMark = monitoring.startMetric('upsert_questions');
+
+    try {
+      const { data, error } = await this.supabase.rpc('save_quiz', {
+        p_quiz_id: quizId,
+        p_quiz: null,
+        p_questions: questions,
+        p_replace_questions: false
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+      return { data: data.questions, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.upsertQuestions',
+          quizId,
+          questionsCount: questions.length
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Delete a question from a quiz by saving the quiz's other questions, so the
+   * same edit checks apply as in the editor
+   */
+  async deleteQuestion(quizId: string, questionId: string): Promise<ServiceResult<void>> {
+    const endMark = monitoring.startMetric('delete_question');
+
+    try {
+      const { data: quiz, error: quizError } = await this.getQuiz(quizId);
       if (quizError) throw quizError;
+      if (!quiz?.questions.some((question) => question.id === questionId)) {
+        throw new Error('Question not found in this quiz');
+      }
 
-      // Add quiz_id to questions
-      const questionsWithQuizId = questions.map(q => ({
-        ...q,
-        quiz_id: newQuiz.id
-      }));
+      const { error } = await this.supabase.rpc('save_quiz', {
+        p_quiz_id: quizId,
+        p_quiz: null,
+        p_questions: quiz.questions.filter((question) => question.id !== questionId)
+      });
 
-      // Insert questions
-      const { data: newQuestions, error: questionsError } = await this.supabase
-        .from('questions')
-        .insert(questionsWithQuizId)
-        .select();
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.deleteQuestion',
+          quizId,
+          questionId
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Persist the display order of a quiz's questions
+   */
+  async reorderQuestions(quizId: string, questionIds: string[]): Promise<ServiceResult<void>> {
+    const endMark = monitoring.startMetric('reorder_questions');
+
+    try {
+      const { error } = await this.supabase.rpc('reorder_quiz_questions', {
+        p_quiz_id: quizId,
+        p_question_ids: questionIds
+      });
+
+      if (error) throw QuizSaveError.fromDatabaseError(error);
+
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.reorderQuestions',
+          quizId,
+          questionsCount: questionIds.length
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
 
-      if (questionsError) throw questionsError;
+  /**
+   * Start (or resume) the current user's attempt at a quiz
+   */
+  async startAttempt(
+    quizId: string
+  ): Promise<ServiceResult<{ attempt: QuizAttempt; serverTime: string }>> {
+    const endMark = monitoring.startMetric('start_quiz');
 
+    try {
+      const { data, error } = await this.supabase.rpc('start_quiz_attempt', {
+        p_quiz_id: quizId
+      });
+
+      if (error) throw error;
       return {
-        data: { ...newQuiz, questions: newQuestions },
+        data: { attempt: data.attempt as QuizAttempt, serverTime: data.server_time },
         error: null
       };
     } catch (error) {
       return {
         data: null,
         error: this.handleError(error, {
-          context: 'QuizService.createQuiz',
-          quiz,
-          questionsCount: questions.length
+          context: 'QuizService.startAttempt',
+          quizId
         })
       };
     } finally {
@@ -101,32 +399,78 @@ export class QuizService extends BaseService<'quizzes'> {
   }
 
   /**
-   * Submit a quiz attempt
+   * Get the current user's in-progress attempt at a quiz, if any
    */
-  async submitQuizAttempt(
-    attempt: Omit<QuizAttempt, 'id' | 'created_at' | 'updated_at'>
+  async getOpenAttempt(
+    quizId: string
+  ): Promise<ServiceResult<{ attempt: QuizAttempt | null; serverTime: string }>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_open_quiz_attempt', {
+        p_quiz_id: quizId
+      });
+
+      if (error) throw error;
+      return {
+        data: { attempt: data.attempt, serverTime: data.server_time },
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.getOpenAttempt',
+          quizId
+        })
+      };
+    }
+  }
+
+  /**
+   * Get the questions an attempt was served, in the order they were served.
+   * Answers are only included once the attempt has been submitted.
+   */
+  async getAttemptQuestions(attempt: QuizAttempt): Promise<ServiceResult<AttemptQuestion[]>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_attempt_questions', {
+        p_attempt_id: attempt.id
+      });
+
+      if (error) throw error;
+      return { data: data || [], error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.getAttemptQuestions',
+          attemptId: attempt.id
+        })
+      };
+    }
+  }
+
+  /**
+   * Grade answers on the server and record the resulting attempt
+   */
+  async gradeAndSubmit(
+    quizId: string,
+    answers: QuizAttempt['answers']
   ): Promise<ServiceResult<QuizAttempt>> {
     const endMark = monitoring.startMetric('submit_quiz');
 
     try {
-      const { data, error } = await this.supabase
-        .from('quiz_attempts')
-        .insert(attempt)
-        .select(`
-          *,
-          quiz (*)
-        `)
-        .single();
+      const { data, error } = await this.supabase.rpc('grade_quiz_attempt', {
+        p_quiz_id: quizId,
+        p_answers: answers
+      });
 
       if (error) throw error;
-      return { data, error: null };
+      return { data: data as QuizAttempt, error: null };
     } catch (error) {
       return {
         data: null,
         error: this.handleError(error, {
-          context: 'QuizService.submitQuiz',
-          quizId: attempt.quiz_id,
-          userId: attempt.user_id
+          context: 'QuizService.gradeAndSubmit',
+          quizId
         })
       };
     } finally {
@@ -173,6 +517,169 @@ export class QuizService extends BaseService<'quizzes'> {
     }
   }
 
+  /**
+   * Difficulty, discrimination and choice counts for each question of a quiz,
+   * including bank questions drawn into it. Only the quiz's editors can see these.
+   */
+  async getItemAnalysis(quizId: string): Promise<ListResult<QuestionItemAnalysis>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_quiz_item_analysis', {
+        p_quiz_id: quizId
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'QuizService.getItemAnalysis',
+          quizId
+        })
+      };
+    }
+  }
+
+  /**
+   * List the question bank for a category
+   */
+  async listBankQuestions(categoryId: string): Promise<ListResult<Question>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('questions')
+        .select('*', { count: 'exact' })
+        .eq('category_id', categoryId)
+        .is('quiz_id', null)
+        .order('created_at');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'QuizService.listBankQuestions',
+          categoryId
+        })
+      };
+    }
+  }
+
+  /**
+   * Count the questions in each of the organization's question banks
+   */
+  async getBankQuestionCounts(): Promise<ServiceResult<Record<string, number>>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_bank_question_counts');
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach(({ category_id, question_count }: BankQuestionCount) => {
+        counts[category_id] = question_count;
+      });
+
+      return { data: counts, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.getBankQuestionCounts'
+        })
+      };
+    }
+  }
+
+  /**
+   * Add a question to a category's question bank
+   */
+  async createBankQuestion(
+    categoryId: string,
+    question: QuestionInput
+  ): Promise<ServiceResult<Question>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('questions')
+        .insert({ ...question, category_id: categoryId, quiz_id: null })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.createBankQuestion',
+          categoryId
+        })
+      };
+    }
+  }
+
+  /**
+   * Update a question in the question bank
+   */
+  async updateBankQuestion(id: string, question: QuestionInput): Promise<ServiceResult<Question>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('questions')
+        .update({ ...question, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('quiz_id', null)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.updateBankQuestion',
+          id
+        })
+      };
+    }
+  }
+
+  /**
+   * Delete a question from the question bank. Quiz questions are removed by
+   * saving the quiz without them.
+   */
+  async deleteBankQuestion(id: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('questions')
+        .delete()
+        .eq('id', id)
+        .is('quiz_id', null);
+
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'QuizService.deleteBankQuestion',
+          id
+        })
+      };
+    }
+  }
+
   /**
    * List quiz categories for an organization
    */
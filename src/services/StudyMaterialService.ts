@@ -1,6 +1,37 @@
 import { BaseService, ServiceResult, ListResult } from './BaseService';
-import { StudyMaterial, QuizCategory } from '../types/database';
+import {
+  PublishStatus,
+  StudyMaterial,
+  StudyMaterialRevision,
+  StudyMaterialSummary,
+  QuizCategory
+} from '../types/database';
 import { monitoring } from './MonitoringService';
+import { ContentViewer, contentVisibilityFilter } from '../utils/contentAccess';
+
+const ASSET_BUCKET = 'study-materials';
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// Documents that can be attached to study material besides images
+const ATTACHMENT_EXTENSIONS = [
+  'pdf',
+  'doc',
+  'docx',
+  'xls',
+  'xlsx',
+  'ppt',
+  'pptx',
+  'csv',
+  'txt',
+  'zip'
+];
+
+export interface StudyMaterialAsset {
+  url: string;
+  name: string;
+  isImage: boolean;
+}
 
 export class StudyMaterialService extends BaseService<'study_materials'> {
   constructor() {
@@ -12,7 +43,8 @@ export class StudyMaterialService extends BaseService<'study_materials'> {
    */
   async getMaterial(id: string): Promise<ServiceResult<StudyMaterial>> {
     try {
-      const { data, error } = await this.table
+      const { data, error } = await this.supabase
+        .from('study_materials')
         .select('*, category (*)')
         .eq('id', id)
         .single();
@@ -31,20 +63,106 @@ export class StudyMaterialService extends BaseService<'study_materials'> {
   }
 
   /**
-   * List study materials for an organization
+   * List study materials for an organization. Passing a viewer limits the
+   * list to the materials they are allowed to see.
    */
   async listMaterials(
     organizationId: string,
     categoryId?: string,
-    options?: { page?: number; limit?: number }
+    options?: { page?: number; limit?: number; viewer?: ContentViewer }
   ): Promise<ListResult<StudyMaterial>> {
-    return this.listRows({
-      ...options,
-      filters: {
-        organization_id: organizationId,
-        ...(categoryId ? { category_id: categoryId } : {})
+    try {
+      const page = options?.page || 1;
+      const limit = options?.limit || 10;
+      const offset = (page - 1) * limit;
+
+      let query = this.supabase
+        .from('study_materials')
+        .select('*', { count: 'exact' })
+        .eq('organization_id', organizationId)
+        .range(offset, offset + limit - 1);
+
+      if (categoryId) {
+        query = query.eq('category_id', categoryId);
+      }
+
+      const visibility = options?.viewer ? contentVisibilityFilter(options.viewer) : null;
+      if (visibility) {
+        query = query.or(visibility);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: null,
+        error: this.handleError(error, {
+          context: 'StudyMaterialService.listMaterials',
+          organizationId,
+          categoryId
+        })
+      };
+    }
+  }
+
+  /**
+   * List the titles of an organization's study materials in reading order,
+   * without their content
+   */
+  async listMaterialSummaries(
+    organizationId: string,
+    categoryId?: string,
+    options?: { status?: PublishStatus; viewer?: ContentViewer }
+  ): Promise<ListResult<StudyMaterialSummary>> {
+    try {
+      let query = this.supabase
+        .from('study_materials')
+        .select(
+          'id, title, category_id, region_id, scope, status, pending_approval, order, updated_at',
+          { count: 'exact' }
+        )
+        .eq('organization_id', organizationId);
+
+      if (categoryId) {
+        query = query.eq('category_id', categoryId);
+      }
+      if (options?.status) {
+        query = query.eq('status', options.status);
+      }
+
+      const visibility = options?.viewer ? contentVisibilityFilter(options.viewer) : null;
+      if (visibility) {
+        query = query.or(visibility);
       }
-    });
+
+      const { data, error, count } = await query.order('order').order('title');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'StudyMaterialService.listMaterialSummaries',
+          organizationId,
+          categoryId
+        })
+      };
+    }
   }
 
   /**
@@ -119,6 +237,141 @@ export class StudyMaterialService extends BaseService<'study_materials'> {
     }
   }
 
+  /**
+   * List a study material's revisions, newest first. Revisions are recorded
+   * by the database whenever the title or content changes.
+   */
+  async listRevisions(materialId: string): Promise<ListResult<StudyMaterialRevision>> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('study_material_revisions')
+        .select('*, author:profiles!created_by (first_name, last_name, email)', {
+          count: 'exact'
+        })
+        .eq('material_id', materialId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'StudyMaterialService.listRevisions',
+          materialId
+        })
+      };
+    }
+  }
+
+  /**
+   * Restore a study material to an earlier revision. The restore is recorded
+   * as a new revision, so nothing in the history is lost.
+   */
+  async restoreRevision(revisionId: string): Promise<ServiceResult<StudyMaterial>> {
+    const endMark = monitoring.startMetric('restore_material_revision');
+    try {
+      const { data, error } = await this.supabase.rpc('restore_study_material_revision', {
+        p_revision_id: revisionId
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'StudyMaterialService.restoreRevision',
+          revisionId
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * Upload an image or attachment for use inside study material. Files are
+   * stored per organization and linked by their public URL.
+   */
+  async uploadAsset(
+    file: File,
+    organizationId: string
+  ): Promise<ServiceResult<StudyMaterialAsset>> {
+    const endMark = monitoring.startMetric('upload_material_asset');
+    try {
+      const fileExt = file.name.split('.').pop()?.toLowerCase();
+      if (!fileExt || fileExt === file.name.toLowerCase()) {
+        throw new Error('Invalid file extension');
+      }
+
+      const isImage = file.type.startsWith('image/');
+      if (!isImage && !ATTACHMENT_EXTENSIONS.includes(fileExt)) {
+        throw new Error(
+          'Please upload an image or a document (PDF, Word, Excel, PowerPoint, CSV, text or ZIP)'
+        );
+      }
+      if (isImage && file.size > MAX_IMAGE_SIZE) {
+        throw new Error('Image size must be under 5MB');
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error('File size must be under 20MB');
+      }
+
+      // Keep a readable file name in the URL, but make it safe for storage keys
+      const baseName = file.name
+        .slice(0, -(fileExt.length + 1))
+        .toLowerCase()
+        .replace(/[^a-z0-9-_]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'file';
+      const filePath = `${organizationId}/${Date.now()}-${baseName}.${fileExt}`;
+
+      const { error: uploadError } = await this.supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (uploadError) {
+        if (uploadError.message.includes('Permission') || uploadError.message.includes('policy')) {
+          throw new Error('You do not have permission to upload files');
+        }
+        if (uploadError.message.includes('Bucket')) {
+          throw new Error('Storage system is not properly configured');
+        }
+        throw new Error('Failed to upload file: ' + uploadError.message);
+      }
+
+      const {
+        data: { publicUrl }
+      } = this.supabase.storage.from(ASSET_BUCKET).getPublicUrl(filePath);
+
+      if (!publicUrl) {
+        throw new Error('Failed to get public URL for uploaded file');
+      }
+
+      return { data: { url: publicUrl, name: file.name, isImage }, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'StudyMaterialService.uploadAsset',
+          organizationId,
+          fileName: file.name
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
   /**
    * List study material categories for an organization
    */
@@ -0,0 +1,154 @@
+import { BaseService, ServiceResult, ListResult } from './BaseService';
+import {
+  MyTrainingAssignment,
+  TrainingAssigneeStatus,
+  TrainingAssignment,
+  TrainingAssignmentSummary,
+  TrainingContentType
+} from '../types/database';
+import { monitoring } from './MonitoringService';
+
+export type TrainingAssignee =
+  | { userId: string }
+  | { regionId: string }
+  | { role: NonNullable<TrainingAssignment['role']> };
+
+export class TrainingAssignmentService extends BaseService<'training_assignments'> {
+  constructor() {
+    super('training_assignments');
+  }
+
+  /**
+   * Assign published training to a user, a region or everyone with a role
+   */
+  async assignTraining(
+    contentType: TrainingContentType,
+    contentId: string,
+    assignee: TrainingAssignee,
+    dueAt: string | null
+  ): Promise<ServiceResult<TrainingAssignment>> {
+    const endMark = monitoring.startMetric('assign_training');
+    try {
+      const { data, error } = await this.supabase.rpc('assign_training', {
+        p_content_type: contentType,
+        p_content_id: contentId,
+        p_user_id: 'userId' in assignee ? assignee.userId : null,
+        p_region_id: 'regionId' in assignee ? assignee.regionId : null,
+        p_role: 'role' in assignee ? assignee.role : null,
+        p_due_at: dueAt
+      });
+
+      if (error) throw error;
+      return { data, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'TrainingAssignmentService.assignTraining',
+          contentType,
+          contentId,
+          assignee
+        })
+      };
+    } finally {
+      endMark();
+    }
+  }
+
+  /**
+   * List the assignments the current user manages with their completion counts
+   */
+  async listAssignmentSummaries(): Promise<ListResult<TrainingAssignmentSummary>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_training_assignment_summaries');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'TrainingAssignmentService.listAssignmentSummaries'
+        })
+      };
+    }
+  }
+
+  /**
+   * Whether each assignee of an assignment has completed it
+   */
+  async getAssignmentStatus(assignmentId: string): Promise<ListResult<TrainingAssigneeStatus>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_training_assignment_status', {
+        p_assignment_id: assignmentId
+      });
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'TrainingAssignmentService.getAssignmentStatus',
+          assignmentId
+        })
+      };
+    }
+  }
+
+  /**
+   * List the training assigned to the current user, soonest due first
+   */
+  async listMyAssignments(): Promise<ListResult<MyTrainingAssignment>> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_my_training_assignments');
+
+      if (error) throw error;
+
+      return {
+        data: data || [],
+        count: data?.length ?? 0,
+        error: null
+      };
+    } catch (error) {
+      return {
+        data: [],
+        count: 0,
+        error: this.handleError(error, {
+          context: 'TrainingAssignmentService.listMyAssignments'
+        })
+      };
+    }
+  }
+
+  /**
+   * Remove an assignment
+   */
+  async removeAssignment(id: string): Promise<ServiceResult<void>> {
+    try {
+      const { error } = await this.deleteRow(id);
+      if (error) throw error;
+      return { data: undefined, error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: this.handleError(error, {
+          context: 'TrainingAssignmentService.removeAssignment',
+          id
+        })
+      };
+    }
+  }
+}
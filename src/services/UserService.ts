@@ -2,7 +2,11 @@ import { BaseService, ServiceResult } from './BaseService';
 import { Profile, RegistrationResult, Database, Organization } from '../types/database';
 import { monitoring } from './MonitoringService';
 import { clearAuthCache } from '../utils/authCache';
-import { createClient } from '@supabase/supabase-js';
+import {
+  FunctionsFetchError,
+  FunctionsHttpError,
+  FunctionsRelayError,
+} from '@supabase/supabase-js';
 
 interface PendingRegistration {
   email: string;
@@ -20,6 +24,14 @@ interface CreateUserParams {
   sendEmail?: boolean;
 }
 
+type ProvisionUserRequest = Omit<CreateUserParams, 'sendEmail' | 'firstName' | 'lastName'> & {
+  firstName: string | null;
+  lastName: string | null;
+};
+
+// Accounts "created" by the local provisioning stand-in, keyed by email
+const localAccounts = new Map<string, string>();
+
 type OrganizationResponse = {
   id: string;
   name: string;
@@ -210,46 +222,19 @@ export class UserService extends BaseService<'profiles'> {
         throw new Error('Not authenticated');
       }
 
-      const { data: authData, error: authError } = await this.supabase.auth.signUp({
+      const request: ProvisionUserRequest = {
         email,
         password,
-        options: {
-          emailRedirectTo: window.location.origin,
-        },
-      });
-
-      if (authError) throw authError;
-      if (!authData.user) throw new Error('Failed to create user');
-
-      const userId = authData.user.id;
-
-      // Confirm email for admin-created users
-      const supabaseAdmin = createClient(
-        process.env.REACT_APP_SUPABASE_URL || '',
-        process.env.REACT_APP_SUPABASE_SERVICE_KEY || ''
-      );
-
-      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
-        email_confirm: true,
-      });
-
-      if (updateError) throw updateError;
-
-      const { data: profileData, error: profileError } = await this.supabase.rpc(
-        'create_user_profile_v2',
-        {
-          p_user_id: userId,
-          p_email: email,
-          p_role: role,
-          p_organization_id: organizationId,
-          p_first_name: firstName || null,
-          p_last_name: lastName || null,
-          p_region_id: regionId || null,
-          p_created_by: session.session.user.id,
-        }
-      );
-
-      if (profileError) throw profileError;
+        role,
+        organizationId,
+        firstName: firstName || null,
+        lastName: lastName || null,
+        regionId: regionId || null,
+      };
+      const { userId } =
+        process.env.REACT_APP_USER_PROVISIONING === 'local'
+          ? await this.provisionLocally(request)
+          : await this.provisionWithFunction(request);
 
       monitoring.startMetric('user_created', {
         role,
@@ -277,6 +262,59 @@ export class UserService extends BaseService<'profiles'> {
     }
   }
 
+  /**
+   * Create the login and profile through the create-user edge function, which
+   * holds the service role key and checks the caller may add this user
+   */
+  private async provisionWithFunction(
+    request: ProvisionUserRequest
+  ): Promise<{ userId: string }> {
+    const { data, error } = await this.supabase.functions.invoke<{ userId: string }>(
+      'create-user',
+      { body: request }
+    );
+
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+      throw new Error(
+        'User provisioning is unavailable: the create-user function could not be reached. ' +
+          'Deploy or serve supabase/functions/create-user and try again.'
+      );
+    }
+    if (error) throw error;
+    if (!data?.userId) throw new Error('Failed to create user');
+
+    return data;
+  }
+
+  /**
+   * Offline stand-in for the create-user function, used only when
+   * REACT_APP_USER_PROVISIONING=local. Runs the same permission check, then
+   * keeps the account in memory instead of creating a login, so the user
+   * creation screens can be tried without deploying the function.
+   */
+  private async provisionLocally(request: ProvisionUserRequest): Promise<{ userId: string }> {
+    const { error } = await this.supabase.rpc('authorize_user_provisioning', {
+      p_organization_id: request.organizationId,
+      p_role: request.role,
+      p_region_id: request.regionId,
+    });
+    if (error) throw error;
+
+    const emailKey = request.email.trim().toLowerCase();
+    if (localAccounts.has(emailKey)) {
+      throw new Error('A user with this email address has already been registered');
+    }
+
+    const userId = crypto.randomUUID();
+    localAccounts.set(emailKey, userId);
+
+    return { userId };
+  }
+
   async checkPasswordChangeRequired(): Promise<ServiceResult<boolean>> {
     try {
       const { data, error } = await this.supabase.rpc('check_password_change_required');
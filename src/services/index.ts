@@ -4,6 +4,14 @@ import { QuizService } from './QuizService';
 import { StudyMaterialService } from './StudyMaterialService';
 import { OrganizationService } from './OrganizationService';
 import { RegionService } from './RegionService';
+import { ApprovalService } from './ApprovalService';
+import { NotificationService } from './NotificationService';
+import { ProgressService } from './ProgressService';
+import { LearningPathService } from './LearningPathService';
+import { TrainingAssignmentService } from './TrainingAssignmentService';
+import { CertificateService } from './CertificateService';
+import { AnalyticsService } from './AnalyticsService';
+import { AuditService } from './AuditService';
 import { monitoring } from './MonitoringService';
 
 // Initialize services
@@ -12,6 +20,14 @@ export const quizService = new QuizService();
 export const studyMaterialService = new StudyMaterialService();
 export const organizationService = new OrganizationService();
 export const regionService = new RegionService();
+export const approvalService = new ApprovalService();
+export const notificationService = new NotificationService();
+export const progressService = new ProgressService();
+export const learningPathService = new LearningPathService();
+export const trainingAssignmentService = new TrainingAssignmentService();
+export const certificateService = new CertificateService();
+export const analyticsService = new AnalyticsService();
+export const auditService = new AuditService();
 
 // Export service types
 export type { ServiceResult, ListResult };
@@ -23,4 +39,18 @@ export { BaseService };
 export { monitoring };
 
 // Export individual service classes
-export { UserService, QuizService, StudyMaterialService, OrganizationService, RegionService };
+export {
+  UserService,
+  QuizService,
+  StudyMaterialService,
+  OrganizationService,
+  RegionService,
+  ApprovalService,
+  NotificationService,
+  ProgressService,
+  LearningPathService,
+  TrainingAssignmentService,
+  CertificateService,
+  AnalyticsService,
+  AuditService,
+};
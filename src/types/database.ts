@@ -1,3 +1,5 @@
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
 export type ProfileRole = 'super_admin' | 'admin' | 'primary_admin' | 'secondary_admin' | 'user';
 
 // Type for registration response
@@ -13,6 +15,9 @@ export interface RegistrationResult {
 
 export type ContentScope = 'global' | 'regional';
 
+// Drafts are only visible to authors; learners only see published content
+export type PublishStatus = 'draft' | 'published';
+
 export interface Region {
   id: string;
   name: string;
@@ -40,16 +45,22 @@ export interface Organization {
   updated_at: string;
 }
 
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'cancelled';
+
 export interface Invitation {
   id: string;
   email: string;
   organization_id: string;
   role: ProfileRole;
+  region_id: string | null;
   token: string;
   created_at: string;
   expires_at: string;
   accepted_at: string | null;
-  status: 'pending' | 'accepted' | 'expired' | 'cancelled';
+  status: InvitationStatus;
+  // Set when the invitation was last resent
+  last_sent_at: string | null;
+  resend_count: number;
 }
 
 export interface Profile {
@@ -89,19 +100,39 @@ export interface Quiz {
   region_id: string | null;
   scope: ContentScope;
   pending_approval: boolean;
+  status: PublishStatus;
   passing_score: number;
+  // Time limit in seconds; null means the quiz is untimed
   time_limit: number | null;
+  // Random draws from category question banks, served in addition to the quiz's own questions
+  question_pools: QuestionPool[];
+  shuffle_choices: boolean;
+  // How long certificates for passing stay valid; null means they never expire
+  certificate_valid_months: number | null;
   created_at: string;
   updated_at: string;
   category?: QuizCategory;
 }
 
-export interface Question {
+export interface QuestionPool {
+  category_id: string;
+  draw_count: number;
+}
+
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'short_answer'
+  | 'ordering'
+  | 'matching';
+
+// A question belongs either to one quiz or, with quiz_id null, to its category's question bank
+interface QuestionBase {
   id: string;
-  quiz_id: string;
+  quiz_id: string | null;
+  category_id: string | null;
   question_text: string;
-  choices: string[];
-  correct_answer: number;
   explanation: string | null;
   points: number;
   order: number;
@@ -109,14 +140,125 @@ export interface Question {
   updated_at: string;
 }
 
+// correct_answer is the index of the correct choice
+export interface MultipleChoiceQuestion extends QuestionBase {
+  question_type: 'multiple_choice';
+  choices: string[];
+  correct_answer: number;
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  question_type: 'true_false';
+  choices: string[];
+  correct_answer: boolean;
+}
+
+// correct_answer lists the indexes of every correct choice
+export interface MultiSelectQuestion extends QuestionBase {
+  question_type: 'multi_select';
+  choices: string[];
+  correct_answer: number[];
+}
+
+// correct_answer lists the accepted answers, compared case-insensitively
+export interface ShortAnswerQuestion extends QuestionBase {
+  question_type: 'short_answer';
+  choices: string[];
+  correct_answer: string[];
+}
+
+// correct_answer lists choice indexes in the correct order
+export interface OrderingQuestion extends QuestionBase {
+  question_type: 'ordering';
+  choices: string[];
+  correct_answer: number[];
+}
+
+// choices are the prompts; correct_answer holds the matching item for each prompt
+export interface MatchingQuestion extends QuestionBase {
+  question_type: 'matching';
+  choices: string[];
+  correct_answer: string[];
+}
+
+export type Question =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | ShortAnswerQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
+export type QuestionInput = DistributiveOmit<
+  Question,
+  'id' | 'quiz_id' | 'category_id' | 'created_at' | 'updated_at'
+>;
+
+// Shape of a learner's answer for each question type
+export interface QuestionAnswerMap {
+  multiple_choice: number;
+  true_false: boolean;
+  multi_select: number[];
+  short_answer: string;
+  ordering: number[];
+  matching: string[];
+}
+
+export type QuestionAnswer = QuestionAnswerMap[QuestionType];
+
+export interface QuestionResult {
+  correct: boolean;
+  points_awarded: number;
+  points_possible: number;
+}
+
+// How one question has performed across completed attempts at a quiz
+export interface QuestionItemAnalysis
+  extends Pick<Question, 'question_text' | 'question_type' | 'correct_answer'> {
+  question_id: string;
+  choices: string[] | null;
+  // Drawn from a question bank rather than written for the quiz
+  from_bank: boolean;
+  responses: number;
+  unanswered: number;
+  correct_count: number;
+  // -1 to 1; null until there are at least two responses
+  discrimination: number | null;
+  // Picks per choice, or True then False for true/false questions; null for other types
+  choice_counts: number[] | null;
+}
+
+// A question as served in an attempt; choice_order lists choice indexes in display order
+export interface ServedQuestion {
+  question_id: string;
+  choice_order: number[] | null;
+}
+
+export interface BankQuestionCount {
+  category_id: string;
+  question_count: number;
+}
+
+// A question as served to the learner in an attempt. correct_answer and
+// explanation are left out until the attempt has been submitted.
+export type AttemptQuestion = Question & {
+  choice_order: number[] | null;
+  // What a matching question's prompts can be matched against
+  matching_options: string[] | null;
+};
+
 export interface QuizAttempt {
   id: string;
   quiz_id: string;
   user_id: string;
   score: number;
   passed: boolean;
+  started_at: string | null;
+  expires_at: string | null;
   completed_at: string | null;
-  answers: Record<string, number>;
+  served_questions: ServedQuestion[] | null;
+  answers: Record<string, QuestionAnswer>;
+  question_results: Record<string, QuestionResult> | null;
   created_at: string;
   updated_at: string;
   quiz?: Quiz;
@@ -131,12 +273,420 @@ export interface StudyMaterial {
   region_id: string | null;
   scope: ContentScope;
   pending_approval: boolean;
+  status: PublishStatus;
   order: number;
   created_at: string;
   updated_at: string;
   category?: QuizCategory;
 }
 
+// The fields needed to list and navigate between materials without loading their content
+export type StudyMaterialSummary = Pick<
+  StudyMaterial,
+  | 'id'
+  | 'title'
+  | 'category_id'
+  | 'region_id'
+  | 'scope'
+  | 'status'
+  | 'pending_approval'
+  | 'order'
+  | 'updated_at'
+>;
+
+// A snapshot of a study material's title and content after a save
+export interface StudyMaterialRevision {
+  id: string;
+  material_id: string;
+  revision_number: number;
+  title: string;
+  content: string;
+  created_by: string | null;
+  restored_from: string | null;
+  created_at: string;
+  updated_at: string;
+  author?: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null;
+}
+
+export type ApprovalContentType = 'quiz' | 'study_material';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// A request to promote regional content to global scope, and its outcome
+export interface ContentApproval {
+  id: string;
+  organization_id: string;
+  content_type: ApprovalContentType;
+  content_id: string;
+  content_title: string;
+  region_id: string | null;
+  status: ApprovalStatus;
+  submitted_by: string | null;
+  submission_note: string | null;
+  reviewed_by: string | null;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  submitter?: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null;
+  reviewer?: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null;
+  region?: Pick<Region, 'name'> | null;
+}
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  // In-app path opened when the notification is clicked
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// How far a user has read through a study material
+export interface StudyMaterialProgress {
+  id: string;
+  user_id: string;
+  material_id: string;
+  // Furthest point reached, as a percentage
+  percent_read: number;
+  // Where the user was when they last stopped reading, as a percentage
+  last_position: number;
+  completed_at: string | null;
+  last_read_at: string;
+  created_at: string;
+  updated_at: string;
+  material?: Pick<StudyMaterial, 'id' | 'title' | 'category_id'> | null;
+}
+
+// A user's completion of the released materials and quizzes in one category
+export interface CategoryProgress {
+  category_id: string;
+  category_name: string;
+  materials_total: number;
+  materials_read: number;
+  quizzes_total: number;
+  quizzes_passed: number;
+}
+
+export interface LearningPath {
+  id: string;
+  organization_id: string;
+  region_id: string | null;
+  scope: ContentScope;
+  title: string;
+  description: string | null;
+  status: PublishStatus;
+  // How long certificates for completing the path stay valid; null means they never expire
+  certificate_valid_months: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LearningPathStepType = 'study_material' | 'quiz';
+
+export interface LearningPathStep {
+  id: string;
+  path_id: string;
+  position: number;
+  step_type: LearningPathStepType;
+  material_id: string | null;
+  quiz_id: string | null;
+  // Earlier steps of the same path that must be completed first
+  prerequisite_step_ids: string[];
+  created_at: string;
+  updated_at: string;
+  // Missing when the learner cannot see the content
+  material?: Pick<StudyMaterial, 'id' | 'title'> | null;
+  quiz?: Pick<Quiz, 'id' | 'title' | 'passing_score'> | null;
+}
+
+// A step as sent to save_learning_path; prerequisites are indexes of earlier steps
+export interface LearningPathStepInput {
+  id?: string;
+  step_type: LearningPathStepType;
+  material_id: string | null;
+  quiz_id: string | null;
+  prerequisites: number[];
+}
+
+// Assigned to either a single user or everyone in a region
+export interface LearningPathAssignment {
+  id: string;
+  path_id: string;
+  user_id: string | null;
+  region_id: string | null;
+  assigned_by: string | null;
+  created_at: string;
+  user?: Pick<Profile, 'first_name' | 'last_name' | 'email'> | null;
+  region?: Pick<Region, 'name'> | null;
+  path?: LearningPath | null;
+}
+
+export interface LearningPathStepProgress {
+  step_id: string;
+  completed: boolean;
+  // Whether every prerequisite of the step is completed
+  unlocked: boolean;
+}
+
+export type TrainingContentType = 'quiz' | 'study_material' | 'learning_path';
+
+// Assigned to exactly one of a user, everyone in a region or everyone with a role
+export interface TrainingAssignment {
+  id: string;
+  organization_id: string;
+  content_type: TrainingContentType;
+  quiz_id: string | null;
+  material_id: string | null;
+  path_id: string | null;
+  user_id: string | null;
+  region_id: string | null;
+  role: Exclude<ProfileRole, 'super_admin'> | null;
+  due_at: string | null;
+  assigned_by: string | null;
+  created_at: string;
+}
+
+// An assignment as reported to the people who manage it
+export interface TrainingAssignmentSummary
+  extends Pick<
+    TrainingAssignment,
+    'id' | 'content_type' | 'user_id' | 'region_id' | 'role' | 'due_at' | 'created_at'
+  > {
+  content_id: string;
+  content_title: string | null;
+  // The assigned user's or region's name
+  assignee_name: string | null;
+  assignees_total: number;
+  assignees_completed: number;
+  assignees_overdue: number;
+}
+
+export interface TrainingAssigneeStatus
+  extends Pick<Profile, 'first_name' | 'last_name' | 'email'> {
+  user_id: string;
+  completed_at: string | null;
+}
+
+// An assignment as seen by a learner it applies to
+export interface MyTrainingAssignment {
+  assignment_id: string;
+  content_type: TrainingContentType;
+  content_id: string;
+  content_title: string;
+  due_at: string | null;
+  assigned_at: string;
+  completed_at: string | null;
+}
+
+export type CertificateContentType = 'quiz' | 'learning_path';
+
+// Names are recorded as they were when the certificate was issued
+export interface Certificate {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  content_type: CertificateContentType;
+  quiz_id: string | null;
+  path_id: string | null;
+  verification_code: string;
+  learner_name: string;
+  organization_name: string;
+  content_title: string;
+  issued_at: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// What anyone holding a verification code can see
+export type CertificateVerification = Pick<
+  Certificate,
+  | 'verification_code'
+  | 'learner_name'
+  | 'organization_name'
+  | 'content_type'
+  | 'content_title'
+  | 'issued_at'
+  | 'expires_at'
+>;
+
+// Results for one quiz across the learners an analytics report covers
+export interface QuizAnalytics {
+  quiz_id: string;
+  quiz_title: string;
+  scope: ContentScope;
+  region_id: string | null;
+  passing_score: number;
+  // Members the quiz is visible to
+  eligible_learners: number;
+  learners_attempted: number;
+  learners_passed: number;
+  attempts_total: number;
+  attempts_passed: number;
+  average_score: number | null;
+  // Attempt counts for scores 0-9, 10-19, ... 90-100
+  score_distribution: number[];
+}
+
+// region_id and region_name are null for members without a region
+export interface RegionAnalytics {
+  region_id: string | null;
+  region_name: string | null;
+  members: number;
+  active_learners: number;
+  attempts_total: number;
+  attempts_passed: number;
+  average_score: number | null;
+  // Each member counted once for every published quiz visible to them
+  quizzes_available: number;
+  quizzes_passed: number;
+}
+
+export interface LearnerAnalytics
+  extends Pick<Profile, 'first_name' | 'last_name' | 'email' | 'region_id'> {
+  user_id: string;
+  region_name: string | null;
+  attempts_total: number;
+  quizzes_attempted: number;
+  quizzes_passed: number;
+  average_score: number | null;
+  last_attempt_at: string | null;
+}
+
+// One completed attempt in a quiz results export
+export interface QuizAttemptExportRow
+  extends Pick<Profile, 'first_name' | 'last_name' | 'email'>,
+    Pick<QuizAttempt, 'quiz_id' | 'user_id' | 'score' | 'passed' | 'started_at'> {
+  attempt_id: string;
+  quiz_title: string;
+  region_name: string | null;
+  completed_at: string;
+}
+
+// One member's row in a progress report export
+export interface LearnerProgressReport
+  extends Pick<Profile, 'first_name' | 'last_name' | 'email' | 'role'> {
+  user_id: string;
+  region_name: string | null;
+  materials_total: number;
+  materials_read: number;
+  quizzes_total: number;
+  quizzes_passed: number;
+  training_assigned: number;
+  training_completed: number;
+  training_overdue: number;
+  certificates_valid: number;
+  last_activity_at: string | null;
+}
+
+export type AuditAction =
+  | 'member.created'
+  | 'member.joined'
+  | 'member.role_changed'
+  | 'member.removed'
+  | 'region_admin.assigned'
+  | 'region_admin.changed'
+  | 'region_admin.removed'
+  | 'invitation.sent'
+  | 'invitation.resent'
+  | 'invitation.accepted'
+  | 'invitation.cancelled'
+  | 'invitation.expired'
+  | 'content.deleted';
+
+export type AuditTargetType = 'member' | 'invitation' | TrainingContentType;
+
+// An administrative action, written by database triggers and never changed
+export interface AuditLogEntry {
+  id: string;
+  organization_id: string;
+  // Null when the change was not made by a signed-in user
+  actor_id: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  // Email or title at the time of the action
+  target_label: string | null;
+  // Role, region, status or content details before and after the change
+  before_value: Record<string, string | null> | null;
+  after_value: Record<string, string | null> | null;
+  created_at: string;
+}
+
+// A log entry with its actor's current name, as returned by get_audit_log
+export interface AuditLogRecord extends Omit<AuditLogEntry, 'organization_id'> {
+  actor_first_name: string | null;
+  actor_last_name: string | null;
+  actor_email: string | null;
+}
+
+export interface AuditLogActor extends Pick<Profile, 'first_name' | 'last_name'> {
+  actor_id: string;
+  // Null once the actor's account has been deleted
+  email: string | null;
+}
+
+// One step in an invitation's history, taken from the audit log
+export interface InvitationHistoryEntry
+  extends Pick<
+    AuditLogRecord,
+    'action' | 'actor_id' | 'actor_first_name' | 'actor_last_name' | 'actor_email' | 'created_at'
+  > {
+  status: InvitationStatus | null;
+}
+
+// An invitation as listed for admins by get_invitations, without its token
+export interface InvitationSummary extends Omit<Invitation, 'organization_id' | 'token'> {
+  region_name: string | null;
+  // Oldest first
+  history: InvitationHistoryEntry[];
+}
+
+// Join links are shareable, so they never grant admin roles
+export type JoinLinkRole = Extract<ProfileRole, 'user'>;
+
+// A shareable link anyone can use to join the organization
+export interface JoinLink {
+  id: string;
+  organization_id: string;
+  // The secret part of the link
+  code: string;
+  role: JoinLinkRole;
+  region_id: string | null;
+  // Null means unlimited
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  // Lowercase domain without "@"; null allows any email address
+  allowed_domain: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+// A join link as listed for admins by get_join_links
+export interface JoinLinkSummary extends Omit<JoinLink, 'organization_id'> {
+  region_name: string | null;
+  creator_first_name: string | null;
+  creator_last_name: string | null;
+  creator_email: string | null;
+}
+
+// What joining through a link would mean, as returned by check_join_link
+export interface JoinLinkCheck {
+  valid: boolean;
+  // Why the link can't be used; null when it is valid
+  reason: string | null;
+  organization_name?: string;
+  role?: JoinLinkRole;
+  region_name?: string | null;
+  allowed_domain?: string | null;
+}
+
 // For Supabase Database Types
 export interface Database {
   public: {
@@ -173,8 +723,8 @@ export interface Database {
       };
       questions: {
         Row: Question;
-        Insert: Omit<Question, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<Question, 'id'>>;
+        Insert: DistributiveOmit<Question, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<DistributiveOmit<Question, 'id'>>;
       };
       quiz_attempts: {
         Row: QuizAttempt;
@@ -186,14 +736,76 @@ export interface Database {
         Insert: Omit<StudyMaterial, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<StudyMaterial, 'id'>>;
       };
+      study_material_revisions: {
+        Row: StudyMaterialRevision;
+        Insert: never;
+        Update: never;
+      };
+      study_material_progress: {
+        Row: StudyMaterialProgress;
+        Insert: never;
+        Update: never;
+      };
+      learning_paths: {
+        Row: LearningPath;
+        Insert: never;
+        Update: never;
+      };
+      learning_path_steps: {
+        Row: LearningPathStep;
+        Insert: never;
+        Update: never;
+      };
+      learning_path_assignments: {
+        Row: LearningPathAssignment;
+        Insert: never;
+        Update: never;
+      };
+      training_assignments: {
+        Row: TrainingAssignment;
+        Insert: never;
+        Update: never;
+      };
+      certificates: {
+        Row: Certificate;
+        Insert: never;
+        Update: never;
+      };
+      content_approvals: {
+        Row: ContentApproval;
+        Insert: never;
+        Update: never;
+      };
+      notifications: {
+        Row: UserNotification;
+        Insert: never;
+        Update: Pick<UserNotification, 'read_at'>;
+      };
+      audit_log: {
+        Row: AuditLogEntry;
+        Insert: never;
+        Update: never;
+      };
       invitations: {
         Row: Invitation;
         Insert: Omit<
           Invitation,
-          'id' | 'created_at' | 'updated_at' | 'token' | 'expires_at' | 'accepted_at'
+          | 'id'
+          | 'created_at'
+          | 'updated_at'
+          | 'token'
+          | 'expires_at'
+          | 'accepted_at'
+          | 'last_sent_at'
+          | 'resend_count'
         >;
         Update: Partial<Omit<Invitation, 'id' | 'token'>>;
       };
+      join_links: {
+        Row: JoinLink;
+        Insert: never;
+        Update: never;
+      };
     };
     Views: {};
     Functions: {
@@ -264,6 +876,264 @@ export interface Database {
         Args: Record<string, never>;
         Returns: boolean;
       };
+      get_bank_question_counts: {
+        Args: Record<string, never>;
+        Returns: BankQuestionCount[];
+      };
+      get_attempt_questions: {
+        Args: { p_attempt_id: string };
+        Returns: AttemptQuestion[];
+      };
+      start_quiz_attempt: {
+        Args: { p_quiz_id: string };
+        Returns: {
+          attempt: QuizAttempt;
+          server_time: string;
+        };
+      };
+      get_open_quiz_attempt: {
+        Args: { p_quiz_id: string };
+        Returns: {
+          attempt: QuizAttempt | null;
+          server_time: string;
+        };
+      };
+      grade_quiz_attempt: {
+        Args: {
+          p_quiz_id: string;
+          p_answers: Record<string, QuestionAnswer>;
+        };
+        Returns: QuizAttempt;
+      };
+      save_quiz: {
+        Args: {
+          p_quiz_id: string | null;
+          p_quiz: Partial<Omit<Quiz, 'id' | 'organization_id' | 'created_at' | 'updated_at'>> | null;
+          p_questions: (QuestionInput & { id?: string })[] | null;
+          p_replace_questions?: boolean;
+        };
+        Returns: Quiz & { questions: Question[] };
+      };
+      clone_quiz: {
+        Args: {
+          p_quiz_id: string;
+          p_title?: string | null;
+        };
+        Returns: Quiz & { questions: Question[] };
+      };
+      submit_content_for_approval: {
+        Args: {
+          p_content_type: ApprovalContentType;
+          p_content_id: string;
+          p_note?: string | null;
+        };
+        Returns: ContentApproval;
+      };
+      review_content_approval: {
+        Args: {
+          p_approval_id: string;
+          p_approve: boolean;
+          p_comment?: string | null;
+        };
+        Returns: ContentApproval;
+      };
+      restore_study_material_revision: {
+        Args: { p_revision_id: string };
+        Returns: StudyMaterial;
+      };
+      record_study_progress: {
+        Args: {
+          p_material_id: string;
+          p_percent: number;
+          p_completed?: boolean;
+        };
+        Returns: StudyMaterialProgress;
+      };
+      get_category_progress: {
+        Args: Record<string, never>;
+        Returns: CategoryProgress[];
+      };
+      get_learning_path_progress: {
+        Args: { p_path_id: string };
+        Returns: LearningPathStepProgress[];
+      };
+      save_learning_path: {
+        Args: {
+          p_path_id: string | null;
+          p_path: Partial<
+            Pick<LearningPath, 'title' | 'description' | 'status' | 'scope' | 'region_id'>
+          >;
+          p_steps: LearningPathStepInput[];
+        };
+        Returns: LearningPath;
+      };
+      assign_learning_path: {
+        Args: {
+          p_path_id: string;
+          p_user_id?: string | null;
+          p_region_id?: string | null;
+        };
+        Returns: LearningPathAssignment;
+      };
+      assign_training: {
+        Args: {
+          p_content_type: TrainingContentType;
+          p_content_id: string;
+          p_user_id?: string | null;
+          p_region_id?: string | null;
+          p_role?: TrainingAssignment['role'];
+          p_due_at?: string | null;
+        };
+        Returns: TrainingAssignment;
+      };
+      get_my_training_assignments: {
+        Args: Record<string, never>;
+        Returns: MyTrainingAssignment[];
+      };
+      get_training_assignment_summaries: {
+        Args: Record<string, never>;
+        Returns: TrainingAssignmentSummary[];
+      };
+      get_training_assignment_status: {
+        Args: { p_assignment_id: string };
+        Returns: TrainingAssigneeStatus[];
+      };
+      set_certificate_validity: {
+        Args: {
+          p_content_type: CertificateContentType;
+          p_content_id: string;
+          p_valid_months: number | null;
+        };
+        Returns: void;
+      };
+      verify_certificate: {
+        Args: { p_code: string };
+        Returns: CertificateVerification[];
+      };
+      get_quiz_analytics: {
+        Args: {
+          p_region_id?: string | null;
+          p_from?: string | null;
+          p_to?: string | null;
+        };
+        Returns: QuizAnalytics[];
+      };
+      get_region_analytics: {
+        Args: {
+          p_from?: string | null;
+          p_to?: string | null;
+        };
+        Returns: RegionAnalytics[];
+      };
+      get_learner_analytics: {
+        Args: {
+          p_region_id?: string | null;
+          p_from?: string | null;
+          p_to?: string | null;
+          p_quiz_id?: string | null;
+        };
+        Returns: LearnerAnalytics[];
+      };
+      export_quiz_attempts: {
+        Args: {
+          p_quiz_id?: string | null;
+          p_region_id?: string | null;
+          p_from?: string | null;
+          p_to?: string | null;
+          p_offset?: number;
+          p_limit?: number;
+        };
+        Returns: QuizAttemptExportRow[];
+      };
+      export_learner_progress: {
+        Args: {
+          p_region_id?: string | null;
+          p_offset?: number;
+          p_limit?: number;
+        };
+        Returns: LearnerProgressReport[];
+      };
+      get_quiz_item_analysis: {
+        Args: { p_quiz_id: string };
+        Returns: QuestionItemAnalysis[];
+      };
+      get_audit_log: {
+        Args: {
+          p_actor_id: string | null;
+          p_action: AuditAction | null;
+          p_from: string | null;
+          p_to: string | null;
+          p_offset: number;
+          p_limit: number;
+        };
+        Returns: AuditLogRecord[];
+      };
+      get_audit_log_actors: {
+        Args: Record<string, never>;
+        Returns: AuditLogActor[];
+      };
+      get_invitations: {
+        Args: { p_status: InvitationStatus | null };
+        Returns: InvitationSummary[];
+      };
+      create_join_link: {
+        Args: {
+          p_role: JoinLinkRole;
+          p_region_id: string | null;
+          p_max_uses: number | null;
+          p_expires_at: string | null;
+          p_allowed_domain: string | null;
+        };
+        Returns: JoinLink;
+      };
+      revoke_join_link: {
+        Args: { p_link_id: string };
+        Returns: void;
+      };
+      get_join_links: {
+        Args: Record<string, never>;
+        Returns: JoinLinkSummary[];
+      };
+      check_join_link: {
+        Args: { p_code: string };
+        Returns: JoinLinkCheck;
+      };
+      redeem_join_link: {
+        Args: { p_code: string };
+        Returns: {
+          success: boolean;
+          organization_id: string;
+          role: JoinLinkRole;
+        };
+      };
+      resend_invitation: {
+        Args: { p_invitation_id: string };
+        Returns: {
+          success: boolean;
+          invitation: {
+            token: string;
+            email: string;
+            organization_id: string;
+            role: string;
+            region_id: string | null;
+          };
+        };
+      };
+      authorize_user_provisioning: {
+        Args: {
+          p_organization_id: string;
+          p_role: string;
+          p_region_id: string | null;
+        };
+        Returns: string;
+      };
+      reorder_quiz_questions: {
+        Args: {
+          p_quiz_id: string;
+          p_question_ids: string[];
+        };
+        Returns: void;
+      };
     };
     Enums: {
       user_role: ProfileRole;
@@ -12,6 +12,25 @@ export const ROUTES = {
   EDIT_PROFILE: '/profile/edit',
   ORGANIZATION_SETTINGS: '/organization/settings',
   CHANGE_PASSWORD: '/change-password',
+  QUIZZES: '/quizzes',
+  QUIZ_NEW: '/quizzes/new',
+  QUIZ_PLAYER: '/quizzes/:quizId',
+  QUIZ_EDITOR: '/quizzes/:quizId/edit',
+  QUESTION_BANK: '/question-bank',
+  STUDY_MATERIALS: '/study',
+  STUDY_MATERIAL_NEW: '/study/new',
+  STUDY_MATERIAL: '/study/:materialId',
+  STUDY_MATERIAL_EDITOR: '/study/:materialId/edit',
+  APPROVALS: '/approvals',
+  MY_PROGRESS: '/progress',
+  LEARNING_PATHS: '/paths',
+  LEARNING_PATH_NEW: '/paths/new',
+  LEARNING_PATH: '/paths/:pathId',
+  LEARNING_PATH_EDITOR: '/paths/:pathId/edit',
+  MY_CERTIFICATES: '/certificates',
+  CERTIFICATE_LOOKUP: '/verify-certificate',
+  CERTIFICATE_VERIFY: '/verify-certificate/:code',
+  ANALYTICS: '/analytics',
 } as const;
 
 export type RouteName = keyof typeof ROUTES;
@@ -19,4 +38,5 @@ export type RouteName = keyof typeof ROUTES;
 export interface NavigateOptions {
   replace?: boolean;
   state?: any;
+  params?: Record<string, string>;
 }
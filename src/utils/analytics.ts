@@ -0,0 +1,30 @@
+import { QuizAnalytics } from '../types/database';
+
+// Labels for the ten buckets of score_distribution
+export const SCORE_BUCKET_LABELS = Array.from({ length: 10 }, (_, index) =>
+  index === 9 ? '90-100' : `${index * 10}-${index * 10 + 9}`
+);
+
+/**
+ * Score distribution across all of the given quizzes
+ */
+export function combineScoreDistributions(quizzes: QuizAnalytics[]): number[] {
+  return quizzes.reduce(
+    (totals, quiz) => totals.map((count, index) => count + (quiz.score_distribution[index] ?? 0)),
+    SCORE_BUCKET_LABELS.map(() => 0)
+  );
+}
+
+/**
+ * Average score over all attempts at the given quizzes, or null without attempts
+ */
+export function overallAverageScore(quizzes: QuizAnalytics[]): number | null {
+  const attempts = quizzes.reduce((sum, quiz) => sum + quiz.attempts_total, 0);
+  if (attempts === 0) return null;
+
+  const total = quizzes.reduce(
+    (sum, quiz) => sum + Number(quiz.average_score ?? 0) * quiz.attempts_total,
+    0
+  );
+  return Math.round((total / attempts) * 10) / 10;
+}
@@ -0,0 +1,71 @@
+import { AuditAction, AuditLogRecord, AuditTargetType, ProfileRole } from '../types/database';
+import { ROLE_LABELS, formatProfileName } from './profileName';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'member.created': 'Member created',
+  'member.joined': 'Member joined',
+  'member.role_changed': 'Role changed',
+  'member.removed': 'Member removed',
+  'region_admin.assigned': 'Region admin assigned',
+  'region_admin.changed': 'Region admin changed',
+  'region_admin.removed': 'Region admin removed',
+  'invitation.sent': 'Invitation sent',
+  'invitation.resent': 'Invitation resent',
+  'invitation.accepted': 'Invitation accepted',
+  'invitation.cancelled': 'Invitation cancelled',
+  'invitation.expired': 'Invitation expired',
+  'content.deleted': 'Content deleted',
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  member: 'Member',
+  invitation: 'Invitation',
+  quiz: 'Quiz',
+  study_material: 'Study material',
+  learning_path: 'Learning path',
+};
+
+type AuditValue = AuditLogRecord['before_value'];
+
+type AuditActor = Pick<
+  AuditLogRecord,
+  'actor_id' | 'actor_first_name' | 'actor_last_name' | 'actor_email'
+>;
+
+// A member's role and region, a region admin post, or an invitation status
+function describeValue(value: AuditValue): string | null {
+  if (!value) return null;
+
+  const region = value.region_name ? ` (${value.region_name})` : '';
+  if (value.role) {
+    const role = ROLE_LABELS[value.role as ProfileRole] ?? value.role;
+    return value.status ? `${value.status}, ${role}` : `${role}${region}`;
+  }
+  if (value.region_role) return `${value.region_role} admin${region}`;
+  if (value.status) return value.status;
+  return value.title ?? null;
+}
+
+/**
+ * What changed, e.g. "User → Primary Admin (North)"
+ */
+export function describeAuditChange(entry: AuditLogRecord): string {
+  const before = describeValue(entry.before_value);
+  const after = describeValue(entry.after_value);
+
+  if (before && after) return `${before} → ${after}`;
+  return after ?? before ?? '';
+}
+
+/**
+ * Who made the change; system changes have no actor
+ */
+export function auditActorName(entry: AuditActor): string {
+  if (!entry.actor_id) return 'System';
+  if (!entry.actor_email) return 'Former member';
+  return formatProfileName({
+    first_name: entry.actor_first_name,
+    last_name: entry.actor_last_name,
+    email: entry.actor_email,
+  });
+}
@@ -0,0 +1,109 @@
+import { generatePath } from 'react-router-dom';
+import { CertificateVerification } from '../types/database';
+import { ROUTES } from '../types/routes';
+
+export type CertificateStatus = 'valid' | 'renewal_due' | 'expired';
+
+// Matches the renewal window in issue_certificate: passing again this close to
+// expiry issues a fresh certificate
+export const RENEWAL_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a certificate is current, due for renewal or has expired
+ */
+export function getCertificateStatus(
+  expiresAt: string | null,
+  now: Date = new Date()
+): CertificateStatus {
+  if (!expiresAt) return 'valid';
+
+  const remaining = new Date(expiresAt).getTime() - now.getTime();
+  if (remaining <= 0) return 'expired';
+  return remaining <= RENEWAL_WINDOW_DAYS * DAY_MS ? 'renewal_due' : 'valid';
+}
+
+/**
+ * Public link that confirms a certificate is genuine
+ */
+export function certificateVerificationUrl(code: string): string {
+  return `${window.location.origin}${generatePath(ROUTES.CERTIFICATE_VERIFY, { code })}`;
+}
+
+/**
+ * Render a certificate as a landscape A4 PDF and download it. jsPDF is loaded
+ * on demand since most pages never need it.
+ */
+export async function downloadCertificatePdf(certificate: CertificateVerification): Promise<void> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const center = width / 2;
+
+  doc.setDrawColor(25, 118, 210);
+  doc.setLineWidth(1.5);
+  doc.rect(10, 10, width - 20, height - 20);
+  doc.setLineWidth(0.3);
+  doc.rect(14, 14, width - 28, height - 28);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(30);
+  doc.text('Certificate of Completion', center, 45, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('This certifies that', center, 65, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.text(certificate.learner_name, center, 82, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text(
+    certificate.content_type === 'quiz'
+      ? 'has successfully passed'
+      : 'has successfully completed the learning path',
+    center,
+    97,
+    { align: 'center' }
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(doc.splitTextToSize(certificate.content_title, width - 60), center, 112, {
+    align: 'center',
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  doc.text(
+    `Issued by ${certificate.organization_name} on ${new Date(
+      certificate.issued_at
+    ).toLocaleDateString()}`,
+    center,
+    140,
+    { align: 'center' }
+  );
+  if (certificate.expires_at) {
+    doc.text(
+      `Valid until ${new Date(certificate.expires_at).toLocaleDateString()}`,
+      center,
+      148,
+      { align: 'center' }
+    );
+  }
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Verification code: ${certificate.verification_code}`, center, height - 32, {
+    align: 'center',
+  });
+  doc.text(certificateVerificationUrl(certificate.verification_code), center, height - 26, {
+    align: 'center',
+  });
+
+  doc.save(`certificate-${certificate.verification_code}.pdf`);
+}
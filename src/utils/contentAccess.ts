@@ -0,0 +1,84 @@
+import { ContentScope, Profile, PublishStatus } from '../types/database';
+import { hasCapabilities } from './permissions';
+
+// These rules mirror can_view_content and can_edit_content in the database,
+// which remain the source of truth
+
+export type ContentViewer = Pick<Profile, 'role' | 'region_id'>;
+
+interface ScopedContent {
+  scope: ContentScope;
+  region_id: string | null;
+}
+
+interface VisibleContent extends ScopedContent {
+  status: PublishStatus;
+  pending_approval: boolean;
+}
+
+export function isOrganizationAdmin(viewer: ContentViewer | null | undefined): boolean {
+  return viewer?.role === 'super_admin' || viewer?.role === 'admin';
+}
+
+export function isRegionAdmin(viewer: ContentViewer | null | undefined): boolean {
+  return (
+    (viewer?.role === 'primary_admin' || viewer?.role === 'secondary_admin') &&
+    !!viewer.region_id
+  );
+}
+
+/**
+ * Whether the viewer may create quizzes and study materials at all
+ */
+export function canAuthorContent(viewer: ContentViewer | null | undefined): boolean {
+  return hasCapabilities(viewer, 'author_content');
+}
+
+/**
+ * Organization admins edit everything; region admins only their region's content
+ */
+export function canEditContent(
+  viewer: ContentViewer | null | undefined,
+  content: ScopedContent
+): boolean {
+  if (isOrganizationAdmin(viewer)) return true;
+  return (
+    isRegionAdmin(viewer) &&
+    content.scope === 'regional' &&
+    content.region_id === viewer?.region_id
+  );
+}
+
+/**
+ * Learners see published global content and published content for their own
+ * region, except items still awaiting global approval
+ */
+export function canViewContent(
+  viewer: ContentViewer | null | undefined,
+  content: VisibleContent
+): boolean {
+  if (canEditContent(viewer, content)) return true;
+  if (content.status !== 'published' || content.pending_approval) return false;
+  return content.scope === 'global' || content.region_id === viewer?.region_id;
+}
+
+/**
+ * PostgREST `or` filter selecting the content a viewer may see, or null when
+ * they may see everything in the organization
+ */
+export function contentVisibilityFilter(viewer: ContentViewer | null | undefined): string | null {
+  if (isOrganizationAdmin(viewer)) return null;
+
+  const released = 'status.eq.published,pending_approval.is.false';
+  const clauses = [`and(scope.eq.global,${released})`];
+
+  if (viewer?.region_id) {
+    clauses.push(
+      isRegionAdmin(viewer)
+        ? `region_id.eq.${viewer.region_id}`
+        : `and(region_id.eq.${viewer.region_id},${released})`
+    );
+  }
+
+  return clauses.join(',');
+}
@@ -0,0 +1,170 @@
+import { ListResult } from '../services/BaseService';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportValue;
+  // Columns are selected unless this is false
+  defaultSelected?: boolean;
+}
+
+export type FetchExportPage<T> = (page: number, limit: number) => Promise<ListResult<T>>;
+
+export const EXPORT_PAGE_SIZE = 500;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+interface ExportWriter<T> {
+  addRows: (rows: T[]) => void;
+  save: (fileName: string) => Promise<void>;
+}
+
+/**
+ * Spreadsheet apps run cells starting with these characters as formulas
+ */
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const escapeCsv = (value: ExportValue) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = neutralizeFormula(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+function createCsvWriter<T>(columns: ExportColumn<T>[]): ExportWriter<T> {
+  // The byte order mark makes Excel read the file as UTF-8
+  const lines = ['\uFEFF' + columns.map((column) => escapeCsv(column.label)).join(',')];
+
+  return {
+    addRows: (rows) => {
+      rows.forEach((row) => {
+        lines.push(columns.map((column) => escapeCsv(column.value(row))).join(','));
+      });
+    },
+    save: async (fileName) => {
+      downloadBlob(new Blob([lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), fileName);
+    },
+  };
+}
+
+async function createXlsxWriter<T>(columns: ExportColumn<T>[]): Promise<ExportWriter<T>> {
+  // exceljs is large, so it is only loaded once someone exports a spreadsheet
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet('Export');
+
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    key: column.key,
+    width: Math.max(12, column.label.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return {
+    addRows: (rows) => {
+      sheet.addRows(
+        rows.map((row) =>
+          columns.map((column) => {
+            const value = column.value(row);
+            return typeof value === 'string' ? neutralizeFormula(value) : value;
+          })
+        )
+      );
+    },
+    save: async (fileName) => {
+      const buffer = await workbook.xlsx.writeBuffer();
+      downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), fileName);
+    },
+  };
+}
+
+const createWriter = <T>(format: ExportFormat, columns: ExportColumn<T>[]) =>
+  format === 'csv' ? Promise.resolve(createCsvWriter(columns)) : createXlsxWriter(columns);
+
+/**
+ * Download rows that are already loaded as a CSV or Excel file
+ */
+export async function downloadRows<T>({
+  rows,
+  columns,
+  format,
+  fileName,
+}: {
+  rows: T[];
+  columns: ExportColumn<T>[];
+  format: ExportFormat;
+  // Without the extension
+  fileName: string;
+}): Promise<void> {
+  const writer = await createWriter(format, columns);
+  writer.addRows(rows);
+  await writer.save(`${fileName}.${format}`);
+}
+
+/**
+ * Fetch every page of a report and write it to a CSV or Excel download as the
+ * pages arrive, so no single request has to return the whole report.
+ * Returns the number of rows written, or null when cancelled.
+ */
+export async function exportInPages<T>({
+  fetchPage,
+  columns,
+  format,
+  fileName,
+  onProgress,
+  isCancelled,
+}: {
+  fetchPage: FetchExportPage<T>;
+  columns: ExportColumn<T>[];
+  format: ExportFormat;
+  // Without the extension
+  fileName: string;
+  onProgress?: (rowsWritten: number) => void;
+  isCancelled?: () => boolean;
+}): Promise<number | null> {
+  const writer = await createWriter(format, columns);
+  let rowsWritten = 0;
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await fetchPage(page, EXPORT_PAGE_SIZE);
+    if (error) throw error;
+    if (isCancelled?.()) return null;
+
+    writer.addRows(data);
+    rowsWritten += data.length;
+    onProgress?.(rowsWritten);
+
+    if (data.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  await writer.save(`${fileName}.${format}`);
+  return rowsWritten;
+}
+
+/**
+ * Today's date for export file names, e.g. quiz-attempts-2024-05-01
+ */
+export function exportFileName(prefix: string, date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${prefix}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,124 @@
+import {
+  AuditLogRecord,
+  LearnerProgressReport,
+  Profile,
+  QuizAttemptExportRow,
+  Region,
+} from '../types/database';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  auditActorName,
+  describeAuditChange,
+} from './auditLog';
+import { ExportColumn } from './dataExport';
+import { ROLE_LABELS } from './profileName';
+
+export type ExportMember = Profile & { region?: Region };
+
+const durationSeconds = (startedAt: string | null, completedAt: string) => {
+  if (!startedAt) return null;
+  const elapsed = new Date(completedAt).getTime() - new Date(startedAt).getTime();
+  return Math.max(0, Math.round(elapsed / 1000));
+};
+
+export const QUIZ_ATTEMPT_COLUMNS: ExportColumn<QuizAttemptExportRow>[] = [
+  { key: 'quiz', label: 'Quiz', value: (row) => row.quiz_title },
+  { key: 'first_name', label: 'First name', value: (row) => row.first_name },
+  { key: 'last_name', label: 'Last name', value: (row) => row.last_name },
+  { key: 'email', label: 'Email', value: (row) => row.email },
+  { key: 'region', label: 'Region', value: (row) => row.region_name },
+  { key: 'score', label: 'Score (%)', value: (row) => row.score },
+  { key: 'passed', label: 'Passed', value: (row) => (row.passed ? 'Yes' : 'No') },
+  { key: 'started_at', label: 'Started', value: (row) => row.started_at },
+  { key: 'completed_at', label: 'Completed', value: (row) => row.completed_at },
+  {
+    key: 'duration',
+    label: 'Time taken (seconds)',
+    value: (row) => durationSeconds(row.started_at, row.completed_at),
+    defaultSelected: false,
+  },
+  {
+    key: 'attempt_id',
+    label: 'Attempt ID',
+    value: (row) => row.attempt_id,
+    defaultSelected: false,
+  },
+  { key: 'user_id', label: 'User ID', value: (row) => row.user_id, defaultSelected: false },
+  { key: 'quiz_id', label: 'Quiz ID', value: (row) => row.quiz_id, defaultSelected: false },
+];
+
+export const MEMBER_COLUMNS: ExportColumn<ExportMember>[] = [
+  { key: 'first_name', label: 'First name', value: (member) => member.first_name },
+  { key: 'last_name', label: 'Last name', value: (member) => member.last_name },
+  { key: 'email', label: 'Email', value: (member) => member.email },
+  { key: 'role', label: 'Role', value: (member) => ROLE_LABELS[member.role] ?? member.role },
+  { key: 'region', label: 'Region', value: (member) => member.region?.name ?? null },
+  { key: 'joined', label: 'Joined', value: (member) => member.created_at },
+  {
+    key: 'force_password_change',
+    label: 'Must change password',
+    value: (member) => (member.force_password_change ? 'Yes' : 'No'),
+    defaultSelected: false,
+  },
+  { key: 'user_id', label: 'User ID', value: (member) => member.id, defaultSelected: false },
+];
+
+export const PROGRESS_COLUMNS: ExportColumn<LearnerProgressReport>[] = [
+  { key: 'first_name', label: 'First name', value: (row) => row.first_name },
+  { key: 'last_name', label: 'Last name', value: (row) => row.last_name },
+  { key: 'email', label: 'Email', value: (row) => row.email },
+  { key: 'role', label: 'Role', value: (row) => ROLE_LABELS[row.role] ?? row.role },
+  { key: 'region', label: 'Region', value: (row) => row.region_name },
+  { key: 'materials_read', label: 'Materials read', value: (row) => row.materials_read },
+  { key: 'materials_total', label: 'Materials available', value: (row) => row.materials_total },
+  { key: 'quizzes_passed', label: 'Quizzes passed', value: (row) => row.quizzes_passed },
+  { key: 'quizzes_total', label: 'Quizzes available', value: (row) => row.quizzes_total },
+  {
+    key: 'training_assigned',
+    label: 'Training assigned',
+    value: (row) => row.training_assigned,
+  },
+  {
+    key: 'training_completed',
+    label: 'Training completed',
+    value: (row) => row.training_completed,
+  },
+  { key: 'training_overdue', label: 'Training overdue', value: (row) => row.training_overdue },
+  {
+    key: 'certificates_valid',
+    label: 'Valid certificates',
+    value: (row) => row.certificates_valid,
+  },
+  { key: 'last_activity', label: 'Last activity', value: (row) => row.last_activity_at },
+  { key: 'user_id', label: 'User ID', value: (row) => row.user_id, defaultSelected: false },
+];
+
+const jsonValue = (value: AuditLogRecord['before_value']) => (value ? JSON.stringify(value) : null);
+
+export const AUDIT_LOG_COLUMNS: ExportColumn<AuditLogRecord>[] = [
+  { key: 'time', label: 'Time', value: (entry) => entry.created_at },
+  { key: 'actor', label: 'Actor', value: auditActorName },
+  { key: 'actor_email', label: 'Actor email', value: (entry) => entry.actor_email },
+  { key: 'action', label: 'Action', value: (entry) => AUDIT_ACTION_LABELS[entry.action] },
+  {
+    key: 'target_type',
+    label: 'Target type',
+    value: (entry) => AUDIT_TARGET_LABELS[entry.target_type],
+  },
+  { key: 'target', label: 'Target', value: (entry) => entry.target_label },
+  { key: 'change', label: 'Change', value: describeAuditChange },
+  {
+    key: 'before',
+    label: 'Before (JSON)',
+    value: (entry) => jsonValue(entry.before_value),
+    defaultSelected: false,
+  },
+  {
+    key: 'after',
+    label: 'After (JSON)',
+    value: (entry) => jsonValue(entry.after_value),
+    defaultSelected: false,
+  },
+  { key: 'entry_id', label: 'Entry ID', value: (entry) => entry.id, defaultSelected: false },
+];
@@ -0,0 +1,91 @@
+import { InvitationStatus, JoinLink } from '../types/database';
+import { ROUTES } from '../types/routes';
+import { EMAIL_PATTERN } from './userImport';
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+export const INVITATION_STATUS_COLORS: Record<
+  InvitationStatus,
+  'warning' | 'success' | 'default' | 'error'
+> = {
+  pending: 'warning',
+  accepted: 'success',
+  expired: 'default',
+  cancelled: 'error',
+};
+
+export const MAX_BULK_INVITES = 200;
+
+export interface ParsedEmailList {
+  // Lowercased and without duplicates, in the order they were pasted
+  emails: string[];
+  invalid: string[];
+}
+
+/**
+ * Split pasted text into email addresses. Addresses may be separated by
+ * commas, semicolons, spaces or new lines, and "Name <address>" entries as
+ * copied from a mail client are accepted.
+ */
+export function parseEmailList(text: string): ParsedEmailList {
+  const emails: string[] = [];
+  const invalid: string[] = [];
+
+  const entries = text.split(/[,;\n]+/).flatMap((segment) => {
+    // Keep only the address from "Name <address>"
+    const bracketed = segment.match(/<([^>]*)>/);
+    return bracketed ? [bracketed[1]] : segment.split(/\s+/);
+  });
+
+  entries
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .forEach((entry) => {
+      if (!EMAIL_PATTERN.test(entry)) {
+        if (!invalid.includes(entry)) invalid.push(entry);
+      } else if (!emails.includes(entry)) {
+        emails.push(entry);
+      }
+    });
+
+  return { emails, invalid };
+}
+
+export type JoinLinkStatus = 'active' | 'expired' | 'used_up' | 'revoked';
+
+export const JOIN_LINK_STATUS_LABELS: Record<JoinLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  used_up: 'Limit reached',
+  revoked: 'Revoked',
+};
+
+export const JOIN_LINK_STATUS_COLORS: Record<JoinLinkStatus, 'success' | 'default' | 'error'> = {
+  active: 'success',
+  expired: 'default',
+  used_up: 'default',
+  revoked: 'error',
+};
+
+/**
+ * Whether a join link can still be used, checked in the same order as the
+ * database does when it is redeemed
+ */
+export function getJoinLinkStatus(
+  link: Pick<JoinLink, 'revoked_at' | 'expires_at' | 'max_uses' | 'use_count'>,
+  now: Date = new Date()
+): JoinLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at) <= now) return 'expired';
+  if (link.max_uses !== null && link.use_count >= link.max_uses) return 'used_up';
+  return 'active';
+}
+
+export function joinLinkUrl(code: string): string {
+  return `${window.location.origin}${ROUTES.JOIN_ORGANIZATION}?link=${code}`;
+}
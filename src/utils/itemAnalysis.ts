@@ -0,0 +1,67 @@
+import { QuestionItemAnalysis } from '../types/database';
+import { completionPercent } from './progress';
+
+export type ItemFlag = 'nobody_correct' | 'everybody_correct' | 'negative_discrimination';
+
+// Fewer responses than this are too noisy to flag a question
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  nobody_correct: 'Nobody correct',
+  everybody_correct: 'Everybody correct',
+  negative_discrimination: 'Negative discrimination',
+};
+
+export const ITEM_FLAG_DESCRIPTIONS: Record<ItemFlag, string> = {
+  nobody_correct: 'No one has answered this correctly. Check the answer key and the wording.',
+  everybody_correct: 'Everyone answers this correctly, so it does not tell learners apart.',
+  negative_discrimination:
+    'Low scorers get this right more often than high scorers. It may be misleading.',
+};
+
+/**
+ * Share of responses that were fully correct, 0-100
+ */
+export function itemDifficulty(item: QuestionItemAnalysis): number {
+  return completionPercent(item.correct_count, item.responses);
+}
+
+/**
+ * Problems worth an author's attention, once there are enough responses
+ */
+export function getItemFlags(item: QuestionItemAnalysis): ItemFlag[] {
+  if (item.responses < MIN_RESPONSES_FOR_FLAGS) return [];
+
+  const flags: ItemFlag[] = [];
+  if (item.correct_count === 0) flags.push('nobody_correct');
+  if (item.correct_count === item.responses) flags.push('everybody_correct');
+  if (item.discrimination !== null && item.discrimination < 0) {
+    flags.push('negative_discrimination');
+  }
+  return flags;
+}
+
+/**
+ * Labels matching choice_counts: the choices, or True and False
+ */
+export function itemChoiceLabels(item: QuestionItemAnalysis): string[] {
+  return item.question_type === 'true_false' ? ['True', 'False'] : item.choices ?? [];
+}
+
+/**
+ * Whether the choice at an index of choice_counts is (one of) the right answers
+ */
+export function isCorrectChoice(item: QuestionItemAnalysis, index: number): boolean {
+  switch (item.question_type) {
+    case 'multiple_choice':
+      return item.correct_answer === index;
+    case 'true_false':
+      return item.correct_answer === (index === 0);
+    case 'multi_select':
+      return (
+        Array.isArray(item.correct_answer) && (item.correct_answer as number[]).includes(index)
+      );
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,79 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+export interface MarkdownHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-') || 'section';
+
+/**
+ * Render Markdown (which may contain raw HTML) to sanitized HTML. Headings up
+ * to level 3 get stable ids so they can be linked from a table of contents.
+ */
+export function renderMarkdown(markdown: string): RenderedMarkdown {
+  const unsafeHtml = marked.parse(markdown, { async: false, gfm: true }) as string;
+  const html = DOMPurify.sanitize(unsafeHtml);
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const headings: MarkdownHeading[] = [];
+  const usedIds = new Map<string, number>();
+
+  doc.body.querySelectorAll('h1, h2, h3').forEach((element) => {
+    const text = element.textContent?.trim() || '';
+    const base = slugify(text);
+    const seen = usedIds.get(base) || 0;
+    usedIds.set(base, seen + 1);
+
+    const id = seen ? `${base}-${seen}` : base;
+    element.id = id;
+    headings.push({ id, text, level: Number(element.tagName[1]) });
+  });
+
+  // Links to other sites open in a new tab without access to this window
+  doc.body.querySelectorAll('a[href^="http"]').forEach((link) => {
+    link.setAttribute('target', '_blank');
+    link.setAttribute('rel', 'noopener noreferrer');
+  });
+
+  return { html: doc.body.innerHTML, headings };
+}
+
+const MAX_CONTENT_LENGTH = 200000;
+
+/**
+ * Check Markdown for mistakes that would render badly. Returns a message
+ * describing the first problem found, or null if there are none.
+ */
+export function findMarkdownProblems(markdown: string): string | null {
+  if (markdown.length > MAX_CONTENT_LENGTH) {
+    return `Content must be under ${MAX_CONTENT_LENGTH.toLocaleString()} characters`;
+  }
+
+  const fences = markdown.split('\n').filter((line) => /^\s*(```|~~~)/.test(line));
+  if (fences.length % 2 !== 0) {
+    return 'A code block is missing its closing ```';
+  }
+
+  if (/!\[\s*\]\(/.test(markdown)) {
+    return 'Every image needs alt text describing it';
+  }
+  if (/\]\(\s*\)/.test(markdown)) {
+    return 'A link or image is missing its URL';
+  }
+
+  return null;
+}
@@ -0,0 +1,106 @@
+import { ProfileRole, RegionAdmin } from '../types/database';
+
+// What each role may do in the app. The database enforces the same rules
+// (is_org_admin_direct, can_manage_global_content, can_edit_content, ...);
+// these only decide what to show.
+
+export type Capability =
+  | 'manage_members'
+  | 'manage_regions'
+  | 'author_content'
+  // The organization-wide question bank, as in the questions_bank_manage policy
+  | 'manage_question_bank'
+  | 'approve_global_content'
+  | 'view_analytics';
+
+export type RegionAdminRole = RegionAdmin['role'];
+
+export interface PermissionSubject {
+  role: ProfileRole;
+  region_id: string | null;
+  // The region_admins entry's role once it has been loaded (null when there is
+  // none); until then it is derived from the profile role
+  region_role?: RegionAdminRole | null;
+}
+
+const ALL_CAPABILITIES: Capability[] = [
+  'manage_members',
+  'manage_regions',
+  'author_content',
+  'manage_question_bank',
+  'approve_global_content',
+  'view_analytics',
+];
+
+// Organization-wide capabilities by profile role. Regional admins get theirs
+// from REGION_ADMIN_CAPABILITIES, and only while assigned to a region.
+export const ROLE_CAPABILITIES: Record<ProfileRole, Capability[]> = {
+  super_admin: ALL_CAPABILITIES,
+  admin: ALL_CAPABILITIES,
+  primary_admin: [],
+  secondary_admin: [],
+  user: [],
+};
+
+// Capabilities within the admin's own region, e.g. analytics limited to it as
+// in resolve_analytics_region
+export const REGION_ADMIN_CAPABILITIES: Record<RegionAdminRole, Capability[]> = {
+  primary: ['author_content', 'view_analytics'],
+  secondary: ['author_content', 'view_analytics'],
+};
+
+const PROFILE_REGION_ROLES: Partial<Record<ProfileRole, RegionAdminRole>> = {
+  primary_admin: 'primary',
+  secondary_admin: 'secondary',
+};
+
+// Roles a member manager may give others, as in authorize_user_provisioning:
+// only super admins can make super admins
+export const ASSIGNABLE_ROLES: Record<ProfileRole, ProfileRole[]> = {
+  super_admin: ['super_admin', 'admin', 'primary_admin', 'secondary_admin', 'user'],
+  admin: ['admin', 'primary_admin', 'secondary_admin', 'user'],
+  primary_admin: [],
+  secondary_admin: [],
+  user: [],
+};
+
+/**
+ * Everything the subject may do, combining their profile role with their
+ * region admin role
+ */
+export function getCapabilities(
+  subject: PermissionSubject | null | undefined
+): Set<Capability> {
+  if (!subject) return new Set();
+
+  const capabilities = new Set(ROLE_CAPABILITIES[subject.role]);
+  const regionRole =
+    subject.region_role !== undefined ? subject.region_role : PROFILE_REGION_ROLES[subject.role];
+
+  if (regionRole && subject.region_id) {
+    REGION_ADMIN_CAPABILITIES[regionRole].forEach((capability) => capabilities.add(capability));
+  }
+
+  return capabilities;
+}
+
+/**
+ * Whether the subject has every one of the given capabilities
+ */
+export function hasCapabilities(
+  subject: PermissionSubject | null | undefined,
+  required: Capability | Capability[]
+): boolean {
+  const capabilities = getCapabilities(subject);
+  return (Array.isArray(required) ? required : [required]).every((capability) =>
+    capabilities.has(capability)
+  );
+}
+
+/**
+ * The roles the subject may give when creating or inviting members
+ */
+export function getAssignableRoles(subject: PermissionSubject | null | undefined): ProfileRole[] {
+  if (!subject || !hasCapabilities(subject, 'manage_members')) return [];
+  return ASSIGNABLE_ROLES[subject.role];
+}
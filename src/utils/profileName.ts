@@ -0,0 +1,19 @@
+import { Profile, ProfileRole } from '../types/database';
+
+type NamedProfile = Pick<Profile, 'first_name' | 'last_name' | 'email'>;
+
+export const ROLE_LABELS: Record<ProfileRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  primary_admin: 'Primary Admin',
+  secondary_admin: 'Secondary Admin',
+  user: 'User',
+};
+
+/**
+ * A person's full name, falling back to their email when no name is set
+ */
+export function formatProfileName(profile: NamedProfile | null | undefined): string {
+  if (!profile) return 'Unknown';
+  return [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email;
+}
@@ -0,0 +1,59 @@
+import { CategoryProgress } from '../types/database';
+
+export interface ProgressSummary {
+  materialsRead: number;
+  materialsTotal: number;
+  quizzesPassed: number;
+  quizzesTotal: number;
+  // Share of all materials and quizzes completed, 0-100
+  percent: number;
+}
+
+/**
+ * Percentage of `total` that `done` represents, rounded down so nothing shows
+ * as complete until it is
+ */
+export function completionPercent(done: number, total: number): number {
+  return total > 0 ? Math.floor((done / total) * 100) : 0;
+}
+
+/**
+ * Totals across every category
+ */
+export function summarizeProgress(categories: CategoryProgress[]): ProgressSummary {
+  const summary = categories.reduce(
+    (totals, category) => ({
+      materialsRead: totals.materialsRead + category.materials_read,
+      materialsTotal: totals.materialsTotal + category.materials_total,
+      quizzesPassed: totals.quizzesPassed + category.quizzes_passed,
+      quizzesTotal: totals.quizzesTotal + category.quizzes_total,
+    }),
+    { materialsRead: 0, materialsTotal: 0, quizzesPassed: 0, quizzesTotal: 0 }
+  );
+
+  return {
+    ...summary,
+    percent: completionPercent(
+      summary.materialsRead + summary.quizzesPassed,
+      summary.materialsTotal + summary.quizzesTotal
+    ),
+  };
+}
+
+/**
+ * How far down the page the reader has scrolled, 0-100. Pages too short to
+ * scroll count as fully read.
+ */
+export function getScrollPercent(): number {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  if (scrollable <= 0) return 100;
+  return Math.min(100, Math.max(0, Math.round((window.scrollY / scrollable) * 100)));
+}
+
+/**
+ * Scroll the page back to a position saved by getScrollPercent
+ */
+export function scrollToPercent(percent: number) {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  window.scrollTo({ top: (scrollable * percent) / 100, behavior: 'smooth' });
+}
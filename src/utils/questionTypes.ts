@@ -0,0 +1,171 @@
+import { Question, QuestionAnswer, QuestionInput, QuestionType } from '../types/database';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True / False',
+  multi_select: 'Check All That Apply',
+  short_answer: 'Short Answer',
+  ordering: 'Ordering',
+  matching: 'Matching',
+};
+
+const TRUE_FALSE_CHOICES = ['True', 'False'];
+
+/**
+ * Build an empty question of the given type, keeping any shared fields
+ * (text, points, explanation, order) from an existing question.
+ */
+export function createQuestionInput(
+  type: QuestionType,
+  base: Partial<Pick<QuestionInput, 'question_text' | 'explanation' | 'points' | 'order'>> = {}
+): QuestionInput {
+  const shared = {
+    question_text: base.question_text ?? '',
+    explanation: base.explanation ?? null,
+    points: base.points ?? 1,
+    order: base.order ?? 0,
+  };
+
+  switch (type) {
+    case 'multiple_choice':
+      return { ...shared, question_type: type, choices: ['', ''], correct_answer: 0 };
+    case 'true_false':
+      return { ...shared, question_type: type, choices: TRUE_FALSE_CHOICES, correct_answer: true };
+    case 'multi_select':
+      return { ...shared, question_type: type, choices: ['', ''], correct_answer: [] };
+    case 'short_answer':
+      return { ...shared, question_type: type, choices: [], correct_answer: [''] };
+    case 'ordering':
+      return { ...shared, question_type: type, choices: ['', ''], correct_answer: [0, 1] };
+    case 'matching':
+      return { ...shared, question_type: type, choices: ['', ''], correct_answer: ['', ''] };
+  }
+}
+
+/**
+ * Check whether a learner has provided an answer to a question
+ */
+export function isAnswered(question: Question, answer: QuestionAnswer | undefined): boolean {
+  if (answer === undefined || answer === null) return false;
+
+  switch (question.question_type) {
+    case 'short_answer':
+      return typeof answer === 'string' && answer.trim() !== '';
+    case 'multi_select':
+    case 'ordering':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'matching':
+      return Array.isArray(answer) && answer.some((match) => !!match);
+    default:
+      return true;
+  }
+}
+
+/**
+ * The distinct items a learner can match prompts against, in a stable order
+ * that doesn't give away which prompt they belong to.
+ */
+export function getMatchingOptions(question: Question): string[] {
+  if (question.question_type !== 'matching') return [];
+  return Array.from(new Set(question.correct_answer.filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+/**
+ * Shuffle items deterministically from a string seed so the same question is
+ * presented the same way across re-renders and refreshes.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (state * 31 + seed.charCodeAt(i)) | 0;
+  }
+  const random = () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Describe a learner's answer in plain text for review screens
+ */
+export function formatAnswer(question: Question, answer: QuestionAnswer | undefined): string {
+  if (!isAnswered(question, answer)) return 'Not answered';
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return question.choices[answer as number] ?? '';
+    case 'true_false':
+      return answer ? 'True' : 'False';
+    case 'multi_select':
+    case 'ordering':
+      return (answer as number[]).map((index) => question.choices[index]).join(', ');
+    case 'short_answer':
+      return answer as string;
+    case 'matching':
+      return question.choices
+        .map((prompt, index) => `${prompt} → ${(answer as string[])[index] || '—'}`)
+        .join('; ');
+  }
+}
+
+/**
+ * Describe the correct answer to a question in plain text for review screens
+ */
+export function formatCorrectAnswer(question: Question): string {
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return question.choices[question.correct_answer] ?? '';
+    case 'true_false':
+      return question.correct_answer ? 'True' : 'False';
+    case 'multi_select':
+    case 'ordering':
+      return question.correct_answer.map((index) => question.choices[index]).join(', ');
+    case 'short_answer':
+      return question.correct_answer.join(' or ');
+    case 'matching':
+      return question.choices
+        .map((prompt, index) => `${prompt} → ${question.correct_answer[index]}`)
+        .join('; ');
+  }
+}
+
+/**
+ * Check that a question is complete enough to be published. Returns a
+ * description of the first problem found, or null if the question is valid.
+ */
+export function validateQuestion(question: QuestionInput): string | null {
+  if (!question.question_text.trim()) return 'Question text is required';
+  if (question.points <= 0) return 'Points must be greater than zero';
+
+  const usesChoices =
+    question.question_type !== 'true_false' && question.question_type !== 'short_answer';
+  if (usesChoices && question.choices.some((choice) => !choice.trim())) {
+    return 'Every choice needs some text';
+  }
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return question.correct_answer < question.choices.length ? null : 'Pick the correct choice';
+    case 'multi_select':
+      return question.correct_answer.length > 0 ? null : 'Mark at least one correct choice';
+    case 'short_answer':
+      return question.correct_answer.some((answer) => answer.trim())
+        ? null
+        : 'Add at least one accepted answer';
+    case 'matching':
+      return question.correct_answer.every((match) => match.trim())
+        ? null
+        : 'Every prompt needs a match';
+    default:
+      return null;
+  }
+}
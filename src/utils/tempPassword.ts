@@ -0,0 +1,14 @@
+/**
+ * A random 12 character password for accounts created by an admin. Users are
+ * asked to change it when they first sign in.
+ */
+export function generateTempPassword() {
+  const length = 12;
+  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
+  let password = '';
+  for (let i = 0; i < length; i++) {
+    const randomIndex = Math.floor(Math.random() * charset.length);
+    password += charset[randomIndex];
+  }
+  return password;
+}
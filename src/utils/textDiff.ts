@@ -0,0 +1,65 @@
+import { diffLines } from 'diff';
+
+export type DiffLineType = 'unchanged' | 'removed' | 'added';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+  type: DiffLineType;
+}
+
+// One row of a side-by-side diff; a side is null where the other side has a
+// line with no counterpart
+export interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const splitLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+/**
+ * Compare two texts line by line and lay the result out for a side-by-side
+ * view, pairing removed lines with the lines that replaced them.
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let removed: string[] = [];
+
+  const flush = (added: string[]) => {
+    const count = Math.max(removed.length, added.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({
+        left:
+          i < removed.length
+            ? { number: ++leftNumber, text: removed[i], type: 'removed' }
+            : null,
+        right:
+          i < added.length ? { number: ++rightNumber, text: added[i], type: 'added' } : null,
+      });
+    }
+    removed = [];
+  };
+
+  diffLines(before, after).forEach((change) => {
+    const lines = splitLines(change.value);
+
+    if (change.removed) {
+      removed.push(...lines);
+    } else if (change.added) {
+      flush(lines);
+    } else {
+      flush([]);
+      lines.forEach((text) =>
+        rows.push({
+          left: { number: ++leftNumber, text, type: 'unchanged' },
+          right: { number: ++rightNumber, text, type: 'unchanged' },
+        })
+      );
+    }
+  });
+
+  flush([]);
+  return rows;
+}
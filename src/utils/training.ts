@@ -0,0 +1,51 @@
+import { TrainingContentType } from '../types/database';
+
+export type TrainingStatus = 'completed' | 'overdue' | 'pending';
+
+export const TRAINING_CONTENT_LABELS: Record<TrainingContentType, string> = {
+  quiz: 'Quiz',
+  study_material: 'Study Material',
+  learning_path: 'Learning Path',
+};
+
+export const TRAINING_STATUS_LABELS: Record<TrainingStatus, string> = {
+  completed: 'Completed',
+  overdue: 'Overdue',
+  pending: 'Not started',
+};
+
+export const TRAINING_STATUS_COLORS: Record<TrainingStatus, 'success' | 'error' | 'default'> = {
+  completed: 'success',
+  overdue: 'error',
+  pending: 'default',
+};
+
+/**
+ * Where an assignee stands on a piece of training. Training finished after the
+ * due date still counts as completed.
+ */
+export function getTrainingStatus(
+  dueAt: string | null,
+  completedAt: string | null,
+  now: Date = new Date()
+): TrainingStatus {
+  if (completedAt) return 'completed';
+  if (dueAt && new Date(dueAt) < now) return 'overdue';
+  return 'pending';
+}
+
+/**
+ * The first moment of a date picked in a date input (YYYY-MM-DD), in the
+ * user's time zone
+ */
+export function startOfDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+/**
+ * The last moment of a date picked in a date input (YYYY-MM-DD), in the
+ * user's time zone, so training is due at the end of the chosen day
+ */
+export function endOfDay(date: string): string {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
@@ -0,0 +1,123 @@
+import { ProfileRole, Region } from '../types/database';
+import { parseCsv } from './csv';
+
+export interface UserImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  // Null when the role column holds something unrecognised
+  role: ProfileRole | null;
+  regionName: string;
+  regionId: string | null;
+  // Reasons the row can't be imported; empty when it is ready
+  issues: string[];
+}
+
+export interface UserImportOptions {
+  regions: Region[];
+  // Emails already in the organization
+  existingEmails: Set<string>;
+  // Roles the importing admin may hand out
+  allowedRoles: ProfileRole[];
+}
+
+type ImportField = 'email' | 'firstName' | 'lastName' | 'role' | 'region';
+
+// Header names are compared lowercased with spaces, dashes and underscores removed
+const HEADER_FIELDS: Record<string, ImportField> = {
+  email: 'email',
+  emailaddress: 'email',
+  firstname: 'firstName',
+  lastname: 'lastName',
+  role: 'role',
+  region: 'region',
+  regionname: 'region',
+};
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const USER_IMPORT_TEMPLATE = [
+  'email,first_name,last_name,role,region',
+  'jane.doe@example.com,Jane,Doe,user,North',
+  'sam.lee@example.com,Sam,Lee,primary_admin,South',
+].join('\n');
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+
+export const isRegionalRole = (role: ProfileRole | null) =>
+  role === 'primary_admin' || role === 'secondary_admin';
+
+/**
+ * Parse an uploaded CSV of users and check every row, so problems can be shown
+ * before any account is created. Throws when the file itself is unusable.
+ */
+export function parseUserImport(text: string, options: UserImportOptions): UserImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('The file is empty');
+
+  const columns = new Map<ImportField, number>();
+  header.forEach((name, index) => {
+    const field = HEADER_FIELDS[normalizeHeader(name)];
+    if (field && !columns.has(field)) columns.set(field, index);
+  });
+  if (!columns.has('email')) {
+    throw new Error('The file needs an "email" column. Download the template to see the format.');
+  }
+  if (records.length === 0) throw new Error('The file has no users in it');
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} users at a time`);
+  }
+
+  const regionsByName = new Map(
+    options.regions.map((region) => [region.name.trim().toLowerCase(), region])
+  );
+  const seenEmails = new Set<string>();
+
+  return records.map((record, index) => {
+    const cell = (field: ImportField) => {
+      const column = columns.get(field);
+      return column === undefined ? '' : (record[column] ?? '').trim();
+    };
+
+    const email = cell('email');
+    const roleText = cell('role');
+    const regionName = cell('region');
+    const issues: string[] = [];
+
+    const emailKey = email.toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      issues.push(email ? 'Invalid email' : 'Missing email');
+    } else if (options.existingEmails.has(emailKey)) {
+      issues.push('Already a member');
+    } else if (seenEmails.has(emailKey)) {
+      issues.push('Duplicate email in file');
+    }
+    seenEmails.add(emailKey);
+
+    const normalizedRole = (roleText || 'user').toLowerCase().replace(/[\s-]+/g, '_');
+    const role = options.allowedRoles.find((allowed) => allowed === normalizedRole) ?? null;
+    if (!role) issues.push(`Invalid role "${roleText}"`);
+
+    const region = regionName ? regionsByName.get(regionName.toLowerCase()) : undefined;
+    if (regionName && !region) {
+      issues.push(`Unknown region "${regionName}"`);
+    } else if (!region && isRegionalRole(role)) {
+      issues.push('Region is required for this role');
+    }
+
+    return {
+      line: index + 2,
+      email,
+      firstName: cell('firstName'),
+      lastName: cell('lastName'),
+      role,
+      regionName: region?.name ?? regionName,
+      regionId: region?.id ?? null,
+      issues,
+    };
+  });
+}
@@ -0,0 +1,117 @@
+// supabase/functions/create-user/index.ts
+//
+// Creates a confirmed account and its profile on behalf of an admin. The
+// service role key only exists here; the caller's own token is used to check
+// that they may create the user (authorize_user_provisioning).
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CreateUserRequest {
+  email?: string;
+  password?: string;
+  role?: string;
+  organizationId?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  regionId?: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  try {
+    const { email, password, role, organizationId, firstName, lastName, regionId } =
+      (await req.json()) as CreateUserRequest;
+
+    if (!email || !password || !role || !organizationId) {
+      return jsonResponse(
+        { error: 'Email, password, role and organization are required' },
+        400
+      );
+    }
+
+    // Runs as the calling admin, so auth.uid() is theirs
+    const supabaseCaller = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: { headers: { Authorization: authorization } },
+        auth: { autoRefreshToken: false, persistSession: false },
+      }
+    );
+
+    const { data: callerId, error: permissionError } = await supabaseCaller.rpc(
+      'authorize_user_provisioning',
+      {
+        p_organization_id: organizationId,
+        p_role: role,
+        p_region_id: regionId || null,
+      }
+    );
+
+    if (permissionError) {
+      return jsonResponse({ error: permissionError.message }, 403);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: { autoRefreshToken: false, persistSession: false },
+      }
+    );
+
+    // Admin-created users are confirmed up front and change their password on first login
+    const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
+    });
+
+    if (authError || !authData.user) {
+      return jsonResponse({ error: authError?.message ?? 'Failed to create user' }, 400);
+    }
+
+    const userId = authData.user.id;
+
+    const { error: profileError } = await supabaseAdmin.rpc('create_user_profile_v2', {
+      p_user_id: userId,
+      p_email: email,
+      p_role: role,
+      p_organization_id: organizationId,
+      p_first_name: firstName || null,
+      p_last_name: lastName || null,
+      p_region_id: regionId || null,
+      p_created_by: callerId,
+    });
+
+    if (profileError) {
+      // Don't leave a login behind without a profile
+      await supabaseAdmin.auth.admin.deleteUser(userId);
+      return jsonResponse({ error: profileError.message }, 400);
+    }
+
+    return jsonResponse({ userId }, 200);
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
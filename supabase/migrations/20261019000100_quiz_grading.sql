@@ -0,0 +1,165 @@
+-- =============================================================================
+-- SERVER-AUTHORITATIVE QUIZ GRADING
+-- =============================================================================
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: STORE PER-QUESTION RESULTS ON ATTEMPTS
+-- =============================================================================
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_results JSONB;
+
+-- =============================================================================
+-- PART 2: GRADING FUNCTION
+-- =============================================================================
+
+-- Grade a set of answers for the current user and record the attempt.
+-- Score and pass/fail are computed here from the stored questions, so the
+-- client only ever supplies the quiz and the chosen answers.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz RECORD;
+  v_question RECORD;
+  v_answer JSONB;
+  v_correct BOOLEAN;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_score INTEGER := 0;
+  v_results JSONB := '{}'::jsonb;
+  v_attempt RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, passing_score INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Quiz does not belong to your organization';
+  END IF;
+
+  p_answers := COALESCE(p_answers, '{}'::jsonb);
+
+  FOR v_question IN
+    SELECT id, correct_answer, points
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  LOOP
+    v_answer := p_answers -> v_question.id::text;
+    v_correct := v_answer IS NOT NULL
+      AND jsonb_typeof(v_answer) = 'number'
+      AND (v_answer #>> '{}')::numeric = v_question.correct_answer;
+
+    v_total_points := v_total_points + v_question.points;
+    IF v_correct THEN
+      v_earned_points := v_earned_points + v_question.points;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      v_question.id::text,
+      jsonb_build_object(
+        'correct', v_correct,
+        'points_awarded', CASE WHEN v_correct THEN v_question.points ELSE 0 END,
+        'points_possible', v_question.points
+      )
+    );
+  END LOOP;
+
+  IF v_total_points > 0 THEN
+    v_score := round(v_earned_points * 100.0 / v_total_points);
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    quiz_id,
+    user_id,
+    score,
+    passed,
+    answers,
+    question_results,
+    completed_at,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    p_quiz_id,
+    v_user_id,
+    v_score,
+    v_score >= v_quiz.passing_score,
+    p_answers,
+    v_results,
+    now(),
+    now(),
+    now()
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN row_to_json(v_attempt);
+END;
+$$;
+
+-- =============================================================================
+-- PART 3: LOCK DOWN DIRECT WRITES TO QUIZ ATTEMPTS
+-- =============================================================================
+
+-- Drop any policies that let clients write attempts directly
+DO $$
+DECLARE
+    policy_name text;
+BEGIN
+    FOR policy_name IN (
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public' AND tablename = 'quiz_attempts'
+    )
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON quiz_attempts', policy_name);
+    END LOOP;
+END $$;
+
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to read their own attempts
+CREATE POLICY "quiz_attempts_read_own"
+ON quiz_attempts
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Allow organization admins to read attempts in their organization
+CREATE POLICY "quiz_attempts_org_admin_read"
+ON quiz_attempts
+FOR SELECT
+TO authenticated
+USING (
+  (is_super_admin_direct() OR is_org_admin_direct()) AND
+  EXISTS (
+    SELECT 1 FROM quizzes
+    WHERE quizzes.id = quiz_attempts.quiz_id
+    AND quizzes.organization_id = get_user_organization_direct(auth.uid())
+  )
+);
+
+-- =============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION grade_quiz_attempt(UUID, JSONB) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,307 @@
+-- =============================================================================
+-- ENFORCED QUIZ TIME LIMITS
+-- =============================================================================
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: ATTEMPT TIMESTAMPS
+-- =============================================================================
+
+-- quizzes.time_limit is expressed in seconds; NULL means the quiz is untimed.
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- A user can only have one attempt in progress per quiz
+CREATE UNIQUE INDEX IF NOT EXISTS quiz_attempts_open_attempt_idx
+  ON quiz_attempts (user_id, quiz_id)
+  WHERE completed_at IS NULL;
+
+-- =============================================================================
+-- PART 2: SCORING HELPER
+-- =============================================================================
+
+-- Score answers against the stored questions without recording anything.
+-- Returns {"score": <0-100>, "results": {<question_id>: {...}}}.
+CREATE OR REPLACE FUNCTION score_quiz_answers(
+  p_quiz_id UUID,
+  p_answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question RECORD;
+  v_answer JSONB;
+  v_correct BOOLEAN;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_score INTEGER := 0;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  FOR v_question IN
+    SELECT id, correct_answer, points
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  LOOP
+    v_answer := COALESCE(p_answers, '{}'::jsonb) -> v_question.id::text;
+    v_correct := v_answer IS NOT NULL
+      AND jsonb_typeof(v_answer) = 'number'
+      AND (v_answer #>> '{}')::numeric = v_question.correct_answer;
+
+    v_total_points := v_total_points + v_question.points;
+    IF v_correct THEN
+      v_earned_points := v_earned_points + v_question.points;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      v_question.id::text,
+      jsonb_build_object(
+        'correct', v_correct,
+        'points_awarded', CASE WHEN v_correct THEN v_question.points ELSE 0 END,
+        'points_possible', v_question.points
+      )
+    );
+  END LOOP;
+
+  IF v_total_points > 0 THEN
+    v_score := round(v_earned_points * 100.0 / v_total_points);
+  END IF;
+
+  RETURN jsonb_build_object('score', v_score, 'results', v_results);
+END;
+$$;
+
+-- =============================================================================
+-- PART 3: START ATTEMPT
+-- =============================================================================
+
+-- Start (or resume) the current user's attempt at a quiz. The deadline is
+-- fixed here from the server clock so it survives page refreshes.
+CREATE OR REPLACE FUNCTION start_quiz_attempt(
+  p_quiz_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_grace INTERVAL := interval '30 seconds';
+  v_quiz RECORD;
+  v_attempt RECORD;
+  v_resume BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, time_limit INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Quiz does not belong to your organization';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id
+  AND quiz_id = p_quiz_id
+  AND completed_at IS NULL
+  FOR UPDATE;
+
+  v_resume := FOUND;
+
+  -- Close out an abandoned attempt whose deadline has passed
+  IF v_resume
+    AND v_attempt.expires_at IS NOT NULL
+    AND v_attempt.expires_at + v_grace < now() THEN
+    UPDATE quiz_attempts
+    SET score = 0,
+        passed = false,
+        completed_at = v_attempt.expires_at,
+        updated_at = now()
+    WHERE id = v_attempt.id;
+
+    v_resume := false;
+  END IF;
+
+  IF NOT v_resume THEN
+    INSERT INTO quiz_attempts (
+      quiz_id,
+      user_id,
+      score,
+      passed,
+      answers,
+      started_at,
+      expires_at,
+      created_at,
+      updated_at
+    )
+    VALUES (
+      p_quiz_id,
+      v_user_id,
+      0,
+      false,
+      '{}'::jsonb,
+      now(),
+      CASE
+        WHEN v_quiz.time_limit IS NULL THEN NULL
+        ELSE now() + make_interval(secs => v_quiz.time_limit)
+      END,
+      now(),
+      now()
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN json_build_object(
+    'attempt', row_to_json(v_attempt),
+    'server_time', now()
+  );
+END;
+$$;
+
+-- The current user's in-progress attempt at a quiz, or NULL, with the server
+-- time so that a resumed timer uses the same clock as start_quiz_attempt
+CREATE OR REPLACE FUNCTION get_open_quiz_attempt(p_quiz_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'attempt', (
+      SELECT row_to_json(a)
+      FROM quiz_attempts a
+      WHERE a.user_id = auth.uid()
+      AND a.quiz_id = p_quiz_id
+      AND a.completed_at IS NULL
+    ),
+    'server_time', now()
+  );
+$$;
+
+-- =============================================================================
+-- PART 4: GRADE ATTEMPT
+-- =============================================================================
+
+-- Grade the current user's open attempt. Timed quizzes must have been started
+-- with start_quiz_attempt, and answers are rejected once the deadline plus a
+-- short grace window for network latency has passed.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_grace INTERVAL := interval '30 seconds';
+  v_quiz RECORD;
+  v_open_attempt RECORD;
+  v_grade JSONB;
+  v_score INTEGER;
+  v_attempt RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, passing_score, time_limit INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Quiz does not belong to your organization';
+  END IF;
+
+  SELECT * INTO v_open_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id
+  AND quiz_id = p_quiz_id
+  AND completed_at IS NULL
+  FOR UPDATE;
+
+  IF v_open_attempt.id IS NULL AND v_quiz.time_limit IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz attempt has not been started';
+  END IF;
+
+  IF v_open_attempt.expires_at IS NOT NULL AND v_open_attempt.expires_at + v_grace < now() THEN
+    RAISE EXCEPTION 'Time limit exceeded';
+  END IF;
+
+  p_answers := COALESCE(p_answers, '{}'::jsonb);
+  v_grade := score_quiz_answers(p_quiz_id, p_answers);
+  v_score := (v_grade ->> 'score')::integer;
+
+  IF v_open_attempt.id IS NOT NULL THEN
+    UPDATE quiz_attempts
+    SET score = v_score,
+        passed = v_score >= v_quiz.passing_score,
+        answers = p_answers,
+        question_results = v_grade -> 'results',
+        completed_at = now(),
+        updated_at = now()
+    WHERE id = v_open_attempt.id
+    RETURNING * INTO v_attempt;
+  ELSE
+    INSERT INTO quiz_attempts (
+      quiz_id,
+      user_id,
+      score,
+      passed,
+      answers,
+      question_results,
+      started_at,
+      completed_at,
+      created_at,
+      updated_at
+    )
+    VALUES (
+      p_quiz_id,
+      v_user_id,
+      v_score,
+      v_score >= v_quiz.passing_score,
+      p_answers,
+      v_grade -> 'results',
+      now(),
+      now(),
+      now(),
+      now()
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN row_to_json(v_attempt);
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION score_quiz_answers(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_open_quiz_attempt(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION grade_quiz_attempt(UUID, JSONB) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,179 @@
+-- =============================================================================
+-- ADDITIONAL QUESTION TYPES
+-- =============================================================================
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: QUESTION TYPE AND ANSWER SHAPE
+-- =============================================================================
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'multiple_choice';
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE questions
+  ADD CONSTRAINT questions_question_type_check CHECK (
+    question_type IN (
+      'multiple_choice',
+      'true_false',
+      'multi_select',
+      'short_answer',
+      'ordering',
+      'matching'
+    )
+  );
+
+-- correct_answer was a choice index; it now holds whatever the question type
+-- needs (index, boolean, index list, accepted answers or matches).
+ALTER TABLE questions
+  ALTER COLUMN correct_answer TYPE JSONB USING to_jsonb(correct_answer);
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_correct_answer_shape_check;
+ALTER TABLE questions
+  ADD CONSTRAINT questions_correct_answer_shape_check CHECK (
+    CASE question_type
+      WHEN 'multiple_choice' THEN jsonb_typeof(correct_answer) = 'number'
+      WHEN 'true_false' THEN jsonb_typeof(correct_answer) = 'boolean'
+      ELSE jsonb_typeof(correct_answer) = 'array'
+    END
+  );
+
+-- =============================================================================
+-- PART 2: PER-QUESTION SCORING
+-- =============================================================================
+
+-- Fraction of a question's points (0-1) earned by an answer. Multi-select
+-- earns partial credit: each correct pick counts for, and each wrong pick
+-- against, an equal share. Everything else is all or nothing.
+CREATE OR REPLACE FUNCTION score_question(
+  p_question_type TEXT,
+  p_correct_answer JSONB,
+  p_answer JSONB
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_correct_count INTEGER;
+  v_hits INTEGER;
+  v_misses INTEGER;
+BEGIN
+  IF p_answer IS NULL OR jsonb_typeof(p_answer) = 'null' THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_question_type
+    WHEN 'multiple_choice' THEN
+      RETURN CASE
+        WHEN jsonb_typeof(p_answer) = 'number'
+          AND (p_answer #>> '{}')::numeric = (p_correct_answer #>> '{}')::numeric
+        THEN 1 ELSE 0 END;
+
+    WHEN 'true_false' THEN
+      RETURN CASE
+        WHEN jsonb_typeof(p_answer) = 'boolean' AND p_answer = p_correct_answer
+        THEN 1 ELSE 0 END;
+
+    WHEN 'multi_select' THEN
+      IF jsonb_typeof(p_answer) <> 'array' THEN
+        RETURN 0;
+      END IF;
+
+      v_correct_count := jsonb_array_length(p_correct_answer);
+      IF v_correct_count = 0 THEN
+        RETURN CASE WHEN jsonb_array_length(p_answer) = 0 THEN 1 ELSE 0 END;
+      END IF;
+
+      SELECT
+        COUNT(*) FILTER (WHERE p_correct_answer @> jsonb_build_array(picked)),
+        COUNT(*) FILTER (WHERE NOT p_correct_answer @> jsonb_build_array(picked))
+      INTO v_hits, v_misses
+      FROM (SELECT DISTINCT value AS picked FROM jsonb_array_elements(p_answer)) picks;
+
+      RETURN GREATEST(0, v_hits - v_misses)::numeric / v_correct_count;
+
+    WHEN 'short_answer' THEN
+      IF jsonb_typeof(p_answer) <> 'string' THEN
+        RETURN 0;
+      END IF;
+
+      RETURN CASE WHEN EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(p_correct_answer) accepted
+        WHERE lower(btrim(accepted)) = lower(btrim(p_answer #>> '{}'))
+      ) THEN 1 ELSE 0 END;
+
+    WHEN 'ordering', 'matching' THEN
+      RETURN CASE WHEN p_answer = p_correct_answer THEN 1 ELSE 0 END;
+
+    ELSE
+      RETURN 0;
+  END CASE;
+END;
+$$;
+
+-- Score answers against the stored questions without recording anything.
+-- Returns {"score": <0-100>, "results": {<question_id>: {...}}}.
+CREATE OR REPLACE FUNCTION score_quiz_answers(
+  p_quiz_id UUID,
+  p_answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question RECORD;
+  v_fraction NUMERIC;
+  v_awarded NUMERIC;
+  v_total_points NUMERIC := 0;
+  v_earned_points NUMERIC := 0;
+  v_score INTEGER := 0;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  FOR v_question IN
+    SELECT id, question_type, correct_answer, points
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+  LOOP
+    v_fraction := score_question(
+      v_question.question_type,
+      v_question.correct_answer,
+      COALESCE(p_answers, '{}'::jsonb) -> v_question.id::text
+    );
+    v_awarded := round(v_fraction * v_question.points, 2);
+
+    v_total_points := v_total_points + v_question.points;
+    v_earned_points := v_earned_points + v_awarded;
+
+    v_results := v_results || jsonb_build_object(
+      v_question.id::text,
+      jsonb_build_object(
+        'correct', v_fraction >= 1,
+        'points_awarded', v_awarded,
+        'points_possible', v_question.points
+      )
+    );
+  END LOOP;
+
+  IF v_total_points > 0 THEN
+    v_score := round(v_earned_points * 100.0 / v_total_points);
+  END IF;
+
+  RETURN jsonb_build_object('score', v_score, 'results', v_results);
+END;
+$$;
+
+-- =============================================================================
+-- PART 3: GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION score_question(TEXT, JSONB, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION score_quiz_answers(UUID, JSONB) FROM PUBLIC;
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- =============================================================================
+-- QUIZ DRAFTS
+-- =============================================================================
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: PUBLISH STATUS
+-- =============================================================================
+
+-- Existing quizzes were already visible to learners, so they start out
+-- published; quizzes created from now on start as drafts.
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published';
+
+ALTER TABLE quizzes ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE quizzes DROP CONSTRAINT IF EXISTS quizzes_status_check;
+ALTER TABLE quizzes
+  ADD CONSTRAINT quizzes_status_check CHECK (status IN ('draft', 'published'));
+
+CREATE INDEX IF NOT EXISTS quizzes_organization_status_idx
+  ON quizzes (organization_id, status);
+
+-- =============================================================================
+-- PART 2: QUESTION ORDER
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS questions_quiz_order_idx
+  ON questions (quiz_id, "order");
+
+COMMIT;
@@ -0,0 +1,425 @@
+-- =============================================================================
+-- TRANSACTIONAL QUIZ SAVES
+-- =============================================================================
+
+-- Quizzes and their questions are written by a single function call so a
+-- failure part way through rolls the whole save back instead of leaving an
+-- empty or half-updated quiz behind.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: HELPERS
+-- =============================================================================
+
+-- Raise an error the client can act on. The DETAIL carries a JSON object:
+--   {"reason": "forbidden" | "not_found" | "validation" | "invalid_data",
+--    "field": <column name, optional>,
+--    "question_index": <position in the submitted questions, optional>}
+CREATE OR REPLACE FUNCTION raise_quiz_error(
+  p_message TEXT,
+  p_details JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION USING MESSAGE = p_message, DETAIL = p_details::text;
+END;
+$$;
+
+-- Lock and return a quiz the current user may edit, or raise
+CREATE OR REPLACE FUNCTION lock_editable_quiz(
+  p_quiz_id UUID
+)
+RETURNS quizzes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(auth.uid()) THEN
+    PERFORM raise_quiz_error('Quiz not found', jsonb_build_object('reason', 'not_found'));
+  END IF;
+
+  RETURN v_quiz;
+END;
+$$;
+
+-- A quiz row with its questions in display order, as the client expects it
+CREATE OR REPLACE FUNCTION quiz_with_questions(
+  p_quiz_id UUID
+)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    to_jsonb(q) || jsonb_build_object(
+      'questions',
+      COALESCE(
+        (SELECT jsonb_agg(to_jsonb(qu) ORDER BY qu."order")
+         FROM questions qu
+         WHERE qu.quiz_id = q.id),
+        '[]'::jsonb
+      )
+    )
+  )::json
+  FROM quizzes q
+  WHERE q.id = p_quiz_id;
+$$;
+
+-- =============================================================================
+-- PART 2: SAVE QUIZ
+-- =============================================================================
+
+-- Create (p_quiz_id NULL) or update a quiz together with its questions.
+--   p_quiz:      quiz columns to set; NULL leaves an existing quiz unchanged
+--   p_questions: questions to write; entries with an id are updated, others
+--                are inserted. NULL leaves the questions unchanged.
+--   p_replace_questions: delete existing questions missing from p_questions
+CREATE OR REPLACE FUNCTION save_quiz(
+  p_quiz_id UUID,
+  p_quiz JSONB,
+  p_questions JSONB,
+  p_replace_questions BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes;
+  v_fields JSONB;
+  v_element JSONB;
+  v_question questions;
+  v_index INTEGER;
+  v_kept_ids UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can edit quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  -- Columns the client may not set directly
+  v_fields := COALESCE(p_quiz, '{}'::jsonb) - 'id' - 'organization_id' - 'created_at' - 'updated_at';
+
+  IF p_quiz_id IS NULL THEN
+    IF p_quiz IS NULL THEN
+      PERFORM raise_quiz_error(
+        'Quiz details are required',
+        jsonb_build_object('reason', 'validation', 'field', 'quiz')
+      );
+    END IF;
+
+    v_quiz := jsonb_populate_record(NULL::quizzes, v_fields);
+
+    INSERT INTO quizzes (
+      title,
+      description,
+      category_id,
+      organization_id,
+      region_id,
+      scope,
+      pending_approval,
+      status,
+      passing_score,
+      time_limit
+    )
+    VALUES (
+      v_quiz.title,
+      v_quiz.description,
+      v_quiz.category_id,
+      get_user_organization_direct(v_user_id),
+      v_quiz.region_id,
+      COALESCE(v_quiz.scope, 'global'),
+      COALESCE(v_quiz.pending_approval, false),
+      COALESCE(v_quiz.status, 'draft'),
+      COALESCE(v_quiz.passing_score, 70),
+      v_quiz.time_limit
+    )
+    RETURNING * INTO v_quiz;
+  ELSE
+    v_quiz := lock_editable_quiz(p_quiz_id);
+
+    IF p_quiz IS NOT NULL THEN
+      v_quiz := jsonb_populate_record(v_quiz, v_fields);
+
+      UPDATE quizzes
+      SET title = v_quiz.title,
+          description = v_quiz.description,
+          category_id = v_quiz.category_id,
+          region_id = v_quiz.region_id,
+          scope = v_quiz.scope,
+          pending_approval = v_quiz.pending_approval,
+          status = v_quiz.status,
+          passing_score = v_quiz.passing_score,
+          time_limit = v_quiz.time_limit,
+          updated_at = now()
+      WHERE id = p_quiz_id
+      RETURNING * INTO v_quiz;
+    END IF;
+  END IF;
+
+  IF coalesce(trim(v_quiz.title), '') = '' THEN
+    PERFORM raise_quiz_error(
+      'Title is required',
+      jsonb_build_object('reason', 'validation', 'field', 'title')
+    );
+  END IF;
+
+  IF p_questions IS NOT NULL THEN
+    IF jsonb_typeof(p_questions) <> 'array' THEN
+      PERFORM raise_quiz_error(
+        'Questions must be a list',
+        jsonb_build_object('reason', 'validation', 'field', 'questions')
+      );
+    END IF;
+
+    FOR v_element, v_index IN
+      SELECT value, (ordinality - 1)::integer
+      FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+    LOOP
+      v_question := jsonb_populate_record(NULL::questions, v_element - 'quiz_id');
+
+      IF COALESCE(v_question.question_type, 'multiple_choice') NOT IN (
+        'multiple_choice', 'true_false', 'multi_select', 'short_answer', 'ordering', 'matching'
+      ) THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has an unknown type', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'question_type',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.correct_answer IS NULL THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has no correct answer', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'correct_answer',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.id IS NOT NULL THEN
+        UPDATE questions
+        SET question_text = v_question.question_text,
+            question_type = COALESCE(v_question.question_type, 'multiple_choice'),
+            choices = v_question.choices,
+            correct_answer = v_question.correct_answer,
+            explanation = v_question.explanation,
+            points = COALESCE(v_question.points, 1),
+            "order" = COALESCE(v_question."order", v_index),
+            updated_at = now()
+        WHERE id = v_question.id
+        AND quiz_id = v_quiz.id;
+
+        IF NOT FOUND THEN
+          PERFORM raise_quiz_error(
+            format('Question %s does not belong to this quiz', v_index + 1),
+            jsonb_build_object('reason', 'not_found', 'question_index', v_index)
+          );
+        END IF;
+      ELSE
+        INSERT INTO questions (
+          quiz_id,
+          question_text,
+          question_type,
+          choices,
+          correct_answer,
+          explanation,
+          points,
+          "order"
+        )
+        VALUES (
+          v_quiz.id,
+          v_question.question_text,
+          COALESCE(v_question.question_type, 'multiple_choice'),
+          v_question.choices,
+          v_question.correct_answer,
+          v_question.explanation,
+          COALESCE(v_question.points, 1),
+          COALESCE(v_question."order", v_index)
+        )
+        RETURNING id INTO v_question.id;
+      END IF;
+
+      v_kept_ids := v_kept_ids || v_question.id;
+    END LOOP;
+
+    IF p_replace_questions THEN
+      DELETE FROM questions
+      WHERE quiz_id = v_quiz.id
+      AND id <> ALL (v_kept_ids);
+    END IF;
+  END IF;
+
+  IF v_quiz.status = 'published'
+    AND NOT EXISTS (SELECT 1 FROM questions WHERE quiz_id = v_quiz.id) THEN
+    PERFORM raise_quiz_error(
+      'Add at least one question before publishing',
+      jsonb_build_object('reason', 'validation', 'field', 'questions')
+    );
+  END IF;
+
+  RETURN quiz_with_questions(v_quiz.id);
+EXCEPTION
+  -- Constraint failures roll everything back; report them in the same shape
+  WHEN check_violation OR not_null_violation OR foreign_key_violation
+    OR invalid_text_representation THEN
+    PERFORM raise_quiz_error(
+      SQLERRM,
+      jsonb_build_object('reason', 'invalid_data', 'question_index', v_index)
+    );
+END;
+$$;
+
+-- =============================================================================
+-- PART 3: CLONE AND REORDER
+-- =============================================================================
+
+-- Copy a quiz and all of its questions into a new draft
+CREATE OR REPLACE FUNCTION clone_quiz(
+  p_quiz_id UUID,
+  p_title TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source quizzes;
+  v_quiz quizzes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can copy quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  v_source := lock_editable_quiz(p_quiz_id);
+
+  INSERT INTO quizzes (
+    title,
+    description,
+    category_id,
+    organization_id,
+    region_id,
+    scope,
+    pending_approval,
+    status,
+    passing_score,
+    time_limit
+  )
+  VALUES (
+    COALESCE(NULLIF(trim(p_title), ''), 'Copy of ' || v_source.title),
+    v_source.description,
+    v_source.category_id,
+    v_source.organization_id,
+    v_source.region_id,
+    v_source.scope,
+    false,
+    'draft',
+    v_source.passing_score,
+    v_source.time_limit
+  )
+  RETURNING * INTO v_quiz;
+
+  INSERT INTO questions (
+    quiz_id,
+    question_text,
+    question_type,
+    choices,
+    correct_answer,
+    explanation,
+    points,
+    "order"
+  )
+  SELECT
+    v_quiz.id,
+    question_text,
+    question_type,
+    choices,
+    correct_answer,
+    explanation,
+    points,
+    "order"
+  FROM questions
+  WHERE quiz_id = v_source.id;
+
+  RETURN quiz_with_questions(v_quiz.id);
+END;
+$$;
+
+-- Set the display order of a quiz's questions in one statement
+CREATE OR REPLACE FUNCTION reorder_quiz_questions(
+  p_quiz_id UUID,
+  p_question_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can edit quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  PERFORM lock_editable_quiz(p_quiz_id);
+
+  UPDATE questions q
+  SET "order" = ids.position - 1,
+      updated_at = now()
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE q.id = ids.id
+  AND q.quiz_id = p_quiz_id;
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION raise_quiz_error(TEXT, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION lock_editable_quiz(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION quiz_with_questions(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_quiz(UUID, JSONB, JSONB, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION clone_quiz(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reorder_quiz_questions(UUID, UUID[]) TO authenticated;
+
+COMMIT;
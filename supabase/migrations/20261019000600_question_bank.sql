@@ -0,0 +1,849 @@
+-- =============================================================================
+-- QUESTION BANK AND RANDOMIZED QUESTION POOLS
+-- =============================================================================
+
+-- Questions can now live in a category's question bank (quiz_id NULL) and be
+-- shared by many quizzes. A quiz lists pools to draw random questions from,
+-- and each attempt records the questions and choice order it was served so
+-- grading and review always refer to what the learner actually saw.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: SCHEMA
+-- =============================================================================
+
+ALTER TABLE questions
+  ALTER COLUMN quiz_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES quiz_categories(id) ON DELETE CASCADE;
+
+-- A question belongs to exactly one quiz or one question bank
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_owner_check;
+ALTER TABLE questions
+  ADD CONSTRAINT questions_owner_check CHECK ((quiz_id IS NULL) <> (category_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS questions_bank_category_idx
+  ON questions (category_id)
+  WHERE quiz_id IS NULL;
+
+-- [{"category_id": <uuid>, "draw_count": <n>}, ...]
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS question_pools JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS shuffle_choices BOOLEAN NOT NULL DEFAULT false;
+
+-- [{"question_id": <uuid>, "choice_order": [<index>, ...] | null}, ...]
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS served_questions JSONB;
+
+-- =============================================================================
+-- PART 2: QUESTION BANK POLICIES
+-- =============================================================================
+
+DROP POLICY IF EXISTS "questions_bank_read" ON questions;
+DROP POLICY IF EXISTS "questions_bank_manage" ON questions;
+
+-- Bank questions hold their answers, so only their editors read them directly;
+-- learners get the questions they were served from get_attempt_questions
+CREATE POLICY "questions_bank_read" ON questions
+  FOR SELECT
+  USING (
+    quiz_id IS NULL
+    AND (is_org_admin_direct() OR is_super_admin_direct())
+    AND category_id IN (
+      SELECT id FROM quiz_categories
+      WHERE organization_id = get_user_organization_direct(auth.uid())
+    )
+  );
+
+-- The bank is shared by every region's quizzes, so only organization admins
+-- edit it (the manage_question_bank capability in the app)
+CREATE POLICY "questions_bank_manage" ON questions
+  FOR ALL
+  USING (
+    quiz_id IS NULL
+    AND (is_org_admin_direct() OR is_super_admin_direct())
+    AND category_id IN (
+      SELECT id FROM quiz_categories
+      WHERE organization_id = get_user_organization_direct(auth.uid())
+    )
+  )
+  WITH CHECK (
+    quiz_id IS NULL
+    AND (is_org_admin_direct() OR is_super_admin_direct())
+    AND category_id IN (
+      SELECT id FROM quiz_categories
+      WHERE organization_id = get_user_organization_direct(auth.uid())
+    )
+  );
+
+-- How many questions each of the organization's question banks holds, for
+-- sizing pools; counted here so authors who cannot read the bank still see it
+CREATE OR REPLACE FUNCTION get_bank_question_counts()
+RETURNS TABLE (category_id UUID, question_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.category_id, count(*)::integer
+  FROM questions q
+  JOIN quiz_categories c ON c.id = q.category_id
+  WHERE q.quiz_id IS NULL
+  AND c.organization_id = get_user_organization_direct(auth.uid())
+  GROUP BY q.category_id;
+$$;
+
+-- =============================================================================
+-- PART 3: SERVING QUESTIONS
+-- =============================================================================
+
+-- Display order for a question's choices in one attempt, or NULL to show them
+-- as authored. Ordering questions are always scrambled since their display
+-- order is the starting arrangement the learner has to fix.
+CREATE OR REPLACE FUNCTION served_choice_order(
+  p_question_type TEXT,
+  p_choice_count INTEGER,
+  p_shuffle BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_order JSONB;
+BEGIN
+  IF p_choice_count < 2 THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_question_type = 'ordering'
+    OR (p_shuffle AND p_question_type IN ('multiple_choice', 'multi_select')) THEN
+    SELECT jsonb_agg(i ORDER BY random()) INTO v_order
+    FROM generate_series(0, p_choice_count - 1) AS i;
+
+    -- Never hand out an ordering question already in the right order
+    IF p_question_type = 'ordering' AND v_order = (
+      SELECT jsonb_agg(i ORDER BY i) FROM generate_series(0, p_choice_count - 1) AS i
+    ) THEN
+      SELECT jsonb_agg(i ORDER BY i DESC) INTO v_order
+      FROM generate_series(0, p_choice_count - 1) AS i;
+    END IF;
+
+    RETURN v_order;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Pick the questions for a new attempt: the quiz's own questions in order,
+-- followed by random draws from each of its question bank pools.
+CREATE OR REPLACE FUNCTION draw_quiz_questions(
+  p_quiz_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+  v_pool RECORD;
+  v_question RECORD;
+  v_drawn UUID[] := '{}';
+  v_served JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  FOR v_question IN
+    SELECT id, question_type, choices
+    FROM questions
+    WHERE quiz_id = p_quiz_id
+    ORDER BY "order"
+  LOOP
+    v_served := v_served || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'choice_order', served_choice_order(
+        v_question.question_type,
+        jsonb_array_length(to_jsonb(v_question.choices)),
+        v_quiz.shuffle_choices
+      )
+    ));
+  END LOOP;
+
+  FOR v_pool IN
+    SELECT category_id, draw_count
+    FROM jsonb_to_recordset(v_quiz.question_pools) AS p(category_id UUID, draw_count INTEGER)
+  LOOP
+    FOR v_question IN
+      SELECT id, question_type, choices
+      FROM questions
+      WHERE category_id = v_pool.category_id
+      AND quiz_id IS NULL
+      AND id <> ALL (v_drawn)
+      ORDER BY random()
+      LIMIT GREATEST(v_pool.draw_count, 0)
+    LOOP
+      v_drawn := v_drawn || v_question.id;
+      v_served := v_served || jsonb_build_array(jsonb_build_object(
+        'question_id', v_question.id,
+        'choice_order', served_choice_order(
+          v_question.question_type,
+          jsonb_array_length(to_jsonb(v_question.choices)),
+          v_quiz.shuffle_choices
+        )
+      ));
+    END LOOP;
+  END LOOP;
+
+  RETURN v_served;
+END;
+$$;
+
+-- The questions served in one of the current user's attempts, in the order
+-- they were served. Answers and explanations are only included once the
+-- attempt has been submitted; until then matching questions list the items
+-- their prompts can be matched against instead.
+CREATE OR REPLACE FUNCTION get_attempt_questions(p_attempt_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts;
+  v_served JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+  AND user_id = auth.uid();
+
+  IF v_attempt.id IS NULL THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+
+  -- Attempts from before question pools were served all of the quiz's questions
+  v_served := COALESCE(v_attempt.served_questions, (
+    SELECT COALESCE(
+      jsonb_agg(jsonb_build_object('question_id', id, 'choice_order', NULL) ORDER BY "order"),
+      '[]'::jsonb
+    )
+    FROM questions
+    WHERE quiz_id = v_attempt.quiz_id
+  ));
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(
+      CASE
+        WHEN v_attempt.completed_at IS NOT NULL THEN to_jsonb(q)
+        ELSE to_jsonb(q) - 'correct_answer' - 'explanation'
+      END || jsonb_build_object(
+        'choice_order', s.item -> 'choice_order',
+        'matching_options', CASE WHEN q.question_type = 'matching' THEN (
+          SELECT jsonb_agg(DISTINCT m.value ORDER BY m.value)
+          FROM jsonb_array_elements_text(q.correct_answer) AS m(value)
+          WHERE m.value <> ''
+        ) END
+      )
+      ORDER BY s.position
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(v_served) WITH ORDINALITY AS s(item, position)
+    JOIN questions q ON q.id = (s.item ->> 'question_id')::uuid
+  );
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: SCORING
+-- =============================================================================
+
+-- Scoring now works from the list of questions an attempt was served rather
+-- than every question attached to the quiz.
+DROP FUNCTION IF EXISTS score_quiz_answers(UUID, JSONB);
+
+-- Score answers against the given questions without recording anything.
+-- Returns {"score": <0-100>, "results": {<question_id>: {...}}}.
+CREATE OR REPLACE FUNCTION score_served_answers(
+  p_question_ids UUID[],
+  p_answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question RECORD;
+  v_fraction NUMERIC;
+  v_awarded NUMERIC;
+  v_total_points NUMERIC := 0;
+  v_earned_points NUMERIC := 0;
+  v_score INTEGER := 0;
+  v_results JSONB := '{}'::jsonb;
+BEGIN
+  FOR v_question IN
+    SELECT id, question_type, correct_answer, points
+    FROM questions
+    WHERE id = ANY (p_question_ids)
+  LOOP
+    v_fraction := score_question(
+      v_question.question_type,
+      v_question.correct_answer,
+      COALESCE(p_answers, '{}'::jsonb) -> v_question.id::text
+    );
+    v_awarded := round(v_fraction * v_question.points, 2);
+
+    v_total_points := v_total_points + v_question.points;
+    v_earned_points := v_earned_points + v_awarded;
+
+    v_results := v_results || jsonb_build_object(
+      v_question.id::text,
+      jsonb_build_object(
+        'correct', v_fraction >= 1,
+        'points_awarded', v_awarded,
+        'points_possible', v_question.points
+      )
+    );
+  END LOOP;
+
+  IF v_total_points > 0 THEN
+    v_score := round(v_earned_points * 100.0 / v_total_points);
+  END IF;
+
+  RETURN jsonb_build_object('score', v_score, 'results', v_results);
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: START ATTEMPT
+-- =============================================================================
+
+-- Start (or resume) the current user's attempt at a quiz. The deadline and the
+-- served questions are fixed here so they survive page refreshes.
+CREATE OR REPLACE FUNCTION start_quiz_attempt(
+  p_quiz_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_grace INTERVAL := interval '30 seconds';
+  v_quiz RECORD;
+  v_attempt RECORD;
+  v_resume BOOLEAN;
+  v_served JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, time_limit INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Quiz does not belong to your organization';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id
+  AND quiz_id = p_quiz_id
+  AND completed_at IS NULL
+  FOR UPDATE;
+
+  v_resume := FOUND;
+
+  -- Close out an abandoned attempt whose deadline has passed
+  IF v_resume
+    AND v_attempt.expires_at IS NOT NULL
+    AND v_attempt.expires_at + v_grace < now() THEN
+    UPDATE quiz_attempts
+    SET score = 0,
+        passed = false,
+        completed_at = v_attempt.expires_at,
+        updated_at = now()
+    WHERE id = v_attempt.id;
+
+    v_resume := false;
+  END IF;
+
+  IF NOT v_resume THEN
+    v_served := draw_quiz_questions(p_quiz_id);
+
+    IF jsonb_array_length(v_served) = 0 THEN
+      RAISE EXCEPTION 'This quiz does not have any questions yet';
+    END IF;
+
+    INSERT INTO quiz_attempts (
+      quiz_id,
+      user_id,
+      score,
+      passed,
+      answers,
+      served_questions,
+      started_at,
+      expires_at,
+      created_at,
+      updated_at
+    )
+    VALUES (
+      p_quiz_id,
+      v_user_id,
+      0,
+      false,
+      '{}'::jsonb,
+      v_served,
+      now(),
+      CASE
+        WHEN v_quiz.time_limit IS NULL THEN NULL
+        ELSE now() + make_interval(secs => v_quiz.time_limit)
+      END,
+      now(),
+      now()
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN json_build_object(
+    'attempt', row_to_json(v_attempt),
+    'server_time', now()
+  );
+END;
+$$;
+
+-- =============================================================================
+-- PART 6: GRADE ATTEMPT
+-- =============================================================================
+
+-- Grade the current user's open attempt against the questions it was served.
+-- Every attempt must now be started with start_quiz_attempt so that its
+-- questions are drawn up front, and answers are rejected once the deadline
+-- plus a short grace window for network latency has passed.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_grace INTERVAL := interval '30 seconds';
+  v_quiz RECORD;
+  v_open_attempt RECORD;
+  v_question_ids UUID[];
+  v_grade JSONB;
+  v_score INTEGER;
+  v_attempt RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, organization_id, passing_score INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Quiz does not belong to your organization';
+  END IF;
+
+  SELECT * INTO v_open_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id
+  AND quiz_id = p_quiz_id
+  AND completed_at IS NULL
+  FOR UPDATE;
+
+  IF v_open_attempt.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz attempt has not been started';
+  END IF;
+
+  IF v_open_attempt.expires_at IS NOT NULL AND v_open_attempt.expires_at + v_grace < now() THEN
+    RAISE EXCEPTION 'Time limit exceeded';
+  END IF;
+
+  -- Attempts started before question pools existed were served every question
+  IF v_open_attempt.served_questions IS NULL THEN
+    SELECT array_agg(id) INTO v_question_ids
+    FROM questions
+    WHERE quiz_id = p_quiz_id;
+  ELSE
+    SELECT array_agg((served ->> 'question_id')::uuid) INTO v_question_ids
+    FROM jsonb_array_elements(v_open_attempt.served_questions) AS served;
+  END IF;
+
+  p_answers := COALESCE(p_answers, '{}'::jsonb);
+  v_grade := score_served_answers(COALESCE(v_question_ids, '{}'), p_answers);
+  v_score := (v_grade ->> 'score')::integer;
+
+  UPDATE quiz_attempts
+  SET score = v_score,
+      passed = v_score >= v_quiz.passing_score,
+      answers = p_answers,
+      question_results = v_grade -> 'results',
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = v_open_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN row_to_json(v_attempt);
+END;
+$$;
+
+-- =============================================================================
+-- PART 7: SAVING AND COPYING QUIZZES WITH POOLS
+-- =============================================================================
+
+-- Create (p_quiz_id NULL) or update a quiz together with its questions.
+--   p_quiz:      quiz columns to set; NULL leaves an existing quiz unchanged
+--   p_questions: questions to write; entries with an id are updated, others
+--                are inserted. NULL leaves the questions unchanged.
+--   p_replace_questions: delete existing questions missing from p_questions
+CREATE OR REPLACE FUNCTION save_quiz(
+  p_quiz_id UUID,
+  p_quiz JSONB,
+  p_questions JSONB,
+  p_replace_questions BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes;
+  v_fields JSONB;
+  v_element JSONB;
+  v_question questions;
+  v_index INTEGER;
+  v_kept_ids UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can edit quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  -- Columns the client may not set directly
+  v_fields := COALESCE(p_quiz, '{}'::jsonb) - 'id' - 'organization_id' - 'created_at' - 'updated_at';
+
+  IF p_quiz_id IS NULL THEN
+    IF p_quiz IS NULL THEN
+      PERFORM raise_quiz_error(
+        'Quiz details are required',
+        jsonb_build_object('reason', 'validation', 'field', 'quiz')
+      );
+    END IF;
+
+    v_quiz := jsonb_populate_record(NULL::quizzes, v_fields);
+
+    INSERT INTO quizzes (
+      title,
+      description,
+      category_id,
+      organization_id,
+      region_id,
+      scope,
+      pending_approval,
+      status,
+      passing_score,
+      time_limit,
+      question_pools,
+      shuffle_choices
+    )
+    VALUES (
+      v_quiz.title,
+      v_quiz.description,
+      v_quiz.category_id,
+      get_user_organization_direct(v_user_id),
+      v_quiz.region_id,
+      COALESCE(v_quiz.scope, 'global'),
+      COALESCE(v_quiz.pending_approval, false),
+      COALESCE(v_quiz.status, 'draft'),
+      COALESCE(v_quiz.passing_score, 70),
+      v_quiz.time_limit,
+      COALESCE(v_quiz.question_pools, '[]'::jsonb),
+      COALESCE(v_quiz.shuffle_choices, false)
+    )
+    RETURNING * INTO v_quiz;
+  ELSE
+    v_quiz := lock_editable_quiz(p_quiz_id);
+
+    IF p_quiz IS NOT NULL THEN
+      v_quiz := jsonb_populate_record(v_quiz, v_fields);
+
+      UPDATE quizzes
+      SET title = v_quiz.title,
+          description = v_quiz.description,
+          category_id = v_quiz.category_id,
+          region_id = v_quiz.region_id,
+          scope = v_quiz.scope,
+          pending_approval = v_quiz.pending_approval,
+          status = v_quiz.status,
+          passing_score = v_quiz.passing_score,
+          time_limit = v_quiz.time_limit,
+          question_pools = v_quiz.question_pools,
+          shuffle_choices = v_quiz.shuffle_choices,
+          updated_at = now()
+      WHERE id = p_quiz_id
+      RETURNING * INTO v_quiz;
+    END IF;
+  END IF;
+
+  IF coalesce(trim(v_quiz.title), '') = '' THEN
+    PERFORM raise_quiz_error(
+      'Title is required',
+      jsonb_build_object('reason', 'validation', 'field', 'title')
+    );
+  END IF;
+
+  IF jsonb_typeof(v_quiz.question_pools) <> 'array' OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_quiz.question_pools) AS p(category_id UUID, draw_count INTEGER)
+    LEFT JOIN quiz_categories c ON c.id = p.category_id
+    WHERE p.draw_count IS NULL
+    OR p.draw_count < 1
+    OR c.organization_id IS DISTINCT FROM v_quiz.organization_id
+  ) THEN
+    PERFORM raise_quiz_error(
+      'Each question pool needs a category and a draw count of at least one',
+      jsonb_build_object('reason', 'validation', 'field', 'question_pools')
+    );
+  END IF;
+
+  IF p_questions IS NOT NULL THEN
+    IF jsonb_typeof(p_questions) <> 'array' THEN
+      PERFORM raise_quiz_error(
+        'Questions must be a list',
+        jsonb_build_object('reason', 'validation', 'field', 'questions')
+      );
+    END IF;
+
+    FOR v_element, v_index IN
+      SELECT value, (ordinality - 1)::integer
+      FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+    LOOP
+      v_question := jsonb_populate_record(NULL::questions, v_element - 'quiz_id');
+
+      IF COALESCE(v_question.question_type, 'multiple_choice') NOT IN (
+        'multiple_choice', 'true_false', 'multi_select', 'short_answer', 'ordering', 'matching'
+      ) THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has an unknown type', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'question_type',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.correct_answer IS NULL THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has no correct answer', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'correct_answer',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.id IS NOT NULL THEN
+        UPDATE questions
+        SET question_text = v_question.question_text,
+            question_type = COALESCE(v_question.question_type, 'multiple_choice'),
+            choices = v_question.choices,
+            correct_answer = v_question.correct_answer,
+            explanation = v_question.explanation,
+            points = COALESCE(v_question.points, 1),
+            "order" = COALESCE(v_question."order", v_index),
+            updated_at = now()
+        WHERE id = v_question.id
+        AND quiz_id = v_quiz.id;
+
+        IF NOT FOUND THEN
+          PERFORM raise_quiz_error(
+            format('Question %s does not belong to this quiz', v_index + 1),
+            jsonb_build_object('reason', 'not_found', 'question_index', v_index)
+          );
+        END IF;
+      ELSE
+        INSERT INTO questions (
+          quiz_id,
+          question_text,
+          question_type,
+          choices,
+          correct_answer,
+          explanation,
+          points,
+          "order"
+        )
+        VALUES (
+          v_quiz.id,
+          v_question.question_text,
+          COALESCE(v_question.question_type, 'multiple_choice'),
+          v_question.choices,
+          v_question.correct_answer,
+          v_question.explanation,
+          COALESCE(v_question.points, 1),
+          COALESCE(v_question."order", v_index)
+        )
+        RETURNING id INTO v_question.id;
+      END IF;
+
+      v_kept_ids := v_kept_ids || v_question.id;
+    END LOOP;
+
+    IF p_replace_questions THEN
+      DELETE FROM questions
+      WHERE quiz_id = v_quiz.id
+      AND id <> ALL (v_kept_ids);
+    END IF;
+  END IF;
+
+  IF v_quiz.status = 'published'
+    AND jsonb_array_length(v_quiz.question_pools) = 0
+    AND NOT EXISTS (SELECT 1 FROM questions WHERE quiz_id = v_quiz.id) THEN
+    PERFORM raise_quiz_error(
+      'Add at least one question before publishing',
+      jsonb_build_object('reason', 'validation', 'field', 'questions')
+    );
+  END IF;
+
+  RETURN quiz_with_questions(v_quiz.id);
+EXCEPTION
+  -- Constraint failures roll everything back; report them in the same shape
+  WHEN check_violation OR not_null_violation OR foreign_key_violation
+    OR invalid_text_representation THEN
+    PERFORM raise_quiz_error(
+      SQLERRM,
+      jsonb_build_object('reason', 'invalid_data', 'question_index', v_index)
+    );
+END;
+$$;
+
+-- Copy a quiz, its questions and its question pools into a new draft
+CREATE OR REPLACE FUNCTION clone_quiz(
+  p_quiz_id UUID,
+  p_title TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source quizzes;
+  v_quiz quizzes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can copy quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  v_source := lock_editable_quiz(p_quiz_id);
+
+  INSERT INTO quizzes (
+    title,
+    description,
+    category_id,
+    organization_id,
+    region_id,
+    scope,
+    pending_approval,
+    status,
+    passing_score,
+    time_limit,
+    question_pools,
+    shuffle_choices
+  )
+  VALUES (
+    COALESCE(NULLIF(trim(p_title), ''), 'Copy of ' || v_source.title),
+    v_source.description,
+    v_source.category_id,
+    v_source.organization_id,
+    v_source.region_id,
+    v_source.scope,
+    false,
+    'draft',
+    v_source.passing_score,
+    v_source.time_limit,
+    v_source.question_pools,
+    v_source.shuffle_choices
+  )
+  RETURNING * INTO v_quiz;
+
+  INSERT INTO questions (
+    quiz_id,
+    question_text,
+    question_type,
+    choices,
+    correct_answer,
+    explanation,
+    points,
+    "order"
+  )
+  SELECT
+    v_quiz.id,
+    question_text,
+    question_type,
+    choices,
+    correct_answer,
+    explanation,
+    points,
+    "order"
+  FROM questions
+  WHERE quiz_id = v_source.id;
+
+  RETURN quiz_with_questions(v_quiz.id);
+END;
+$$;
+
+-- =============================================================================
+-- PART 8: GRANT PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION served_choice_order(TEXT, INTEGER, BOOLEAN) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION draw_quiz_questions(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION score_served_answers(UUID[], JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_bank_question_counts() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attempt_questions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION grade_quiz_attempt(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_quiz(UUID, JSONB, JSONB, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION clone_quiz(UUID, TEXT) TO authenticated;
+
+COMMIT;
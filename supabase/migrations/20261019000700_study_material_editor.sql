@@ -0,0 +1,61 @@
+-- =============================================================================
+-- STUDY MATERIAL AUTHORING
+-- =============================================================================
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: PUBLISH STATUS
+-- =============================================================================
+
+-- Existing materials were already visible to learners, so they start out
+-- published; materials created from now on start as drafts.
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published';
+
+ALTER TABLE study_materials ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE study_materials DROP CONSTRAINT IF EXISTS study_materials_status_check;
+ALTER TABLE study_materials
+  ADD CONSTRAINT study_materials_status_check CHECK (status IN ('draft', 'published'));
+
+-- =============================================================================
+-- PART 2: STORAGE BUCKET FOR IMAGES AND ATTACHMENTS
+-- =============================================================================
+
+-- Files are stored under <organization_id>/ and are publicly readable so they
+-- can be embedded in rendered material.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('study-materials', 'study-materials', true, 20971520)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit;
+
+DROP POLICY IF EXISTS "study_materials_files_read" ON storage.objects;
+DROP POLICY IF EXISTS "study_materials_files_insert" ON storage.objects;
+DROP POLICY IF EXISTS "study_materials_files_delete" ON storage.objects;
+
+CREATE POLICY "study_materials_files_read" ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'study-materials');
+
+CREATE POLICY "study_materials_files_insert" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'study-materials'
+    AND (is_org_admin_direct() OR is_super_admin_direct())
+    AND (storage.foldername(name))[1] = get_user_organization_direct(auth.uid())::text
+  );
+
+CREATE POLICY "study_materials_files_delete" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'study-materials'
+    AND (is_org_admin_direct() OR is_super_admin_direct())
+    AND (storage.foldername(name))[1] = get_user_organization_direct(auth.uid())::text
+  );
+
+COMMIT;
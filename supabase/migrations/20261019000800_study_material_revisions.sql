@@ -0,0 +1,168 @@
+-- =============================================================================
+-- STUDY MATERIAL REVISION HISTORY
+-- =============================================================================
+
+-- Every change to a study material's title or content is snapshotted into
+-- study_material_revisions by a trigger, so edits made through any client are
+-- recorded. Restoring an old revision writes a new revision on top instead of
+-- rewriting history.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: REVISIONS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS study_material_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id UUID NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  restored_from UUID REFERENCES study_material_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (material_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_material_revisions_material
+  ON study_material_revisions(material_id, revision_number DESC);
+
+ALTER TABLE study_material_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only written by the trigger below; admins can read the
+-- history of their organization's materials
+DROP POLICY IF EXISTS "study_material_revisions_read" ON study_material_revisions;
+CREATE POLICY "study_material_revisions_read" ON study_material_revisions
+  FOR SELECT
+  USING (
+    (is_org_admin_direct() OR is_super_admin_direct())
+    AND material_id IN (
+      SELECT id FROM study_materials
+      WHERE organization_id = get_user_organization_direct(auth.uid())
+    )
+  );
+
+-- Existing materials start their history from their current content
+INSERT INTO study_material_revisions (material_id, revision_number, title, content, created_at, updated_at)
+SELECT m.id, 1, m.title, m.content, m.updated_at, m.updated_at
+FROM study_materials m
+WHERE NOT EXISTS (
+  SELECT 1 FROM study_material_revisions r WHERE r.material_id = m.id
+);
+
+-- =============================================================================
+-- PART 2: RECORD REVISIONS
+-- =============================================================================
+
+-- Every save that changes the title or content gets its own revision, so an
+-- earlier version can always be restored even after a quick follow-up edit.
+CREATE OR REPLACE FUNCTION record_study_material_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest study_material_revisions;
+  v_restored_from UUID := NULLIF(current_setting('app.restored_revision_id', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locked so concurrent saves cannot take the same revision number
+  SELECT * INTO v_latest
+  FROM study_material_revisions
+  WHERE material_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  INSERT INTO study_material_revisions (
+    material_id,
+    revision_number,
+    title,
+    content,
+    created_by,
+    restored_from
+  )
+  VALUES (
+    NEW.id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    NEW.title,
+    NEW.content,
+    auth.uid(),
+    v_restored_from
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS study_materials_record_revision ON study_materials;
+CREATE TRIGGER study_materials_record_revision
+  AFTER INSERT OR UPDATE OF title, content ON study_materials
+  FOR EACH ROW
+  EXECUTE FUNCTION record_study_material_revision();
+
+-- =============================================================================
+-- PART 3: RESTORE
+-- =============================================================================
+
+-- Copy an old revision back onto its material. The trigger records this as a
+-- new revision pointing at the one it was restored from.
+CREATE OR REPLACE FUNCTION restore_study_material_revision(
+  p_revision_id UUID
+)
+RETURNS study_materials
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision study_material_revisions;
+  v_material study_materials;
+BEGIN
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    RAISE EXCEPTION 'Only administrators can restore study material revisions';
+  END IF;
+
+  SELECT r.* INTO v_revision
+  FROM study_material_revisions r
+  JOIN study_materials m ON m.id = r.material_id
+  WHERE r.id = p_revision_id
+    AND m.organization_id = get_user_organization_direct(auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.restored_revision_id', v_revision.id::text, true);
+
+  UPDATE study_materials
+  SET title = v_revision.title,
+      content = v_revision.content,
+      updated_at = NOW()
+  WHERE id = v_revision.material_id
+  RETURNING * INTO v_material;
+
+  PERFORM set_config('app.restored_revision_id', '', true);
+
+  RETURN v_material;
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON study_material_revisions TO authenticated;
+REVOKE EXECUTE ON FUNCTION record_study_material_revision() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_study_material_revision(UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,313 @@
+-- =============================================================================
+-- GLOBAL CONTENT APPROVAL WORKFLOW
+-- =============================================================================
+
+-- Regional quizzes and study materials can be submitted for promotion to
+-- global scope. Users who can manage global content approve or reject the
+-- submission; both the submitter and the reviewers are notified, and every
+-- decision is kept in content_approvals.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS content_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('quiz', 'study_material')),
+  content_id UUID NOT NULL,
+  -- Title and region at the time of submission, kept for the record
+  content_title TEXT NOT NULL,
+  region_id UUID REFERENCES regions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  submitted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  submission_note TEXT,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  review_comment TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_approvals_queue
+  ON content_approvals(organization_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_approvals_content
+  ON content_approvals(content_type, content_id, created_at DESC);
+
+-- Only one open submission per piece of content
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_approvals_one_pending
+  ON content_approvals(content_type, content_id)
+  WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- In-app path to open when the notification is clicked
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user
+  ON notifications(user_id, created_at DESC);
+
+-- =============================================================================
+-- PART 2: ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE content_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Approvals are written by the functions below; reviewers see the whole
+-- organization's queue and submitters see their own submissions
+DROP POLICY IF EXISTS "content_approvals_read" ON content_approvals;
+CREATE POLICY "content_approvals_read" ON content_approvals
+  FOR SELECT
+  USING (
+    organization_id = get_user_organization_direct(auth.uid())
+    AND (submitted_by = auth.uid() OR can_manage_global_content())
+  );
+
+DROP POLICY IF EXISTS "notifications_read_own" ON notifications;
+CREATE POLICY "notifications_read_own" ON notifications
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notifications_update_own" ON notifications;
+CREATE POLICY "notifications_update_own" ON notifications
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notifications_delete_own" ON notifications;
+CREATE POLICY "notifications_delete_own" ON notifications
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- =============================================================================
+-- PART 3: SUBMIT
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION content_link(
+  p_content_type TEXT,
+  p_content_id UUID
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_content_type
+    WHEN 'quiz' THEN '/quizzes/' || p_content_id
+    ELSE '/study/' || p_content_id
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_content_for_approval(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS content_approvals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_organization_id UUID;
+  v_region_id UUID;
+  v_scope TEXT;
+  v_status TEXT;
+  v_pending BOOLEAN;
+  v_title TEXT;
+  v_approval content_approvals;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_content_type = 'quiz' THEN
+    SELECT organization_id, region_id, scope::text, status, pending_approval, title
+    INTO v_organization_id, v_region_id, v_scope, v_status, v_pending, v_title
+    FROM quizzes
+    WHERE id = p_content_id
+    FOR UPDATE;
+  ELSIF p_content_type = 'study_material' THEN
+    SELECT organization_id, region_id, scope::text, status, pending_approval, title
+    INTO v_organization_id, v_region_id, v_scope, v_status, v_pending, v_title
+    FROM study_materials
+    WHERE id = p_content_id
+    FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Unknown content type: %', p_content_type;
+  END IF;
+
+  IF v_organization_id IS NULL
+    OR v_organization_id IS DISTINCT FROM get_user_organization_direct(v_user_id) THEN
+    RAISE EXCEPTION 'Content not found';
+  END IF;
+
+  IF NOT (
+    is_org_admin_direct()
+    OR is_super_admin_direct()
+    OR (v_region_id IS NOT NULL AND is_region_admin(v_user_id, v_region_id))
+  ) THEN
+    RAISE EXCEPTION 'Only administrators of this region can submit its content';
+  END IF;
+
+  IF v_scope <> 'regional' THEN
+    RAISE EXCEPTION 'Only regional content can be submitted for global approval';
+  END IF;
+  IF v_status <> 'published' THEN
+    RAISE EXCEPTION 'Publish the content before submitting it for global approval';
+  END IF;
+  IF v_pending THEN
+    RAISE EXCEPTION 'This content is already awaiting approval';
+  END IF;
+
+  IF p_content_type = 'quiz' THEN
+    UPDATE quizzes SET pending_approval = true, updated_at = NOW() WHERE id = p_content_id;
+  ELSE
+    UPDATE study_materials SET pending_approval = true, updated_at = NOW() WHERE id = p_content_id;
+  END IF;
+
+  INSERT INTO content_approvals (
+    organization_id,
+    content_type,
+    content_id,
+    content_title,
+    region_id,
+    submitted_by,
+    submission_note
+  )
+  VALUES (
+    v_organization_id,
+    p_content_type,
+    p_content_id,
+    v_title,
+    v_region_id,
+    v_user_id,
+    NULLIF(trim(p_note), '')
+  )
+  RETURNING * INTO v_approval;
+
+  -- Let the organization's reviewers know there is something to look at
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT
+    p.id,
+    'approval_requested',
+    'Approval requested',
+    format('"%s" was submitted for global approval', v_title),
+    '/approvals'
+  FROM profiles p
+  WHERE p.organization_id = v_organization_id
+    AND p.role IN ('admin', 'super_admin')
+    AND p.id <> v_user_id;
+
+  RETURN v_approval;
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: REVIEW
+-- =============================================================================
+
+-- Approving makes the content global; rejecting leaves it regional and
+-- requires a comment explaining why
+CREATE OR REPLACE FUNCTION review_content_approval(
+  p_approval_id UUID,
+  p_approve BOOLEAN,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS content_approvals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_approval content_approvals;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_manage_global_content() THEN
+    RAISE EXCEPTION 'You do not have permission to approve global content';
+  END IF;
+
+  SELECT * INTO v_approval
+  FROM content_approvals
+  WHERE id = p_approval_id
+    AND organization_id = get_user_organization_direct(v_user_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+  IF v_approval.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been reviewed';
+  END IF;
+  IF NOT p_approve AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required when rejecting content';
+  END IF;
+
+  IF v_approval.content_type = 'quiz' THEN
+    UPDATE quizzes
+    SET pending_approval = false,
+        scope = CASE WHEN p_approve THEN 'global' ELSE scope END,
+        region_id = CASE WHEN p_approve THEN NULL ELSE region_id END,
+        updated_at = NOW()
+    WHERE id = v_approval.content_id;
+  ELSE
+    UPDATE study_materials
+    SET pending_approval = false,
+        scope = CASE WHEN p_approve THEN 'global' ELSE scope END,
+        region_id = CASE WHEN p_approve THEN NULL ELSE region_id END,
+        updated_at = NOW()
+    WHERE id = v_approval.content_id;
+  END IF;
+
+  UPDATE content_approvals
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = v_user_id,
+      review_comment = NULLIF(trim(p_comment), ''),
+      reviewed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_approval_id
+  RETURNING * INTO v_approval;
+
+  IF v_approval.submitted_by IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, link)
+    VALUES (
+      v_approval.submitted_by,
+      CASE WHEN p_approve THEN 'approval_approved' ELSE 'approval_rejected' END,
+      CASE WHEN p_approve THEN 'Content approved' ELSE 'Content rejected' END,
+      CASE
+        WHEN p_approve THEN format('"%s" is now available across the organization', v_approval.content_title)
+        ELSE format('"%s" was not approved: %s', v_approval.content_title, v_approval.review_comment)
+      END,
+      content_link(v_approval.content_type, v_approval.content_id)
+    );
+  END IF;
+
+  RETURN v_approval;
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON content_approvals TO authenticated;
+GRANT SELECT, UPDATE, DELETE ON notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_content_for_approval(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_content_approval(UUID, BOOLEAN, TEXT) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,566 @@
+-- =============================================================================
+-- SCOPE-AWARE CONTENT VISIBILITY
+-- =============================================================================
+
+-- Quizzes and study materials are visible to:
+--   * organization and super admins: everything in their organization
+--   * region admins: everything in their own region, plus published global content
+--   * everyone else: published global content and published content for
+--     their own region, except items awaiting global approval
+-- Region admins may create and edit content for their own region only.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: HELPERS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION can_author_content()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_org_admin_direct()
+    OR is_super_admin_direct()
+    OR EXISTS (SELECT 1 FROM region_admins WHERE user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_content(
+  p_organization_id UUID,
+  p_region_id UUID,
+  p_scope TEXT,
+  p_status TEXT,
+  p_pending_approval BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organization_id = get_user_organization_direct(auth.uid())
+    AND (
+      is_org_admin_direct()
+      OR is_super_admin_direct()
+      OR (p_region_id IS NOT NULL AND is_region_admin_direct(p_region_id))
+      OR (
+        p_status = 'published'
+        AND NOT COALESCE(p_pending_approval, false)
+        AND (
+          p_scope = 'global'
+          OR p_region_id = get_user_region_direct(auth.uid())
+        )
+      )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_content(
+  p_organization_id UUID,
+  p_region_id UUID,
+  p_scope TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organization_id = get_user_organization_direct(auth.uid())
+    AND (
+      is_org_admin_direct()
+      OR is_super_admin_direct()
+      OR (
+        p_scope = 'regional'
+        AND p_region_id IS NOT NULL
+        AND is_region_admin_direct(p_region_id)
+      )
+    );
+$$;
+
+-- =============================================================================
+-- PART 2: DROP EXISTING CONTENT POLICIES
+-- =============================================================================
+
+DO $$
+DECLARE
+    policy_name text;
+BEGIN
+    FOR policy_name IN (
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public' AND tablename = 'quizzes'
+    )
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON quizzes', policy_name);
+    END LOOP;
+END $$;
+
+DO $$
+DECLARE
+    policy_name text;
+BEGIN
+    FOR policy_name IN (
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public' AND tablename = 'study_materials'
+    )
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON study_materials', policy_name);
+    END LOOP;
+END $$;
+
+-- =============================================================================
+-- PART 3: CONTENT POLICIES
+-- =============================================================================
+
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE study_materials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quizzes_read"
+ON quizzes
+FOR SELECT
+TO authenticated
+USING (
+  can_view_content(organization_id, region_id, scope::text, status, pending_approval)
+);
+
+CREATE POLICY "quizzes_manage"
+ON quizzes
+FOR ALL
+TO authenticated
+USING (can_edit_content(organization_id, region_id, scope::text))
+WITH CHECK (can_edit_content(organization_id, region_id, scope::text));
+
+CREATE POLICY "study_materials_read"
+ON study_materials
+FOR SELECT
+TO authenticated
+USING (
+  can_view_content(organization_id, region_id, scope::text, status, pending_approval)
+);
+
+CREATE POLICY "study_materials_manage"
+ON study_materials
+FOR ALL
+TO authenticated
+USING (can_edit_content(organization_id, region_id, scope::text))
+WITH CHECK (can_edit_content(organization_id, region_id, scope::text));
+
+-- Region admins author study materials too, so they may upload files and
+-- read the history of materials they can edit
+DROP POLICY IF EXISTS "study_materials_files_insert" ON storage.objects;
+CREATE POLICY "study_materials_files_insert" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'study-materials'
+    AND can_author_content()
+    AND (storage.foldername(name))[1] = get_user_organization_direct(auth.uid())::text
+  );
+
+DROP POLICY IF EXISTS "study_material_revisions_read" ON study_material_revisions;
+CREATE POLICY "study_material_revisions_read" ON study_material_revisions
+  FOR SELECT
+  USING (
+    material_id IN (
+      SELECT id FROM study_materials
+      WHERE can_edit_content(organization_id, region_id, scope::text)
+    )
+  );
+
+-- =============================================================================
+-- PART 4: QUIZ FUNCTIONS
+-- =============================================================================
+
+-- Lock and return a quiz the current user may edit, or raise
+CREATE OR REPLACE FUNCTION lock_editable_quiz(
+  p_quiz_id UUID
+)
+RETURNS quizzes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz quizzes;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_quiz.organization_id IS DISTINCT FROM get_user_organization_direct(auth.uid()) THEN
+    PERFORM raise_quiz_error('Quiz not found', jsonb_build_object('reason', 'not_found'));
+  END IF;
+
+  IF NOT can_edit_content(v_quiz.organization_id, v_quiz.region_id, v_quiz.scope::text) THEN
+    PERFORM raise_quiz_error(
+      'You can only edit quizzes for your own region',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  RETURN v_quiz;
+END;
+$$;
+
+-- Create (p_quiz_id NULL) or update a quiz together with its questions.
+--   p_quiz:      quiz columns to set; NULL leaves an existing quiz unchanged
+--   p_questions: questions to write; entries with an id are updated, others
+--                are inserted. NULL leaves the questions unchanged.
+--   p_replace_questions: delete existing questions missing from p_questions
+CREATE OR REPLACE FUNCTION save_quiz(
+  p_quiz_id UUID,
+  p_quiz JSONB,
+  p_questions JSONB,
+  p_replace_questions BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes;
+  v_fields JSONB;
+  v_element JSONB;
+  v_question questions;
+  v_index INTEGER;
+  v_kept_ids UUID[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_author_content() THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can edit quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  -- Columns the client may not set directly; pending_approval only changes
+  -- through submit_for_approval and review_content
+  v_fields := COALESCE(p_quiz, '{}'::jsonb)
+    - 'id'
+    - 'organization_id'
+    - 'created_at'
+    - 'updated_at'
+    - 'pending_approval';
+
+  IF p_quiz_id IS NULL THEN
+    IF p_quiz IS NULL THEN
+      PERFORM raise_quiz_error(
+        'Quiz details are required',
+        jsonb_build_object('reason', 'validation', 'field', 'quiz')
+      );
+    END IF;
+
+    v_quiz := jsonb_populate_record(NULL::quizzes, v_fields);
+
+    INSERT INTO quizzes (
+      title,
+      description,
+      category_id,
+      organization_id,
+      region_id,
+      scope,
+      pending_approval,
+      status,
+      passing_score,
+      time_limit,
+      question_pools,
+      shuffle_choices
+    )
+    VALUES (
+      v_quiz.title,
+      v_quiz.description,
+      v_quiz.category_id,
+      get_user_organization_direct(v_user_id),
+      v_quiz.region_id,
+      COALESCE(v_quiz.scope, 'global'),
+      false,
+      COALESCE(v_quiz.status, 'draft'),
+      COALESCE(v_quiz.passing_score, 70),
+      v_quiz.time_limit,
+      COALESCE(v_quiz.question_pools, '[]'::jsonb),
+      COALESCE(v_quiz.shuffle_choices, false)
+    )
+    RETURNING * INTO v_quiz;
+  ELSE
+    v_quiz := lock_editable_quiz(p_quiz_id);
+
+    IF p_quiz IS NOT NULL THEN
+      v_quiz := jsonb_populate_record(v_quiz, v_fields);
+
+      UPDATE quizzes
+      SET title = v_quiz.title,
+          description = v_quiz.description,
+          category_id = v_quiz.category_id,
+          region_id = v_quiz.region_id,
+          scope = v_quiz.scope,
+          status = v_quiz.status,
+          passing_score = v_quiz.passing_score,
+          time_limit = v_quiz.time_limit,
+          question_pools = v_quiz.question_pools,
+          shuffle_choices = v_quiz.shuffle_choices,
+          updated_at = now()
+      WHERE id = p_quiz_id
+      RETURNING * INTO v_quiz;
+    END IF;
+  END IF;
+
+  -- Region admins may only save quizzes scoped to their own region
+  IF NOT can_edit_content(v_quiz.organization_id, v_quiz.region_id, v_quiz.scope::text) THEN
+    PERFORM raise_quiz_error(
+      'You can only save quizzes for your own region',
+      jsonb_build_object('reason', 'forbidden', 'field', 'region_id')
+    );
+  END IF;
+
+  IF coalesce(trim(v_quiz.title), '') = '' THEN
+    PERFORM raise_quiz_error(
+      'Title is required',
+      jsonb_build_object('reason', 'validation', 'field', 'title')
+    );
+  END IF;
+
+  IF jsonb_typeof(v_quiz.question_pools) <> 'array' OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_quiz.question_pools) AS p(category_id UUID, draw_count INTEGER)
+    LEFT JOIN quiz_categories c ON c.id = p.category_id
+    WHERE p.draw_count IS NULL
+    OR p.draw_count < 1
+    OR c.organization_id IS DISTINCT FROM v_quiz.organization_id
+  ) THEN
+    PERFORM raise_quiz_error(
+      'Each question pool needs a category and a draw count of at least one',
+      jsonb_build_object('reason', 'validation', 'field', 'question_pools')
+    );
+  END IF;
+
+  IF p_questions IS NOT NULL THEN
+    IF jsonb_typeof(p_questions) <> 'array' THEN
+      PERFORM raise_quiz_error(
+        'Questions must be a list',
+        jsonb_build_object('reason', 'validation', 'field', 'questions')
+      );
+    END IF;
+
+    FOR v_element, v_index IN
+      SELECT value, (ordinality - 1)::integer
+      FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+    LOOP
+      v_question := jsonb_populate_record(NULL::questions, v_element - 'quiz_id');
+
+      IF COALESCE(v_question.question_type, 'multiple_choice') NOT IN (
+        'multiple_choice', 'true_false', 'multi_select', 'short_answer', 'ordering', 'matching'
+      ) THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has an unknown type', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'question_type',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.correct_answer IS NULL THEN
+        PERFORM raise_quiz_error(
+          format('Question %s has no correct answer', v_index + 1),
+          jsonb_build_object(
+            'reason', 'validation',
+            'field', 'correct_answer',
+            'question_index', v_index
+          )
+        );
+      END IF;
+
+      IF v_question.id IS NOT NULL THEN
+        UPDATE questions
+        SET question_text = v_question.question_text,
+            question_type = COALESCE(v_question.question_type, 'multiple_choice'),
+            choices = v_question.choices,
+            correct_answer = v_question.correct_answer,
+            explanation = v_question.explanation,
+            points = COALESCE(v_question.points, 1),
+            "order" = COALESCE(v_question."order", v_index),
+            updated_at = now()
+        WHERE id = v_question.id
+        AND quiz_id = v_quiz.id;
+
+        IF NOT FOUND THEN
+          PERFORM raise_quiz_error(
+            format('Question %s does not belong to this quiz', v_index + 1),
+            jsonb_build_object('reason', 'not_found', 'question_index', v_index)
+          );
+        END IF;
+      ELSE
+        INSERT INTO questions (
+          quiz_id,
+          question_text,
+          question_type,
+          choices,
+          correct_answer,
+          explanation,
+          points,
+          "order"
+        )
+        VALUES (
+          v_quiz.id,
+          v_question.question_text,
+          COALESCE(v_question.question_type, 'multiple_choice'),
+          v_question.choices,
+          v_question.correct_answer,
+          v_question.explanation,
+          COALESCE(v_question.points, 1),
+          COALESCE(v_question."order", v_index)
+        )
+        RETURNING id INTO v_question.id;
+      END IF;
+
+      v_kept_ids := v_kept_ids || v_question.id;
+    END LOOP;
+
+    IF p_replace_questions THEN
+      DELETE FROM questions
+      WHERE quiz_id = v_quiz.id
+      AND id <> ALL (v_kept_ids);
+    END IF;
+  END IF;
+
+  IF v_quiz.status = 'published'
+    AND jsonb_array_length(v_quiz.question_pools) = 0
+    AND NOT EXISTS (SELECT 1 FROM questions WHERE quiz_id = v_quiz.id) THEN
+    PERFORM raise_quiz_error(
+      'Add at least one question before publishing',
+      jsonb_build_object('reason', 'validation', 'field', 'questions')
+    );
+  END IF;
+
+  RETURN quiz_with_questions(v_quiz.id);
+EXCEPTION
+  -- Constraint failures roll everything back; report them in the same shape
+  WHEN check_violation OR not_null_violation OR foreign_key_violation
+    OR invalid_text_representation THEN
+    PERFORM raise_quiz_error(
+      SQLERRM,
+      jsonb_build_object('reason', 'invalid_data', 'question_index', v_index)
+    );
+END;
+$$;
+
+-- Set the display order of a quiz's questions in one statement
+CREATE OR REPLACE FUNCTION reorder_quiz_questions(
+  p_quiz_id UUID,
+  p_question_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_author_content() THEN
+    PERFORM raise_quiz_error(
+      'Only administrators can edit quizzes',
+      jsonb_build_object('reason', 'forbidden')
+    );
+  END IF;
+
+  PERFORM lock_editable_quiz(p_quiz_id);
+
+  UPDATE questions q
+  SET "order" = ids.position - 1,
+      updated_at = now()
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE q.id = ids.id
+  AND q.quiz_id = p_quiz_id;
+END;
+$$;
+
+-- Attempts are started by a SECURITY DEFINER function, so check here that
+-- the quiz is one the user is allowed to see
+CREATE OR REPLACE FUNCTION check_quiz_attempt_visibility()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM quizzes q
+    WHERE q.id = NEW.quiz_id
+      AND can_view_content(
+        q.organization_id, q.region_id, q.scope::text, q.status, q.pending_approval
+      )
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quiz_attempts_check_visibility ON quiz_attempts;
+CREATE TRIGGER quiz_attempts_check_visibility
+  BEFORE INSERT ON quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_quiz_attempt_visibility();
+
+-- =============================================================================
+-- PART 5: STUDY MATERIAL FUNCTIONS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION restore_study_material_revision(
+  p_revision_id UUID
+)
+RETURNS study_materials
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision study_material_revisions;
+  v_material study_materials;
+BEGIN
+  SELECT r.* INTO v_revision
+  FROM study_material_revisions r
+  JOIN study_materials m ON m.id = r.material_id
+  WHERE r.id = p_revision_id
+    AND can_edit_content(m.organization_id, m.region_id, m.scope::text);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.restored_revision_id', v_revision.id::text, true);
+
+  UPDATE study_materials
+  SET title = v_revision.title,
+      content = v_revision.content,
+      updated_at = NOW()
+  WHERE id = v_revision.material_id
+  RETURNING * INTO v_material;
+
+  PERFORM set_config('app.restored_revision_id', '', true);
+
+  RETURN v_material;
+END;
+$$;
+
+-- =============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION can_author_content() TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_content(UUID, UUID, TEXT, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_content(UUID, UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION check_quiz_attempt_visibility() FROM PUBLIC;
+
+COMMIT;
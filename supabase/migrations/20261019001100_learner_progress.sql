@@ -0,0 +1,209 @@
+-- =============================================================================
+-- LEARNER PROGRESS
+-- =============================================================================
+
+-- Records how far each user has read through each study material and where
+-- they left off, and reports per-category completion from the materials read
+-- and the quizzes passed.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS study_material_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  -- Furthest point reached, as a percentage of the material
+  percent_read INTEGER NOT NULL DEFAULT 0 CHECK (percent_read BETWEEN 0 AND 100),
+  -- Where the user was when they last stopped reading
+  last_position INTEGER NOT NULL DEFAULT 0 CHECK (last_position BETWEEN 0 AND 100),
+  completed_at TIMESTAMPTZ,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_material_progress_recent
+  ON study_material_progress(user_id, last_read_at DESC);
+
+-- =============================================================================
+-- PART 2: ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE study_material_progress ENABLE ROW LEVEL SECURITY;
+
+-- Progress is written by record_study_progress; users see their own and
+-- administrators see their organization's
+DROP POLICY IF EXISTS "study_material_progress_read" ON study_material_progress;
+CREATE POLICY "study_material_progress_read" ON study_material_progress
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (
+      (is_org_admin_direct() OR is_super_admin_direct())
+      AND material_id IN (
+        SELECT id FROM study_materials
+        WHERE organization_id = get_user_organization_direct(auth.uid())
+      )
+    )
+  );
+
+-- =============================================================================
+-- PART 3: RECORDING PROGRESS
+-- =============================================================================
+
+-- Record a reading position for the current user. The furthest point reached
+-- only ever grows; reaching 100% or p_completed marks the material as read.
+CREATE OR REPLACE FUNCTION record_study_progress(
+  p_material_id UUID,
+  p_percent INTEGER,
+  p_completed BOOLEAN DEFAULT false
+)
+RETURNS study_material_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_percent INTEGER := LEAST(GREATEST(COALESCE(p_percent, 0), 0), 100);
+  v_progress study_material_progress;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only published material the user can see counts towards progress
+  IF NOT EXISTS (
+    SELECT 1
+    FROM study_materials m
+    WHERE m.id = p_material_id
+      AND m.status = 'published'
+      AND can_view_content(
+        m.organization_id, m.region_id, m.scope::text, m.status, m.pending_approval
+      )
+  ) THEN
+    RAISE EXCEPTION 'Study material not found';
+  END IF;
+
+  IF p_completed THEN
+    v_percent := 100;
+  END IF;
+
+  INSERT INTO study_material_progress (
+    user_id,
+    material_id,
+    percent_read,
+    last_position,
+    completed_at
+  )
+  VALUES (
+    v_user_id,
+    p_material_id,
+    v_percent,
+    v_percent,
+    CASE WHEN v_percent = 100 THEN NOW() END
+  )
+  ON CONFLICT (user_id, material_id) DO UPDATE
+  SET percent_read = GREATEST(study_material_progress.percent_read, EXCLUDED.percent_read),
+      last_position = EXCLUDED.last_position,
+      completed_at = COALESCE(study_material_progress.completed_at, EXCLUDED.completed_at),
+      last_read_at = NOW(),
+      updated_at = NOW()
+  RETURNING * INTO v_progress;
+
+  RETURN v_progress;
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: CATEGORY COMPLETION
+-- =============================================================================
+
+-- Per-category completion for the current user, counting only released
+-- content they can see. Categories with nothing to complete are left out.
+CREATE OR REPLACE FUNCTION get_category_progress()
+RETURNS TABLE (
+  category_id UUID,
+  category_name TEXT,
+  materials_total INTEGER,
+  materials_read INTEGER,
+  quizzes_total INTEGER,
+  quizzes_passed INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible_materials AS (
+    SELECT m.id, m.category_id
+    FROM study_materials m
+    WHERE m.organization_id = get_user_organization_direct(auth.uid())
+      AND m.status = 'published'
+      AND NOT m.pending_approval
+      AND can_view_content(
+        m.organization_id, m.region_id, m.scope::text, m.status, m.pending_approval
+      )
+  ),
+  visible_quizzes AS (
+    SELECT q.id, q.category_id
+    FROM quizzes q
+    WHERE q.organization_id = get_user_organization_direct(auth.uid())
+      AND q.status = 'published'
+      AND NOT q.pending_approval
+      AND can_view_content(
+        q.organization_id, q.region_id, q.scope::text, q.status, q.pending_approval
+      )
+  ),
+  totals AS (
+    SELECT
+      c.id AS category_id,
+      c.name AS category_name,
+      (SELECT count(*) FROM visible_materials vm WHERE vm.category_id = c.id)::integer
+        AS materials_total,
+      (
+        SELECT count(*)
+        FROM visible_materials vm
+        JOIN study_material_progress p
+          ON p.material_id = vm.id AND p.user_id = auth.uid()
+        WHERE vm.category_id = c.id
+          AND p.completed_at IS NOT NULL
+      )::integer AS materials_read,
+      (SELECT count(*) FROM visible_quizzes vq WHERE vq.category_id = c.id)::integer
+        AS quizzes_total,
+      (
+        SELECT count(*)
+        FROM visible_quizzes vq
+        WHERE vq.category_id = c.id
+          AND EXISTS (
+            SELECT 1
+            FROM quiz_attempts a
+            WHERE a.quiz_id = vq.id
+              AND a.user_id = auth.uid()
+              AND a.passed
+          )
+      )::integer AS quizzes_passed
+    FROM quiz_categories c
+    WHERE c.organization_id = get_user_organization_direct(auth.uid())
+  )
+  SELECT *
+  FROM totals
+  WHERE materials_total > 0 OR quizzes_total > 0
+  ORDER BY category_name;
+$$;
+
+-- =============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON study_material_progress TO authenticated;
+GRANT EXECUTE ON FUNCTION record_study_progress(UUID, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_category_progress() TO authenticated;
+
+COMMIT;
@@ -0,0 +1,472 @@
+-- =============================================================================
+-- LEARNING PATHS
+-- =============================================================================
+
+-- A learning path is an ordered list of study material and quiz steps. A step
+-- may require earlier steps to be completed first: a material step is complete
+-- once read and a quiz step once passed. Paths are assigned to individual
+-- users or to whole regions, and a quiz cannot be started from an assigned
+-- path until its prerequisites are met.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS learning_paths (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  region_id UUID REFERENCES regions(id) ON DELETE SET NULL,
+  scope content_scope NOT NULL DEFAULT 'global',
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_paths_organization
+  ON learning_paths(organization_id, title);
+
+CREATE TABLE IF NOT EXISTS learning_path_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  path_id UUID NOT NULL REFERENCES learning_paths(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  step_type TEXT NOT NULL CHECK (step_type IN ('study_material', 'quiz')),
+  material_id UUID REFERENCES study_materials(id) ON DELETE CASCADE,
+  quiz_id UUID REFERENCES quizzes(id) ON DELETE CASCADE,
+  -- Earlier steps of the same path that must be completed first
+  prerequisite_step_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (path_id, position),
+  CHECK (
+    (step_type = 'study_material' AND material_id IS NOT NULL AND quiz_id IS NULL)
+    OR (step_type = 'quiz' AND quiz_id IS NOT NULL AND material_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_path_steps_quiz
+  ON learning_path_steps(quiz_id)
+  WHERE quiz_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS learning_path_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  path_id UUID NOT NULL REFERENCES learning_paths(id) ON DELETE CASCADE,
+  -- Exactly one of user_id and region_id is set
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  region_id UUID REFERENCES regions(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((user_id IS NULL) <> (region_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_path_assignments_user
+  ON learning_path_assignments(path_id, user_id)
+  WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_path_assignments_region
+  ON learning_path_assignments(path_id, region_id)
+  WHERE region_id IS NOT NULL;
+
+-- =============================================================================
+-- PART 2: ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_path_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_path_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Paths follow the same visibility rules as quizzes and study materials
+DROP POLICY IF EXISTS "learning_paths_read" ON learning_paths;
+CREATE POLICY "learning_paths_read" ON learning_paths
+  FOR SELECT
+  USING (can_view_content(organization_id, region_id, scope::text, status, false));
+
+-- Paths and their steps are written by save_learning_path
+DROP POLICY IF EXISTS "learning_paths_delete" ON learning_paths;
+CREATE POLICY "learning_paths_delete" ON learning_paths
+  FOR DELETE
+  USING (can_edit_content(organization_id, region_id, scope::text));
+
+DROP POLICY IF EXISTS "learning_path_steps_read" ON learning_path_steps;
+CREATE POLICY "learning_path_steps_read" ON learning_path_steps
+  FOR SELECT
+  USING (path_id IN (SELECT id FROM learning_paths));
+
+-- Learners see their own and their region's assignments; editors of a path
+-- see and manage all of its assignments
+DROP POLICY IF EXISTS "learning_path_assignments_read" ON learning_path_assignments;
+CREATE POLICY "learning_path_assignments_read" ON learning_path_assignments
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR region_id = get_user_region_direct(auth.uid())
+    OR path_id IN (
+      SELECT id FROM learning_paths
+      WHERE can_edit_content(organization_id, region_id, scope::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "learning_path_assignments_delete" ON learning_path_assignments;
+CREATE POLICY "learning_path_assignments_delete" ON learning_path_assignments
+  FOR DELETE
+  USING (
+    path_id IN (
+      SELECT id FROM learning_paths
+      WHERE can_edit_content(organization_id, region_id, scope::text)
+    )
+  );
+
+-- =============================================================================
+-- PART 3: PROGRESS
+-- =============================================================================
+
+-- Whether a user has completed a step: read the material or passed the quiz
+CREATE OR REPLACE FUNCTION learning_path_step_completed(
+  p_step learning_path_steps,
+  p_user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_step.step_type
+    WHEN 'study_material' THEN EXISTS (
+      SELECT 1
+      FROM study_material_progress p
+      WHERE p.material_id = p_step.material_id
+        AND p.user_id = p_user_id
+        AND p.completed_at IS NOT NULL
+    )
+    ELSE EXISTS (
+      SELECT 1
+      FROM quiz_attempts a
+      WHERE a.quiz_id = p_step.quiz_id
+        AND a.user_id = p_user_id
+        AND a.passed
+    )
+  END;
+$$;
+
+-- Each step of a path with whether the current user has completed it and
+-- whether its prerequisites are met
+CREATE OR REPLACE FUNCTION get_learning_path_progress(
+  p_path_id UUID
+)
+RETURNS TABLE (
+  step_id UUID,
+  completed BOOLEAN,
+  unlocked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH steps AS (
+    SELECT s.id, s.position, s.prerequisite_step_ids,
+      learning_path_step_completed(s, auth.uid()) AS completed
+    FROM learning_path_steps s
+    JOIN learning_paths lp ON lp.id = s.path_id
+    WHERE s.path_id = p_path_id
+      AND can_view_content(lp.organization_id, lp.region_id, lp.scope::text, lp.status, false)
+  )
+  SELECT
+    s.id,
+    s.completed,
+    NOT EXISTS (
+      SELECT 1
+      FROM steps prerequisite
+      WHERE prerequisite.id = ANY(s.prerequisite_step_ids)
+        AND NOT prerequisite.completed
+    )
+  FROM steps s
+  ORDER BY s.position;
+$$;
+
+-- Quizzes that are steps of a path assigned to the user can only be started
+-- once that step's prerequisites are complete
+CREATE OR REPLACE FUNCTION check_quiz_prerequisites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM learning_path_steps s
+    JOIN learning_paths lp ON lp.id = s.path_id
+    JOIN learning_path_assignments a ON a.path_id = lp.id
+    JOIN learning_path_steps prerequisite
+      ON prerequisite.path_id = s.path_id
+      AND prerequisite.id = ANY(s.prerequisite_step_ids)
+    WHERE s.quiz_id = NEW.quiz_id
+      AND lp.status = 'published'
+      AND (a.user_id = NEW.user_id OR a.region_id = get_user_region_direct(NEW.user_id))
+      AND NOT learning_path_step_completed(prerequisite, NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Complete the earlier steps of your learning path before taking this quiz';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quiz_attempts_check_prerequisites ON quiz_attempts;
+CREATE TRIGGER quiz_attempts_check_prerequisites
+  BEFORE INSERT ON quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_quiz_prerequisites();
+
+-- =============================================================================
+-- PART 4: SAVING PATHS
+-- =============================================================================
+
+-- Create (p_path_id NULL) or update a path and replace its steps. Each step
+-- lists its prerequisites as indexes of earlier steps in p_steps, so steps
+-- that have not been saved yet can depend on each other.
+CREATE OR REPLACE FUNCTION save_learning_path(
+  p_path_id UUID,
+  p_path JSONB,
+  p_steps JSONB
+)
+RETURNS learning_paths
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_path learning_paths;
+  v_element JSONB;
+  v_index INTEGER;
+  v_step_id UUID;
+  v_step_ids UUID[] := '{}';
+  v_prerequisites UUID[];
+  v_prerequisite INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_author_content() THEN
+    RAISE EXCEPTION 'Only administrators can edit learning paths';
+  END IF;
+
+  IF p_path_id IS NULL THEN
+    INSERT INTO learning_paths (
+      organization_id,
+      region_id,
+      scope,
+      title,
+      description,
+      status,
+      created_by
+    )
+    VALUES (
+      get_user_organization_direct(v_user_id),
+      (p_path ->> 'region_id')::uuid,
+      COALESCE((p_path ->> 'scope')::content_scope, 'global'),
+      p_path ->> 'title',
+      p_path ->> 'description',
+      COALESCE(p_path ->> 'status', 'draft'),
+      v_user_id
+    )
+    RETURNING * INTO v_path;
+  ELSE
+    SELECT * INTO v_path
+    FROM learning_paths
+    WHERE id = p_path_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT can_edit_content(v_path.organization_id, v_path.region_id, v_path.scope::text) THEN
+      RAISE EXCEPTION 'Learning path not found';
+    END IF;
+
+    UPDATE learning_paths
+    SET region_id = (p_path ->> 'region_id')::uuid,
+        scope = COALESCE((p_path ->> 'scope')::content_scope, scope),
+        title = COALESCE(p_path ->> 'title', title),
+        description = p_path ->> 'description',
+        status = COALESCE(p_path ->> 'status', status),
+        updated_at = NOW()
+    WHERE id = p_path_id
+    RETURNING * INTO v_path;
+  END IF;
+
+  -- Region admins may only save paths scoped to their own region
+  IF NOT can_edit_content(v_path.organization_id, v_path.region_id, v_path.scope::text) THEN
+    RAISE EXCEPTION 'You can only save learning paths for your own region';
+  END IF;
+
+  IF coalesce(trim(v_path.title), '') = '' THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  DELETE FROM learning_path_steps WHERE path_id = v_path.id;
+
+  FOR v_element, v_index IN
+    SELECT value, ordinality - 1
+    FROM jsonb_array_elements(COALESCE(p_steps, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    v_prerequisites := '{}';
+
+    FOR v_prerequisite IN
+      SELECT value::integer
+      FROM jsonb_array_elements_text(COALESCE(v_element -> 'prerequisites', '[]'::jsonb))
+    LOOP
+      IF v_prerequisite < 0 OR v_prerequisite >= v_index THEN
+        RAISE EXCEPTION 'Step % can only depend on earlier steps', v_index + 1;
+      END IF;
+      v_prerequisites := v_prerequisites || v_step_ids[v_prerequisite + 1];
+    END LOOP;
+
+    -- Steps must use content from the path's organization
+    IF NOT EXISTS (
+      SELECT 1 FROM study_materials
+      WHERE id = (v_element ->> 'material_id')::uuid
+        AND organization_id = v_path.organization_id
+      UNION ALL
+      SELECT 1 FROM quizzes
+      WHERE id = (v_element ->> 'quiz_id')::uuid
+        AND organization_id = v_path.organization_id
+    ) THEN
+      RAISE EXCEPTION 'Step % refers to content that does not exist', v_index + 1;
+    END IF;
+
+    INSERT INTO learning_path_steps (
+      id,
+      path_id,
+      position,
+      step_type,
+      material_id,
+      quiz_id,
+      prerequisite_step_ids
+    )
+    VALUES (
+      COALESCE((v_element ->> 'id')::uuid, gen_random_uuid()),
+      v_path.id,
+      v_index,
+      v_element ->> 'step_type',
+      (v_element ->> 'material_id')::uuid,
+      (v_element ->> 'quiz_id')::uuid,
+      v_prerequisites
+    )
+    RETURNING id INTO v_step_id;
+
+    v_step_ids := v_step_ids || v_step_id;
+  END LOOP;
+
+  IF v_path.status = 'published' AND array_length(v_step_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Add at least one step before publishing';
+  END IF;
+
+  RETURN v_path;
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: ASSIGNING PATHS
+-- =============================================================================
+
+-- Assign a path to a user or to everyone in a region, and let them know
+CREATE OR REPLACE FUNCTION assign_learning_path(
+  p_path_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL
+)
+RETURNS learning_path_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_path learning_paths;
+  v_assignment learning_path_assignments;
+BEGIN
+  SELECT * INTO v_path
+  FROM learning_paths
+  WHERE id = p_path_id;
+
+  IF NOT FOUND
+    OR NOT can_edit_content(v_path.organization_id, v_path.region_id, v_path.scope::text) THEN
+    RAISE EXCEPTION 'Learning path not found';
+  END IF;
+
+  IF v_path.status <> 'published' THEN
+    RAISE EXCEPTION 'Publish the learning path before assigning it';
+  END IF;
+
+  IF (p_user_id IS NULL) = (p_region_id IS NULL) THEN
+    RAISE EXCEPTION 'Assign the learning path to either a user or a region';
+  END IF;
+
+  -- Region admins can only assign within their own region
+  IF p_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_user_id
+      AND organization_id = v_path.organization_id
+      AND (
+        is_org_admin_direct()
+        OR is_super_admin_direct()
+        OR (region_id IS NOT NULL AND is_region_admin_direct(region_id))
+      )
+  ) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF p_region_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM regions
+    WHERE id = p_region_id
+      AND organization_id = v_path.organization_id
+      AND (is_org_admin_direct() OR is_super_admin_direct() OR is_region_admin_direct(id))
+  ) THEN
+    RAISE EXCEPTION 'Region not found';
+  END IF;
+
+  INSERT INTO learning_path_assignments (path_id, user_id, region_id, assigned_by)
+  VALUES (p_path_id, p_user_id, p_region_id, auth.uid())
+  ON CONFLICT DO NOTHING
+  RETURNING * INTO v_assignment;
+
+  IF v_assignment.id IS NULL THEN
+    RAISE EXCEPTION 'The learning path is already assigned';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT
+    p.id,
+    'learning_path_assigned',
+    'New learning path assigned',
+    v_path.title,
+    '/paths/' || v_path.id
+  FROM profiles p
+  WHERE p.organization_id = v_path.organization_id
+    AND (p.id = p_user_id OR p.region_id = p_region_id)
+    AND p.id <> auth.uid();
+
+  RETURN v_assignment;
+END;
+$$;
+
+-- =============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT, DELETE ON learning_paths TO authenticated;
+GRANT SELECT ON learning_path_steps TO authenticated;
+GRANT SELECT, DELETE ON learning_path_assignments TO authenticated;
+REVOKE EXECUTE ON FUNCTION learning_path_step_completed(learning_path_steps, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_quiz_prerequisites() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_learning_path_progress(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_learning_path(UUID, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_learning_path(UUID, UUID, UUID) TO authenticated;
+
+COMMIT;
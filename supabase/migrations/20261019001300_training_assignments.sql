@@ -0,0 +1,485 @@
+-- =============================================================================
+-- TRAINING ASSIGNMENTS
+-- =============================================================================
+
+-- Administrators assign a quiz, study material or learning path to a user,
+-- everyone in a region or everyone with a role, optionally with a due date.
+-- An assignment is complete for a user once they have read the material,
+-- passed the quiz or completed every step of the path; it is overdue when the
+-- due date passes first.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS training_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('quiz', 'study_material', 'learning_path')),
+  quiz_id UUID REFERENCES quizzes(id) ON DELETE CASCADE,
+  material_id UUID REFERENCES study_materials(id) ON DELETE CASCADE,
+  path_id UUID REFERENCES learning_paths(id) ON DELETE CASCADE,
+  -- Exactly one of user_id, region_id and role is set
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  region_id UUID REFERENCES regions(id) ON DELETE CASCADE,
+  role TEXT CHECK (role IN ('admin', 'primary_admin', 'secondary_admin', 'user')),
+  due_at TIMESTAMPTZ,
+  assigned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (content_type = 'quiz' AND quiz_id IS NOT NULL AND material_id IS NULL AND path_id IS NULL)
+    OR (
+      content_type = 'study_material'
+      AND material_id IS NOT NULL AND quiz_id IS NULL AND path_id IS NULL
+    )
+    OR (
+      content_type = 'learning_path'
+      AND path_id IS NOT NULL AND quiz_id IS NULL AND material_id IS NULL
+    )
+  ),
+  CHECK (
+    (user_id IS NOT NULL)::integer
+    + (region_id IS NOT NULL)::integer
+    + (role IS NOT NULL)::integer = 1
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_training_assignments_organization
+  ON training_assignments(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_training_assignments_user
+  ON training_assignments(user_id)
+  WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_training_assignments_region
+  ON training_assignments(region_id)
+  WHERE region_id IS NOT NULL;
+
+-- =============================================================================
+-- PART 2: ROW LEVEL SECURITY
+-- =============================================================================
+
+-- Organization administrators manage every assignment; region administrators
+-- manage those made to their region or to users in it
+CREATE OR REPLACE FUNCTION can_manage_training_assignment(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_region_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organization_id = get_user_organization_direct(auth.uid())
+    AND (
+      is_org_admin_direct()
+      OR is_super_admin_direct()
+      OR (p_region_id IS NOT NULL AND is_region_admin_direct(p_region_id))
+      OR (
+        p_user_id IS NOT NULL
+        AND is_region_admin_direct(get_user_region_direct(p_user_id))
+      )
+    );
+$$;
+
+ALTER TABLE training_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Assignments are created by assign_training
+DROP POLICY IF EXISTS "training_assignments_read" ON training_assignments;
+CREATE POLICY "training_assignments_read" ON training_assignments
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (
+      organization_id = get_user_organization_direct(auth.uid())
+      AND (
+        region_id = get_user_region_direct(auth.uid())
+        OR role = (SELECT p.role FROM profiles p WHERE p.id = auth.uid())
+      )
+    )
+    OR can_manage_training_assignment(organization_id, user_id, region_id)
+  );
+
+DROP POLICY IF EXISTS "training_assignments_delete" ON training_assignments;
+CREATE POLICY "training_assignments_delete" ON training_assignments
+  FOR DELETE
+  USING (can_manage_training_assignment(organization_id, user_id, region_id));
+
+-- =============================================================================
+-- PART 3: COMPLETION
+-- =============================================================================
+
+-- When a user completed a piece of training, or NULL if they have not: the
+-- first time they finished the material or passed the quiz, or the moment the
+-- last step of a learning path was completed
+CREATE OR REPLACE FUNCTION training_completed_at(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_user_id UUID
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_steps INTEGER;
+  v_completed INTEGER;
+  v_completed_at TIMESTAMPTZ;
+BEGIN
+  IF p_content_type = 'study_material' THEN
+    SELECT completed_at INTO v_completed_at
+    FROM study_material_progress
+    WHERE material_id = p_content_id
+      AND user_id = p_user_id;
+
+    RETURN v_completed_at;
+  END IF;
+
+  IF p_content_type = 'quiz' THEN
+    SELECT min(COALESCE(completed_at, created_at)) INTO v_completed_at
+    FROM quiz_attempts
+    WHERE quiz_id = p_content_id
+      AND user_id = p_user_id
+      AND passed;
+
+    RETURN v_completed_at;
+  END IF;
+
+  SELECT count(*), count(step_completed_at), max(step_completed_at)
+  INTO v_steps, v_completed, v_completed_at
+  FROM (
+    SELECT training_completed_at(
+      s.step_type,
+      COALESCE(s.material_id, s.quiz_id),
+      p_user_id
+    ) AS step_completed_at
+    FROM learning_path_steps s
+    WHERE s.path_id = p_content_id
+  ) steps;
+
+  IF v_steps = 0 OR v_completed < v_steps THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_completed_at;
+END;
+$$;
+
+-- The members of the organization an assignment applies to
+CREATE OR REPLACE FUNCTION training_assignment_assignees(p_assignment training_assignments)
+RETURNS SETOF profiles
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM profiles p
+  WHERE p.organization_id = p_assignment.organization_id
+    AND (
+      p.id = p_assignment.user_id
+      OR p.region_id = p_assignment.region_id
+      OR p.role = p_assignment.role
+    );
+$$;
+
+-- =============================================================================
+-- PART 4: ASSIGNING TRAINING
+-- =============================================================================
+
+-- Assign published content to a user, a region or a role. Region administrators
+-- can only assign to their own region and the users in it.
+CREATE OR REPLACE FUNCTION assign_training(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL,
+  p_role TEXT DEFAULT NULL,
+  p_due_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS training_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := get_user_organization_direct(auth.uid());
+  v_title TEXT;
+  v_assignment training_assignments;
+BEGIN
+  IF NOT can_author_content() THEN
+    RAISE EXCEPTION 'You do not have permission to assign training';
+  END IF;
+
+  IF (p_user_id IS NOT NULL)::integer
+    + (p_region_id IS NOT NULL)::integer
+    + (p_role IS NOT NULL)::integer <> 1 THEN
+    RAISE EXCEPTION 'Assign the training to a user, a region or a role';
+  END IF;
+
+  IF p_content_type = 'quiz' THEN
+    SELECT title INTO v_title
+    FROM quizzes
+    WHERE id = p_content_id
+      AND organization_id = v_organization_id
+      AND status = 'published'
+      AND can_view_content(organization_id, region_id, scope::text, status, pending_approval);
+  ELSIF p_content_type = 'study_material' THEN
+    SELECT title INTO v_title
+    FROM study_materials
+    WHERE id = p_content_id
+      AND organization_id = v_organization_id
+      AND status = 'published'
+      AND can_view_content(organization_id, region_id, scope::text, status, pending_approval);
+  ELSIF p_content_type = 'learning_path' THEN
+    SELECT title INTO v_title
+    FROM learning_paths
+    WHERE id = p_content_id
+      AND organization_id = v_organization_id
+      AND status = 'published'
+      AND can_view_content(organization_id, region_id, scope::text, status, false);
+  END IF;
+
+  IF v_title IS NULL THEN
+    RAISE EXCEPTION 'Only published training can be assigned';
+  END IF;
+
+  IF p_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_user_id
+      AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF p_region_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM regions
+    WHERE id = p_region_id
+      AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Region not found';
+  END IF;
+
+  IF NOT can_manage_training_assignment(v_organization_id, p_user_id, p_region_id) THEN
+    RAISE EXCEPTION 'You can only assign training within your own region';
+  END IF;
+
+  INSERT INTO training_assignments (
+    organization_id,
+    content_type,
+    quiz_id,
+    material_id,
+    path_id,
+    user_id,
+    region_id,
+    role,
+    due_at,
+    assigned_by
+  )
+  VALUES (
+    v_organization_id,
+    p_content_type,
+    CASE WHEN p_content_type = 'quiz' THEN p_content_id END,
+    CASE WHEN p_content_type = 'study_material' THEN p_content_id END,
+    CASE WHEN p_content_type = 'learning_path' THEN p_content_id END,
+    p_user_id,
+    p_region_id,
+    p_role,
+    p_due_at,
+    auth.uid()
+  )
+  RETURNING * INTO v_assignment;
+
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT
+    a.id,
+    'training_assigned',
+    'New training assigned',
+    CASE
+      WHEN p_due_at IS NULL THEN v_title
+      ELSE v_title || ' (due ' || to_char(p_due_at, 'Mon DD, YYYY') || ')'
+    END,
+    '/progress'
+  FROM training_assignment_assignees(v_assignment) a
+  WHERE a.id <> auth.uid();
+
+  RETURN v_assignment;
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: REPORTING
+-- =============================================================================
+
+-- The current user's assignments with the title of the training and when they
+-- completed it. Training that has since been unpublished is left out.
+CREATE OR REPLACE FUNCTION get_my_training_assignments()
+RETURNS TABLE (
+  assignment_id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_title TEXT,
+  due_at TIMESTAMPTZ,
+  assigned_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH mine AS (
+    SELECT
+      t.*,
+      COALESCE(t.quiz_id, t.material_id, t.path_id) AS training_id,
+      COALESCE(q.title, m.title, lp.title) AS training_title
+    FROM training_assignments t
+    JOIN profiles me ON me.id = auth.uid()
+    LEFT JOIN quizzes q ON q.id = t.quiz_id AND q.status = 'published'
+    LEFT JOIN study_materials m ON m.id = t.material_id AND m.status = 'published'
+    LEFT JOIN learning_paths lp ON lp.id = t.path_id AND lp.status = 'published'
+    WHERE t.organization_id = me.organization_id
+      AND (t.user_id = me.id OR t.region_id = me.region_id OR t.role = me.role)
+  )
+  SELECT
+    mine.id,
+    mine.content_type,
+    mine.training_id,
+    mine.training_title,
+    mine.due_at,
+    mine.created_at,
+    training_completed_at(mine.content_type, mine.training_id, auth.uid())
+  FROM mine
+  WHERE mine.training_title IS NOT NULL
+  ORDER BY mine.due_at ASC NULLS LAST, mine.created_at DESC;
+$$;
+
+-- The assignments the current user manages, with how many of their assignees
+-- have completed them and how many are overdue
+CREATE OR REPLACE FUNCTION get_training_assignment_summaries()
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_title TEXT,
+  user_id UUID,
+  region_id UUID,
+  role TEXT,
+  assignee_name TEXT,
+  due_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  assignees_total INTEGER,
+  assignees_completed INTEGER,
+  assignees_overdue INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.content_type,
+    COALESCE(t.quiz_id, t.material_id, t.path_id),
+    COALESCE(q.title, m.title, lp.title),
+    t.user_id,
+    t.region_id,
+    t.role,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ', u.first_name, u.last_name)), ''),
+      u.email,
+      r.name
+    ),
+    t.due_at,
+    t.created_at,
+    count(a.id)::integer,
+    count(a.id) FILTER (WHERE a.completed_at IS NOT NULL)::integer,
+    count(a.id) FILTER (
+      WHERE a.completed_at IS NULL AND t.due_at < NOW()
+    )::integer
+  FROM training_assignments t
+  LEFT JOIN quizzes q ON q.id = t.quiz_id
+  LEFT JOIN study_materials m ON m.id = t.material_id
+  LEFT JOIN learning_paths lp ON lp.id = t.path_id
+  LEFT JOIN profiles u ON u.id = t.user_id
+  LEFT JOIN regions r ON r.id = t.region_id
+  LEFT JOIN LATERAL (
+    SELECT
+      p.id,
+      training_completed_at(
+        t.content_type,
+        COALESCE(t.quiz_id, t.material_id, t.path_id),
+        p.id
+      ) AS completed_at
+    FROM training_assignment_assignees(t) p
+  ) a ON true
+  WHERE can_manage_training_assignment(t.organization_id, t.user_id, t.region_id)
+  GROUP BY t.id, q.title, m.title, lp.title, u.first_name, u.last_name, u.email, r.name
+  ORDER BY t.created_at DESC;
+$$;
+
+-- Completion of one assignment for each of its assignees
+CREATE OR REPLACE FUNCTION get_training_assignment_status(p_assignment_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment training_assignments;
+BEGIN
+  SELECT * INTO v_assignment
+  FROM training_assignments
+  WHERE id = p_assignment_id;
+
+  IF NOT FOUND OR NOT can_manage_training_assignment(
+    v_assignment.organization_id,
+    v_assignment.user_id,
+    v_assignment.region_id
+  ) THEN
+    RAISE EXCEPTION 'Assignment not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.email,
+    training_completed_at(
+      v_assignment.content_type,
+      COALESCE(v_assignment.quiz_id, v_assignment.material_id, v_assignment.path_id),
+      p.id
+    )
+  FROM training_assignment_assignees(v_assignment) p
+  ORDER BY p.first_name NULLS LAST, p.last_name, p.email;
+END;
+$$;
+
+-- =============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT, DELETE ON training_assignments TO authenticated;
+REVOKE EXECUTE ON FUNCTION training_completed_at(TEXT, UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION training_assignment_assignees(training_assignments) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION can_manage_training_assignment(UUID, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION
+  assign_training(TEXT, UUID, UUID, UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_training_assignments() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_training_assignment_summaries() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_training_assignment_status(UUID) TO authenticated;
+
+COMMIT;
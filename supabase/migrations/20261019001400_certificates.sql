@@ -0,0 +1,318 @@
+-- =============================================================================
+-- CERTIFICATES
+-- =============================================================================
+
+-- A certificate is issued when a learner passes a quiz or completes every step
+-- of a learning path. Each carries a verification code that anyone can check
+-- without signing in. Quizzes and paths used for recurring compliance training
+-- can make their certificates expire after a number of months; passing again
+-- in the renewal window before expiry issues a fresh certificate.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS certificate_valid_months INTEGER
+    CHECK (certificate_valid_months > 0);
+
+ALTER TABLE learning_paths
+  ADD COLUMN IF NOT EXISTS certificate_valid_months INTEGER
+    CHECK (certificate_valid_months > 0);
+
+CREATE TABLE IF NOT EXISTS certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('quiz', 'learning_path')),
+  -- Kept when the quiz or path is deleted so the certificate still verifies
+  quiz_id UUID REFERENCES quizzes(id) ON DELETE SET NULL,
+  path_id UUID REFERENCES learning_paths(id) ON DELETE SET NULL,
+  verification_code TEXT NOT NULL UNIQUE,
+  -- Names as they were when the certificate was issued
+  learner_name TEXT NOT NULL,
+  organization_name TEXT NOT NULL,
+  content_title TEXT NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificates_user
+  ON certificates(user_id, issued_at DESC);
+
+-- =============================================================================
+-- PART 2: ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
+
+-- Certificates are issued by triggers; learners see their own and
+-- administrators see their organization's
+DROP POLICY IF EXISTS "certificates_read" ON certificates;
+CREATE POLICY "certificates_read" ON certificates
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (
+      (is_org_admin_direct() OR is_super_admin_direct())
+      AND organization_id = get_user_organization_direct(auth.uid())
+    )
+  );
+
+-- =============================================================================
+-- PART 3: ISSUING CERTIFICATES
+-- =============================================================================
+
+-- Issue a certificate for a quiz or learning path unless the user already
+-- holds one that is not yet due for renewal (within 30 days of expiring)
+CREATE OR REPLACE FUNCTION issue_certificate(
+  p_user_id UUID,
+  p_content_type TEXT,
+  p_content_id UUID
+)
+RETURNS certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_title TEXT;
+  v_valid_months INTEGER;
+  v_certificate certificates;
+  v_code TEXT;
+BEGIN
+  IF p_content_type = 'quiz' THEN
+    SELECT organization_id, title, certificate_valid_months
+    INTO v_organization_id, v_title, v_valid_months
+    FROM quizzes
+    WHERE id = p_content_id;
+  ELSE
+    SELECT organization_id, title, certificate_valid_months
+    INTO v_organization_id, v_title, v_valid_months
+    FROM learning_paths
+    WHERE id = p_content_id;
+  END IF;
+
+  IF v_organization_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM certificates
+    WHERE user_id = p_user_id
+      AND COALESCE(quiz_id, path_id) = p_content_id
+      AND (expires_at IS NULL OR expires_at > NOW() + INTERVAL '30 days')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Twelve characters grouped for reading aloud, e.g. 4F2A-91C0-7BDE
+  v_code := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12));
+  v_code := substr(v_code, 1, 4) || '-' || substr(v_code, 5, 4) || '-' || substr(v_code, 9, 4);
+
+  INSERT INTO certificates (
+    organization_id,
+    user_id,
+    content_type,
+    quiz_id,
+    path_id,
+    verification_code,
+    learner_name,
+    organization_name,
+    content_title,
+    expires_at
+  )
+  SELECT
+    v_organization_id,
+    p.id,
+    p_content_type,
+    CASE WHEN p_content_type = 'quiz' THEN p_content_id END,
+    CASE WHEN p_content_type = 'learning_path' THEN p_content_id END,
+    v_code,
+    COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email),
+    o.name,
+    v_title,
+    CASE
+      WHEN v_valid_months IS NOT NULL THEN NOW() + make_interval(months => v_valid_months)
+    END
+  FROM profiles p
+  JOIN organizations o ON o.id = v_organization_id
+  WHERE p.id = p_user_id
+  RETURNING * INTO v_certificate;
+
+  INSERT INTO notifications (user_id, type, title, body, link)
+  VALUES (
+    p_user_id,
+    'certificate_issued',
+    'Certificate earned',
+    v_title,
+    '/certificates'
+  );
+
+  RETURN v_certificate;
+END;
+$$;
+
+-- Issue certificates for the published learning paths containing some content
+-- that the user has now completed in full
+CREATE OR REPLACE FUNCTION issue_learning_path_certificates(
+  p_user_id UUID,
+  p_quiz_id UUID,
+  p_material_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_path_id UUID;
+BEGIN
+  FOR v_path_id IN
+    SELECT DISTINCT lp.id
+    FROM learning_paths lp
+    JOIN learning_path_steps s ON s.path_id = lp.id
+    WHERE lp.status = 'published'
+      AND (s.quiz_id = p_quiz_id OR s.material_id = p_material_id)
+  LOOP
+    IF training_completed_at('learning_path', v_path_id, p_user_id) IS NOT NULL THEN
+      PERFORM issue_certificate(p_user_id, 'learning_path', v_path_id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_certificates_on_quiz_pass()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.passed AND (TG_OP = 'INSERT' OR NOT OLD.passed) THEN
+    PERFORM issue_certificate(NEW.user_id, 'quiz', NEW.quiz_id);
+    PERFORM issue_learning_path_certificates(NEW.user_id, NEW.quiz_id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quiz_attempts_issue_certificates ON quiz_attempts;
+CREATE TRIGGER quiz_attempts_issue_certificates
+  AFTER INSERT OR UPDATE OF passed ON quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_certificates_on_quiz_pass();
+
+CREATE OR REPLACE FUNCTION issue_certificates_on_material_read()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.completed_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.completed_at IS NULL) THEN
+    PERFORM issue_learning_path_certificates(NEW.user_id, NULL, NEW.material_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS study_material_progress_issue_certificates ON study_material_progress;
+CREATE TRIGGER study_material_progress_issue_certificates
+  AFTER INSERT OR UPDATE OF completed_at ON study_material_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_certificates_on_material_read();
+
+-- =============================================================================
+-- PART 4: CERTIFICATE SETTINGS
+-- =============================================================================
+
+-- Set how many months certificates for a quiz or learning path stay valid;
+-- NULL means they never expire
+CREATE OR REPLACE FUNCTION set_certificate_validity(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_valid_months INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_valid_months IS NOT NULL AND p_valid_months <= 0 THEN
+    RAISE EXCEPTION 'Certificates must stay valid for at least a month';
+  END IF;
+
+  IF p_content_type = 'quiz' THEN
+    UPDATE quizzes
+    SET certificate_valid_months = p_valid_months
+    WHERE id = p_content_id
+      AND can_edit_content(organization_id, region_id, scope::text);
+  ELSIF p_content_type = 'learning_path' THEN
+    UPDATE learning_paths
+    SET certificate_valid_months = p_valid_months
+    WHERE id = p_content_id
+      AND can_edit_content(organization_id, region_id, scope::text);
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to change these certificate settings';
+  END IF;
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: VERIFICATION
+-- =============================================================================
+
+-- Look up a certificate by its verification code. Available without signing
+-- in, so it reveals only what is printed on the certificate.
+CREATE OR REPLACE FUNCTION verify_certificate(p_code TEXT)
+RETURNS TABLE (
+  verification_code TEXT,
+  learner_name TEXT,
+  organization_name TEXT,
+  content_type TEXT,
+  content_title TEXT,
+  issued_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.verification_code,
+    c.learner_name,
+    c.organization_name,
+    c.content_type,
+    c.content_title,
+    c.issued_at,
+    c.expires_at
+  FROM certificates c
+  WHERE c.verification_code = upper(trim(p_code));
+$$;
+
+-- =============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- =============================================================================
+
+GRANT SELECT ON certificates TO authenticated;
+REVOKE EXECUTE ON FUNCTION issue_certificate(UUID, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION issue_learning_path_certificates(UUID, UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION issue_certificates_on_quiz_pass() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION issue_certificates_on_material_read() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_certificate_validity(TEXT, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_certificate(TEXT) TO anon, authenticated;
+
+COMMIT;
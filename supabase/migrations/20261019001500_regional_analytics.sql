@@ -0,0 +1,315 @@
+-- =============================================================================
+-- REGIONAL ANALYTICS
+-- =============================================================================
+
+-- Aggregates quiz results for the analytics dashboard so the client never has
+-- to download individual attempts. Organization admins see the whole
+-- organization or any one region; region admins only ever see their own
+-- region. Learners are grouped by their current region (profiles.region_id)
+-- and only completed attempts are counted.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: INDEXES
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_completed
+  ON quiz_attempts(user_id, completed_at)
+  WHERE completed_at IS NOT NULL;
+
+-- =============================================================================
+-- PART 2: ACCESS
+-- =============================================================================
+
+-- The region the caller's analytics are limited to, or NULL for the whole
+-- organization. Raises when the caller may not see the requested region.
+CREATE OR REPLACE FUNCTION resolve_analytics_region(p_region_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := get_user_organization_direct(auth.uid());
+  v_own_region_id UUID := get_user_region_direct(auth.uid());
+BEGIN
+  IF v_organization_id IS NULL THEN
+    RAISE EXCEPTION 'You do not belong to an organization';
+  END IF;
+
+  IF is_org_admin_direct() OR is_super_admin_direct() THEN
+    IF p_region_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM regions
+      WHERE id = p_region_id AND organization_id = v_organization_id
+    ) THEN
+      RAISE EXCEPTION 'Region not found';
+    END IF;
+    RETURN p_region_id;
+  END IF;
+
+  IF v_own_region_id IS NOT NULL AND is_region_admin_direct(v_own_region_id) THEN
+    IF p_region_id IS NOT NULL AND p_region_id <> v_own_region_id THEN
+      RAISE EXCEPTION 'You can only view analytics for your own region';
+    END IF;
+    RETURN v_own_region_id;
+  END IF;
+
+  RAISE EXCEPTION 'You do not have permission to view analytics';
+END;
+$$;
+
+-- =============================================================================
+-- PART 3: REPORTS
+-- =============================================================================
+
+-- Results for every published quiz, or any quiz attempted in the period.
+-- eligible_learners counts members the quiz is visible to, so
+-- learners_passed / eligible_learners is the completion rate.
+-- score_distribution holds ten buckets of attempt scores: 0-9, 10-19, ... 90-100.
+CREATE OR REPLACE FUNCTION get_quiz_analytics(
+  p_region_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  quiz_id UUID,
+  quiz_title TEXT,
+  scope TEXT,
+  region_id UUID,
+  passing_score INTEGER,
+  eligible_learners INTEGER,
+  learners_attempted INTEGER,
+  learners_passed INTEGER,
+  attempts_total INTEGER,
+  attempts_passed INTEGER,
+  average_score NUMERIC,
+  score_distribution INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filter AS (
+    SELECT
+      get_user_organization_direct(auth.uid()) AS organization_id,
+      resolve_analytics_region(p_region_id) AS region_id
+  ),
+  members AS (
+    SELECT p.id, p.region_id
+    FROM profiles p, filter f
+    WHERE p.organization_id = f.organization_id
+      AND (f.region_id IS NULL OR p.region_id = f.region_id)
+  ),
+  attempts AS (
+    SELECT a.quiz_id, a.user_id, a.score, a.passed
+    FROM quiz_attempts a
+    JOIN members m ON m.id = a.user_id
+    WHERE a.completed_at IS NOT NULL
+      AND (p_from IS NULL OR a.completed_at >= p_from)
+      AND (p_to IS NULL OR a.completed_at < p_to)
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.scope::text,
+    q.region_id,
+    q.passing_score,
+    (
+      SELECT count(*)
+      FROM members m
+      WHERE q.scope::text = 'global' OR m.region_id = q.region_id
+    )::integer,
+    stats.learners_attempted,
+    stats.learners_passed,
+    stats.attempts_total,
+    stats.attempts_passed,
+    stats.average_score,
+    distribution.buckets
+  FROM quizzes q
+  CROSS JOIN filter f
+  CROSS JOIN LATERAL (
+    SELECT
+      count(DISTINCT a.user_id)::integer AS learners_attempted,
+      count(DISTINCT a.user_id) FILTER (WHERE a.passed)::integer AS learners_passed,
+      count(*)::integer AS attempts_total,
+      count(*) FILTER (WHERE a.passed)::integer AS attempts_passed,
+      round(avg(a.score), 1) AS average_score
+    FROM attempts a
+    WHERE a.quiz_id = q.id
+  ) stats
+  CROSS JOIN LATERAL (
+    SELECT array_agg(COALESCE(b.attempts, 0) ORDER BY g.bucket)::integer[] AS buckets
+    FROM generate_series(1, 10) g(bucket)
+    LEFT JOIN (
+      SELECT
+        GREATEST(1, LEAST(width_bucket(a.score, 0, 100, 10), 10)) AS bucket,
+        count(*) AS attempts
+      FROM attempts a
+      WHERE a.quiz_id = q.id
+      GROUP BY 1
+    ) b ON b.bucket = g.bucket
+  ) distribution
+  WHERE q.organization_id = f.organization_id
+    AND (f.region_id IS NULL OR q.scope::text = 'global' OR q.region_id = f.region_id)
+    AND (q.status = 'published' OR stats.attempts_total > 0)
+  ORDER BY stats.attempts_total DESC, q.title;
+$$;
+
+-- One row per region, plus one for members without a region when looking at
+-- the whole organization. quizzes_available counts each member once for every
+-- published quiz visible to them; quizzes_passed counts those they have passed.
+CREATE OR REPLACE FUNCTION get_region_analytics(
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  region_id UUID,
+  region_name TEXT,
+  members INTEGER,
+  active_learners INTEGER,
+  attempts_total INTEGER,
+  attempts_passed INTEGER,
+  average_score NUMERIC,
+  quizzes_available INTEGER,
+  quizzes_passed INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filter AS (
+    SELECT
+      get_user_organization_direct(auth.uid()) AS organization_id,
+      resolve_analytics_region(NULL) AS region_id
+  ),
+  groups AS (
+    SELECT r.id, r.name
+    FROM regions r, filter f
+    WHERE r.organization_id = f.organization_id
+      AND (f.region_id IS NULL OR r.id = f.region_id)
+    UNION ALL
+    SELECT NULL, NULL
+    FROM filter f
+    WHERE f.region_id IS NULL
+  ),
+  published AS (
+    SELECT q.id, q.scope::text AS scope, q.region_id
+    FROM quizzes q, filter f
+    WHERE q.organization_id = f.organization_id AND q.status = 'published'
+  )
+  SELECT
+    g.id,
+    g.name,
+    count(p.id)::integer,
+    count(p.id) FILTER (WHERE stats.attempts_total > 0)::integer,
+    COALESCE(sum(stats.attempts_total), 0)::integer,
+    COALESCE(sum(stats.attempts_passed), 0)::integer,
+    round(sum(stats.score_total) / NULLIF(sum(stats.attempts_total), 0), 1),
+    (
+      count(p.id) * (
+        SELECT count(*)
+        FROM published q
+        WHERE q.scope = 'global' OR q.region_id = g.id
+      )
+    )::integer,
+    COALESCE(sum(stats.quizzes_passed), 0)::integer
+  FROM groups g
+  CROSS JOIN filter f
+  LEFT JOIN profiles p
+    ON p.organization_id = f.organization_id
+    AND p.region_id IS NOT DISTINCT FROM g.id
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS attempts_total,
+      count(*) FILTER (WHERE a.passed) AS attempts_passed,
+      sum(a.score) AS score_total,
+      count(DISTINCT a.quiz_id) FILTER (
+        WHERE a.passed AND a.quiz_id IN (
+          SELECT q.id FROM published q
+          WHERE q.scope = 'global' OR q.region_id = g.id
+        )
+      ) AS quizzes_passed
+    FROM quiz_attempts a
+    WHERE a.user_id = p.id
+      AND a.completed_at IS NOT NULL
+      AND (p_from IS NULL OR a.completed_at >= p_from)
+      AND (p_to IS NULL OR a.completed_at < p_to)
+  ) stats ON true
+  GROUP BY g.id, g.name
+  ORDER BY g.name NULLS LAST;
+$$;
+
+-- Attempts per learner, including members who have not attempted anything,
+-- optionally for a single quiz
+CREATE OR REPLACE FUNCTION get_learner_analytics(
+  p_region_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_quiz_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  region_id UUID,
+  region_name TEXT,
+  attempts_total INTEGER,
+  quizzes_attempted INTEGER,
+  quizzes_passed INTEGER,
+  average_score NUMERIC,
+  last_attempt_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filter AS (
+    SELECT
+      get_user_organization_direct(auth.uid()) AS organization_id,
+      resolve_analytics_region(p_region_id) AS region_id
+  )
+  SELECT
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.email,
+    p.region_id,
+    r.name,
+    count(a.id)::integer,
+    count(DISTINCT a.quiz_id)::integer,
+    count(DISTINCT a.quiz_id) FILTER (WHERE a.passed)::integer,
+    round(avg(a.score), 1),
+    max(a.completed_at)
+  FROM profiles p
+  CROSS JOIN filter f
+  LEFT JOIN regions r ON r.id = p.region_id
+  LEFT JOIN quiz_attempts a
+    ON a.user_id = p.id
+    AND a.completed_at IS NOT NULL
+    AND (p_quiz_id IS NULL OR a.quiz_id = p_quiz_id)
+    AND (p_from IS NULL OR a.completed_at >= p_from)
+    AND (p_to IS NULL OR a.completed_at < p_to)
+  WHERE p.organization_id = f.organization_id
+    AND (f.region_id IS NULL OR p.region_id = f.region_id)
+  GROUP BY p.id, r.name
+  ORDER BY count(a.id) DESC, p.last_name NULLS LAST, p.first_name NULLS LAST, p.email;
+$$;
+
+-- =============================================================================
+-- PART 4: PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION resolve_analytics_region(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_quiz_analytics(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_region_analytics(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_learner_analytics(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID)
+  TO authenticated;
+
+COMMIT;
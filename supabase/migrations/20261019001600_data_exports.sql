@@ -0,0 +1,211 @@
+-- =============================================================================
+-- DATA EXPORTS
+-- =============================================================================
+
+-- Paged reports behind the CSV and Excel exports. Clients request one page at
+-- a time so large organizations never hit a statement timeout. Access follows
+-- the analytics rules: organization admins export the whole organization or
+-- one region, region admins only their own region.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: FUNCTIONS
+-- =============================================================================
+
+-- Completed quiz attempts, oldest first
+CREATE OR REPLACE FUNCTION export_quiz_attempts(
+  p_quiz_id UUID DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  quiz_id UUID,
+  quiz_title TEXT,
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  region_name TEXT,
+  score INTEGER,
+  passed BOOLEAN,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filter AS (
+    SELECT
+      get_user_organization_direct(auth.uid()) AS organization_id,
+      resolve_analytics_region(p_region_id) AS region_id
+  )
+  SELECT
+    a.id,
+    q.id,
+    q.title,
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.email,
+    r.name,
+    a.score,
+    a.passed,
+    a.started_at,
+    a.completed_at
+  FROM quiz_attempts a
+  JOIN quizzes q ON q.id = a.quiz_id
+  JOIN profiles p ON p.id = a.user_id
+  LEFT JOIN regions r ON r.id = p.region_id
+  CROSS JOIN filter f
+  WHERE p.organization_id = f.organization_id
+    AND (f.region_id IS NULL OR p.region_id = f.region_id)
+    AND a.completed_at IS NOT NULL
+    AND (p_quiz_id IS NULL OR a.quiz_id = p_quiz_id)
+    AND (p_from IS NULL OR a.completed_at >= p_from)
+    AND (p_to IS NULL OR a.completed_at < p_to)
+  ORDER BY a.completed_at, a.id
+  OFFSET GREATEST(p_offset, 0)
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$$;
+
+-- Where each member stands on the published content visible to them, the
+-- training assigned to them and their current certificates
+CREATE OR REPLACE FUNCTION export_learner_progress(
+  p_region_id UUID DEFAULT NULL,
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  role TEXT,
+  region_name TEXT,
+  materials_total INTEGER,
+  materials_read INTEGER,
+  quizzes_total INTEGER,
+  quizzes_passed INTEGER,
+  training_assigned INTEGER,
+  training_completed INTEGER,
+  training_overdue INTEGER,
+  certificates_valid INTEGER,
+  last_activity_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filter AS (
+    SELECT
+      get_user_organization_direct(auth.uid()) AS organization_id,
+      resolve_analytics_region(p_region_id) AS region_id
+  ),
+  members AS (
+    SELECT p.*
+    FROM profiles p, filter f
+    WHERE p.organization_id = f.organization_id
+      AND (f.region_id IS NULL OR p.region_id = f.region_id)
+    ORDER BY p.last_name NULLS LAST, p.first_name NULLS LAST, p.email, p.id
+    OFFSET GREATEST(p_offset, 0)
+    LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  )
+  SELECT
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.email,
+    p.role::text,
+    r.name,
+    materials.total,
+    materials.completed,
+    quizzes.total,
+    quizzes.passed,
+    training.assigned,
+    training.completed,
+    training.overdue,
+    (
+      SELECT count(DISTINCT COALESCE(c.quiz_id, c.path_id))
+      FROM certificates c
+      WHERE c.user_id = p.id
+        AND (c.expires_at IS NULL OR c.expires_at > NOW())
+    )::integer,
+    GREATEST(
+      (SELECT max(a.completed_at) FROM quiz_attempts a WHERE a.user_id = p.id),
+      (SELECT max(sp.last_read_at) FROM study_material_progress sp WHERE sp.user_id = p.id)
+    )
+  FROM members p
+  LEFT JOIN regions r ON r.id = p.region_id
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS total,
+      count(sp.completed_at)::integer AS completed
+    FROM study_materials m
+    LEFT JOIN study_material_progress sp
+      ON sp.material_id = m.id AND sp.user_id = p.id
+    WHERE m.organization_id = p.organization_id
+      AND m.status = 'published'
+      AND NOT m.pending_approval
+      AND (m.scope::text = 'global' OR m.region_id = p.region_id)
+  ) materials
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS total,
+      count(*) FILTER (
+        WHERE EXISTS (
+          SELECT 1 FROM quiz_attempts a
+          WHERE a.quiz_id = q.id AND a.user_id = p.id AND a.passed
+        )
+      )::integer AS passed
+    FROM quizzes q
+    WHERE q.organization_id = p.organization_id
+      AND q.status = 'published'
+      AND NOT q.pending_approval
+      AND (q.scope::text = 'global' OR q.region_id = p.region_id)
+  ) quizzes
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS assigned,
+      count(t.completed_at)::integer AS completed,
+      count(*) FILTER (
+        WHERE t.completed_at IS NULL AND t.due_at < NOW()
+      )::integer AS overdue
+    FROM (
+      SELECT
+        t.due_at,
+        training_completed_at(
+          t.content_type,
+          COALESCE(t.quiz_id, t.material_id, t.path_id),
+          p.id
+        ) AS completed_at
+      FROM training_assignments t
+      WHERE t.organization_id = p.organization_id
+        AND (
+          t.user_id = p.id
+          OR (p.region_id IS NOT NULL AND t.region_id = p.region_id)
+          OR t.role = p.role::text
+        )
+    ) t
+  ) training
+  ORDER BY p.last_name NULLS LAST, p.first_name NULLS LAST, p.email, p.id;
+$$;
+
+-- =============================================================================
+-- PART 2: PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION export_quiz_attempts(
+  UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER
+) TO authenticated;
+GRANT EXECUTE ON FUNCTION export_learner_progress(UUID, INTEGER, INTEGER) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,149 @@
+-- =============================================================================
+-- QUESTION ITEM ANALYSIS
+-- =============================================================================
+
+-- Per-question statistics for quiz authors, computed from completed attempts:
+-- * difficulty: how many responses were fully correct (question_results)
+-- * discrimination: correct rate among the top 27% of attempts by score minus
+--   the rate among the bottom 27%; questions that strong learners miss more
+--   often than weak ones score below zero
+-- * choice counts: how often each choice was picked, for spotting distractors
+--   nobody falls for or that draw more picks than the right answer
+-- Bank questions drawn into the quiz through question pools are included.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: FUNCTIONS
+-- =============================================================================
+
+-- choice_counts is indexed like choices; for true/false questions it holds the
+-- True and False counts. It is null for question types without fixed choices.
+CREATE OR REPLACE FUNCTION get_quiz_item_analysis(p_quiz_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text TEXT,
+  question_type TEXT,
+  choices JSONB,
+  correct_answer JSONB,
+  from_bank BOOLEAN,
+  responses INTEGER,
+  unanswered INTEGER,
+  correct_count INTEGER,
+  discrimination NUMERIC,
+  choice_counts INTEGER[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_quiz quizzes;
+BEGIN
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF NOT can_edit_content(v_quiz.organization_id, v_quiz.region_id, v_quiz.scope::text) THEN
+    RAISE EXCEPTION 'You do not have permission to analyze this quiz';
+  END IF;
+
+  RETURN QUERY
+  WITH answered AS (
+    SELECT
+      r.key::uuid AS question_id,
+      a.score,
+      COALESCE((r.value ->> 'correct')::boolean, false) AS correct,
+      NULLIF(a.answers -> r.key, 'null'::jsonb) AS answer
+    FROM quiz_attempts a
+    CROSS JOIN LATERAL jsonb_each(a.question_results) r
+    WHERE a.quiz_id = p_quiz_id
+      AND a.completed_at IS NOT NULL
+      AND a.question_results IS NOT NULL
+  ),
+  ranked AS (
+    SELECT
+      answered.*,
+      row_number() OVER (PARTITION BY answered.question_id ORDER BY answered.score DESC)
+        AS score_rank,
+      count(*) OVER (PARTITION BY answered.question_id) AS total,
+      ceil(count(*) OVER (PARTITION BY answered.question_id) * 0.27) AS group_size
+    FROM answered
+  ),
+  stats AS (
+    SELECT
+      ranked.question_id,
+      count(*) AS responses,
+      count(*) FILTER (WHERE ranked.answer IS NULL) AS unanswered,
+      count(*) FILTER (WHERE ranked.correct) AS correct_count,
+      max(ranked.total) AS total,
+      max(ranked.group_size) AS group_size,
+      count(*) FILTER (
+        WHERE ranked.correct AND ranked.score_rank <= ranked.group_size
+      ) AS upper_correct,
+      count(*) FILTER (
+        WHERE ranked.correct AND ranked.score_rank > ranked.total - ranked.group_size
+      ) AS lower_correct
+    FROM ranked
+    GROUP BY ranked.question_id
+  )
+  SELECT
+    q.id,
+    q.question_text::text,
+    q.question_type::text,
+    to_jsonb(q.choices),
+    q.correct_answer,
+    q.quiz_id IS NULL,
+    COALESCE(s.responses, 0)::integer,
+    COALESCE(s.unanswered, 0)::integer,
+    COALESCE(s.correct_count, 0)::integer,
+    CASE
+      WHEN s.total >= 2
+      THEN round((s.upper_correct - s.lower_correct)::numeric / s.group_size, 2)
+    END,
+    CASE
+      WHEN q.question_type IN ('multiple_choice', 'multi_select') THEN ARRAY(
+        SELECT count(an.question_id)::integer
+        FROM generate_series(0, jsonb_array_length(to_jsonb(q.choices)) - 1) c(idx)
+        LEFT JOIN answered an
+          ON an.question_id = q.id
+          AND (
+            (jsonb_typeof(an.answer) = 'number' AND (an.answer #>> '{}')::numeric = c.idx)
+            OR (
+              jsonb_typeof(an.answer) = 'array'
+              AND an.answer @> jsonb_build_array(c.idx)
+            )
+          )
+        GROUP BY c.idx
+        ORDER BY c.idx
+      )
+      WHEN q.question_type = 'true_false' THEN ARRAY(
+        SELECT count(an.question_id)::integer
+        FROM unnest(ARRAY['true', 'false']::jsonb[]) WITH ORDINALITY o(choice_value, position)
+        LEFT JOIN answered an
+          ON an.question_id = q.id AND an.answer = o.choice_value
+        GROUP BY o.position
+        ORDER BY o.position
+      )
+    END
+  FROM questions q
+  LEFT JOIN stats s ON s.question_id = q.id
+  WHERE q.quiz_id = p_quiz_id OR s.question_id IS NOT NULL
+  ORDER BY q.quiz_id IS NULL, q."order", q.question_text;
+END;
+$$;
+
+-- =============================================================================
+-- PART 2: PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION get_quiz_item_analysis(UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,87 @@
+-- =============================================================================
+-- SERVER-SIDE USER PROVISIONING
+-- =============================================================================
+
+-- Admin-created accounts are now provisioned by the create-user edge function
+-- (supabase/functions/create-user) instead of the browser:
+-- * authorize_user_provisioning runs as the calling admin and decides whether
+--   they may create a user with the requested role, organization and region
+-- * create_user_profile_v2 can only be called with the service role, so
+--   profiles can no longer be created for arbitrary organizations from a
+--   browser session
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: FUNCTIONS
+-- =============================================================================
+
+-- Returns the caller's id when they may create the user, raises otherwise.
+-- Super admins may provision into any organization; organization admins only
+-- into their own and never as super admin.
+CREATE OR REPLACE FUNCTION authorize_user_provisioning(
+  p_organization_id UUID,
+  p_role TEXT,
+  p_region_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_role IS NULL OR NOT p_role = ANY (enum_range(NULL::user_role)::text[]) THEN
+    RAISE EXCEPTION 'Invalid role "%"', p_role;
+  END IF;
+
+  IF NOT is_super_admin_direct() THEN
+    IF NOT is_org_admin_direct()
+      OR get_user_organization_direct(v_caller) IS DISTINCT FROM p_organization_id THEN
+      RAISE EXCEPTION 'You do not have permission to create users in this organization';
+    END IF;
+
+    IF p_role = 'super_admin' THEN
+      RAISE EXCEPTION 'Only super admins can create super admin accounts';
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id) THEN
+    RAISE EXCEPTION 'Organization not found';
+  END IF;
+
+  IF p_region_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM regions
+    WHERE id = p_region_id AND organization_id = p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Region does not belong to this organization';
+  END IF;
+
+  IF p_region_id IS NULL AND p_role IN ('primary_admin', 'secondary_admin') THEN
+    RAISE EXCEPTION 'Region selection is required for regional admin roles';
+  END IF;
+
+  RETURN v_caller;
+END;
+$$;
+
+-- =============================================================================
+-- PART 2: PERMISSIONS
+-- =============================================================================
+
+GRANT EXECUTE ON FUNCTION authorize_user_provisioning(UUID, TEXT, UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION create_user_profile_v2(UUID, TEXT, TEXT, UUID, TEXT, TEXT, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_user_profile_v2(UUID, TEXT, TEXT, UUID, TEXT, TEXT, UUID, UUID)
+  TO service_role;
+
+COMMIT;
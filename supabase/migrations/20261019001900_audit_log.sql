@@ -0,0 +1,466 @@
+-- =============================================================================
+-- ORGANIZATION AUDIT LOG
+-- =============================================================================
+
+-- Administrative actions are recorded in audit_log by triggers, so changes
+-- made through any client (or directly in the database) leave a trace:
+-- * member.created, member.joined, member.role_changed, member.removed
+-- * region_admin.assigned, region_admin.changed, region_admin.removed
+-- * invitation.sent, invitation.accepted, invitation.cancelled,
+--   invitation.expired
+-- * content.deleted for quizzes, study materials and learning paths
+-- Entries hold the acting user, the target and its before/after values. The
+-- log is append-only: nobody can edit or delete entries through the API, and
+-- a trigger rejects updates and deletes from everyone else.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: AUDIT LOG TABLE
+-- =============================================================================
+
+-- No foreign keys, so entries outlive the members, regions and content they
+-- describe
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL,
+  -- NULL when the change was not made by a signed-in user
+  actor_id UUID,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL CHECK (
+    target_type IN ('member', 'invitation', 'quiz', 'study_material', 'learning_path')
+  ),
+  target_id UUID,
+  -- Email or title at the time of the action
+  target_label TEXT,
+  before_value JSONB,
+  after_value JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization
+  ON audit_log(organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor
+  ON audit_log(organization_id, actor_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_action
+  ON audit_log(organization_id, action, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the triggers below; organization admins can
+-- read their organization's log
+DROP POLICY IF EXISTS "audit_log_read" ON audit_log;
+CREATE POLICY "audit_log_read" ON audit_log
+  FOR SELECT
+  USING (
+    (is_org_admin_direct() OR is_super_admin_direct())
+    AND organization_id = get_user_organization_direct(auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be modified';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- =============================================================================
+-- PART 2: RECORDING ACTIONS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION write_audit_log(
+  p_organization_id UUID,
+  p_actor_id UUID,
+  p_action TEXT,
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_target_label TEXT,
+  p_before JSONB DEFAULT NULL,
+  p_after JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id,
+    actor_id,
+    action,
+    target_type,
+    target_id,
+    target_label,
+    before_value,
+    after_value
+  )
+  VALUES (
+    p_organization_id,
+    p_actor_id,
+    p_action,
+    p_target_type,
+    p_target_id,
+    p_target_label,
+    p_before,
+    p_after
+  );
+END;
+$$;
+
+-- Role and region of a member as stored in the log
+CREATE OR REPLACE FUNCTION audit_member_snapshot(p_role TEXT, p_region_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'role', p_role,
+    'region_id', p_region_id,
+    'region_name', (SELECT name FROM regions WHERE id = p_region_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION audit_profile_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Admin-created accounts are provisioned with the service role, so fall
+    -- back to the profile's creator
+    PERFORM write_audit_log(
+      NEW.organization_id,
+      COALESCE(auth.uid(), NEW.created_by),
+      'member.created',
+      'member',
+      NEW.id,
+      NEW.email,
+      NULL,
+      audit_member_snapshot(NEW.role::text, NEW.region_id)
+    );
+  ELSIF OLD.organization_id IS NOT NULL
+    AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    PERFORM write_audit_log(
+      OLD.organization_id,
+      auth.uid(),
+      'member.removed',
+      'member',
+      OLD.id,
+      OLD.email,
+      audit_member_snapshot(OLD.role::text, OLD.region_id),
+      NULL
+    );
+  ELSIF OLD.organization_id IS NULL AND NEW.organization_id IS NOT NULL THEN
+    PERFORM write_audit_log(
+      NEW.organization_id,
+      auth.uid(),
+      'member.joined',
+      'member',
+      NEW.id,
+      NEW.email,
+      NULL,
+      audit_member_snapshot(NEW.role::text, NEW.region_id)
+    );
+  ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.region_id IS DISTINCT FROM OLD.region_id THEN
+    PERFORM write_audit_log(
+      NEW.organization_id,
+      auth.uid(),
+      'member.role_changed',
+      'member',
+      NEW.id,
+      NEW.email,
+      audit_member_snapshot(OLD.role::text, OLD.region_id),
+      audit_member_snapshot(NEW.role::text, NEW.region_id)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_audit ON profiles;
+CREATE TRIGGER profiles_audit
+  AFTER INSERT OR UPDATE OF organization_id, role, region_id ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_profile_changes();
+
+CREATE OR REPLACE FUNCTION audit_region_admin_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row region_admins;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    SELECT jsonb_build_object('region_id', r.id, 'region_name', r.name, 'region_role', OLD.role)
+    INTO v_before
+    FROM regions r
+    WHERE r.id = OLD.region_id;
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    SELECT jsonb_build_object('region_id', r.id, 'region_name', r.name, 'region_role', NEW.role)
+    INTO v_after
+    FROM regions r
+    WHERE r.id = NEW.region_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before IS NOT DISTINCT FROM v_after THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_audit_log(
+    (SELECT organization_id FROM regions WHERE id = v_row.region_id),
+    auth.uid(),
+    CASE TG_OP
+      WHEN 'INSERT' THEN 'region_admin.assigned'
+      WHEN 'UPDATE' THEN 'region_admin.changed'
+      ELSE 'region_admin.removed'
+    END,
+    'member',
+    v_row.user_id,
+    (SELECT email FROM profiles WHERE id = v_row.user_id),
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS region_admins_audit ON region_admins;
+CREATE TRIGGER region_admins_audit
+  AFTER INSERT OR UPDATE OR DELETE ON region_admins
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_region_admin_changes();
+
+CREATE OR REPLACE FUNCTION audit_invitation_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_audit_log(
+    NEW.organization_id,
+    auth.uid(),
+    CASE WHEN TG_OP = 'INSERT' THEN 'invitation.sent' ELSE 'invitation.' || NEW.status::text END,
+    'invitation',
+    NEW.id,
+    NEW.email,
+    CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('status', OLD.status::text) END,
+    jsonb_build_object('status', NEW.status::text, 'role', NEW.role::text)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invitations_audit ON invitations;
+CREATE TRIGGER invitations_audit
+  AFTER INSERT OR UPDATE OF status ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_invitation_changes();
+
+-- TG_ARGV[0] is the target type
+CREATE OR REPLACE FUNCTION audit_content_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_audit_log(
+    OLD.organization_id,
+    auth.uid(),
+    'content.deleted',
+    TG_ARGV[0],
+    OLD.id,
+    OLD.title,
+    jsonb_build_object(
+      'title', OLD.title,
+      'scope', OLD.scope::text,
+      'region_id', OLD.region_id,
+      'region_name', (SELECT name FROM regions WHERE id = OLD.region_id),
+      'status', OLD.status::text
+    ),
+    NULL
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quizzes_audit_deletion ON quizzes;
+CREATE TRIGGER quizzes_audit_deletion
+  AFTER DELETE ON quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_content_deletion('quiz');
+
+DROP TRIGGER IF EXISTS study_materials_audit_deletion ON study_materials;
+CREATE TRIGGER study_materials_audit_deletion
+  AFTER DELETE ON study_materials
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_content_deletion('study_material');
+
+DROP TRIGGER IF EXISTS learning_paths_audit_deletion ON learning_paths;
+CREATE TRIGGER learning_paths_audit_deletion
+  AFTER DELETE ON learning_paths
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_content_deletion('learning_path');
+
+-- =============================================================================
+-- PART 3: READING THE LOG
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION require_audit_log_access()
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    RAISE EXCEPTION 'You do not have permission to view the audit log';
+  END IF;
+
+  RETURN get_user_organization_direct(auth.uid());
+END;
+$$;
+
+-- One page of the organization's log, newest first, with the actor's name
+-- as it is now
+CREATE OR REPLACE FUNCTION get_audit_log(
+  p_actor_id UUID DEFAULT NULL,
+  p_action TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  actor_id UUID,
+  actor_first_name TEXT,
+  actor_last_name TEXT,
+  actor_email TEXT,
+  action TEXT,
+  target_type TEXT,
+  target_id UUID,
+  target_label TEXT,
+  before_value JSONB,
+  after_value JSONB,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH access AS (
+    SELECT require_audit_log_access() AS organization_id
+  )
+  SELECT
+    l.id,
+    l.actor_id,
+    p.first_name,
+    p.last_name,
+    p.email,
+    l.action,
+    l.target_type,
+    l.target_id,
+    l.target_label,
+    l.before_value,
+    l.after_value,
+    l.created_at
+  FROM audit_log l
+  JOIN access a ON a.organization_id = l.organization_id
+  LEFT JOIN profiles p ON p.id = l.actor_id
+  WHERE (p_actor_id IS NULL OR l.actor_id = p_actor_id)
+    AND (p_action IS NULL OR l.action = p_action)
+    AND (p_from IS NULL OR l.created_at >= p_from)
+    AND (p_to IS NULL OR l.created_at < p_to)
+  ORDER BY l.created_at DESC, l.id
+  OFFSET GREATEST(p_offset, 0)
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$$;
+
+-- Everyone who appears as an actor in the organization's log, including
+-- people who have since left
+CREATE OR REPLACE FUNCTION get_audit_log_actors()
+RETURNS TABLE (
+  actor_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH access AS (
+    SELECT require_audit_log_access() AS organization_id
+  )
+  SELECT DISTINCT
+    l.actor_id,
+    p.first_name,
+    p.last_name,
+    p.email
+  FROM audit_log l
+  JOIN access a ON a.organization_id = l.organization_id
+  LEFT JOIN profiles p ON p.id = l.actor_id
+  WHERE l.actor_id IS NOT NULL
+  ORDER BY p.last_name NULLS LAST, p.first_name NULLS LAST, p.email, l.actor_id;
+$$;
+
+-- =============================================================================
+-- PART 4: PERMISSIONS
+-- =============================================================================
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION write_audit_log(UUID, UUID, TEXT, TEXT, UUID, TEXT, JSONB, JSONB)
+  FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION audit_member_snapshot(TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION require_audit_log_access() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION get_audit_log(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER)
+  TO authenticated;
+GRANT EXECUTE ON FUNCTION get_audit_log_actors() TO authenticated;
+
+COMMIT;
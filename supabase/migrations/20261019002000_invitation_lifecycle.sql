@@ -0,0 +1,257 @@
+-- =============================================================================
+-- INVITATION LIFECYCLE
+-- =============================================================================
+
+-- Resending, expiring and listing organization invitations:
+-- * resend_invitation rotates the token, so links from earlier emails stop
+--   working, and restarts the expiry window
+-- * expire_invitations marks pending invitations past expires_at as expired.
+--   It runs hourly when pg_cron is installed and before every listing, so
+--   stale invitations never show as pending
+-- * get_invitations lists the organization's invitations with their status
+--   history, taken from the audit log
+-- Resends are recorded in the audit log as invitation.resent, and expiries
+-- are recorded without an actor.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: INVITATION COLUMNS
+-- =============================================================================
+
+ALTER TABLE invitations
+  ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resend_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_invitations_pending_expiry
+  ON invitations(expires_at)
+  WHERE status = 'pending';
+
+-- =============================================================================
+-- PART 2: AUDITING RESENDS AND EXPIRIES
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION audit_invitation_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'invitation.sent';
+  ELSIF NEW.token IS DISTINCT FROM OLD.token THEN
+    v_action := 'invitation.resent';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_action := 'invitation.' || NEW.status::text;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_audit_log(
+    NEW.organization_id,
+    -- Expiry sweeps can run inside another user's request
+    CASE WHEN v_action = 'invitation.expired' THEN NULL ELSE auth.uid() END,
+    v_action,
+    'invitation',
+    NEW.id,
+    NEW.email,
+    CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('status', OLD.status::text) END,
+    jsonb_build_object('status', NEW.status::text, 'role', NEW.role::text)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invitations_audit ON invitations;
+CREATE TRIGGER invitations_audit
+  AFTER INSERT OR UPDATE OF status, token ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_invitation_changes();
+
+-- =============================================================================
+-- PART 3: FUNCTIONS
+-- =============================================================================
+
+-- Returns the caller's organization when they may manage its invitations
+CREATE OR REPLACE FUNCTION require_invitation_access()
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_org_admin_direct() OR is_super_admin_direct()) THEN
+    RAISE EXCEPTION 'You do not have permission to manage invitations';
+  END IF;
+
+  RETURN get_user_organization_direct(auth.uid());
+END;
+$$;
+
+-- Marks overdue pending invitations as expired, in one organization or in
+-- all of them, and returns how many changed
+CREATE OR REPLACE FUNCTION expire_invitations(p_organization_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE invitations
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at < now()
+    AND (p_organization_id IS NULL OR organization_id = p_organization_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Issues a new token for a pending or expired invitation. The new expiry
+-- keeps the invitation's original validity period.
+CREATE OR REPLACE FUNCTION resend_invitation(p_invitation_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation invitations%ROWTYPE;
+BEGIN
+  SELECT *
+  INTO v_invitation
+  FROM invitations
+  WHERE id = p_invitation_id
+    AND organization_id = require_invitation_access()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status::text NOT IN ('pending', 'expired') THEN
+    RAISE EXCEPTION 'Only pending or expired invitations can be resent';
+  END IF;
+
+  UPDATE invitations
+  SET
+    token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    status = 'pending',
+    expires_at = now() + (expires_at - COALESCE(last_sent_at, created_at)),
+    last_sent_at = now(),
+    resend_count = resend_count + 1
+  WHERE id = p_invitation_id
+  RETURNING * INTO v_invitation;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'invitation', jsonb_build_object(
+      'token', v_invitation.token,
+      'email', v_invitation.email,
+      'organization_id', v_invitation.organization_id,
+      'role', v_invitation.role,
+      'region_id', v_invitation.region_id
+    )
+  );
+END;
+$$;
+
+-- The organization's invitations, newest first, each with its status history
+CREATE OR REPLACE FUNCTION get_invitations(p_status TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  role TEXT,
+  region_id UUID,
+  region_name TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  accepted_at TIMESTAMPTZ,
+  last_sent_at TIMESTAMPTZ,
+  resend_count INTEGER,
+  history JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT expire_invitations(require_invitation_access());
+
+  WITH access AS (
+    SELECT require_invitation_access() AS organization_id
+  )
+  SELECT
+    i.id,
+    i.email::text,
+    i.role::text,
+    i.region_id,
+    r.name,
+    i.status::text,
+    i.created_at,
+    i.expires_at,
+    i.accepted_at,
+    i.last_sent_at,
+    i.resend_count,
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'action', l.action,
+            'status', l.after_value ->> 'status',
+            'actor_id', l.actor_id,
+            'actor_first_name', p.first_name,
+            'actor_last_name', p.last_name,
+            'actor_email', p.email,
+            'created_at', l.created_at
+          )
+          ORDER BY l.created_at, l.id
+        )
+        FROM audit_log l
+        LEFT JOIN profiles p ON p.id = l.actor_id
+        WHERE l.organization_id = i.organization_id
+          AND l.target_type = 'invitation'
+          AND l.target_id = i.id
+      ),
+      '[]'::jsonb
+    )
+  FROM invitations i
+  JOIN access a ON a.organization_id = i.organization_id
+  LEFT JOIN regions r ON r.id = i.region_id
+  WHERE p_status IS NULL OR i.status::text = p_status
+  ORDER BY i.created_at DESC, i.id;
+$$;
+
+-- =============================================================================
+-- PART 4: SCHEDULED EXPIRY
+-- =============================================================================
+
+-- Projects without pg_cron rely on the sweep in get_invitations
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-invitations', '0 * * * *', 'SELECT public.expire_invitations()');
+  END IF;
+END;
+$$;
+
+-- =============================================================================
+-- PART 5: PERMISSIONS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION require_invitation_access() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_invitations(UUID) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION resend_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_invitations(TEXT) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,347 @@
+-- =============================================================================
+-- SHAREABLE JOIN LINKS
+-- =============================================================================
+
+-- Admin-generated links that let anyone with the link join the organization,
+-- for cohorts too large to invite one email at a time:
+-- * People who join through a link become users, optionally in the link's
+--   region. Links never grant admin roles, since anyone holding the URL can
+--   use them
+-- * Each link has an optional use limit, expiry and allowed email domain
+-- * Links are redeemed on the join-organization page, by signed-in users who
+--   do not belong to an organization yet
+-- * Revoking a link stops further use; people who already joined stay
+-- Links are created, revoked and redeemed through the functions below only.
+
+-- Start transaction
+BEGIN;
+
+-- =============================================================================
+-- PART 1: TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS join_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- The secret part of the link
+  code TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role = 'user'),
+  region_id UUID REFERENCES regions(id) ON DELETE SET NULL,
+  -- NULL means unlimited
+  max_uses INTEGER CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ,
+  -- Lowercase domain without "@"; NULL allows any email address
+  allowed_domain TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_join_links_organization
+  ON join_links(organization_id, created_at DESC);
+
+-- Who joined through which link; also stops a link being counted twice for
+-- the same person
+CREATE TABLE IF NOT EXISTS join_link_redemptions (
+  link_id UUID NOT NULL REFERENCES join_links(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (link_id, user_id)
+);
+
+ALTER TABLE join_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE join_link_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "join_links_read" ON join_links;
+CREATE POLICY "join_links_read" ON join_links
+  FOR SELECT
+  USING (
+    (is_org_admin_direct() OR is_super_admin_direct())
+    AND organization_id = get_user_organization_direct(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "join_link_redemptions_read" ON join_link_redemptions;
+CREATE POLICY "join_link_redemptions_read" ON join_link_redemptions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM join_links l
+      WHERE l.id = join_link_redemptions.link_id
+        AND (is_org_admin_direct() OR is_super_admin_direct())
+        AND l.organization_id = get_user_organization_direct(auth.uid())
+    )
+  );
+
+-- =============================================================================
+-- PART 2: MANAGING LINKS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION create_join_link(
+  p_role TEXT DEFAULT 'user',
+  p_region_id UUID DEFAULT NULL,
+  p_max_uses INTEGER DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_allowed_domain TEXT DEFAULT NULL
+)
+RETURNS join_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := require_invitation_access();
+  v_domain TEXT := NULLIF(lower(trim(both '@ ' FROM COALESCE(p_allowed_domain, ''))), '');
+  v_link join_links;
+BEGIN
+  IF p_role IS DISTINCT FROM 'user' THEN
+    RAISE EXCEPTION 'Join links cannot grant the role "%"', p_role;
+  END IF;
+
+  IF p_region_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM regions
+    WHERE id = p_region_id AND organization_id = v_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Region does not belong to this organization';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry must be in the future';
+  END IF;
+
+  IF v_domain IS NOT NULL AND v_domain !~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$' THEN
+    RAISE EXCEPTION '"%" is not a valid email domain', p_allowed_domain;
+  END IF;
+
+  INSERT INTO join_links (
+    organization_id,
+    code,
+    role,
+    region_id,
+    max_uses,
+    expires_at,
+    allowed_domain,
+    created_by
+  )
+  VALUES (
+    v_organization_id,
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    p_role,
+    p_region_id,
+    p_max_uses,
+    p_expires_at,
+    v_domain,
+    auth.uid()
+  )
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_join_link(p_link_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE join_links
+  SET revoked_at = now()
+  WHERE id = p_link_id
+    AND organization_id = require_invitation_access()
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join link not found or already revoked';
+  END IF;
+END;
+$$;
+
+-- The organization's links, newest first, with their region and creator
+CREATE OR REPLACE FUNCTION get_join_links()
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  role TEXT,
+  region_id UUID,
+  region_name TEXT,
+  max_uses INTEGER,
+  use_count INTEGER,
+  expires_at TIMESTAMPTZ,
+  allowed_domain TEXT,
+  created_by UUID,
+  creator_first_name TEXT,
+  creator_last_name TEXT,
+  creator_email TEXT,
+  created_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH access AS (
+    SELECT require_invitation_access() AS organization_id
+  )
+  SELECT
+    l.id,
+    l.code,
+    l.role,
+    l.region_id,
+    r.name,
+    l.max_uses,
+    l.use_count,
+    l.expires_at,
+    l.allowed_domain,
+    l.created_by,
+    p.first_name,
+    p.last_name,
+    p.email,
+    l.created_at,
+    l.revoked_at
+  FROM join_links l
+  JOIN access a ON a.organization_id = l.organization_id
+  LEFT JOIN regions r ON r.id = l.region_id
+  LEFT JOIN profiles p ON p.id = l.created_by
+  ORDER BY l.created_at DESC, l.id;
+$$;
+
+-- =============================================================================
+-- PART 3: REDEEMING LINKS
+-- =============================================================================
+
+-- Why a link cannot be used right now, or NULL when it can
+CREATE OR REPLACE FUNCTION join_link_problem(p_link join_links)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_link.id IS NULL THEN 'This join link is not valid.'
+    WHEN p_link.revoked_at IS NOT NULL THEN 'This join link has been revoked.'
+    WHEN p_link.expires_at IS NOT NULL AND p_link.expires_at <= now()
+      THEN 'This join link has expired.'
+    WHEN p_link.max_uses IS NOT NULL AND p_link.use_count >= p_link.max_uses
+      THEN 'This join link has reached its usage limit.'
+  END;
+$$;
+
+-- What joining through the link would mean, shown before the user joins
+CREATE OR REPLACE FUNCTION check_join_link(p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link join_links;
+  v_problem TEXT;
+BEGIN
+  SELECT * INTO v_link FROM join_links WHERE code = p_code;
+  v_problem := join_link_problem(v_link);
+
+  IF v_problem IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'reason', v_problem);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'reason', NULL,
+    'organization_name', (SELECT name FROM organizations WHERE id = v_link.organization_id),
+    'role', v_link.role,
+    'region_name', (SELECT name FROM regions WHERE id = v_link.region_id),
+    'allowed_domain', v_link.allowed_domain
+  );
+END;
+$$;
+
+-- Adds the calling user to the link's organization as a user in the link's
+-- region
+CREATE OR REPLACE FUNCTION redeem_join_link(p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_profile profiles%ROWTYPE;
+  v_link join_links;
+  v_problem TEXT;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Locked so concurrent redemptions cannot exceed max_uses
+  SELECT * INTO v_link FROM join_links WHERE code = p_code FOR UPDATE;
+  v_problem := join_link_problem(v_link);
+
+  IF v_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_problem;
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE id = v_caller FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your profile was not found';
+  END IF;
+
+  IF v_profile.organization_id = v_link.organization_id THEN
+    RAISE EXCEPTION 'You are already a member of this organization.';
+  END IF;
+
+  IF v_profile.organization_id IS NOT NULL THEN
+    RAISE EXCEPTION 'You already belong to another organization.';
+  END IF;
+
+  IF v_link.allowed_domain IS NOT NULL
+    AND lower(split_part(v_profile.email, '@', 2)) <> v_link.allowed_domain THEN
+    RAISE EXCEPTION 'This join link is only for @% email addresses.', v_link.allowed_domain;
+  END IF;
+
+  UPDATE profiles
+  SET
+    organization_id = v_link.organization_id,
+    role = v_link.role::user_role,
+    region_id = v_link.region_id,
+    updated_at = now()
+  WHERE id = v_caller;
+
+  INSERT INTO join_link_redemptions (link_id, user_id) VALUES (v_link.id, v_caller);
+
+  UPDATE join_links
+  SET use_count = use_count + 1
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'organization_id', v_link.organization_id,
+    'role', v_link.role
+  );
+END;
+$$;
+
+-- =============================================================================
+-- PART 4: PERMISSIONS
+-- =============================================================================
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON join_links FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON join_link_redemptions FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION join_link_problem(join_links) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION create_join_link(TEXT, UUID, INTEGER, TIMESTAMPTZ, TEXT)
+  TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_join_link(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_join_links() TO authenticated;
+GRANT EXECUTE ON FUNCTION check_join_link(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_join_link(TEXT) TO authenticated;
+
+COMMIT;